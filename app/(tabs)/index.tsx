@@ -4,89 +4,81 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import * as Location from 'expo-location';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { NotificationSystem, addAlertNotification } from '@/components/notification-system';
+import { NotificationSystem } from '@/components/notification-system';
+import {
+  WATER_STATUS_COLORS,
+  WATER_STATUS_ICONS,
+  WATER_STATUS_LABELS,
+  WaterQualityVerdict,
+} from '@/components/water-quality-verdict';
 import { useAuth } from '@/contexts/AuthContext';
-import { UserActions } from '@/lib/userActions';
+import { useStats } from '@/contexts/StatsContext';
+import { useThresholdProfile } from '@/hooks/use-threshold-profile';
+import { formatAge, formatDistance } from '@/lib/format';
+import { OutbreakSurveillance } from '@/lib/outbreak/surveillance';
+import { POINT_RULES } from '@/lib/points';
+import { createWaterQualityProvider } from '@/lib/waterQuality/feed';
+import { WaterQualityAlerts } from '@/lib/waterQuality/alerts';
+import { evaluateReadings, WaterParameter } from '@/lib/waterQuality/thresholds';
+import { WaterQualitySnapshot, WaterQualitySource } from '@/lib/waterQuality/types';
 import { router } from 'expo-router';
 import { TestDatabaseActions } from '@/components/TestDatabaseActions';
 
-interface UserStats {
-  points: number;
-  reportsSubmitted: number;
-  level: number;
-  streak: number;
-}
+const waterQualityProvider = createWaterQualityProvider();
 
-interface WaterQualityData {
-  ph: number;
-  turbidity: number;
-  temperature: number;
-  status: 'safe' | 'warning' | 'danger';
-  lastUpdated: string;
-}
+const SOURCE_LABELS: Record<WaterQualitySource, string> = {
+  paired: 'Your sensor',
+  community: 'Community sensor',
+  demo: 'Demo data',
+};
+
+// Reading ages are re-rendered this often
+const AGE_REFRESH_MS = 30000;
 
 export default function HomeScreen() {
-  const { user, userProfile, logout, refreshUserProfile } = useAuth();
-  const [userStats, setUserStats] = useState<UserStats>({
-    points: 0,
-    reportsSubmitted: 0,
-    level: 1,
-    streak: 0
-  });
+  const { user, logout } = useAuth();
+  const { stats: userStats } = useStats();
+  const thresholdProfile = useThresholdProfile();
   
-  const [waterQuality, setWaterQuality] = useState<WaterQualityData>({
-    ph: 7.4,
-    turbidity: 2.1,
-    temperature: 24.5,
-    status: 'safe',
-    lastUpdated: new Date().toLocaleString()
-  });
+  const [waterQuality, setWaterQuality] = useState<WaterQualitySnapshot | null>(null);
+  const [now, setNow] = useState(() => new Date());
 
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [showNotifications, setShowNotifications] = useState(false);
 
+  const latitude = location?.coords.latitude;
+  const longitude = location?.coords.longitude;
+  const assessment = waterQuality ? evaluateReadings(waterQuality.readings, thresholdProfile) : null;
+  const status = assessment?.status ?? 'unknown';
+
   useEffect(() => {
-    loadUserData();
     getCurrentLocation();
-    const cleanup = simulateWaterQualityData();
-    
-    return cleanup;
+    const interval = setInterval(() => setNow(new Date()), AGE_REFRESH_MS);
+    return () => clearInterval(interval);
   }, []);
 
-  // Update user stats when userProfile changes
   useEffect(() => {
-    if (userProfile) {
-      setUserStats({
-        points: userProfile.points,
-        reportsSubmitted: userProfile.reportsSubmitted,
-        level: userProfile.level,
-        streak: userProfile.streak
-      });
-    }
-  }, [userProfile]);
+    const origin = latitude !== undefined && longitude !== undefined ? { latitude, longitude } : null;
+    return waterQualityProvider.subscribe(origin, setWaterQuality);
+  }, [latitude, longitude]);
 
-  const loadUserData = async () => {
-    try {
-      // If we have userProfile from database, use that as primary source
-      if (userProfile) {
-        setUserStats({
-          points: userProfile.points,
-          reportsSubmitted: userProfile.reportsSubmitted,
-          level: userProfile.level,
-          streak: userProfile.streak
-        });
-      } else {
-        // Fallback to AsyncStorage for backward compatibility
-        const userData = await AsyncStorage.getItem('userStats');
-        if (userData) {
-          setUserStats(JSON.parse(userData));
-        }
-      }
-    } catch (error) {
-      console.error('Error loading user data:', error);
-    }
-  };
+  // Warn about possible outbreaks around the user whenever Home knows where they are
+  const userId = user?.$id;
+  useEffect(() => {
+    if (!userId || latitude === undefined || longitude === undefined) return;
+    OutbreakSurveillance.check({ latitude, longitude }).catch(() => {
+      // Logged by OutbreakSurveillance; tried again on the next visit
+    });
+  }, [userId, latitude, longitude]);
+
+  // Paired sensors are watched for alerts globally; a community sensor is
+  // only known while Home is showing it
+  useEffect(() => {
+    if (waterQuality?.source !== 'community') return;
+    WaterQualityAlerts.observeSnapshot(waterQuality).catch(error =>
+      console.error('Error evaluating water quality alert:', error)
+    );
+  }, [waterQuality]);
 
   const handleLogout = () => {
     Alert.alert(
@@ -110,33 +102,22 @@ export default function HomeScreen() {
     );
   };
 
-  const handleQuickAction = async (action: string) => {
-    if (!user) return;
-
-    try {
-      switch (action) {
-        case 'sensors':
-          await UserActions.connectSensor(user.$id);
-          await refreshUserProfile();
-          router.push('/(tabs)/sensors');
-          break;
-        case 'health':
-          await UserActions.completeHealthCheck(user.$id);
-          await refreshUserProfile();
-          router.push('/(tabs)/symptoms');
-          break;
-        case 'report':
-          await UserActions.submitReport(user.$id);
-          await refreshUserProfile();
-          router.push('/(tabs)/report');
-          break;
-        case 'map':
-          router.push('/(tabs)/map');
-          break;
-      }
-    } catch (error) {
-      console.error('Error handling quick action:', error);
-      Alert.alert('Error', 'Failed to complete action. Please try again.');
+  // Quick actions only navigate; points are awarded when the action is
+  // actually completed on the destination screen
+  const handleQuickAction = (action: string) => {
+    switch (action) {
+      case 'sensors':
+        router.push('/(tabs)/sensors');
+        break;
+      case 'health':
+        router.push('/(tabs)/symptoms');
+        break;
+      case 'report':
+        router.push('/(tabs)/report');
+        break;
+      case 'map':
+        router.push('/(tabs)/map');
+        break;
     }
   };
 
@@ -155,60 +136,10 @@ export default function HomeScreen() {
     }
   };
 
-  const simulateWaterQualityData = () => {
-    // Simulate real-time water quality data updates
-    const interval = setInterval(() => {
-      const ph = 6.5 + Math.random() * 2; // pH between 6.5-8.5
-      const turbidity = Math.random() * 5; // Turbidity 0-5 NTU
-      const temperature = 20 + Math.random() * 15; // Temperature 20-35°C
-      
-      let status: 'safe' | 'warning' | 'danger' = 'safe';
-      if (ph < 6.5 || ph > 8.5 || turbidity > 4) {
-        status = 'danger';
-        // Add alert notification for dangerous water quality
-        addAlertNotification(
-          '⚠️ Water Quality Alert',
-          `Dangerous water quality detected! pH: ${ph.toFixed(1)}, Turbidity: ${turbidity.toFixed(1)} NTU. Please avoid consumption.`,
-          'error'
-        );
-      } else if (ph < 7 || ph > 8 || turbidity > 2) {
-        status = 'warning';
-        // Add warning notification
-        addAlertNotification(
-          '⚠️ Water Quality Warning',
-          `Water quality parameters are outside normal range. pH: ${ph.toFixed(1)}, Turbidity: ${turbidity.toFixed(1)} NTU.`,
-          'warning'
-        );
-      }
-
-      setWaterQuality({
-        ph: parseFloat(ph.toFixed(1)),
-        turbidity: parseFloat(turbidity.toFixed(1)),
-        temperature: parseFloat(temperature.toFixed(1)),
-        status,
-        lastUpdated: new Date().toLocaleString()
-      });
-    }, 10000); // Update every 10 seconds
-
-    return () => clearInterval(interval);
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'safe': return '#4CAF50';
-      case 'warning': return '#FF9800';
-      case 'danger': return '#F44336';
-      default: return '#757575';
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'safe': return 'checkmark.circle.fill';
-      case 'warning': return 'exclamationmark.triangle.fill';
-      case 'danger': return 'xmark.circle.fill';
-      default: return 'questionmark.circle.fill';
-    }
+  // Metric values are coloured by their own verdict
+  const getMetricColor = (parameter: WaterParameter) => {
+    const verdict = assessment?.verdicts[parameter]?.verdict;
+    return verdict ? WATER_STATUS_COLORS[verdict] : '#2196F3';
   };
 
   return (
@@ -223,6 +154,13 @@ export default function HomeScreen() {
             )}
           </View>
           <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={styles.pointsBadge}
+              onPress={() => router.push('/(tabs)/rewards')}
+            >
+              <IconSymbol name="star.fill" size={16} color="#FFD700" />
+              <ThemedText style={styles.pointsBadgeText}>{userStats.points}</ThemedText>
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.notificationButton}
               onPress={() => setShowNotifications(true)}
@@ -240,39 +178,64 @@ export default function HomeScreen() {
       </ThemedView>
 
       {/* Water Quality Status Card */}
-      <ThemedView style={[styles.card, { borderLeftColor: getStatusColor(waterQuality.status) }]}>
+      <ThemedView style={[styles.card, { borderLeftColor: WATER_STATUS_COLORS[status] }]}>
         <View style={styles.cardHeader}>
           <IconSymbol 
-            name={getStatusIcon(waterQuality.status)} 
+            name={WATER_STATUS_ICONS[status]} 
             size={32} 
-            color={getStatusColor(waterQuality.status)} 
+            color={WATER_STATUS_COLORS[status]} 
           />
           <View style={styles.cardHeaderText}>
             <ThemedText type="defaultSemiBold" style={{ color: '#333' }}>Water Quality Status</ThemedText>
-            <ThemedText style={[styles.statusText, { color: getStatusColor(waterQuality.status) }]}>
-              {waterQuality.status.toUpperCase()}
+            <ThemedText style={[styles.statusText, { color: WATER_STATUS_COLORS[status] }]}>
+              {WATER_STATUS_LABELS[status].toUpperCase()}
             </ThemedText>
           </View>
         </View>
         
-        <View style={styles.metricsContainer}>
-          <View style={styles.metric}>
-            <ThemedText type="defaultSemiBold" style={{ color: '#333' }}>pH Level</ThemedText>
-            <ThemedText style={styles.metricValue}>{waterQuality.ph}</ThemedText>
-          </View>
-          <View style={styles.metric}>
-            <ThemedText type="defaultSemiBold" style={{ color: '#333' }}>Turbidity</ThemedText>
-            <ThemedText style={styles.metricValue}>{waterQuality.turbidity} NTU</ThemedText>
-          </View>
-          <View style={styles.metric}>
-            <ThemedText type="defaultSemiBold" style={{ color: '#333' }}>Temperature</ThemedText>
-            <ThemedText style={styles.metricValue}>{waterQuality.temperature}°C</ThemedText>
-          </View>
-        </View>
-        
-        <ThemedText style={styles.lastUpdated}>
-          Last updated: {waterQuality.lastUpdated}
-        </ThemedText>
+        {waterQuality ? (
+          <>
+            <View style={styles.metricsContainer}>
+              <View style={styles.metric}>
+                <ThemedText type="defaultSemiBold" style={{ color: '#333' }}>pH Level</ThemedText>
+                <ThemedText style={[styles.metricValue, { color: getMetricColor('ph') }]}>
+                  {waterQuality.readings.ph ? waterQuality.readings.ph.value.toFixed(1) : '–'}
+                </ThemedText>
+              </View>
+              <View style={styles.metric}>
+                <ThemedText type="defaultSemiBold" style={{ color: '#333' }}>Turbidity</ThemedText>
+                <ThemedText style={[styles.metricValue, { color: getMetricColor('turbidity') }]}>
+                  {waterQuality.readings.turbidity ? `${waterQuality.readings.turbidity.value.toFixed(1)} NTU` : '–'}
+                </ThemedText>
+              </View>
+              <View style={styles.metric}>
+                <ThemedText type="defaultSemiBold" style={{ color: '#333' }}>Temperature</ThemedText>
+                <ThemedText style={[styles.metricValue, { color: getMetricColor('temperature') }]}>
+                  {waterQuality.readings.temperature ? `${waterQuality.readings.temperature.value.toFixed(1)}°C` : '–'}
+                </ThemedText>
+              </View>
+            </View>
+
+            {assessment && <WaterQualityVerdict assessment={assessment} />}
+
+            <ThemedText style={styles.sourceText}>
+              {SOURCE_LABELS[waterQuality.source]}: {waterQuality.sensorName}
+              {waterQuality.distanceMeters !== null ? ` • ${formatDistance(waterQuality.distanceMeters)} away` : ''}
+            </ThemedText>
+            <ThemedText style={styles.lastUpdated}>
+              Last reading {formatAge(waterQuality.updatedAt, now)}
+            </ThemedText>
+          </>
+        ) : (
+          <>
+            <ThemedText style={styles.noDataText}>
+              No sensor near you has reported yet. Pair a sensor to see the quality of your water.
+            </ThemedText>
+            <TouchableOpacity style={styles.pairButton} onPress={() => router.push('/(tabs)/sensors')}>
+              <ThemedText style={styles.pairButtonText}>Pair a Sensor</ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
       </ThemedView>
 
       {/* User Stats Card */}
@@ -312,7 +275,7 @@ export default function HomeScreen() {
           >
             <IconSymbol name="sensor.fill" size={24} color="#2196F3" />
             <ThemedText style={styles.actionText}>Check Sensors</ThemedText>
-            <ThemedText style={styles.actionSubtext}>+10 points</ThemedText>
+            <ThemedText style={styles.actionSubtext}>+{POINT_RULES.sensor_connected.points} points</ThemedText>
           </TouchableOpacity>
           
           <TouchableOpacity
@@ -321,7 +284,7 @@ export default function HomeScreen() {
           >
             <IconSymbol name="heart.fill" size={24} color="#E91E63" />
             <ThemedText style={styles.actionText}>Health Check</ThemedText>
-            <ThemedText style={styles.actionSubtext}>+15 points</ThemedText>
+            <ThemedText style={styles.actionSubtext}>+{POINT_RULES.health_check.points} points</ThemedText>
           </TouchableOpacity>
           
           <TouchableOpacity
@@ -330,7 +293,7 @@ export default function HomeScreen() {
           >
             <IconSymbol name="exclamationmark.triangle.fill" size={24} color="#FF5722" />
             <ThemedText style={styles.actionText}>Report Issue</ThemedText>
-            <ThemedText style={styles.actionSubtext}>+25 points</ThemedText>
+            <ThemedText style={styles.actionSubtext}>+{POINT_RULES.report_low.points} points</ThemedText>
           </TouchableOpacity>
           
           <TouchableOpacity
@@ -384,8 +347,23 @@ const styles = StyleSheet.create({
   },
   headerButtons: {
     flexDirection: 'row',
+    alignItems: 'center',
     gap: 8,
   },
+  pointsBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  pointsBadgeText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   notificationButton: {
     padding: 8,
     borderRadius: 20,
@@ -459,6 +437,30 @@ const styles = StyleSheet.create({
     color: '#757575',
     textAlign: 'center',
   },
+  sourceText: {
+    fontSize: 13,
+    color: '#555',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  noDataText: {
+    fontSize: 14,
+    color: '#757575',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  pairButton: {
+    alignSelf: 'center',
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  pairButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
   levelText: {
     color: '#FFD700',
     fontWeight: 'bold',
@@ -2,6 +2,7 @@ import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Location from "expo-location";
+import { useLocalSearchParams } from "expo-router";
 import { useEffect, useState } from "react";
 import {
   Alert,
@@ -12,7 +13,10 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
-import MapView, { Marker } from "react-native-maps";
+import MapView, { Circle, Marker } from "react-native-maps";
+import { describeOutbreak, OutbreakSurveillance } from "@/lib/outbreak/surveillance";
+import { OutbreakSignal } from "@/lib/outbreak/types";
+import { SyncQueue } from "@/lib/syncQueue";
 
 interface ProblemArea {
   id: string;
@@ -38,12 +42,6 @@ interface AuthorityVerification {
   timestamp: Date;
 }
 
-const AUTHORITY_SECRET_KEYS = [
-  "WATER_DEPT_2024_SECURE",
-  "MUNICIPAL_AUTH_KEY_2024",
-  "HEALTH_DEPT_VERIFY_2024",
-];
-
 export default function MapScreen() {
   const [problemAreas, setProblemAreas] = useState<ProblemArea[]>([]);
   const [selectedArea, setSelectedArea] = useState<ProblemArea | null>(null);
@@ -55,6 +53,11 @@ export default function MapScreen() {
   });
   const [userLocation, setUserLocation] =
     useState<Location.LocationObject | null>(null);
+  const [outbreaks, setOutbreaks] = useState<OutbreakSignal[]>([]);
+  // Set when an outbreak notification opened this screen
+  const { outbreak: openedOutbreakId } = useLocalSearchParams<{
+    outbreak?: string;
+  }>();
 
   useEffect(() => {
     getCurrentLocation();
@@ -75,6 +78,11 @@ export default function MapScreen() {
 
       const location = await Location.getCurrentPositionAsync({});
       setUserLocation(location);
+      OutbreakSurveillance.check(location.coords)
+        .then(setOutbreaks)
+        .catch(() => {
+          // Logged by OutbreakSurveillance; the map still shows reports
+        });
     } catch (error) {
       console.error("Error getting location:", error);
     }
@@ -138,7 +146,11 @@ export default function MapScreen() {
         }
       });
 
-      const areas = Array.from(areaMap.values());
+      // An area is verified once the server has verified all its reports
+      const areas = Array.from(areaMap.values()).map((area) => ({
+        ...area,
+        isVerified: area.verifiedCount === area.reportCount,
+      }));
       setProblemAreas(areas);
       await AsyncStorage.setItem("problemAreas", JSON.stringify(areas));
     } catch (error) {
@@ -180,28 +192,6 @@ export default function MapScreen() {
       return;
     }
 
-    if (!AUTHORITY_SECRET_KEYS.includes(verificationForm.secretKey.trim())) {
-      Alert.alert(
-        "Invalid Secret Key",
-        "The provided secret key is not valid."
-      );
-      return;
-    }
-
-    const updatedAreas = problemAreas.map((area) => {
-      if (area.id === selectedArea.id) {
-        return {
-          ...area,
-          isVerified: true,
-          lastUpdated: new Date(),
-        };
-      }
-      return area;
-    });
-
-    setProblemAreas(updatedAreas);
-    await AsyncStorage.setItem("problemAreas", JSON.stringify(updatedAreas));
-
     const verification: AuthorityVerification = {
       areaId: selectedArea.id,
       secretKey: verificationForm.secretKey,
@@ -217,12 +207,24 @@ export default function MapScreen() {
     verifications.push(verification);
     await AsyncStorage.setItem("verifications", JSON.stringify(verifications));
 
+    // Mark the area's reports as verified on the server (queued while
+    // offline). The reports function checks the key; one it does not
+    // accept leaves the reports as they were.
+    await SyncQueue.enqueue({
+      type: "verifyArea",
+      payload: {
+        areaId: selectedArea.id,
+        reportIds: selectedArea.reports,
+        authorityKey: verificationForm.secretKey.trim(),
+      },
+    });
+
     setShowVerificationModal(false);
     setSelectedArea(null);
 
     Alert.alert(
-      "Area Verified!",
-      `Thank you ${verificationForm.officialName}.`
+      "Verification Sent",
+      `Thank you ${verificationForm.officialName}. The area's reports are marked verified once your key is confirmed.`
     );
   };
 
@@ -261,6 +263,16 @@ export default function MapScreen() {
             title="You are here"
             pinColor="blue"
           />
+          {outbreaks.map((outbreak) => (
+            <Circle
+              key={outbreak.id}
+              center={outbreak.center}
+              // Reaches past the outermost district centre to cover it
+              radius={(outbreak.radiusKm + 5) * 1000}
+              strokeColor="rgba(244, 67, 54, 0.8)"
+              fillColor="rgba(244, 67, 54, 0.2)"
+            />
+          ))}
           {problemAreas.map((area) => (
             <Marker
               key={area.id}
@@ -285,6 +297,39 @@ export default function MapScreen() {
 
       {/* Problem Areas List */}
       <ScrollView style={styles.problemAreasList}>
+        {outbreaks.length > 0 && (
+          <>
+            <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
+              Possible Outbreaks
+            </ThemedText>
+            {outbreaks.map((outbreak) => (
+              <View
+                key={outbreak.id}
+                style={[
+                  styles.outbreakItem,
+                  outbreak.id === openedOutbreakId && styles.outbreakItemOpened,
+                ]}
+              >
+                <ThemedText type="defaultSemiBold" style={{ color: "#B71C1C" }}>
+                  🦠 {outbreak.evidence.districts.length === 1
+                    ? "One district"
+                    : `${outbreak.evidence.districts.length} districts`}{" "}
+                  around {outbreak.center.latitude.toFixed(2)},{" "}
+                  {outbreak.center.longitude.toFixed(2)}
+                </ThemedText>
+                <ThemedText style={[styles.areaDescription, { color: "#666" }]}>
+                  {describeOutbreak(outbreak)}.
+                </ThemedText>
+                <ThemedText style={styles.areaLocation}>
+                  {outbreak.relativeRisk.toFixed(1)}× the usual rate · p ={" "}
+                  {outbreak.pValue.toFixed(2)} · since{" "}
+                  {new Date(outbreak.windowStart).toLocaleDateString()}
+                </ThemedText>
+              </View>
+            ))}
+          </>
+        )}
+
         <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
           Reported Problem Areas
         </ThemedText>
@@ -383,6 +428,15 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     borderLeftWidth: 4,
   },
+  outbreakItem: {
+    backgroundColor: "#FFEBEE",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: "#F44336",
+  },
+  outbreakItemOpened: { borderWidth: 2, borderColor: "#F44336" },
   areaHeader: { flexDirection: "row", justifyContent: "space-between" },
   areaDescription: { marginBottom: 8 },
   areaStatus: { fontSize: 14, marginBottom: 8 },
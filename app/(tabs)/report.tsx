@@ -1,31 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, TouchableOpacity, Alert, Modal, TextInput, Image } from 'react-native';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, Alert, Modal, TextInput, Image, ActivityIndicator } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import * as Location from 'expo-location';
 import { Camera } from 'expo-camera';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { addRewardNotification, addAlertNotification } from '@/components/notification-system';
-
-interface WaterReport {
-  id: string;
-  type: 'contamination' | 'shortage' | 'infrastructure' | 'quality' | 'other';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  title: string;
-  description: string;
-  location: {
-    latitude: number;
-    longitude: number;
-    address?: string;
-  };
-  photos: string[];
-  timestamp: Date;
-  status: 'pending' | 'verified' | 'resolved' | 'rejected';
-  reporterPoints: number;
-  upvotes: number;
-  downvotes: number;
-}
+import { EvidenceCamera, CapturedPhoto } from '@/components/evidence-camera';
+import { useAuth } from '@/contexts/AuthContext';
+import { PhotoEvidence, VoteType, WaterReport } from '@/lib/appwrite';
+import { applyVote, NewWaterReport, ReportsService } from '@/lib/reports';
+import { PhotoService } from '@/lib/photos';
+import { POINT_RULES } from '@/lib/points';
+import { UserActions } from '@/lib/userActions';
+import { SyncQueue, getPendingPhotoIds, getPendingReportIds, getPendingReports } from '@/lib/syncQueue';
+import { ID } from 'appwrite';
 
 interface ReportCategory {
   id: string;
@@ -36,6 +24,9 @@ interface ReportCategory {
   examples: string[];
 }
 
+// Photos of evidence that can be attached to a single report
+const MAX_PHOTOS_PER_REPORT = 3;
+
 const REPORT_CATEGORIES: ReportCategory[] = [
   {
     id: 'contamination',
@@ -80,6 +71,7 @@ const REPORT_CATEGORIES: ReportCategory[] = [
 ];
 
 export default function ReportScreen() {
+  const { user } = useAuth();
   const [reports, setReports] = useState<WaterReport[]>([]);
   const [showReportModal, setShowReportModal] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<ReportCategory | null>(null);
@@ -90,13 +82,21 @@ export default function ReportScreen() {
   });
   const [currentLocation, setCurrentLocation] = useState<Location.LocationObject | null>(null);
   const [showCamera, setShowCamera] = useState(false);
-  const [photos, setPhotos] = useState<string[]>([]);
+  const [photos, setPhotos] = useState<CapturedPhoto[]>([]);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [pendingReportIds, setPendingReportIds] = useState<Set<string>>(new Set());
+  const [pendingPhotoIds, setPendingPhotoIds] = useState<Set<string>>(new Set());
+  const [myVotes, setMyVotes] = useState<Record<string, VoteType>>({});
 
   useEffect(() => {
-    loadReports();
     getCurrentLocation();
     requestPermissions();
+
+    // Track which reports and photos are still waiting in the offline outbox
+    return SyncQueue.subscribe(pending => {
+      setPendingReportIds(getPendingReportIds(pending));
+      setPendingPhotoIds(getPendingPhotoIds(pending));
+    });
   }, []);
 
   const requestPermissions = async () => {
@@ -114,70 +114,37 @@ export default function ReportScreen() {
     }
   };
 
-  const loadReports = async () => {
+  const loadReports = useCallback(async () => {
     try {
-      const savedReports = await AsyncStorage.getItem('waterReports');
-      if (savedReports) {
-        const parsedReports = JSON.parse(savedReports).map((report: any) => ({
-          ...report,
-          timestamp: new Date(report.timestamp)
-        }));
-        setReports(parsedReports);
-      } else {
-        // Load some sample reports
-        const sampleReports: WaterReport[] = [
-          {
-            id: 'report_001',
-            type: 'contamination',
-            severity: 'high',
-            title: 'Sewage leak near water source',
-            description: 'There is a sewage leak contaminating the local water supply. The water has a foul smell and appears dirty.',
-            location: {
-              latitude: 28.6139,
-              longitude: 77.2090,
-              address: 'Connaught Place, New Delhi'
-            },
-            photos: [],
-            timestamp: new Date(Date.now() - 86400000), // 1 day ago
-            status: 'pending',
-            reporterPoints: 50,
-            upvotes: 12,
-            downvotes: 1
-          },
-          {
-            id: 'report_002',
-            type: 'shortage',
-            severity: 'medium',
-            title: 'Water supply disruption',
-            description: 'No water supply for the past 3 days in our area. Many families are affected.',
-            location: {
-              latitude: 28.5355,
-              longitude: 77.3910,
-              address: 'Noida, Uttar Pradesh'
-            },
-            photos: [],
-            timestamp: new Date(Date.now() - 172800000), // 2 days ago
-            status: 'verified',
-            reporterPoints: 30,
-            upvotes: 8,
-            downvotes: 0
-          }
-        ];
-        setReports(sampleReports);
-        await AsyncStorage.setItem('waterReports', JSON.stringify(sampleReports));
+      // Show whatever is cached straight away, then refresh from the server
+      const cachedReports = await ReportsService.getCachedReports();
+      setReports(cachedReports);
+
+      if (user) {
+        setMyVotes(await ReportsService.getMyVotes(user.$id));
+        await ReportsService.migrateLocalReports();
       }
+
+      // Reports still in the outbox are not on the server yet; keep them
+      // on top of the server list, which wins for everything else
+      const remoteReports = await ReportsService.listReports();
+      const unsyncedReports = getPendingReports(await SyncQueue.getPending())
+        .filter(pendingReport => !remoteReports.some(report => report.id === pendingReport.id));
+      const mergedReports = [...unsyncedReports, ...remoteReports];
+      setReports(mergedReports);
+      await ReportsService.cacheReports(mergedReports);
     } catch (error) {
       console.error('Error loading reports:', error);
     }
-  };
+  }, [user]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
 
   const saveReports = async (updatedReports: WaterReport[]) => {
-    try {
-      await AsyncStorage.setItem('waterReports', JSON.stringify(updatedReports));
-      setReports(updatedReports);
-    } catch (error) {
-      console.error('Error saving reports:', error);
-    }
+    setReports(updatedReports);
+    await ReportsService.cacheReports(updatedReports);
   };
 
   const startReport = (category: ReportCategory) => {
@@ -187,6 +154,13 @@ export default function ReportScreen() {
     setPhotos([]);
   };
 
+  const openCamera = () => {
+    if (hasPermission === false) {
+      Alert.alert('Permission Required', 'Camera and location access are needed to attach photo evidence.');
+    }
+    setShowCamera(true);
+  };
+
   const submitReport = async () => {
     if (!selectedCategory || !reportForm.title.trim() || !reportForm.description.trim()) {
       Alert.alert('Incomplete Form', 'Please fill in all required fields.');
@@ -198,9 +172,37 @@ export default function ReportScreen() {
       return;
     }
 
-    const newReport: WaterReport = {
-      id: `report_${Date.now()}`,
-      type: selectedCategory.id as any,
+    if (!user) {
+      Alert.alert('Login Required', 'Please login to submit a report.');
+      return;
+    }
+
+    const reportId = ID.unique();
+
+    // Compress each photo and queue its upload ahead of the report itself,
+    // which only stores the storage file IDs
+    const photoEvidence: PhotoEvidence[] = [];
+    try {
+      for (const photo of photos) {
+        const fileId = ID.unique();
+        const localUri = await PhotoService.compress(photo.uri);
+        await SyncQueue.enqueue({ type: 'uploadPhoto', payload: { reportId, fileId, localUri } });
+        photoEvidence.push({
+          fileId,
+          capturedAt: photo.capturedAt,
+          latitude: photo.latitude,
+          longitude: photo.longitude,
+          accuracy: photo.accuracy
+        });
+      }
+    } catch (error) {
+      console.error('Error preparing report photos:', error);
+      Alert.alert('Photo Error', 'Some photos could not be processed and will not be attached.');
+    }
+
+    const reportData: NewWaterReport = {
+      reporterId: user.$id,
+      type: selectedCategory.id as WaterReport['type'],
       severity: reportForm.severity,
       title: reportForm.title.trim(),
       description: reportForm.description.trim(),
@@ -209,19 +211,26 @@ export default function ReportScreen() {
         longitude: currentLocation.coords.longitude,
         address: 'Current Location'
       },
-      photos,
-      timestamp: new Date(),
-      status: 'pending',
-      reporterPoints: calculatePoints(reportForm.severity),
-      upvotes: 0,
-      downvotes: 0
+      photos: photoEvidence.map(evidence => evidence.fileId),
+      photoEvidence,
+      reporterPoints: POINT_RULES[`report_${reportForm.severity}`].points
     };
 
+    // Reports go through the offline outbox: they show up immediately and
+    // reach the server as soon as the device is online
+    const queued = await SyncQueue.enqueue({
+      type: 'submitReport',
+      payload: { reportId, report: reportData, timestamp: new Date().toISOString() }
+    });
+    const [newReport] = getPendingReports([queued]);
+
     const updatedReports = [newReport, ...reports];
     await saveReports(updatedReports);
 
-    // Award points to user
-    await awardPoints(newReport.reporterPoints);
+    // Points are awarded through the ledger once the outbox reaches the
+    // server; the report ID keeps a replayed award from counting twice
+    await UserActions.queueAward(`report_${reportForm.severity}`, reportId);
+    await UserActions.recordActivity();
 
     setShowReportModal(false);
     setSelectedCategory(null);
@@ -233,44 +242,19 @@ export default function ReportScreen() {
     );
   };
 
-  const calculatePoints = (severity: string) => {
-    switch (severity) {
-      case 'critical': return 100;
-      case 'high': return 75;
-      case 'medium': return 50;
-      case 'low': return 25;
-      default: return 25;
-    }
-  };
+  // One vote per report: tapping the other button switches the vote,
+  // tapping the same one again does nothing
+  const voteOnReport = async (reportId: string, voteType: VoteType) => {
+    if (!user) return;
+    const previous = myVotes[reportId];
+    if (previous === voteType) return;
 
-  const awardPoints = async (points: number) => {
-    try {
-      const currentStats = await AsyncStorage.getItem('userStats');
-      const stats = currentStats ? JSON.parse(currentStats) : { points: 0, reportsSubmitted: 0, level: 1, streak: 0 };
-      
-      stats.points += points;
-      stats.reportsSubmitted += 1;
-      stats.level = Math.floor(stats.points / 500) + 1;
-      
-      await AsyncStorage.setItem('userStats', JSON.stringify(stats));
-    } catch (error) {
-      console.error('Error awarding points:', error);
-    }
-  };
+    const updatedVotes = { ...myVotes, [reportId]: voteType };
+    setMyVotes(updatedVotes);
+    await ReportsService.saveMyVotes(user.$id, updatedVotes);
 
-  const voteOnReport = async (reportId: string, voteType: 'up' | 'down') => {
-    const updatedReports = reports.map(report => {
-      if (report.id === reportId) {
-        return {
-          ...report,
-          upvotes: voteType === 'up' ? report.upvotes + 1 : report.upvotes,
-          downvotes: voteType === 'down' ? report.downvotes + 1 : report.downvotes
-        };
-      }
-      return report;
-    });
-    
-    await saveReports(updatedReports);
+    await saveReports(reports.map(report => (report.id === reportId ? applyVote(report, previous, voteType) : report)));
+    await SyncQueue.enqueue({ type: 'voteOnReport', payload: { reportId, voteType } });
   };
 
   const getSeverityColor = (severity: string) => {
@@ -352,6 +336,12 @@ export default function ReportScreen() {
                     <IconSymbol name={getStatusIcon(report.status) as any} size={12} color="white" />
                     <ThemedText style={styles.statusText}>{report.status}</ThemedText>
                   </View>
+                  {pendingReportIds.has(report.id) && (
+                    <View style={styles.pendingSyncBadge}>
+                      <IconSymbol name="arrow.triangle.2.circlepath" size={12} color="white" />
+                      <ThemedText style={styles.statusText}>pending sync</ThemedText>
+                    </View>
+                  )}
                 </View>
               </View>
             </View>
@@ -359,6 +349,22 @@ export default function ReportScreen() {
             <ThemedText style={styles.reportDescription} numberOfLines={2}>
               {report.description}
             </ThemedText>
+
+            {report.photos.length > 0 && (
+              <View style={styles.photoRow}>
+                {report.photos.map((fileId) => pendingPhotoIds.has(fileId) ? (
+                  <View key={fileId} style={[styles.photoThumbnail, styles.photoPlaceholder]}>
+                    <ActivityIndicator size="small" color="#999" />
+                  </View>
+                ) : (
+                  <Image
+                    key={fileId}
+                    source={{ uri: PhotoService.getThumbnailUrl(fileId) }}
+                    style={styles.photoThumbnail}
+                  />
+                ))}
+              </View>
+            )}
             
             <View style={styles.reportFooter}>
               <ThemedText style={styles.reportTime}>
@@ -367,7 +373,7 @@ export default function ReportScreen() {
               
               <View style={styles.voteButtons}>
                 <TouchableOpacity 
-                  style={styles.voteButton}
+                  style={[styles.voteButton, myVotes[report.id] === 'up' && styles.voteButtonSelected]}
                   onPress={() => voteOnReport(report.id, 'up')}
                 >
                   <IconSymbol name="hand.thumbsup.fill" size={16} color="#4CAF50" />
@@ -375,7 +381,7 @@ export default function ReportScreen() {
                 </TouchableOpacity>
                 
                 <TouchableOpacity 
-                  style={styles.voteButton}
+                  style={[styles.voteButton, myVotes[report.id] === 'down' && styles.voteButtonSelected]}
                   onPress={() => voteOnReport(report.id, 'down')}
                 >
                   <IconSymbol name="hand.thumbsdown.fill" size={16} color="#F44336" />
@@ -465,6 +471,19 @@ export default function ReportScreen() {
               </View>
             </View>
 
+            {/* Photo Evidence */}
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>Photos ({photos.length}/{MAX_PHOTOS_PER_REPORT})</ThemedText>
+              <View style={styles.photoRow}>
+                {photos.map((photo) => (
+                  <Image key={photo.uri} source={{ uri: photo.uri }} style={styles.photoThumbnail} />
+                ))}
+                <TouchableOpacity style={[styles.photoThumbnail, styles.photoPlaceholder]} onPress={openCamera}>
+                  <IconSymbol name="camera.fill" size={24} color="#FF5722" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
             {/* Location Info */}
             <View style={styles.inputGroup}>
               <ThemedText style={styles.inputLabel}>Location</ThemedText>
@@ -483,6 +502,17 @@ export default function ReportScreen() {
             </TouchableOpacity>
           </View>
         </ScrollView>
+
+        <EvidenceCamera
+          visible={showCamera}
+          maxPhotos={MAX_PHOTOS_PER_REPORT}
+          initialPhotos={photos}
+          onDone={(capturedPhotos) => {
+            setPhotos(capturedPhotos);
+            setShowCamera(false);
+          }}
+          onCancel={() => setShowCamera(false)}
+        />
       </Modal>
     </ScrollView>
   );
@@ -589,11 +619,35 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     textTransform: 'uppercase',
   },
+  pendingSyncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    gap: 4,
+    backgroundColor: '#607D8B',
+  },
   reportDescription: {
     color: '#666',
     lineHeight: 18,
     marginBottom: 12,
   },
+  photoRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  photoThumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#e0e0e0',
+  },
+  photoPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   reportFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -612,6 +666,12 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     gap: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  voteButtonSelected: {
+    backgroundColor: '#E3F2FD',
   },
   voteCount: {
     fontSize: 12,
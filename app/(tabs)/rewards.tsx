@@ -1,341 +1,193 @@
 
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, TouchableOpacity, Alert, Modal } from 'react-native';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, Alert, Modal, ActivityIndicator, Switch } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VoucherDetails, VOUCHER_STATUS_COLORS } from '@/components/voucher-details';
 import { useAuth } from '@/contexts/AuthContext';
+import { useStats } from '@/contexts/StatsContext';
+import {
+  ACHIEVEMENTS,
+  AchievementDefinition,
+  AchievementService,
+  getAchievementPoints,
+  getAchievementProgress,
+  UserCounters,
+} from '@/lib/achievements';
+import { RewardCatalogItem, Voucher } from '@/lib/appwrite';
+import {
+  ANONYMOUS_NAME,
+  isScopeAvailable,
+  LeaderboardEntry,
+  LeaderboardScope,
+  LeaderboardService,
+  LeaderboardWindow,
+} from '@/lib/leaderboard';
+import { POINTS_PER_LEVEL } from '@/lib/points';
+import { getVoucherStatus, isRewardAvailable, RewardsService } from '@/lib/rewards';
+import { MAX_STREAK_FREEZES, STREAK_FREEZE_COST, StreakService } from '@/lib/streak';
+import { ID } from 'appwrite';
 
-interface UserStats {
-  points: number;
-  reportsSubmitted: number;
-  level: number;
-  streak: number;
-  totalEarned: number;
-  badges: string[];
-  achievements: Achievement[];
-}
-
-interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
+// A catalogue achievement as shown to the user
+interface Achievement extends AchievementDefinition {
   points: number;
   unlocked: boolean;
   unlockedDate?: Date;
-  category: 'reporting' | 'health' | 'community' | 'verification' | 'special';
+  // Fraction of the way to unlocking, from 0 to 1
+  progress: number;
 }
 
-interface Reward {
-  id: string;
-  name: string;
-  description: string;
-  cost: number;
-  category: 'vouchers' | 'services' | 'products' | 'donations';
-  icon: string;
-  available: boolean;
-  claimed: boolean;
-  expiryDate?: Date;
-}
+// Streak freezes are sold alongside the catalogue but paid for through
+// the streak rules, so they never run out of stock or issue a voucher
+const STREAK_FREEZE_REWARD: RewardCatalogItem = {
+  $id: 'streak_freeze',
+  name: 'Streak Freeze',
+  description: `Keeps your streak alive through one missed day (hold up to ${MAX_STREAK_FREEZES})`,
+  cost: STREAK_FREEZE_COST,
+  category: 'services',
+  icon: 'flame.fill',
+  stock: Number.POSITIVE_INFINITY,
+  expiryDate: null,
+  active: true
+};
 
-interface LeaderboardEntry {
-  id: string;
-  name: string;
-  points: number;
-  level: number;
-  reportsSubmitted: number;
-  rank: number;
-}
-
-const ACHIEVEMENTS: Achievement[] = [
-  {
-    id: 'first_report',
-    name: 'First Reporter',
-    description: 'Submit your first water quality report',
-    icon: 'flag.fill',
-    points: 50,
-    unlocked: false,
-    category: 'reporting'
-  },
-  {
-    id: 'health_checker',
-    name: 'Health Conscious',
-    description: 'Complete 5 health symptom checks',
-    icon: 'heart.fill',
-    points: 75,
-    unlocked: false,
-    category: 'health'
-  },
-  {
-    id: 'sensor_master',
-    name: 'Sensor Master',
-    description: 'Connect and monitor 3 different sensors',
-    icon: 'sensor.fill',
-    points: 100,
-    unlocked: false,
-    category: 'reporting'
-  },
-  {
-    id: 'community_hero',
-    name: 'Community Hero',
-    description: 'Submit 10 verified reports',
-    icon: 'person.3.fill',
-    points: 200,
-    unlocked: false,
-    category: 'community'
-  },
-  {
-    id: 'streak_warrior',
-    name: 'Streak Warrior',
-    description: 'Maintain a 7-day activity streak',
-    icon: 'flame.fill',
-    points: 150,
-    unlocked: false,
-    category: 'special'
-  },
-  {
-    id: 'water_guardian',
-    name: 'Water Guardian',
-    description: 'Reach level 10',
-    icon: 'shield.fill',
-    points: 500,
-    unlocked: false,
-    category: 'special'
-  }
-];
-
-const REWARDS: Reward[] = [
-  {
-    id: 'water_filter',
-    name: 'Water Filter Discount',
-    description: '20% off on water purification systems',
-    cost: 500,
-    category: 'products',
-    icon: 'drop.triangle.fill',
-    available: true,
-    claimed: false
-  },
-  {
-    id: 'health_checkup',
-    name: 'Free Health Checkup',
-    description: 'Complimentary health screening at partner clinics',
-    cost: 750,
-    category: 'services',
-    icon: 'stethoscope',
-    available: true,
-    claimed: false
-  },
-  {
-    id: 'grocery_voucher',
-    name: 'Grocery Voucher',
-    description: '₹200 voucher for organic groceries',
-    cost: 400,
-    category: 'vouchers',
-    icon: 'bag.fill',
-    available: true,
-    claimed: false
-  },
-  {
-    id: 'tree_plantation',
-    name: 'Plant a Tree',
-    description: 'Sponsor tree plantation in your community',
-    cost: 300,
-    category: 'donations',
-    icon: 'leaf.fill',
-    available: true,
-    claimed: false
-  },
-  {
-    id: 'water_testing',
-    name: 'Water Testing Kit',
-    description: 'Professional water quality testing kit',
-    cost: 600,
-    category: 'products',
-    icon: 'testtube.2',
-    available: true,
-    claimed: false
-  },
-  {
-    id: 'premium_access',
-    name: 'Premium Features',
-    description: '3 months of premium app features',
-    cost: 1000,
-    category: 'services',
-    icon: 'star.fill',
-    available: true,
-    claimed: false
-  }
+const LEADERBOARD_WINDOWS: { key: LeaderboardWindow; label: string }[] = [
+  { key: 'weekly', label: 'This Week' },
+  { key: 'monthly', label: 'This Month' },
+  { key: 'allTime', label: 'All Time' }
 ];
 
-const MOCK_LEADERBOARD: LeaderboardEntry[] = [
-  { id: '1', name: 'Rahul Kumar', points: 2450, level: 5, reportsSubmitted: 23, rank: 1 },
-  { id: '2', name: 'Priya Sharma', points: 2100, level: 4, reportsSubmitted: 19, rank: 2 },
-  { id: '3', name: 'Amit Singh', points: 1850, level: 4, reportsSubmitted: 17, rank: 3 },
-  { id: '4', name: 'Sneha Patel', points: 1600, level: 3, reportsSubmitted: 15, rank: 4 },
-  { id: '5', name: 'You', points: 0, level: 1, reportsSubmitted: 0, rank: 5 }
+const LEADERBOARD_SCOPES: { key: LeaderboardScope; label: string }[] = [
+  { key: 'everyone', label: 'Everyone' },
+  { key: 'district', label: 'District' },
+  { key: 'village', label: 'Village' }
 ];
 
 export default function RewardsScreen() {
   const { logout, user, userProfile, refreshUserProfile } = useAuth();
-  const [userStats, setUserStats] = useState<UserStats>({
-    points: 0,
-    reportsSubmitted: 0,
-    level: 1,
-    streak: 0,
-    totalEarned: 0,
-    badges: [],
-    achievements: ACHIEVEMENTS
-  });
-  const [rewards, setRewards] = useState<Reward[]>(REWARDS);
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>(MOCK_LEADERBOARD);
+  const { stats, refresh } = useStats();
+  const [catalog, setCatalog] = useState<RewardCatalogItem[]>([]);
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  const [selectedVoucher, setSelectedVoucher] = useState<Voucher | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
   const [selectedTab, setSelectedTab] = useState<'overview' | 'achievements' | 'rewards' | 'leaderboard'>('overview');
   const [showRewardModal, setShowRewardModal] = useState(false);
-  const [selectedReward, setSelectedReward] = useState<Reward | null>(null);
+  const [selectedReward, setSelectedReward] = useState<RewardCatalogItem | null>(null);
+  const [counters, setCounters] = useState<UserCounters | null>(null);
+  const [leaderboardWindow, setLeaderboardWindow] = useState<LeaderboardWindow>('weekly');
+  const [leaderboardScope, setLeaderboardScope] = useState<LeaderboardScope>('everyone');
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [leaderboardUser, setLeaderboardUser] = useState<LeaderboardEntry | null>(null);
+  const [leaderboardNextOffset, setLeaderboardNextOffset] = useState<number | null>(null);
+  const [leaderboardLoading, setLeaderboardLoading] = useState(false);
+  const [leaderboardError, setLeaderboardError] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (userProfile) {
-      // Update local stats with database data
-      setUserStats(prev => ({
-        ...prev,
-        points: userProfile.points,
-        level: userProfile.level,
-        reportsSubmitted: userProfile.reportsSubmitted,
-        streak: userProfile.streak,
-        totalEarned: userProfile.totalEarned,
-      }));
-    }
-    loadUserStats();
-    checkForNewAchievements();
-  }, [userProfile]);
+  const userStats = {
+    ...stats,
+    achievements: ACHIEVEMENTS.map((achievement): Achievement => {
+      const unlocked = stats.achievements.find(a => a.achievementId === achievement.id);
+      return {
+        ...achievement,
+        points: getAchievementPoints(achievement.id),
+        unlocked: !!unlocked,
+        unlockedDate: unlocked ? new Date(unlocked.unlockedAt) : undefined,
+        progress: unlocked ? 1 : counters ? getAchievementProgress(achievement, counters) : 0
+      };
+    })
+  };
+
+  const rewards = [STREAK_FREEZE_REWARD, ...catalog].filter(reward => isRewardAvailable(reward));
 
-  const loadUserStats = async () => {
+  // Load the first page (offset 0) afresh, or append the page at `offset`
+  const loadLeaderboard = useCallback(async (offset: number) => {
+    if (!user) return;
+
+    setLeaderboardLoading(true);
+    setLeaderboardError(null);
     try {
-      // If we have userProfile from database, use that as primary source
-      if (userProfile) {
-        setUserStats(prev => ({
-          ...prev,
-          points: userProfile.points,
-          level: userProfile.level,
-          reportsSubmitted: userProfile.reportsSubmitted,
-          streak: userProfile.streak,
-          totalEarned: userProfile.totalEarned,
-        }));
-        
-        // Update leaderboard with user's actual stats
-        setLeaderboard(prev => prev.map(entry =>
-          entry.name === 'You'
-            ? {
-                ...entry,
-                points: userProfile.points,
-                level: userProfile.level,
-                reportsSubmitted: userProfile.reportsSubmitted
-              }
-            : entry
-        ));
-      } else {
-        // Fallback to AsyncStorage for backward compatibility
-        const savedStats = await AsyncStorage.getItem('userStats');
-        if (savedStats) {
-          const stats = JSON.parse(savedStats);
-          setUserStats(prev => ({
-            ...prev,
-            ...stats,
-            achievements: ACHIEVEMENTS.map(achievement => ({
-              ...achievement,
-              unlocked: stats.achievements?.find((a: any) => a.id === achievement.id)?.unlocked || false,
-              unlockedDate: stats.achievements?.find((a: any) => a.id === achievement.id)?.unlockedDate
-            }))
-          }));
-          
-          // Update leaderboard with user's actual stats
-          setLeaderboard(prev => prev.map(entry =>
-            entry.name === 'You'
-              ? { ...entry, points: stats.points, level: stats.level, reportsSubmitted: stats.reportsSubmitted }
-              : entry
-          ));
-        }
-      }
+      const page = await LeaderboardService.getPage(leaderboardWindow, leaderboardScope, offset);
+      setLeaderboard(current => (offset === 0 ? page.entries : [...current, ...page.entries]));
+      setLeaderboardUser(page.currentUser);
+      setLeaderboardNextOffset(page.nextOffset);
     } catch (error) {
-      console.error('Error loading user stats:', error);
+      setLeaderboard([]);
+      setLeaderboardUser(null);
+      setLeaderboardNextOffset(null);
+      setLeaderboardError(error instanceof Error ? error.message : 'Failed to load the leaderboard.');
+    } finally {
+      setLeaderboardLoading(false);
     }
-  };
-
-  const checkForNewAchievements = async () => {
-    try {
-      const savedStats = await AsyncStorage.getItem('userStats');
-      if (!savedStats) return;
+  }, [user, leaderboardWindow, leaderboardScope]);
 
-      const stats = JSON.parse(savedStats);
-      const newAchievements: Achievement[] = [];
+  const loadRewards = useCallback(async () => {
+    if (!user) return;
 
-      // Check each achievement condition
-      ACHIEVEMENTS.forEach(achievement => {
-        const isAlreadyUnlocked = stats.achievements?.find((a: any) => a.id === achievement.id)?.unlocked;
-        if (isAlreadyUnlocked) return;
+    const [catalogResult, vouchersResult] = await Promise.allSettled([
+      RewardsService.getCatalog(),
+      RewardsService.getVouchers(user.$id)
+    ]);
+    if (catalogResult.status === 'fulfilled') setCatalog(catalogResult.value);
+    if (vouchersResult.status === 'fulfilled') setVouchers(vouchersResult.value);
+  }, [user]);
 
-        let shouldUnlock = false;
+  // Unlocks anything already earned (for instance by reports that synced
+  // while this screen was closed) and refreshes the progress counters
+  const checkForNewAchievements = useCallback(async () => {
+    if (!user) return;
 
-        switch (achievement.id) {
-          case 'first_report':
-            shouldUnlock = stats.reportsSubmitted >= 1;
-            break;
-          case 'health_checker':
-            // Check health assessments (simplified)
-            shouldUnlock = stats.healthChecks >= 5;
-            break;
-          case 'sensor_master':
-            shouldUnlock = stats.sensorsConnected >= 3;
-            break;
-          case 'community_hero':
-            shouldUnlock = stats.verifiedReports >= 10;
-            break;
-          case 'streak_warrior':
-            shouldUnlock = stats.streak >= 7;
-            break;
-          case 'water_guardian':
-            shouldUnlock = stats.level >= 10;
-            break;
-        }
-
-        if (shouldUnlock) {
-          newAchievements.push({
-            ...achievement,
-            unlocked: true,
-            unlockedDate: new Date()
-          });
-        }
-      });
+    try {
+      const result = await AchievementService.checkAndUnlock();
+      if (!result) return;
 
-      if (newAchievements.length > 0) {
-        // Award points for achievements
-        const bonusPoints = newAchievements.reduce((total, achievement) => total + achievement.points, 0);
-        const updatedStats = {
-          ...stats,
-          points: stats.points + bonusPoints,
-          totalEarned: stats.totalEarned + bonusPoints,
-          achievements: ACHIEVEMENTS.map(achievement => {
-            const newAchievement = newAchievements.find(na => na.id === achievement.id);
-            return newAchievement || achievement;
-          })
-        };
+      setCounters(result.counters);
 
-        await AsyncStorage.setItem('userStats', JSON.stringify(updatedStats));
-        setUserStats(prev => ({ ...prev, ...updatedStats }));
+      if (result.newlyUnlocked.length > 0) {
+        await refresh();
 
         // Show achievement notification
+        const bonusPoints = result.newlyUnlocked.reduce(
+          (total, achievement) => total + getAchievementPoints(achievement.id),
+          0
+        );
         Alert.alert(
           '🎉 Achievement Unlocked!',
-          `You earned ${bonusPoints} points for unlocking ${newAchievements.length} achievement(s)!`
+          `You earned ${bonusPoints} points for unlocking ${result.newlyUnlocked.length} achievement(s)!`
         );
       }
     } catch (error) {
       console.error('Error checking achievements:', error);
     }
+  }, [user, refresh]);
+
+  useEffect(() => {
+    checkForNewAchievements();
+  }, [stats.points, stats.streak, checkForNewAchievements]);
+
+  useEffect(() => {
+    loadRewards();
+  }, [loadRewards]);
+
+  useEffect(() => {
+    if (selectedTab === 'leaderboard') {
+      loadLeaderboard(0);
+    }
+  }, [selectedTab, loadLeaderboard]);
+
+  const toggleLeaderboardOptOut = async (optOut: boolean) => {
+    if (!user) return;
+
+    try {
+      await LeaderboardService.setOptOut(optOut);
+      await refreshUserProfile();
+      await loadLeaderboard(0);
+    } catch (error) {
+      console.error('Error updating leaderboard visibility:', error);
+      Alert.alert('Error', 'Failed to update your leaderboard visibility. Please try again.');
+    }
   };
 
-  const claimReward = async (reward: Reward) => {
+  const claimReward = async (reward: RewardCatalogItem) => {
     if (userStats.points < reward.cost) {
       Alert.alert('Insufficient Points', `You need ${reward.cost - userStats.points} more points to claim this reward.`);
       return;
@@ -349,30 +201,25 @@ export default function RewardsScreen() {
         {
           text: 'Claim',
           onPress: async () => {
+            setIsClaiming(true);
             try {
-              // Deduct points
-              const updatedStats = {
-                ...userStats,
-                points: userStats.points - reward.cost
-              };
-
-              // Mark reward as claimed
-              const updatedRewards = rewards.map(r => 
-                r.id === reward.id ? { ...r, claimed: true } : r
-              );
+              if (reward.$id === STREAK_FREEZE_REWARD.$id) {
+                await StreakService.purchaseFreeze(ID.unique());
+                await refresh();
+                setShowRewardModal(false);
+                Alert.alert('Streak Freeze Ready!', 'A missed day will no longer break your streak.');
+                return;
+              }
 
-              await AsyncStorage.setItem('userStats', JSON.stringify(updatedStats));
-              setUserStats(updatedStats);
-              setRewards(updatedRewards);
+              const voucher = await RewardsService.redeem(reward.$id, ID.unique());
+              await Promise.all([refresh(), loadRewards()]);
               setShowRewardModal(false);
-
-              Alert.alert(
-                'Reward Claimed!',
-                `You have successfully claimed "${reward.name}". Check your email for redemption details.`
-              );
+              setSelectedVoucher(voucher);
             } catch (error) {
               console.error('Error claiming reward:', error);
-              Alert.alert('Error', 'Failed to claim reward. Please try again.');
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to claim reward. Please try again.');
+            } finally {
+              setIsClaiming(false);
             }
           }
         }
@@ -403,15 +250,15 @@ export default function RewardsScreen() {
   };
 
   const getLevelProgress = () => {
-    const currentLevelPoints = (userStats.level - 1) * 500;
-    const nextLevelPoints = userStats.level * 500;
-    const progress = (userStats.points - currentLevelPoints) / (nextLevelPoints - currentLevelPoints);
+    const currentLevelPoints = (userStats.level - 1) * POINTS_PER_LEVEL;
+    const nextLevelPoints = userStats.level * POINTS_PER_LEVEL;
+    const progress = (userStats.totalEarned - currentLevelPoints) / (nextLevelPoints - currentLevelPoints);
     return Math.max(0, Math.min(1, progress));
   };
 
   const getNextLevelPoints = () => {
-    const nextLevelPoints = userStats.level * 500;
-    return nextLevelPoints - userStats.points;
+    const nextLevelPoints = userStats.level * POINTS_PER_LEVEL;
+    return nextLevelPoints - userStats.totalEarned;
   };
 
   const getCategoryColor = (category: string) => {
@@ -459,6 +306,11 @@ export default function RewardsScreen() {
             <IconSymbol name="flame.fill" size={20} color="#FF5722" />
             <ThemedText style={styles.statValue}>{userStats.streak}</ThemedText>
             <ThemedText style={styles.statLabel}>Day Streak</ThemedText>
+            {userStats.streakFreezes > 0 && (
+              <ThemedText style={styles.statLabel}>
+                {userStats.streakFreezes} freeze{userStats.streakFreezes === 1 ? '' : 's'}
+              </ThemedText>
+            )}
           </View>
           <View style={styles.statItem}>
             <IconSymbol name="trophy.fill" size={20} color="#FFD700" />
@@ -527,6 +379,11 @@ export default function RewardsScreen() {
               ]}>
                 {achievement.description}
               </ThemedText>
+              {!achievement.unlocked && (
+                <View style={[styles.progressBar, styles.achievementProgress]}>
+                  <View style={[styles.progressFill, { width: `${achievement.progress * 100}%` }]} />
+                </View>
+              )}
             </View>
             <View style={styles.achievementPoints}>
               <ThemedText style={[
@@ -550,9 +407,9 @@ export default function RewardsScreen() {
         </ThemedText>
         
         <View style={styles.rewardsGrid}>
-          {rewards.filter(r => r.available && !r.claimed).map((reward) => (
+          {rewards.map((reward) => (
             <TouchableOpacity
-              key={reward.id}
+              key={reward.$id}
               style={[
                 styles.rewardCard,
                 userStats.points < reward.cost && styles.unaffordableReward
@@ -583,47 +440,163 @@ export default function RewardsScreen() {
                 <IconSymbol name="star.fill" size={16} color="#FFD700" />
                 <ThemedText style={styles.costText}>{reward.cost}</ThemedText>
               </View>
+              {Number.isFinite(reward.stock) && (
+                <ThemedText style={styles.stockText}>{reward.stock} left</ThemedText>
+              )}
             </TouchableOpacity>
           ))}
         </View>
       </ThemedView>
+
+      <ThemedView style={styles.card}>
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
+          My Vouchers
+        </ThemedText>
+
+        {vouchers.map((voucher) => {
+          const status = getVoucherStatus(voucher);
+          return (
+            <TouchableOpacity
+              key={voucher.$id}
+              style={styles.voucherItem}
+              onPress={() => setSelectedVoucher(voucher)}
+            >
+              <IconSymbol name="qrcode" size={24} color={VOUCHER_STATUS_COLORS[status]} />
+              <View style={styles.voucherInfo}>
+                <ThemedText type="defaultSemiBold">{voucher.rewardName}</ThemedText>
+                <ThemedText style={styles.voucherCode}>{voucher.code}</ThemedText>
+              </View>
+              <View style={[styles.voucherStatus, { backgroundColor: VOUCHER_STATUS_COLORS[status] }]}>
+                <ThemedText style={styles.voucherStatusText}>{status}</ThemedText>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        {vouchers.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            Rewards you claim will appear here as vouchers.
+          </ThemedText>
+        )}
+      </ThemedView>
     </ScrollView>
   );
 
+  const renderLeaderboardEntry = (entry: LeaderboardEntry) => (
+    <View key={entry.id} style={[
+      styles.leaderboardItem,
+      entry.isCurrentUser && styles.userEntry
+    ]}>
+      <View style={styles.rankContainer}>
+        <ThemedText style={[
+          styles.rankText,
+          entry.rank <= 3 && styles.topRank
+        ]}>
+          #{entry.rank}
+        </ThemedText>
+      </View>
+
+      <View style={styles.leaderboardInfo}>
+        <ThemedText type="defaultSemiBold" style={entry.anonymous && styles.anonymousName}>
+          {entry.isCurrentUser ? 'You' : entry.name}
+        </ThemedText>
+        <ThemedText style={styles.leaderboardStats}>
+          Level {entry.level} • {entry.reportsSubmitted} reports
+        </ThemedText>
+      </View>
+
+      <View style={styles.leaderboardPoints}>
+        <ThemedText style={styles.leaderboardPointsText}>{entry.points}</ThemedText>
+        <ThemedText style={styles.pointsLabel}>points</ThemedText>
+      </View>
+    </View>
+  );
+
   const renderLeaderboard = () => (
     <ScrollView>
       <ThemedView style={styles.card}>
         <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
           Community Leaderboard
         </ThemedText>
-        
-        {leaderboard.map((entry) => (
-          <View key={entry.id} style={[
-            styles.leaderboardItem,
-            entry.name === 'You' && styles.userEntry
-          ]}>
-            <View style={styles.rankContainer}>
-              <ThemedText style={[
-                styles.rankText,
-                entry.rank <= 3 && styles.topRank
-              ]}>
-                #{entry.rank}
-              </ThemedText>
-            </View>
-            
-            <View style={styles.leaderboardInfo}>
-              <ThemedText type="defaultSemiBold">{entry.name}</ThemedText>
-              <ThemedText style={styles.leaderboardStats}>
-                Level {entry.level} • {entry.reportsSubmitted} reports
+
+        <View style={styles.filterRow}>
+          {LEADERBOARD_WINDOWS.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.filterChip, leaderboardWindow === option.key && styles.activeFilterChip]}
+              onPress={() => setLeaderboardWindow(option.key)}
+            >
+              <ThemedText style={[styles.filterText, leaderboardWindow === option.key && styles.activeFilterText]}>
+                {option.label}
               </ThemedText>
-            </View>
-            
-            <View style={styles.leaderboardPoints}>
-              <ThemedText style={styles.leaderboardPointsText}>{entry.points}</ThemedText>
-              <ThemedText style={styles.pointsLabel}>points</ThemedText>
-            </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.filterRow}>
+          {LEADERBOARD_SCOPES.map(option => {
+            const available = !!userProfile && isScopeAvailable(option.key, userProfile);
+            return (
+              <TouchableOpacity
+                key={option.key}
+                style={[
+                  styles.filterChip,
+                  leaderboardScope === option.key && styles.activeFilterChip,
+                  !available && styles.unavailableFilterChip
+                ]}
+                onPress={() => setLeaderboardScope(option.key)}
+                disabled={!available}
+              >
+                <ThemedText style={[styles.filterText, leaderboardScope === option.key && styles.activeFilterText]}>
+                  {option.key === 'everyone' || !userProfile?.[option.key] ? option.label : userProfile[option.key]}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {leaderboard.map(renderLeaderboardEntry)}
+
+        {leaderboardUser && !leaderboard.some(entry => entry.isCurrentUser) && !leaderboardLoading && (
+          <>
+            <ThemedText style={styles.leaderboardGap}>•••</ThemedText>
+            {renderLeaderboardEntry(leaderboardUser)}
+          </>
+        )}
+
+        {leaderboardLoading && <ActivityIndicator color="#2196F3" style={styles.leaderboardLoader} />}
+
+        {leaderboardError && !leaderboardLoading && (
+          <ThemedText style={styles.emptyText}>{leaderboardError}</ThemedText>
+        )}
+
+        {!leaderboardError && !leaderboardLoading && leaderboard.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            Nobody has earned points here yet. Submit a report to take the lead!
+          </ThemedText>
+        )}
+
+        {leaderboardNextOffset !== null && !leaderboardLoading && (
+          <TouchableOpacity style={styles.loadMoreButton} onPress={() => loadLeaderboard(leaderboardNextOffset)}>
+            <ThemedText style={styles.loadMoreText}>Show more</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+
+      <ThemedView style={styles.card}>
+        <View style={styles.optOutRow}>
+          <View style={styles.leaderboardInfo}>
+            <ThemedText type="defaultSemiBold">Show my name</ThemedText>
+            <ThemedText style={styles.leaderboardStats}>
+              {`When off, you still rank but appear as "${ANONYMOUS_NAME}" to others`}
+            </ThemedText>
           </View>
-        ))}
+          <Switch
+            value={!userProfile?.leaderboardOptOut}
+            onValueChange={value => toggleLeaderboardOptOut(!value)}
+            disabled={!userProfile}
+          />
+        </View>
       </ThemedView>
     </ScrollView>
   );
@@ -637,7 +610,7 @@ export default function RewardsScreen() {
             <ThemedText type="subtitle">Earn points and unlock rewards</ThemedText>
             {user && (
               <ThemedText style={styles.welcomeText}>
-                Welcome, {user.name}! • {userProfile?.points || 0} points
+                Welcome, {user.name}! • {userStats.points} points
               </ThemedText>
             )}
           </View>
@@ -721,19 +694,25 @@ export default function RewardsScreen() {
               <TouchableOpacity 
                 style={[
                   styles.claimButton,
-                  userStats.points < selectedReward.cost && styles.disabledButton
+                  (userStats.points < selectedReward.cost || isClaiming) && styles.disabledButton
                 ]}
                 onPress={() => claimReward(selectedReward)}
-                disabled={userStats.points < selectedReward.cost}
+                disabled={userStats.points < selectedReward.cost || isClaiming}
               >
-                <ThemedText style={styles.claimButtonText}>
-                  {userStats.points >= selectedReward.cost ? 'Claim Reward' : 'Insufficient Points'}
-                </ThemedText>
+                {isClaiming ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <ThemedText style={styles.claimButtonText}>
+                    {userStats.points >= selectedReward.cost ? 'Claim Reward' : 'Insufficient Points'}
+                  </ThemedText>
+                )}
               </TouchableOpacity>
             </View>
           </View>
         )}
       </Modal>
+
+      <VoucherDetails voucher={selectedVoucher} onClose={() => setSelectedVoucher(null)} />
     </View>
   );
 }
@@ -902,6 +881,10 @@ const styles = StyleSheet.create({
   achievementPoints: {
     alignItems: 'center',
   },
+  achievementProgress: {
+    height: 4,
+    marginTop: 6,
+  },
   pointsEarned: {
     fontSize: 14,
     fontWeight: 'bold',
@@ -961,6 +944,43 @@ const styles = StyleSheet.create({
   unaffordableText: {
     color: '#ccc',
   },
+  stockText: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  voucherItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 12,
+  },
+  voucherInfo: {
+    flex: 1,
+  },
+  voucherCode: {
+    fontSize: 12,
+    color: '#666',
+    letterSpacing: 1,
+  },
+  voucherStatus: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  voucherStatusText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+  },
+  emptyText: {
+    color: '#999',
+    textAlign: 'center',
+  },
   leaderboardItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -987,6 +1007,56 @@ const styles = StyleSheet.create({
   topRank: {
     color: '#FFD700',
   },
+  anonymousName: {
+    fontStyle: 'italic',
+    color: '#666',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  activeFilterChip: {
+    backgroundColor: '#2196F3',
+  },
+  unavailableFilterChip: {
+    opacity: 0.4,
+  },
+  filterText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  activeFilterText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  leaderboardGap: {
+    textAlign: 'center',
+    color: '#999',
+    marginBottom: 8,
+  },
+  leaderboardLoader: {
+    marginVertical: 12,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    padding: 12,
+  },
+  loadMoreText: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  optOutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   leaderboardInfo: {
     flex: 1,
   },
@@ -1,21 +1,145 @@
-import React from 'react';
-import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, Modal, Alert, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { SensorChart } from '@/components/sensor-chart';
+import { createNewSensor, SensorForm, WATER_SOURCES } from '@/components/sensor-form';
+import { WATER_STATUS_COLORS, WATER_STATUS_LABELS, WaterQualityVerdict } from '@/components/water-quality-verdict';
+import { useAuth } from '@/contexts/AuthContext';
+import { useThresholdProfile } from '@/hooks/use-threshold-profile';
+import { Sensor } from '@/lib/appwrite';
+import { formatAge } from '@/lib/format';
+import { POINT_RULES } from '@/lib/points';
+import { ReadingStore } from '@/lib/sensors/readingStore';
+import { NewSensor, SensorRegistry } from '@/lib/sensors/registry';
+import { SensorManager, SensorStatus } from '@/lib/sensors/sensorManager';
+import { ConnectionState, DiscoveredDevice, SENSOR_PARAMETERS, SensorReading } from '@/lib/sensors/types';
+import { UserActions } from '@/lib/userActions';
+import {
+  evaluateReadings,
+  THRESHOLD_PROFILES,
+  ThresholdProfileId,
+  ThresholdSettings,
+} from '@/lib/waterQuality/thresholds';
+
+// Readings kept for the Recent Readings card
+const RECENT_READINGS_LIMIT = 10;
+
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  connected: 'Connected',
+  connecting: 'Connecting…',
+  reconnecting: 'Reconnecting…',
+  disconnected: 'Disconnected',
+};
+
+const formatReading = (reading: SensorReading) =>
+  `${SENSOR_PARAMETERS[reading.parameter].label}: ${reading.value.toFixed(reading.parameter === 'tds' ? 0 : 1)} ${reading.unit}`;
+
+const PROFILE_IDS = Object.keys(THRESHOLD_PROFILES) as ThresholdProfileId[];
+
+const getWaterSourceLabel = (sensor: Sensor) =>
+  WATER_SOURCES.find(source => source.key === sensor.waterSource)?.label ?? sensor.waterSource;
 
 export default function SensorsScreen() {
-  const dummySensors = [
-    { id: 1, name: 'pH Sensor', value: '7.2', unit: 'pH', status: 'normal' },
-    { id: 2, name: 'Turbidity Sensor', value: '2.1', unit: 'NTU', status: 'normal' },
-    { id: 3, name: 'Temperature Sensor', value: '24.5', unit: '°C', status: 'normal' },
-  ];
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'normal': return '#4CAF50';
-      case 'warning': return '#FF9800';
-      case 'critical': return '#F44336';
+  const { user } = useAuth();
+  // Set when an alert notification opened this screen
+  const { deviceId: alertedDeviceId } = useLocalSearchParams<{ deviceId?: string }>();
+  const thresholdProfile = useThresholdProfile();
+  const [registered, setRegistered] = useState<Sensor[]>([]);
+  const [formSensor, setFormSensor] = useState<Sensor | NewSensor | null>(null);
+  const [sensors, setSensors] = useState<SensorStatus[]>(SensorManager.getSensors());
+  const [recentReadings, setRecentReadings] = useState<SensorReading[]>(() => ReadingStore.getRecent(RECENT_READINGS_LIMIT));
+  const [showScanModal, setShowScanModal] = useState(false);
+  const [discovered, setDiscovered] = useState<DiscoveredDevice[]>([]);
+  const [pairingId, setPairingId] = useState<string | null>(null);
+
+  useEffect(() => SensorManager.subscribe(setSensors), []);
+
+  useEffect(() => {
+    if (!user) return;
+    SensorRegistry.list(user.$id)
+      .then(setRegistered)
+      .catch(() => setRegistered([]));
+  }, [user]);
+
+  useEffect(() =>
+    SensorManager.onReading(reading =>
+      setRecentReadings(current => [reading, ...current].slice(0, RECENT_READINGS_LIMIT))
+    ), []);
+
+  useEffect(() => {
+    if (!showScanModal) return;
+
+    setDiscovered([]);
+    SensorManager.startScan(device =>
+      setDiscovered(current => (current.some(d => d.id === device.id) ? current : [...current, device]))
+    ).catch(error => {
+      console.error('Error scanning for sensors:', error);
+      Alert.alert('Scan Failed', error instanceof Error ? error.message : 'Could not scan for sensors.');
+      setShowScanModal(false);
+    });
+
+    return () => SensorManager.stopScan();
+  }, [showScanModal]);
+
+  const pairSensor = async (device: DiscoveredDevice) => {
+    setPairingId(device.id);
+    try {
+      const paired = await SensorManager.pair(device);
+      setShowScanModal(false);
+
+      await UserActions.recordActivity();
+
+      Alert.alert(
+        'Sensor Connected',
+        `${paired.name} is paired. Now tell us where it is installed to earn ${POINT_RULES.sensor_connected.points} points!`
+      );
+      setFormSensor(SensorRegistry.getByDevice(paired.id) ?? createNewSensor(paired.id, paired.name));
+    } catch (error) {
+      Alert.alert('Pairing Failed', error instanceof Error ? error.message : 'Could not connect to the sensor.');
+    } finally {
+      setPairingId(null);
+    }
+  };
+
+  const editSensor = (sensor: SensorStatus) => {
+    setFormSensor(registered.find(r => r.deviceId === sensor.id) ?? createNewSensor(sensor.id, sensor.name));
+  };
+
+  const handleSaved = (sensor: Sensor) => {
+    setRegistered(current => [...current.filter(r => r.$id !== sensor.$id), sensor]);
+    setFormSensor(null);
+  };
+
+  const handleDeleted = (sensor: Sensor) => {
+    setRegistered(current => current.filter(r => r.$id !== sensor.$id));
+    setFormSensor(null);
+  };
+
+  const forgetSensor = (sensor: SensorStatus) => {
+    Alert.alert(
+      'Forget Sensor',
+      `Disconnect ${sensor.name} and stop receiving its readings?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: () => {
+            SensorManager.unpair(sensor.id).catch(error => console.error('Error forgetting sensor:', error));
+          }
+        }
+      ]
+    );
+  };
+
+  const getConnectionColor = (state: ConnectionState) => {
+    switch (state) {
+      case 'connected': return '#4CAF50';
+      case 'connecting':
+      case 'reconnecting': return '#FF9800';
       default: return '#757575';
     }
   };
@@ -24,12 +148,14 @@ export default function SensorsScreen() {
     <ScrollView style={styles.container}>
       <ThemedView style={styles.header}>
         <ThemedText style={styles.headerTitle}>Water Quality Sensors</ThemedText>
-        <ThemedText style={styles.headerSubtitle}>Real-time monitoring</ThemedText>
+        <ThemedText style={styles.headerSubtitle}>
+          {SensorManager.getTransport().kind === 'simulated' ? 'Simulated sensors' : 'Real-time monitoring'}
+        </ThemedText>
       </ThemedView>
 
       {/* Add Sensor Button */}
       <ThemedView style={styles.card}>
-        <TouchableOpacity style={styles.addSensorButton}>
+        <TouchableOpacity style={styles.addSensorButton} onPress={() => setShowScanModal(true)}>
           <IconSymbol name="plus.circle.fill" size={32} color="#2196F3" />
           <ThemedText style={styles.addSensorText}>Add New Sensor</ThemedText>
         </TouchableOpacity>
@@ -38,42 +164,192 @@ export default function SensorsScreen() {
       {/* Connected Sensors */}
       <ThemedView style={styles.card}>
         <ThemedText style={styles.sectionTitle}>Connected Sensors</ThemedText>
-        
-        {dummySensors.map((sensor) => (
-          <View key={sensor.id} style={styles.sensorItem}>
-            <View style={styles.sensorInfo}>
-              <IconSymbol name="sensor.fill" size={24} color={getStatusColor(sensor.status)} />
-              <View style={styles.sensorDetails}>
-                <ThemedText style={styles.sensorName}>{sensor.name}</ThemedText>
-                <ThemedText style={styles.sensorValue}>
-                  {sensor.value} {sensor.unit}
-                </ThemedText>
+
+        {sensors.map((sensor) => {
+          const latest = Object.values(sensor.latest);
+          const assessment = evaluateReadings(sensor.latest, thresholdProfile);
+          const details = registered.find(r => r.deviceId === sensor.id);
+          return (
+            <TouchableOpacity
+              key={sensor.id}
+              style={[styles.sensorItem, sensor.id === alertedDeviceId && styles.alertedSensorItem]}
+              onPress={() => editSensor(sensor)}
+              onLongPress={() => forgetSensor(sensor)}
+            >
+              <View style={styles.sensorInfo}>
+                <IconSymbol name="sensor.fill" size={24} color={getConnectionColor(sensor.state)} />
+                <View style={styles.sensorDetails}>
+                  <ThemedText style={styles.sensorName}>{details?.name ?? sensor.name}</ThemedText>
+                  <ThemedText style={styles.sensorMeta}>
+                    {details ? getWaterSourceLabel(details) : 'Not registered – tap to add details'}
+                  </ThemedText>
+                  <ThemedText style={[styles.connectionText, { color: getConnectionColor(sensor.state) }]}>
+                    {CONNECTION_LABELS[sensor.state]}
+                    {sensor.state === 'reconnecting' && sensor.error ? ` (${sensor.error})` : ''}
+                  </ThemedText>
+                  {latest.length > 0 ? (
+                    <>
+                      {latest.map(reading => {
+                        const verdict = assessment.verdicts[reading.parameter]?.verdict;
+                        return (
+                          <ThemedText
+                            key={reading.parameter}
+                            style={[styles.sensorValue, verdict && verdict !== 'safe' && { color: WATER_STATUS_COLORS[verdict] }]}
+                          >
+                            {formatReading(reading)}{reading.fault ? ' (probe fault)' : ''}
+                          </ThemedText>
+                        );
+                      })}
+                      {assessment.status !== 'unknown' && (
+                        <>
+                          <ThemedText style={[styles.verdictText, { color: WATER_STATUS_COLORS[assessment.status] }]}>
+                            {WATER_STATUS_LABELS[assessment.status]}
+                          </ThemedText>
+                          <WaterQualityVerdict assessment={assessment} />
+                        </>
+                      )}
+                    </>
+                  ) : (
+                    <ThemedText style={styles.sensorValue}>Waiting for readings…</ThemedText>
+                  )}
+                </View>
+                <View style={[styles.statusDot, { backgroundColor: getConnectionColor(sensor.state) }]} />
               </View>
-              <View style={[styles.statusDot, { backgroundColor: getStatusColor(sensor.status) }]} />
-            </View>
-          </View>
-        ))}
+            </TouchableOpacity>
+          );
+        })}
+
+        {sensors.length === 0 ? (
+          <ThemedText style={styles.emptyText}>
+            No sensors paired yet. Tap Add New Sensor to find one nearby.
+          </ThemedText>
+        ) : (
+          <ThemedText style={styles.hintText}>Tap a sensor to edit it, long-press to forget it.</ThemedText>
+        )}
+      </ThemedView>
+
+      {/* Sensors registered on other devices */}
+      {registered.some(sensor => !sensors.some(paired => paired.id === sensor.deviceId)) && (
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.sectionTitle}>My Other Sensors</ThemedText>
+
+          {registered
+            .filter(sensor => !sensors.some(paired => paired.id === sensor.deviceId))
+            .map((sensor) => (
+              <TouchableOpacity key={sensor.$id} style={styles.sensorItem} onPress={() => setFormSensor(sensor)}>
+                <View style={styles.sensorInfo}>
+                  <IconSymbol name="sensor.fill" size={24} color="#757575" />
+                  <View style={styles.sensorDetails}>
+                    <ThemedText style={styles.sensorName}>{sensor.name}</ThemedText>
+                    <ThemedText style={styles.sensorMeta}>
+                      {getWaterSourceLabel(sensor)}
+                      {sensor.installLocation?.address ? ` • ${sensor.installLocation.address}` : ''}
+                    </ThemedText>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))}
+
+          <ThemedText style={styles.hintText}>Not paired with this phone.</ThemedText>
+        </ThemedView>
+      )}
+
+      {/* Water Standard */}
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Water Standard</ThemedText>
+        <View style={styles.profileRow}>
+          {PROFILE_IDS.map((id) => (
+            <TouchableOpacity
+              key={id}
+              style={[styles.profileChip, id === thresholdProfile.id && styles.activeProfileChip]}
+              onPress={() => ThresholdSettings.setProfile(id)}
+            >
+              <ThemedText style={[styles.profileChipText, id === thresholdProfile.id && styles.activeProfileChipText]}>
+                {THRESHOLD_PROFILES[id].name}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <ThemedText style={styles.hintText}>{thresholdProfile.description}</ThemedText>
+      </ThemedView>
+
+      {/* Trends */}
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Trends</ThemedText>
+        <SensorChart
+          sensors={sensors.map(sensor => ({
+            id: sensor.id,
+            name: registered.find(r => r.deviceId === sensor.id)?.name ?? sensor.name,
+          }))}
+        />
       </ThemedView>
 
       {/* Recent Readings */}
       <ThemedView style={styles.card}>
         <ThemedText style={styles.sectionTitle}>Recent Readings</ThemedText>
-        
-        <View style={styles.readingItem}>
-          <ThemedText style={styles.readingText}>pH: 7.2 (Normal)</ThemedText>
-          <ThemedText style={styles.readingTime}>2 minutes ago</ThemedText>
-        </View>
-        
-        <View style={styles.readingItem}>
-          <ThemedText style={styles.readingText}>Turbidity: 2.1 NTU (Normal)</ThemedText>
-          <ThemedText style={styles.readingTime}>5 minutes ago</ThemedText>
-        </View>
-        
-        <View style={styles.readingItem}>
-          <ThemedText style={styles.readingText}>Temperature: 24.5°C (Normal)</ThemedText>
-          <ThemedText style={styles.readingTime}>8 minutes ago</ThemedText>
-        </View>
+
+        {recentReadings.map((reading) => (
+          <View key={`${reading.deviceId}-${reading.parameter}-${reading.timestamp}`} style={styles.readingItem}>
+            <ThemedText style={styles.readingText}>{formatReading(reading)}</ThemedText>
+            <ThemedText style={styles.readingTime}>{formatAge(reading.timestamp)}</ThemedText>
+          </View>
+        ))}
+
+        {recentReadings.length === 0 && (
+          <ThemedText style={styles.emptyText}>Readings appear here as your sensors report them.</ThemedText>
+        )}
       </ThemedView>
+
+      {/* Scan Modal */}
+      <Modal
+        visible={showScanModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowScanModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity style={styles.closeButton} onPress={() => setShowScanModal(false)}>
+              <IconSymbol name="xmark" size={24} color="#666" />
+            </TouchableOpacity>
+            <ThemedText type="title">Nearby Sensors</ThemedText>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            {discovered.map((device) => (
+              <TouchableOpacity
+                key={device.id}
+                style={styles.sensorItem}
+                onPress={() => pairSensor(device)}
+                disabled={pairingId !== null}
+              >
+                <View style={styles.sensorInfo}>
+                  <IconSymbol name="sensor.fill" size={24} color="#2196F3" />
+                  <View style={styles.sensorDetails}>
+                    <ThemedText style={styles.sensorName}>{device.name ?? 'Unnamed sensor'}</ThemedText>
+                    <ThemedText style={styles.sensorValue}>
+                      {device.rssi !== null ? `Signal ${device.rssi} dBm` : device.id}
+                    </ThemedText>
+                  </View>
+                  {pairingId === device.id && <ActivityIndicator color="#2196F3" />}
+                </View>
+              </TouchableOpacity>
+            ))}
+
+            <View style={styles.scanningRow}>
+              <ActivityIndicator color="#2196F3" />
+              <ThemedText style={styles.hintText}>Looking for water sensors…</ThemedText>
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      <SensorForm
+        sensor={formSensor}
+        onClose={() => setFormSensor(null)}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
     </ScrollView>
   );
 }
@@ -140,6 +416,10 @@ const styles = StyleSheet.create({
     backgroundColor: '#f8f9fa',
     borderRadius: 8,
   },
+  alertedSensorItem: {
+    borderWidth: 2,
+    borderColor: '#F44336',
+  },
   sensorInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -179,4 +459,77 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  sensorMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  connectionText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+  },
+  verdictText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  profileChip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  activeProfileChip: {
+    backgroundColor: '#2196F3',
+  },
+  profileChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeProfileChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  closeButton: {
+    padding: 8,
+    marginRight: 16,
+  },
+  modalContent: {
+    padding: 20,
+  },
+  scanningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+  },
 });
\ No newline at end of file
@@ -1,8 +1,31 @@
+import { EmergencyScreen } from "@/components/emergency-screen";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import { IconSymbol } from "@/components/ui/icon-symbol";
+import { useAuth } from "@/contexts/AuthContext";
+import { getEmergencies } from "@/lib/assessment/emergency";
+import { createAssessmentProvider } from "@/lib/assessment/providers";
+import {
+  DURATION_OPTIONS,
+  RECENT_TRAVEL_OPTIONS,
+  SEVERITY_OPTIONS,
+  WATER_EXPOSURE_OPTIONS,
+} from "@/lib/assessment/questionnaire";
+import { AssessmentLimitError } from "@/lib/assessment/proxyProvider";
+import {
+  AssessmentOutcome,
+  AssessmentService,
+  FALLBACK_REASON_LABELS,
+  FallbackReason,
+} from "@/lib/assessment/service";
+import {
+  AIHealthAssessment,
+  SymptomQuestionnaire,
+} from "@/lib/assessment/types";
+import { OutbreakSurveillance } from "@/lib/outbreak/surveillance";
+import { UserActions } from "@/lib/userActions";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -12,9 +35,7 @@ import {
   View,
 } from "react-native";
 
-// OpenAI Configuration
-const OPENAI_API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
+const assessmentProvider = createAssessmentProvider();
 
 interface Symptom {
   id: string;
@@ -29,35 +50,12 @@ interface Symptom {
   icon: string;
 }
 
-interface AIHealthAssessment {
-  possibleConditions: Array<{
-    name: string;
-    probability: number;
-    description: string;
-    severity: string;
-    commonDuration?: string;
-    waterSource?: string;
-  }>;
-  riskLevel: "low" | "medium" | "high";
-  homeRemedies: string[];
-  whenToSeekHelp: string[];
-  generalAdvice: string[];
-  preventionTips?: string[];
-  disclaimer: string;
-}
-
-interface SymptomQuestionnaire {
-  duration: string;
-  severity: string;
-  waterExposure: string;
-  recentTravel: string;
-  additionalInfo: string;
-}
-
 interface HealthAssessment {
   selectedSymptoms: string[];
   questionnaire: SymptomQuestionnaire;
   aiAssessment: AIHealthAssessment | null;
+  // Set when general advice stood in for the AI's answer
+  fallbackReason?: FallbackReason;
   timestamp: Date;
 }
 
@@ -181,6 +179,13 @@ const SYMPTOMS_LIST: Symptom[] = [
     severity: "mild",
     icon: "exclamationmark.circle",
   },
+  {
+    id: "blood_in_stool",
+    name: "Blood in Stool",
+    category: "gastrointestinal",
+    severity: "severe",
+    icon: "drop.triangle.fill",
+  },
   {
     id: "gas",
     name: "Excessive Gas",
@@ -233,6 +238,7 @@ const SYMPTOMS_LIST: Symptom[] = [
 ];
 
 export default function AIHealthCheckerScreen() {
+  const { user } = useAuth();
   const [selectedSymptoms, setSelectedSymptoms] = useState<string[]>([]);
   const [showQuestionnaire, setShowQuestionnaire] = useState(false);
   const [questionnaire, setQuestionnaire] = useState<SymptomQuestionnaire>({
@@ -248,11 +254,35 @@ export default function AIHealthCheckerScreen() {
   const [assessmentHistory, setAssessmentHistory] = useState<
     HealthAssessment[]
   >([]);
+  const [forChild, setForChild] = useState(false);
+  const [showEmergency, setShowEmergency] = useState(false);
+  const [acknowledgedEmergencies, setAcknowledgedEmergencies] = useState<
+    string[]
+  >([]);
+
+  // Danger signs are checked on every toggle, before any questions or AI
+  const emergencies = useMemo(
+    () => getEmergencies(selectedSymptoms, forChild),
+    [selectedSymptoms, forChild]
+  );
 
   useEffect(() => {
     loadAssessmentHistory();
   }, []);
 
+  useEffect(() => {
+    if (emergencies.some((rule) => !acknowledgedEmergencies.includes(rule.id))) {
+      setShowEmergency(true);
+    }
+  }, [emergencies, acknowledgedEmergencies]);
+
+  const closeEmergency = () => {
+    setAcknowledgedEmergencies((prev) => [
+      ...new Set([...prev, ...emergencies.map((rule) => rule.id)]),
+    ]);
+    setShowEmergency(false);
+  };
+
   const loadAssessmentHistory = async () => {
     try {
       const history = await AsyncStorage.getItem("aiAssessmentHistory");
@@ -289,211 +319,19 @@ export default function AIHealthCheckerScreen() {
     );
   };
 
-  const callOpenAI = async (
+  const requestAssessment = async (
     symptoms: string[],
     questionnaireData: SymptomQuestionnaire
-  ): Promise<AIHealthAssessment> => {
-    // Check if API key is available
-    if (!OPENAI_API_KEY) {
-      throw new Error(
-        "OpenAI API key not configured. Please add your API key to the .env file."
-      );
-    }
-
+  ): Promise<AssessmentOutcome> => {
     const symptomNames = symptoms.map(
       (id) => SYMPTOMS_LIST.find((s) => s.id === id)?.name || id
     );
 
-    const prompt = `You are a specialized medical AI assistant with expertise in water-borne diseases, waterborne pathogens, and water related health issues.
-
-PATIENT INFORMATION:
-- Symptoms: ${symptomNames.join(", ")}
-- Duration: ${questionnaireData.duration}
-- Severity Level: ${questionnaireData.severity}
-- Recent Water Exposure: ${questionnaireData.waterExposure}
-- Recent Travel: ${questionnaireData.recentTravel}
-- Additional Information: ${questionnaireData.additionalInfo}
-
-CRITICAL FOCUS AREAS:
-- Water-borne diseases (Cholera, Typhoid, Hepatitis A/E, Giardiasis, Cryptosporidiosis, Amoebiasis)
-- Water contamination-related illnesses (E. coli, Salmonella, Shigella, Campylobacter)
-- Dehydration and electrolyte imbalances
-- Gastrointestinal infections from contaminated water sources
-- Vector-borne diseases related to stagnant water (Dengue, Malaria considerations)
-
-Please provide a comprehensive health assessment in the following JSON format:
-
-{
-  "possibleConditions": [
-    {
-      "name": "Specific Water-borne Disease Name",
-      "probability": 85,
-      "description": "Detailed description focusing on water contamination source and transmission",
-      "severity": "low/medium/high",
-      "commonDuration": "typical duration of illness",
-      "waterSource": "likely contaminated water source (drinking water, recreational water, etc.)"
-    }
-  ],
-  "riskLevel": "low/medium/high",
-  "homeRemedies": [
-    "💧 Oral Rehydration Solution (ORS): Mix 1 tsp salt + 2 tbsp sugar in 1 liter clean boiled water",
-    "🔥 Boil all drinking water for at least 1 minute before consumption",
-    "🍵 Ginger tea or chamomile tea to soothe stomach and reduce nausea",
-    "🍌 BRAT diet: Bananas, Rice, Applesauce, Toast for easy digestion",
-    "🧂 Electrolyte replacement: Add pinch of salt to clean water or coconut water",
-    "🌿 Probiotics from yogurt (if tolerated) to restore gut bacteria"
-  ],
-  "whenToSeekHelp": [
-    "🚨 IMMEDIATE: Signs of severe dehydration (dizziness, dry mouth, no urination for 8+ hours)",
-    "⚠️ URGENT: High fever above 39°C (102°F) lasting more than 24 hours",
-    "🩸 URGENT: Blood or mucus in stool or vomit",
-    "⏰ If symptoms persist or worsen after 48-72 hours of home treatment",
-    "🤒 Severe abdominal pain or signs of appendicitis",
-    "👶 Special concern for children, elderly, or immunocompromised individuals"
-  ],
-  "generalAdvice": [
-    "🚰 Water Safety: Only drink boiled, bottled, or properly treated water",
-    "🧼 Hand Hygiene: Wash hands frequently with soap for 20+ seconds",
-    "🍎 Food Safety: Avoid raw foods, street food, and unpeeled fruits",
-    "🏠 Rest and avoid strenuous activities to conserve energy for recovery",
-    "📊 Monitor symptoms: Keep track of frequency of bowel movements and fluid intake",
-    "🌡️ Temperature monitoring: Check fever regularly and record patterns"
-  ],
-  "preventionTips": [
-    "💧 Water purification: Use water purification tablets or UV sterilization",
-    "🧊 Avoid ice cubes from unknown water sources",
-    "🥗 Eat only thoroughly cooked hot foods",
-    "🏊 Avoid swimming in potentially contaminated water bodies"
-  ],
-  "disclaimer": "This AI assessment focuses on water-related health issues and is for informational purposes only. It cannot replace professional medical diagnosis. Seek immediate medical attention for severe symptoms or if you suspect serious water-borne illness."
-}
-
-ASSESSMENT GUIDELINES:
-1. Prioritize water-borne and water-contamination related conditions
-2. Include probability percentages (0-100) with higher accuracy for water-related diseases
-3. Never provide definitive diagnosis - use "may indicate", "could suggest", "possible"
-4. Emphasize immediate hydration and water safety measures
-5. Include specific home remedies for water-borne illness recovery
-6. Provide clear warning signs requiring immediate medical attention
-7. Focus on prevention of further water contamination exposure
-8. Consider incubation periods and typical progression of water-borne diseases
-9. Maximum 4 conditions, prioritized by probability and water-relation
-10. Include practical advice for water purification and food safety
-
-Respond only with the JSON object, no additional text.`;
-
-    try {
-      const response = await fetch(OPENAI_API_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [
-            {
-              role: "system",
-              content:
-                "You are a helpful medical AI assistant specializing in water-borne diseases. Provide health assessments in the exact JSON format requested. Always be responsible and emphasize the need for professional medical consultation.",
-            },
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          temperature: 0.3,
-          max_tokens: 2000,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("OpenAI API Error:", {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorText,
-        });
-        throw new Error(`OpenAI API error: ${response.status} - ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-        throw new Error("Invalid response format from OpenAI API");
-      }
-
-      const aiResponse = data.choices[0].message.content;
-
-      // Clean the response to ensure it's valid JSON
-      let cleanedResponse = aiResponse.trim();
-      if (cleanedResponse.startsWith('```json')) {
-        cleanedResponse = cleanedResponse.replace(/```json\n?/, '').replace(/\n?```$/, '');
-      }
-
-      // Parse the JSON response
-      const assessment = JSON.parse(cleanedResponse);
-      return assessment;
-    } catch (error) {
-      console.error("OpenAI API error:", error);
-
-      // Enhanced fallback assessment focused on water-borne diseases
-      return {
-        possibleConditions: [
-          {
-            name: "Water-borne Gastrointestinal Infection",
-            probability: 75,
-            description:
-              "Possible infection from contaminated water or food, commonly caused by bacteria, viruses, or parasites found in unsafe water sources.",
-            severity: "medium",
-            commonDuration: "3-7 days with proper treatment",
-            waterSource:
-              "Contaminated drinking water, recreational water, or food prepared with unsafe water",
-          },
-          {
-            name: "Acute Gastroenteritis",
-            probability: 60,
-            description:
-              "Inflammation of stomach and intestines, often caused by waterborne pathogens like E. coli, Salmonella, or Norovirus.",
-            severity: "medium",
-            commonDuration: "2-5 days",
-            waterSource: "Contaminated water supply or cross-contamination",
-          },
-        ],
-        riskLevel: "medium" as const,
-        homeRemedies: [
-          "💧 Oral Rehydration Solution (ORS): Mix 1 tsp salt + 2 tbsp sugar in 1 liter boiled water",
-          "🔥 Boil all drinking water for at least 1 minute before consumption",
-          "🍵 Ginger tea or chamomile tea to soothe stomach and reduce nausea",
-          "🍌 BRAT diet: Bananas, Rice, Applesauce, Toast for easy digestion",
-          "🧂 Electrolyte replacement: Coconut water or homemade electrolyte solution",
-          "🌿 Probiotics from plain yogurt (if tolerated) to restore gut bacteria",
-        ],
-        whenToSeekHelp: [
-          "🚨 IMMEDIATE: Signs of severe dehydration (dizziness, dry mouth, no urination for 8+ hours)",
-          "⚠️ URGENT: High fever above 39°C (102°F) lasting more than 24 hours",
-          "🩸 URGENT: Blood or mucus in stool or vomit",
-          "⏰ If symptoms persist or worsen after 48-72 hours of home treatment",
-          "🤒 Severe abdominal pain or signs of complications",
-        ],
-        generalAdvice: [
-          "🚰 Water Safety: Only drink boiled, bottled, or properly treated water",
-          "🧼 Hand Hygiene: Wash hands frequently with soap for 20+ seconds",
-          "🍎 Food Safety: Avoid raw foods, street food, and unpeeled fruits",
-          "🏠 Rest and avoid strenuous activities to conserve energy",
-          "📊 Monitor symptoms: Track bowel movements and fluid intake",
-          "🌡️ Temperature monitoring: Check fever regularly",
-        ],
-        preventionTips: [
-          "💧 Water purification: Use water purification tablets or boiling",
-          "🧊 Avoid ice cubes from unknown water sources",
-          "🥗 Eat only thoroughly cooked hot foods",
-          "🏊 Avoid swimming in potentially contaminated water bodies",
-        ],
-        disclaimer:
-          "This AI assessment focuses on water-related health issues and is for informational purposes only. It cannot replace professional medical diagnosis. Seek immediate medical attention for severe symptoms or if you suspect serious water-borne illness.",
-      };
-    }
+    return AssessmentService.assess(assessmentProvider, {
+      symptoms: symptomNames,
+      symptomIds: symptoms,
+      questionnaire: questionnaireData,
+    });
   };
 
   const proceedToQuestionnaire = () => {
@@ -519,12 +357,13 @@ Respond only with the JSON object, no additional text.`;
     setIsAnalyzing(true);
 
     try {
-      const aiAssessment = await callOpenAI(selectedSymptoms, questionnaire);
+      const outcome = await requestAssessment(selectedSymptoms, questionnaire);
 
       const newAssessment: HealthAssessment = {
         selectedSymptoms,
         questionnaire,
-        aiAssessment,
+        aiAssessment: outcome.assessment,
+        fallbackReason: outcome.fallback?.reason,
         timestamp: new Date(),
       };
 
@@ -532,8 +371,39 @@ Respond only with the JSON object, no additional text.`;
       setShowQuestionnaire(false);
       setShowResults(true);
       saveAssessment(newAssessment);
+
+      // Health check points are limited to once a day by the ledger, so
+      // repeated analyses do not keep earning them
+      if (user) {
+        UserActions.completeHealthCheck(
+          newAssessment.timestamp.toISOString()
+        ).catch((error) => console.error("Error awarding health check:", error));
+        UserActions.recordActivity().catch((error) =>
+          console.error("Error recording activity:", error)
+        );
+        // Shared anonymised, to spot outbreaks of water-borne illness
+        OutbreakSurveillance.recordAssessment(
+          selectedSymptoms,
+          newAssessment.timestamp
+        ).catch((error) =>
+          console.error("Error sharing health signal:", error)
+        );
+      }
     } catch (error) {
       console.error("Analysis error:", error);
+      if (error instanceof AssessmentLimitError) {
+        const minutes =
+          error.retryAfter !== null ? Math.ceil(error.retryAfter / 60) : null;
+        Alert.alert(
+          "Limit Reached",
+          `${error.message}. ${
+            minutes !== null
+              ? `Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`
+              : "Please try again later."
+          }`
+        );
+        return;
+      }
       Alert.alert(
         "Analysis Error",
         "Failed to analyze symptoms. Please check your internet connection and try again."
@@ -571,6 +441,8 @@ Respond only with the JSON object, no additional text.`;
     setShowQuestionnaire(false);
     setAssessment(null);
     setShowResults(false);
+    setForChild(false);
+    setAcknowledgedEmergencies([]);
   };
 
   const getProbabilityColor = (probability: number) => {
@@ -606,6 +478,20 @@ Respond only with the JSON object, no additional text.`;
               analyze patterns and provide personalized guidance.
             </ThemedText>
 
+            <TouchableOpacity
+              style={styles.childToggle}
+              onPress={() => setForChild((prev) => !prev)}
+            >
+              <IconSymbol
+                name={forChild ? "checkmark.square.fill" : "square"}
+                size={22}
+                color="#E91E63"
+              />
+              <ThemedText style={styles.childToggleText}>
+                👶 I am checking for a child under 5
+              </ThemedText>
+            </TouchableOpacity>
+
             <View style={styles.symptomsGrid}>
               {SYMPTOMS_LIST.map((symptom) => (
                 <TouchableOpacity
@@ -645,6 +531,17 @@ Respond only with the JSON object, no additional text.`;
                 {selectedSymptoms.length} symptoms selected
               </ThemedText>
             </View>
+
+            {emergencies.length > 0 && (
+              <TouchableOpacity
+                style={styles.emergencyBanner}
+                onPress={() => setShowEmergency(true)}
+              >
+                <ThemedText style={styles.emergencyBannerText}>
+                  🚨 Danger signs selected. Tap for emergency help.
+                </ThemedText>
+              </TouchableOpacity>
+            )}
           </ThemedView>
 
           {/* Analyze Button */}
@@ -693,13 +590,7 @@ Respond only with the JSON object, no additional text.`;
                 How long have you been experiencing these symptoms?
               </ThemedText>
               <View style={styles.optionsContainer}>
-                {[
-                  "Less than 24 hours",
-                  "1-3 days",
-                  "4-7 days",
-                  "More than a week",
-                  "More than a month",
-                ].map((option) => (
+                {DURATION_OPTIONS.map((option) => (
                   <TouchableOpacity
                     key={option}
                     style={[
@@ -734,12 +625,7 @@ Respond only with the JSON object, no additional text.`;
                 How would you rate the severity of your symptoms?
               </ThemedText>
               <View style={styles.optionsContainer}>
-                {[
-                  "Mild (manageable)",
-                  "Moderate (concerning)",
-                  "Severe (very uncomfortable)",
-                  "Critical (unbearable)",
-                ].map((option) => (
+                {SEVERITY_OPTIONS.map((option) => (
                   <TouchableOpacity
                     key={option}
                     style={[
@@ -774,14 +660,7 @@ Respond only with the JSON object, no additional text.`;
                 Have you recently consumed water from any of these sources?
               </ThemedText>
               <View style={styles.optionsContainer}>
-                {[
-                  "Tap water",
-                  "Well water",
-                  "Bottled water",
-                  "River/lake water",
-                  "Street vendor water",
-                  "No unusual water consumption",
-                ].map((option) => (
+                {WATER_EXPOSURE_OPTIONS.map((option) => (
                   <TouchableOpacity
                     key={option}
                     style={[
@@ -816,14 +695,7 @@ Respond only with the JSON object, no additional text.`;
                 Have you traveled recently or eaten outside food?
               </ThemedText>
               <View style={styles.optionsContainer}>
-                {[
-                  "No recent travel or outside food",
-                  "Traveled within country",
-                  "International travel",
-                  "Ate street food",
-                  "Ate at restaurants",
-                  "Attended events/gatherings",
-                ].map((option) => (
+                {RECENT_TRAVEL_OPTIONS.map((option) => (
                   <TouchableOpacity
                     key={option}
                     style={[
@@ -916,7 +788,9 @@ Respond only with the JSON object, no additional text.`;
               />
               <View style={styles.resultHeaderText}>
                 <ThemedText type="defaultSemiBold">
-                  AI Analysis Complete
+                  {assessment?.fallbackReason
+                    ? "Offline Triage Complete"
+                    : "AI Analysis Complete"}
                 </ThemedText>
                 <ThemedText
                   style={[
@@ -937,6 +811,16 @@ Respond only with the JSON object, no additional text.`;
               {assessment?.aiAssessment?.disclaimer ||
                 "⚠️ This is an AI-based preliminary assessment. Always consult healthcare professionals for proper diagnosis and treatment."}
             </ThemedText>
+
+            {assessment?.fallbackReason && (
+              <ThemedText style={styles.fallbackNotice}>
+                📴 OFFLINE TRIAGE: because{" "}
+                {FALLBACK_REASON_LABELS[assessment.fallbackReason]}, these
+                results come from the app&apos;s built-in rules, not AI.
+                {assessment.fallbackReason !== "not_configured" &&
+                  " Try again when you are back online for an AI assessment."}
+              </ThemedText>
+            )}
           </ThemedView>
 
           {/* Possible Conditions */}
@@ -1158,11 +1042,18 @@ Respond only with the JSON object, no additional text.`;
               <ThemedText style={styles.historySymptoms}>
                 {hist.selectedSymptoms.length} symptoms •{" "}
                 {hist.aiAssessment?.riskLevel || "unknown"} risk
+                {hist.fallbackReason ? " • offline triage" : ""}
               </ThemedText>
             </View>
           ))}
         </ThemedView>
       )}
+
+      <EmergencyScreen
+        emergencies={emergencies}
+        visible={showEmergency}
+        onClose={closeEmergency}
+      />
     </ScrollView>
   );
 }
@@ -1290,6 +1181,36 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 18,
   },
+  childToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 16,
+  },
+  childToggleText: {
+    fontSize: 14,
+    color: "#333",
+  },
+  emergencyBanner: {
+    backgroundColor: "#D32F2F",
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  emergencyBannerText: {
+    color: "white",
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  fallbackNotice: {
+    backgroundColor: "#e3f2fd",
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+    color: "#0d47a1",
+    fontSize: 14,
+    lineHeight: 18,
+  },
   conditionItem: {
     marginBottom: 16,
     padding: 12,
@@ -5,8 +5,14 @@ import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { NotificationSystem, addRewardNotification } from '@/components/notification-system';
+import { useNotificationObserver } from '@/hooks/use-notification-observer';
+import { NotificationSystem } from '@/components/notification-system';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { StatsProvider } from '@/contexts/StatsContext';
+import { PushNotifications } from '@/lib/pushNotifications';
+import { SensorManager } from '@/lib/sensors/sensorManager';
+import { SyncQueue } from '@/lib/syncQueue';
+import { WaterQualityAlerts } from '@/lib/waterQuality/alerts';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -17,31 +23,44 @@ export default function RootLayout() {
   const [showNotifications, setShowNotifications] = useState(false);
 
   useEffect(() => {
-    // Add welcome notification on app start
-    const addWelcomeNotification = async () => {
-      await addRewardNotification(25, 'joining Aquelis 2.0! Welcome to the community.');
-    };
-    
-    // Delay to ensure AsyncStorage is ready
-    setTimeout(addWelcomeNotification, 1000);
+    // Replay queued offline changes whenever connectivity returns
+    return SyncQueue.start();
   }, []);
 
+  useEffect(() => {
+    // Keep paired sensors connected while the app is open
+    return SensorManager.start();
+  }, []);
+
+  useEffect(() => {
+    // Notify about unsafe water from any paired sensor
+    return WaterQualityAlerts.start();
+  }, []);
+
+  useEffect(() => {
+    PushNotifications.setup().catch(error => console.error('Error setting up notifications:', error));
+  }, []);
+
+  useNotificationObserver();
+
   return (
     <AuthProvider>
-      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="login" options={{ headerShown: false }} />
-          <Stack.Screen name="signup" options={{ headerShown: false }} />
-          <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-        </Stack>
-        <StatusBar style="auto" />
+      <StatsProvider>
+        <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+          <Stack>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="login" options={{ headerShown: false }} />
+            <Stack.Screen name="signup" options={{ headerShown: false }} />
+            <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+          </Stack>
+          <StatusBar style="auto" />
         
-        <NotificationSystem
-          visible={showNotifications}
-          onClose={() => setShowNotifications(false)}
-        />
-      </ThemeProvider>
+          <NotificationSystem
+            visible={showNotifications}
+            onClose={() => setShowNotifications(false)}
+          />
+        </ThemeProvider>
+      </StatsProvider>
     </AuthProvider>
   );
 }
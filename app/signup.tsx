@@ -20,6 +20,8 @@ export default function SignupScreen() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [village, setVillage] = useState('');
+  const [district, setDistrict] = useState('');
   const [loading, setLoading] = useState(false);
   const { register } = useAuth();
   const colorScheme = useColorScheme();
@@ -43,7 +45,10 @@ export default function SignupScreen() {
 
     setLoading(true);
     try {
-      await register(email, password, name);
+      await register(email, password, name, {
+        village: village.trim() || null,
+        district: district.trim() || null,
+      });
       router.replace('/(tabs)');
     } catch (error: any) {
       Alert.alert('Registration Failed', error.message || 'An error occurred during registration');
@@ -100,6 +105,40 @@ export default function SignupScreen() {
               />
             </View>
 
+            <View style={styles.inputContainer}>
+              <Text style={[styles.label, { color: colors.text }]}>Village (optional)</Text>
+              <TextInput
+                style={[styles.input, { 
+                  borderColor: colors.icon,
+                  backgroundColor: colorScheme === 'dark' ? '#2A2A2A' : '#F5F5F5',
+                  color: colors.text 
+                }]}
+                value={village}
+                onChangeText={setVillage}
+                placeholder="Enter your village or town"
+                placeholderTextColor={colors.text + '80'}
+                autoCapitalize="words"
+                autoCorrect={false}
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={[styles.label, { color: colors.text }]}>District (optional)</Text>
+              <TextInput
+                style={[styles.input, { 
+                  borderColor: colors.icon,
+                  backgroundColor: colorScheme === 'dark' ? '#2A2A2A' : '#F5F5F5',
+                  color: colors.text 
+                }]}
+                value={district}
+                onChangeText={setDistrict}
+                placeholder="Enter your district"
+                placeholderTextColor={colors.text + '80'}
+                autoCapitalize="words"
+                autoCorrect={false}
+              />
+            </View>
+
             <View style={styles.inputContainer}>
               <Text style={[styles.label, { color: colors.text }]}>Password</Text>
               <TextInput
@@ -4,10 +4,13 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useAuth } from '@/contexts/AuthContext';
+import { useStats } from '@/contexts/StatsContext';
 import { UserActions } from '@/lib/userActions';
+import { POINT_RULES } from '@/lib/points';
 
 export const TestDatabaseActions: React.FC = () => {
-  const { user, userProfile, refreshUserProfile } = useAuth();
+  const { user } = useAuth();
+  const { stats, refresh } = useStats();
 
   const handleTestAction = async (action: string) => {
     if (!user) {
@@ -15,24 +18,38 @@ export const TestDatabaseActions: React.FC = () => {
       return;
     }
 
+    // Each test action gets a fresh entity ID so the ledger does not
+    // treat it as a repeat of an earlier one
+    const testEntityId = `test_${Date.now()}`;
+
     try {
       switch (action) {
         case 'addPoints':
-          await UserActions.connectSensor(user.$id);
+          await UserActions.connectSensor({
+            deviceId: testEntityId,
+            name: 'Test sensor',
+            sensorType: 'multiparameter',
+            waterSource: 'other',
+            installLocation: null,
+            firmware: null,
+            lastCalibratedAt: null,
+            calibration: {},
+            shared: false,
+          });
           break;
         case 'submitReport':
-          await UserActions.submitReport(user.$id);
+          await UserActions.submitReport(testEntityId, 'low');
           break;
         case 'healthCheck':
-          await UserActions.completeHealthCheck(user.$id);
+          await UserActions.completeHealthCheck(testEntityId);
           break;
         case 'updateStreak':
-          await UserActions.updateDailyStreak(user.$id);
+          await UserActions.updateDailyStreak();
           break;
       }
       
       // Refresh user profile to see updated data
-      await refreshUserProfile();
+      await refresh();
       
       Alert.alert('Success', 'Action completed! Check your stats.');
     } catch (error) {
@@ -56,10 +73,10 @@ export const TestDatabaseActions: React.FC = () => {
       </ThemedText>
       
       <View style={styles.statsContainer}>
-        <ThemedText>Points: {userProfile?.points || 0}</ThemedText>
-        <ThemedText>Level: {userProfile?.level || 1}</ThemedText>
-        <ThemedText>Reports: {userProfile?.reportsSubmitted || 0}</ThemedText>
-        <ThemedText>Streak: {userProfile?.streak || 0}</ThemedText>
+        <ThemedText>Points: {stats.points}</ThemedText>
+        <ThemedText>Level: {stats.level}</ThemedText>
+        <ThemedText>Reports: {stats.reportsSubmitted}</ThemedText>
+        <ThemedText>Streak: {stats.streak}</ThemedText>
       </View>
 
       <View style={styles.buttonsContainer}>
@@ -68,7 +85,7 @@ export const TestDatabaseActions: React.FC = () => {
           onPress={() => handleTestAction('addPoints')}
         >
           <IconSymbol name="plus.circle.fill" size={20} color="#4CAF50" />
-          <ThemedText style={styles.buttonText}>Add 10 Points</ThemedText>
+          <ThemedText style={styles.buttonText}>Connect Sensor (+{POINT_RULES.sensor_connected.points}pts)</ThemedText>
         </TouchableOpacity>
 
         <TouchableOpacity 
@@ -76,7 +93,7 @@ export const TestDatabaseActions: React.FC = () => {
           onPress={() => handleTestAction('submitReport')}
         >
           <IconSymbol name="flag.fill" size={20} color="#2196F3" />
-          <ThemedText style={styles.buttonText}>Submit Report (+25pts)</ThemedText>
+          <ThemedText style={styles.buttonText}>Submit Report (+{POINT_RULES.report_low.points}pts)</ThemedText>
         </TouchableOpacity>
 
         <TouchableOpacity 
@@ -84,7 +101,7 @@ export const TestDatabaseActions: React.FC = () => {
           onPress={() => handleTestAction('healthCheck')}
         >
           <IconSymbol name="heart.fill" size={20} color="#E91E63" />
-          <ThemedText style={styles.buttonText}>Health Check (+15pts)</ThemedText>
+          <ThemedText style={styles.buttonText}>Health Check (+{POINT_RULES.health_check.points}pts)</ThemedText>
         </TouchableOpacity>
 
         <TouchableOpacity 
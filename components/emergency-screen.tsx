@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Linking, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import * as Location from 'expo-location';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { EMERGENCY_NUMBERS, EmergencyRule, ORS_GUIDE } from '@/lib/assessment/emergency';
+import {
+  findFacilityDistrict,
+  getDistrictFacilities,
+  getFacilityDistricts,
+  getNearestFacilities,
+  HealthFacility,
+} from '@/lib/healthFacilities';
+
+interface EmergencyScreenProps {
+  emergencies: EmergencyRule[];
+  visible: boolean;
+  onClose: () => void;
+}
+
+type NearestFacility = { facility: HealthFacility; distanceKm: number };
+
+const call = (number: string) => {
+  Linking.openURL(`tel:${number}`).catch(() =>
+    Alert.alert('Unable to Call', `Please dial ${number} from your phone.`)
+  );
+};
+
+const openDirections = ({ location }: HealthFacility) => {
+  Linking.openURL(
+    `https://www.google.com/maps/dir/?api=1&destination=${location.latitude},${location.longitude}`
+  ).catch(error => console.error('Error opening directions:', error));
+};
+
+// A facility with buttons to call it and get directions, and how far away
+// it is when the phone's location is known
+const FacilityRow: React.FC<{ facility: HealthFacility; distanceKm?: number }> = ({ facility, distanceKm }) => (
+  <View style={styles.facility}>
+    <View style={styles.facilityText}>
+      <ThemedText type="defaultSemiBold">{facility.name}</ThemedText>
+      <ThemedText style={styles.hintText}>
+        {facility.type} · {facility.district}, {facility.state}
+        {distanceKm !== undefined && ` · ${distanceKm.toFixed(0)} km`}
+      </ThemedText>
+      {facility.phone && <ThemedText style={styles.hintText}>{facility.phone}</ThemedText>}
+    </View>
+    {facility.phone && (
+      <TouchableOpacity style={styles.facilityButton} onPress={() => call(facility.phone!)}>
+        <IconSymbol name="phone.fill" size={20} color="#D32F2F" />
+      </TouchableOpacity>
+    )}
+    <TouchableOpacity style={styles.facilityButton} onPress={() => openDirections(facility)}>
+      <IconSymbol name="location.fill" size={20} color="#2196F3" />
+    </TouchableOpacity>
+  </View>
+);
+
+// Full-screen help for danger signs, shown as soon as they are selected:
+// what was found, one-tap emergency calls, the nearest referral hospitals
+// from the bundled list (104 finds the nearest PHC), and how to make ORS. Without the phone's location,
+// the user picks their district instead, starting from the one in their
+// profile.
+export const EmergencyScreen: React.FC<EmergencyScreenProps> = ({ emergencies, visible, onClose }) => {
+  const { userProfile } = useAuth();
+  const [nearest, setNearest] = useState<NearestFacility[] | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [district, setDistrict] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDistrict(current => current ?? findFacilityDistrict(userProfile?.district));
+  }, [userProfile?.district]);
+
+  useEffect(() => {
+    if (!visible || nearest) return;
+
+    const locate = async () => {
+      setLocating(true);
+      try {
+        let { status } = await Location.getForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          ({ status } = await Location.requestForegroundPermissionsAsync());
+        }
+        if (status !== 'granted') return;
+
+        const position = await Location.getLastKnownPositionAsync()
+          ?? await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low });
+        setNearest(getNearestFacilities(position.coords));
+      } catch (error) {
+        console.error('Error finding nearest facilities:', error);
+      } finally {
+        setLocating(false);
+      }
+    };
+    locate();
+  }, [visible, nearest]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <IconSymbol name="exclamationmark.triangle.fill" size={32} color="white" />
+          <ThemedText type="title" style={styles.headerTitle}>Get Medical Help Now</ThemedText>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {emergencies.map(emergency => (
+            <View key={emergency.id} style={styles.dangerSign}>
+              <ThemedText type="defaultSemiBold" style={styles.dangerTitle}>🚨 {emergency.title}</ThemedText>
+              <ThemedText style={styles.dangerMessage}>{emergency.message}</ThemedText>
+            </View>
+          ))}
+
+          {EMERGENCY_NUMBERS.map(({ number, label, description }) => (
+            <TouchableOpacity
+              key={number}
+              style={[styles.callButton, number !== '108' && styles.secondaryCallButton]}
+              onPress={() => call(number)}
+            >
+              <IconSymbol name="phone.fill" size={24} color="white" />
+              <View style={styles.callText}>
+                <ThemedText style={styles.callLabel}>Call {number} · {label}</ThemedText>
+                <ThemedText style={styles.callDescription}>{description}</ThemedText>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          <ThemedText type="subtitle" style={styles.sectionTitle}>Nearest Hospitals</ThemedText>
+          <ThemedText style={styles.hintText}>
+            For your nearest Primary Health Centre, call 104. The hospitals below take patients it cannot treat.
+          </ThemedText>
+          {locating && <ThemedText style={styles.hintText}>Finding hospitals near you...</ThemedText>}
+          {!locating && !nearest && (
+            <>
+              <ThemedText style={styles.hintText}>
+                Without your location, choose your district to see its hospitals.
+              </ThemedText>
+              <View style={styles.districts}>
+                {getFacilityDistricts().map(option => (
+                  <TouchableOpacity
+                    key={`${option.state}:${option.district}`}
+                    style={[styles.districtChip, option.district === district && styles.selectedDistrictChip]}
+                    onPress={() => setDistrict(option.district)}
+                  >
+                    <ThemedText
+                      style={[styles.districtText, option.district === district && styles.selectedDistrictText]}
+                    >
+                      {option.district}, {option.state}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {district && getDistrictFacilities(district).map(facility => (
+                <FacilityRow key={facility.id} facility={facility} />
+              ))}
+            </>
+          )}
+          {nearest?.map(({ facility, distanceKm }) => (
+            <FacilityRow key={facility.id} facility={facility} distanceKm={distanceKm} />
+          ))}
+
+          <ThemedText type="subtitle" style={styles.sectionTitle}>Make ORS at Home</ThemedText>
+          <View style={styles.orsGuide}>
+            {ORS_GUIDE.map((step, index) => (
+              <ThemedText key={step} style={styles.orsStep}>{index + 1}. {step}</ThemedText>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.continueButton} onPress={onClose}>
+            <ThemedText style={styles.continueText}>I understand, continue to the symptom checker</ThemedText>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: '#D32F2F',
+    gap: 12,
+  },
+  headerTitle: {
+    color: 'white',
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  dangerSign: {
+    backgroundColor: '#FFEBEE',
+    borderLeftWidth: 4,
+    borderLeftColor: '#D32F2F',
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  dangerTitle: {
+    color: '#B71C1C',
+  },
+  dangerMessage: {
+    color: '#333',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  callButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#D32F2F',
+    borderRadius: 12,
+    padding: 16,
+    gap: 16,
+  },
+  secondaryCallButton: {
+    backgroundColor: '#F57C00',
+  },
+  callText: {
+    flex: 1,
+  },
+  callLabel: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  callDescription: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+  },
+  sectionTitle: {
+    marginTop: 12,
+    color: '#333',
+  },
+  hintText: {
+    color: '#666',
+    fontSize: 14,
+  },
+  facility: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    gap: 8,
+  },
+  facilityText: {
+    flex: 1,
+  },
+  facilityButton: {
+    padding: 8,
+  },
+  districts: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  districtChip: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  selectedDistrictChip: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  districtText: {
+    color: '#333',
+    fontSize: 14,
+  },
+  selectedDistrictText: {
+    color: 'white',
+  },
+  orsGuide: {
+    backgroundColor: '#E3F2FD',
+    borderRadius: 8,
+    padding: 12,
+    gap: 6,
+  },
+  orsStep: {
+    color: '#0D47A1',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  continueButton: {
+    marginTop: 12,
+    marginBottom: 40,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#999',
+    alignItems: 'center',
+  },
+  continueText: {
+    color: '#666',
+  },
+});
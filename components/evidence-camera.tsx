@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Modal, Image, Alert, ActivityIndicator } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import * as Location from 'expo-location';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+
+// A photo taken on this device, before it has been compressed or uploaded
+export interface CapturedPhoto {
+  uri: string;
+  capturedAt: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+}
+
+interface EvidenceCameraProps {
+  visible: boolean;
+  maxPhotos: number;
+  initialPhotos: CapturedPhoto[];
+  onDone: (photos: CapturedPhoto[]) => void;
+  onCancel: () => void;
+}
+
+// Best-effort position for a photo; a missing fix should never block capture
+const getCapturePosition = async (): Promise<Location.LocationObject | null> => {
+  try {
+    return await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+  } catch {
+    return Location.getLastKnownPositionAsync().catch(() => null);
+  }
+};
+
+export const EvidenceCamera: React.FC<EvidenceCameraProps> = ({
+  visible,
+  maxPhotos,
+  initialPhotos,
+  onDone,
+  onCancel,
+}) => {
+  const cameraRef = useRef<CameraView>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [photos, setPhotos] = useState<CapturedPhoto[]>(initialPhotos);
+  const [retakeIndex, setRetakeIndex] = useState<number | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPhotos(initialPhotos);
+      setRetakeIndex(null);
+    }
+  }, [visible, initialPhotos]);
+
+  const canCapture = retakeIndex !== null || photos.length < maxPhotos;
+
+  const takePhoto = async () => {
+    if (!cameraRef.current || isCapturing || !canCapture) return;
+
+    setIsCapturing(true);
+    try {
+      const [picture, position] = await Promise.all([
+        cameraRef.current.takePictureAsync({ quality: 0.9 }),
+        getCapturePosition(),
+      ]);
+
+      const photo: CapturedPhoto = {
+        uri: picture.uri,
+        capturedAt: new Date().toISOString(),
+        latitude: position?.coords.latitude ?? null,
+        longitude: position?.coords.longitude ?? null,
+        accuracy: position?.coords.accuracy ?? null,
+      };
+
+      setPhotos(prev =>
+        retakeIndex !== null
+          ? prev.map((existing, index) => (index === retakeIndex ? photo : existing))
+          : [...prev, photo]
+      );
+      setRetakeIndex(null);
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Camera Error', 'Could not take the photo. Please try again.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const deletePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+    setRetakeIndex(null);
+  };
+
+  const renderPermissionRequest = () => (
+    <View style={styles.permissionContainer}>
+      <IconSymbol name="camera.fill" size={48} color="#ccc" />
+      <ThemedText style={styles.permissionText}>
+        Camera access is needed to attach photo evidence to your report.
+      </ThemedText>
+      <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+        <ThemedText style={styles.permissionButtonText}>Allow Camera</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={onCancel}>
+            <IconSymbol name="xmark" size={24} color="white" />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>
+            {retakeIndex !== null ? `Retake photo ${retakeIndex + 1}` : `Photos ${photos.length}/${maxPhotos}`}
+          </ThemedText>
+          <TouchableOpacity style={styles.headerButton} onPress={() => onDone(photos)}>
+            <ThemedText style={styles.doneText}>Done</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        {permission?.granted ? (
+          <CameraView ref={cameraRef} style={styles.camera} facing="back" />
+        ) : (
+          renderPermissionRequest()
+        )}
+
+        <View style={styles.footer}>
+          <View style={styles.thumbnailRow}>
+            {photos.map((photo, index) => (
+              <View key={photo.uri} style={styles.thumbnailContainer}>
+                <TouchableOpacity onPress={() => setRetakeIndex(retakeIndex === index ? null : index)}>
+                  <Image
+                    source={{ uri: photo.uri }}
+                    style={[styles.thumbnail, retakeIndex === index && styles.selectedThumbnail]}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.deleteButton} onPress={() => deletePhoto(index)}>
+                  <IconSymbol name="xmark" size={12} color="white" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.shutterButton, (!canCapture || !permission?.granted) && styles.disabledShutter]}
+            onPress={takePhoto}
+            disabled={!canCapture || !permission?.granted || isCapturing}
+          >
+            {isCapturing ? <ActivityIndicator color="#333" /> : <View style={styles.shutterInner} />}
+          </TouchableOpacity>
+
+          <ThemedText style={styles.hintText}>
+            {canCapture
+              ? 'Tap a thumbnail to retake it'
+              : `Maximum of ${maxPhotos} photos reached. Delete or retake one to change it.`}
+          </ThemedText>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 12,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 56,
+  },
+  headerTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  doneText: {
+    color: '#4CAF50',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'right',
+  },
+  camera: {
+    flex: 1,
+  },
+  permissionContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  permissionText: {
+    color: 'white',
+    textAlign: 'center',
+  },
+  permissionButton: {
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  permissionButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  footer: {
+    alignItems: 'center',
+    paddingVertical: 20,
+    gap: 16,
+  },
+  thumbnailRow: {
+    flexDirection: 'row',
+    gap: 12,
+    minHeight: 64,
+  },
+  thumbnailContainer: {
+    position: 'relative',
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selectedThumbnail: {
+    borderColor: '#FF9800',
+  },
+  deleteButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#F44336',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shutterButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledShutter: {
+    opacity: 0.4,
+  },
+  shutterInner: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: 'white',
+  },
+  hintText: {
+    color: '#ccc',
+    fontSize: 12,
+  },
+});
@@ -1,43 +1,91 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, TouchableOpacity, Animated, Dimensions } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, TouchableOpacity, Animated, Dimensions, PanResponder, ScrollView } from 'react-native';
+import { Href, router } from 'expo-router';
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface Notification {
-  id: string;
-  type: 'success' | 'warning' | 'error' | 'info';
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  action?: {
-    label: string;
-    onPress: () => void;
-  };
-}
+import { useNotifications } from '@/hooks/use-notifications';
+import {
+  AppNotification,
+  getNotificationLink,
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  NotificationCenter,
+  NotificationLink,
+  toNotificationUrl,
+} from '@/lib/notifications';
 
 interface NotificationSystemProps {
   visible: boolean;
   onClose: () => void;
 }
 
+type CategoryFilter = NotificationCategory | 'all';
+
+const CATEGORY_FILTERS: CategoryFilter[] = ['all', ...(Object.keys(NOTIFICATION_CATEGORIES) as NotificationCategory[])];
+
 const { width } = Dimensions.get('window');
 
+// How far a notification must be dragged sideways to dismiss it
+const SWIPE_DISMISS_DISTANCE = 120;
+
+interface SwipeToDismissProps {
+  onDismiss: () => void;
+  children: React.ReactNode;
+}
+
+// Drag left or right past the threshold to dismiss; a shorter drag springs back
+const SwipeToDismiss: React.FC<SwipeToDismissProps> = ({ onDismiss, children }) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only clearly sideways drags, so the list still scrolls
+      onMoveShouldSetPanResponder: (_, { dx, dy }) => Math.abs(dx) > 10 && Math.abs(dx) > Math.abs(dy) * 2,
+      onPanResponderMove: Animated.event([null, { dx: translateX }], { useNativeDriver: false }),
+      onPanResponderRelease: (_, { dx, vx }) => {
+        if (Math.abs(dx) > SWIPE_DISMISS_DISTANCE || Math.abs(vx) > 1.5) {
+          Animated.timing(translateX, {
+            toValue: Math.sign(dx || vx) * width,
+            duration: 200,
+            useNativeDriver: false,
+          }).start(() => onDismissRef.current());
+        } else {
+          Animated.spring(translateX, { toValue: 0, useNativeDriver: false }).start();
+        }
+      },
+      onPanResponderTerminate: () => {
+        Animated.spring(translateX, { toValue: 0, useNativeDriver: false }).start();
+      },
+    })
+  ).current;
+
+  const opacity = translateX.interpolate({
+    inputRange: [-width, 0, width],
+    outputRange: [0, 1, 0],
+  });
+
+  return (
+    <Animated.View style={{ transform: [{ translateX }], opacity }} {...panResponder.panHandlers}>
+      {children}
+    </Animated.View>
+  );
+};
+
 export const NotificationSystem: React.FC<NotificationSystemProps> = ({ visible, onClose }) => {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { notifications, unreadCount } = useNotifications();
+  const [filter, setFilter] = useState<CategoryFilter>('all');
   const [slideAnim] = useState(new Animated.Value(-width));
 
-  useEffect(() => {
-    loadNotifications();
-  }, []);
-
   useEffect(() => {
     if (visible) {
       Animated.spring(slideAnim, {
         toValue: 0,
         useNativeDriver: true,
       }).start();
+      // Pick up notifications raised on the user's other devices
+      NotificationCenter.refresh().catch(error => console.error('Error refreshing notifications:', error));
     } else {
       Animated.spring(slideAnim, {
         toValue: -width,
@@ -46,41 +94,33 @@ export const NotificationSystem: React.FC<NotificationSystemProps> = ({ visible,
     }
   }, [visible]);
 
-  const loadNotifications = async () => {
-    try {
-      const savedNotifications = await AsyncStorage.getItem('notifications');
-      if (savedNotifications) {
-        const parsed = JSON.parse(savedNotifications).map((notif: any) => ({
-          ...notif,
-          timestamp: new Date(notif.timestamp)
-        }));
-        setNotifications(parsed);
-      }
-    } catch (error) {
-      console.error('Error loading notifications:', error);
-    }
+  const openLink = (link: NotificationLink | null) => {
+    const url = link && toNotificationUrl(link);
+    if (!url) return;
+    onClose();
+    router.push(url as Href);
   };
 
-  const markAsRead = async (notificationId: string) => {
-    const updatedNotifications = notifications.map(notif =>
-      notif.id === notificationId ? { ...notif, read: true } : notif
-    );
-    setNotifications(updatedNotifications);
-    
-    try {
-      await AsyncStorage.setItem('notifications', JSON.stringify(updatedNotifications));
-    } catch (error) {
-      console.error('Error updating notification:', error);
-    }
+  const handlePress = (notification: AppNotification) => {
+    NotificationCenter.markRead(notification.id).catch(error => console.error('Error updating notification:', error));
+    openLink(getNotificationLink(notification));
   };
 
-  const clearAll = async () => {
-    setNotifications([]);
-    try {
-      await AsyncStorage.removeItem('notifications');
-    } catch (error) {
-      console.error('Error clearing notifications:', error);
-    }
+  const handleAction = (notification: AppNotification) => {
+    NotificationCenter.markRead(notification.id).catch(error => console.error('Error updating notification:', error));
+    openLink(notification.action ?? null);
+  };
+
+  const dismiss = (notificationId: string) => {
+    NotificationCenter.dismiss(notificationId).catch(error => console.error('Error dismissing notification:', error));
+  };
+
+  const clearAll = () => {
+    NotificationCenter.clear().catch(error => console.error('Error clearing notifications:', error));
+  };
+
+  const markAllRead = () => {
+    NotificationCenter.markAllRead().catch(error => console.error('Error updating notifications:', error));
   };
 
   const getNotificationIcon = (type: string) => {
@@ -103,7 +143,13 @@ export const NotificationSystem: React.FC<NotificationSystemProps> = ({ visible,
     }
   };
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const filtered = filter === 'all'
+    ? notifications
+    : notifications.filter(notification => notification.category === filter);
+
+  const getUnreadCount = (category: CategoryFilter) => notifications.filter(notification =>
+    !notification.read && (category === 'all' || notification.category === category)
+  ).length;
 
   return (
     <Animated.View 
@@ -126,6 +172,11 @@ export const NotificationSystem: React.FC<NotificationSystemProps> = ({ visible,
         </View>
         
         <View style={styles.headerActions}>
+          {unreadCount > 0 && (
+            <TouchableOpacity onPress={markAllRead} style={styles.clearButton}>
+              <ThemedText style={styles.clearButtonText}>Mark Read</ThemedText>
+            </TouchableOpacity>
+          )}
           {notifications.length > 0 && (
             <TouchableOpacity onPress={clearAll} style={styles.clearButton}>
               <ThemedText style={styles.clearButtonText}>Clear All</ThemedText>
@@ -137,8 +188,32 @@ export const NotificationSystem: React.FC<NotificationSystemProps> = ({ visible,
         </View>
       </View>
 
-      <View style={styles.content}>
-        {notifications.length === 0 ? (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterBar}
+        contentContainerStyle={styles.filterRow}
+      >
+        {CATEGORY_FILTERS.map(category => {
+          const selected = filter === category;
+          const unread = getUnreadCount(category);
+          return (
+            <TouchableOpacity
+              key={category}
+              style={[styles.filterChip, selected && styles.filterChipSelected]}
+              onPress={() => setFilter(category)}
+            >
+              <ThemedText style={[styles.filterChipText, selected && styles.filterChipTextSelected]}>
+                {category === 'all' ? 'All' : NOTIFICATION_CATEGORIES[category].label}
+                {unread > 0 ? ` (${unread})` : ''}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        {filtered.length === 0 ? (
           <View style={styles.emptyState}>
             <IconSymbol name="bell.slash" size={48} color="#ccc" />
             <ThemedText style={styles.emptyText}>No notifications</ThemedText>
@@ -147,85 +222,57 @@ export const NotificationSystem: React.FC<NotificationSystemProps> = ({ visible,
             </ThemedText>
           </View>
         ) : (
-          notifications.map((notification) => (
-            <TouchableOpacity
-              key={notification.id}
-              style={[
-                styles.notificationItem,
-                !notification.read && styles.unreadNotification
-              ]}
-              onPress={() => markAsRead(notification.id)}
-            >
-              <View style={styles.notificationIcon}>
-                <IconSymbol 
-                  name={getNotificationIcon(notification.type) as any} 
-                  size={20} 
-                  color={getNotificationColor(notification.type)} 
-                />
-              </View>
-              
-              <View style={styles.notificationContent}>
-                <ThemedText type="defaultSemiBold" style={styles.notificationTitle}>
-                  {notification.title}
-                </ThemedText>
-                <ThemedText style={styles.notificationMessage}>
-                  {notification.message}
-                </ThemedText>
-                <ThemedText style={styles.notificationTime}>
-                  {notification.timestamp.toLocaleString()}
-                </ThemedText>
-              </View>
-              
-              {!notification.read && <View style={styles.unreadDot} />}
-            </TouchableOpacity>
-          ))
+          <>
+            <ThemedText style={styles.swipeHint}>Swipe a notification aside to dismiss it</ThemedText>
+            {filtered.map((notification) => (
+              <SwipeToDismiss key={notification.id} onDismiss={() => dismiss(notification.id)}>
+                <TouchableOpacity
+                  style={[
+                    styles.notificationItem,
+                    !notification.read && styles.unreadNotification
+                  ]}
+                  onPress={() => handlePress(notification)}
+                >
+                  <View style={styles.notificationIcon}>
+                    <IconSymbol 
+                      name={getNotificationIcon(notification.type) as any} 
+                      size={20} 
+                      color={getNotificationColor(notification.type)} 
+                    />
+                  </View>
+                  
+                  <View style={styles.notificationContent}>
+                    <ThemedText type="defaultSemiBold" style={styles.notificationTitle}>
+                      {notification.title}
+                      {notification.count > 1 ? ` (×${notification.count})` : ''}
+                    </ThemedText>
+                    <ThemedText style={styles.notificationMessage}>
+                      {notification.message}
+                    </ThemedText>
+                    {notification.action && (
+                      <TouchableOpacity
+                        style={styles.actionButton}
+                        onPress={() => handleAction(notification)}
+                      >
+                        <ThemedText style={styles.actionButtonText}>{notification.action.label}</ThemedText>
+                      </TouchableOpacity>
+                    )}
+                    <ThemedText style={styles.notificationTime}>
+                      {NOTIFICATION_CATEGORIES[notification.category].label} · {new Date(notification.timestamp).toLocaleString()}
+                    </ThemedText>
+                  </View>
+                  
+                  {!notification.read && <View style={styles.unreadDot} />}
+                </TouchableOpacity>
+              </SwipeToDismiss>
+            ))}
+          </>
         )}
-      </View>
+      </ScrollView>
     </Animated.View>
   );
 };
 
-// Utility function to add notifications
-export const addNotification = async (notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => {
-  try {
-    const savedNotifications = await AsyncStorage.getItem('notifications');
-    const existingNotifications = savedNotifications ? JSON.parse(savedNotifications) : [];
-    
-    const newNotification: Notification = {
-      ...notification,
-      id: `notif_${Date.now()}`,
-      timestamp: new Date(),
-      read: false
-    };
-    
-    const updatedNotifications = [newNotification, ...existingNotifications].slice(0, 50); // Keep last 50
-    await AsyncStorage.setItem('notifications', JSON.stringify(updatedNotifications));
-    
-    return newNotification;
-  } catch (error) {
-    console.error('Error adding notification:', error);
-    return null;
-  }
-};
-
-// Utility function to add reward notifications
-export const addRewardNotification = async (points: number, reason: string) => {
-  return addNotification({
-    type: 'success',
-    title: '🎉 Points Earned!',
-    message: `You earned ${points} points for ${reason}`,
-  });
-};
-
-// Utility function to add alert notifications
-export const addAlertNotification = async (title: string, message: string, type: 'warning' | 'error' = 'warning') => {
-  return addNotification({
-    type,
-    title,
-    message,
-  });
-};
-
 const styles = StyleSheet.create({
   container: {
     position: 'absolute',
@@ -295,10 +342,46 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  filterBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  filterRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  filterChipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterChipTextSelected: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
   content: {
     flex: 1,
+  },
+  contentContainer: {
+    flexGrow: 1,
     padding: 16,
   },
+  swipeHint: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -345,6 +428,19 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 8,
   },
+  actionButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#2196F3',
+    borderRadius: 16,
+    marginBottom: 8,
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   notificationTime: {
     fontSize: 12,
     color: '#999',
@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ActivityIndicator, LayoutChangeEvent } from 'react-native';
+import { LineChart } from 'react-native-chart-kit';
+import { ThemedText } from '@/components/themed-text';
+import { ReadingStore } from '@/lib/sensors/readingStore';
+import { SensorManager } from '@/lib/sensors/sensorManager';
+import { CHART_RANGES, ChartRange, getRangeStart, SeriesBucket, summarize } from '@/lib/sensors/series';
+import { SENSOR_PARAMETERS, SensorParameter } from '@/lib/sensors/types';
+
+interface SensorChartProps {
+  sensors: { id: string; name: string }[];
+}
+
+// New readings redraw the chart at most this often
+const CHART_REFRESH_MS = 60000;
+// X axis labels shown across the chart
+const X_LABEL_COUNT = 4;
+
+const CHART_RANGE_KEYS = Object.keys(CHART_RANGES) as ChartRange[];
+const PARAMETER_KEYS = Object.keys(SENSOR_PARAMETERS) as SensorParameter[];
+
+const formatBucketTime = (date: Date, range: ChartRange) =>
+  range === '1h' || range === '24h'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+const formatValue = (value: number, parameter: SensorParameter) =>
+  value.toFixed(parameter === 'tds' ? 0 : 1);
+
+// Line chart of one sensor parameter over a chosen range, drawn from the
+// average, highest and lowest reading of each slice of the range
+export const SensorChart: React.FC<SensorChartProps> = ({ sensors }) => {
+  const [deviceId, setDeviceId] = useState<string | null>(sensors[0]?.id ?? null);
+  const [parameter, setParameter] = useState<SensorParameter>('turbidity');
+  const [range, setRange] = useState<ChartRange>('24h');
+  const [buckets, setBuckets] = useState<SeriesBucket[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [width, setWidth] = useState(0);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const lastRefresh = useRef(0);
+
+  // Fall back to the first sensor when the selected one is forgotten
+  const selectedId = sensors.some(sensor => sensor.id === deviceId) ? deviceId : sensors[0]?.id ?? null;
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    let cancelled = false;
+    const end = new Date();
+    const start = getRangeStart(range, end);
+
+    setLoading(true);
+    ReadingStore.getSeries(selectedId, parameter, start, end, CHART_RANGES[range].buckets)
+      .then(series => {
+        if (!cancelled) setBuckets(series);
+      })
+      .catch(error => console.error('Error loading sensor chart:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    lastRefresh.current = Date.now();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, parameter, range, refreshKey]);
+
+  useEffect(() =>
+    SensorManager.onReading(reading => {
+      if (reading.deviceId !== selectedId || reading.parameter !== parameter) return;
+      if (Date.now() - lastRefresh.current < CHART_REFRESH_MS) return;
+      setRefreshKey(key => key + 1);
+    }), [selectedId, parameter]);
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const summary = summarize(buckets);
+  const { unit } = SENSOR_PARAMETERS[parameter];
+  const labelStep = Math.max(1, Math.ceil(buckets.length / X_LABEL_COUNT));
+
+  if (sensors.length === 0) {
+    return <ThemedText style={styles.emptyText}>Pair a sensor to see how its readings change over time.</ThemedText>;
+  }
+
+  return (
+    <View onLayout={handleLayout}>
+      {sensors.length > 1 && (
+        <View style={styles.chipRow}>
+          {sensors.map((sensor) => (
+            <TouchableOpacity
+              key={sensor.id}
+              style={[styles.chip, sensor.id === selectedId && styles.activeChip]}
+              onPress={() => setDeviceId(sensor.id)}
+            >
+              <ThemedText style={[styles.chipText, sensor.id === selectedId && styles.activeChipText]}>
+                {sensor.name}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.chipRow}>
+        {PARAMETER_KEYS.map((key) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.chip, key === parameter && styles.activeChip]}
+            onPress={() => setParameter(key)}
+          >
+            <ThemedText style={[styles.chipText, key === parameter && styles.activeChipText]}>
+              {SENSOR_PARAMETERS[key].label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.chipRow}>
+        {CHART_RANGE_KEYS.map((key) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.chip, key === range && styles.activeChip]}
+            onPress={() => setRange(key)}
+          >
+            <ThemedText style={[styles.chipText, key === range && styles.activeChipText]}>
+              {CHART_RANGES[key].label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && buckets.length === 0 ? (
+        <ActivityIndicator style={styles.loader} color="#2196F3" />
+      ) : buckets.length < 2 || width === 0 ? (
+        <ThemedText style={styles.emptyText}>Not enough readings in this range yet.</ThemedText>
+      ) : (
+        <LineChart
+          data={{
+            labels: buckets.map((bucket, index) => (index % labelStep === 0 ? formatBucketTime(bucket.start, range) : '')),
+            datasets: [
+              { data: buckets.map(bucket => bucket.avg), color: () => '#2196F3', strokeWidth: 2 },
+              { data: buckets.map(bucket => bucket.max), color: () => 'rgba(244, 67, 54, 0.5)', strokeWidth: 1 },
+              { data: buckets.map(bucket => bucket.min), color: () => 'rgba(76, 175, 80, 0.5)', strokeWidth: 1 },
+            ],
+            legend: ['Average', 'Highest', 'Lowest'],
+          }}
+          width={width}
+          height={220}
+          withDots={false}
+          withShadow={false}
+          withVerticalLines={false}
+          formatYLabel={value => formatValue(Number(value), parameter)}
+          chartConfig={{
+            backgroundGradientFrom: '#fff',
+            backgroundGradientTo: '#fff',
+            decimalPlaces: parameter === 'tds' ? 0 : 1,
+            color: (opacity = 1) => `rgba(33, 150, 243, ${opacity})`,
+            labelColor: () => '#666',
+            propsForBackgroundLines: { stroke: '#eee' },
+          }}
+          style={styles.chart}
+        />
+      )}
+
+      {summary && (
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryLabel}>Lowest</ThemedText>
+            <ThemedText style={styles.summaryValue}>{formatValue(summary.min, parameter)} {unit}</ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryLabel}>Average</ThemedText>
+            <ThemedText style={styles.summaryValue}>{formatValue(summary.avg, parameter)} {unit}</ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryLabel}>Highest</ThemedText>
+            <ThemedText style={styles.summaryValue}>{formatValue(summary.max, parameter)} {unit}</ThemedText>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  activeChip: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.6,
+    marginVertical: 20,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
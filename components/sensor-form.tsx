@@ -0,0 +1,485 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, Modal, TextInput, Alert, ActivityIndicator, Switch } from 'react-native';
+import * as Location from 'expo-location';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Sensor, SensorCalibration, SensorType, WaterSourceType } from '@/lib/appwrite';
+import { getCalibration, isValidCalibration, NewSensor, SensorRegistry } from '@/lib/sensors/registry';
+import { SENSOR_PARAMETERS, SensorParameter } from '@/lib/sensors/types';
+import { UserActions } from '@/lib/userActions';
+
+const SENSOR_TYPES: { key: SensorType; label: string }[] = [
+  { key: 'multiparameter', label: 'Multi-parameter' },
+  { key: 'ph', label: 'pH' },
+  { key: 'turbidity', label: 'Turbidity' },
+  { key: 'tds', label: 'TDS' },
+  { key: 'temperature', label: 'Temperature' },
+];
+
+export const WATER_SOURCES: { key: WaterSourceType; label: string }[] = [
+  { key: 'well', label: 'Well' },
+  { key: 'handpump', label: 'Handpump' },
+  { key: 'tank', label: 'Tank' },
+  { key: 'tap', label: 'Tap' },
+  { key: 'surface', label: 'River / Pond' },
+  { key: 'other', label: 'Other' },
+];
+
+// Calibration fields are edited as text so partial input like "-" or "0."
+// survives until the user finishes typing
+type CalibrationDraft = Partial<Record<SensorParameter, { offset: string; slope: string }>>;
+
+interface SensorFormProps {
+  // A registered sensor to edit, or a new one to register; null hides the form
+  sensor: Sensor | NewSensor | null;
+  onClose: () => void;
+  onSaved: (sensor: Sensor) => void;
+  onDeleted: (sensor: Sensor) => void;
+}
+
+const isRegistered = (sensor: Sensor | NewSensor): sensor is Sensor => '$id' in sensor;
+
+const getParameters = (sensorType: SensorType): SensorParameter[] =>
+  sensorType === 'multiparameter' ? (Object.keys(SENSOR_PARAMETERS) as SensorParameter[]) : [sensorType];
+
+const toDraft = (sensor: Sensor | NewSensor): CalibrationDraft =>
+  Object.fromEntries(
+    getParameters('multiparameter').map(parameter => {
+      const { offset, slope } = getCalibration(sensor, parameter);
+      return [parameter, { offset: String(offset), slope: String(slope) }];
+    })
+  );
+
+// New sensors start uncalibrated, with a blank form around their device ID
+export const createNewSensor = (deviceId: string, name: string): NewSensor => ({
+  deviceId,
+  name,
+  sensorType: 'multiparameter',
+  waterSource: 'well',
+  installLocation: null,
+  firmware: null,
+  lastCalibratedAt: null,
+  calibration: {},
+  shared: false,
+});
+
+// Register a sensor, or edit and delete a registered one
+export const SensorForm: React.FC<SensorFormProps> = ({ sensor, onClose, onSaved, onDeleted }) => {
+  const [name, setName] = useState('');
+  const [sensorType, setSensorType] = useState<SensorType>('multiparameter');
+  const [waterSource, setWaterSource] = useState<WaterSourceType>('well');
+  const [installLocation, setInstallLocation] = useState<Sensor['installLocation']>(null);
+  const [address, setAddress] = useState('');
+  const [firmware, setFirmware] = useState('');
+  const [calibration, setCalibration] = useState<CalibrationDraft>({});
+  const [shared, setShared] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!sensor) return;
+    setName(sensor.name);
+    setSensorType(sensor.sensorType);
+    setWaterSource(sensor.waterSource);
+    setInstallLocation(sensor.installLocation);
+    setAddress(sensor.installLocation?.address ?? '');
+    setFirmware(sensor.firmware ?? '');
+    setCalibration(toDraft(sensor));
+    setShared(sensor.shared);
+  }, [sensor]);
+
+  const locateSensor = async () => {
+    setIsLocating(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission Denied', 'Location permission is required to record where the sensor is installed.');
+        return;
+      }
+      const location = await Location.getCurrentPositionAsync({});
+      setInstallLocation({
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        address: address.trim() || null,
+      });
+    } catch (error) {
+      console.error('Error getting location:', error);
+      Alert.alert('Error', 'Failed to get your current location.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const updateCalibration = (parameter: SensorParameter, field: 'offset' | 'slope', value: string) => {
+    setCalibration(current => ({
+      ...current,
+      [parameter]: { offset: '0', slope: '1', ...current[parameter], [field]: value },
+    }));
+  };
+
+  const save = async () => {
+    if (!sensor) return;
+    if (!name.trim()) {
+      Alert.alert('Missing Name', 'Give the sensor a name so you can recognise it.');
+      return;
+    }
+
+    const parsed: SensorCalibration = {};
+    for (const parameter of getParameters(sensorType)) {
+      const draft = calibration[parameter];
+      const values = { offset: Number(draft?.offset ?? 0), slope: Number(draft?.slope ?? 1) };
+      if (!isValidCalibration(values)) {
+        Alert.alert(
+          'Invalid Calibration',
+          `${SENSOR_PARAMETERS[parameter].label} needs a numeric offset and a slope greater than 0.`
+        );
+        return;
+      }
+      parsed[parameter] = values;
+    }
+
+    const calibrationChanged = getParameters(sensorType).some(parameter => {
+      const before = getCalibration(sensor, parameter);
+      const after = parsed[parameter]!;
+      return before.offset !== after.offset || before.slope !== after.slope;
+    });
+
+    const details: NewSensor = {
+      deviceId: sensor.deviceId,
+      name: name.trim(),
+      sensorType,
+      waterSource,
+      installLocation: installLocation?.latitude != null || address.trim()
+        ? {
+            latitude: installLocation?.latitude ?? null,
+            longitude: installLocation?.longitude ?? null,
+            address: address.trim() || null,
+          }
+        : null,
+      firmware: firmware.trim() || null,
+      lastCalibratedAt: calibrationChanged ? new Date().toISOString() : sensor.lastCalibratedAt,
+      calibration: parsed,
+      shared,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = isRegistered(sensor)
+        ? await SensorRegistry.update(sensor, details)
+        : await UserActions.connectSensor(details);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving sensor:', error);
+      Alert.alert('Error', 'Failed to save the sensor. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!sensor || !isRegistered(sensor)) return;
+
+    Alert.alert(
+      'Delete Sensor',
+      `Remove ${sensor.name} from your sensors? Its calibration will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SensorRegistry.remove(sensor);
+              onDeleted(sensor);
+            } catch {
+              Alert.alert('Error', 'Failed to delete the sensor. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={!!sensor}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      {sensor && (
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <IconSymbol name="xmark" size={24} color="#666" />
+            </TouchableOpacity>
+            <ThemedText type="title">{isRegistered(sensor) ? 'Edit Sensor' : 'Register Sensor'}</ThemedText>
+          </View>
+
+          <ScrollView style={styles.content}>
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>Name *</ThemedText>
+              <TextInput
+                style={styles.textInput}
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Village well, north side"
+                maxLength={100}
+              />
+              <ThemedText style={styles.hintText}>Device {sensor.deviceId}</ThemedText>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>Sensor Type</ThemedText>
+              <View style={styles.chipRow}>
+                {SENSOR_TYPES.map(option => (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.chip, sensorType === option.key && styles.activeChip]}
+                    onPress={() => setSensorType(option.key)}
+                  >
+                    <ThemedText style={[styles.chipText, sensorType === option.key && styles.activeChipText]}>
+                      {option.label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>Water Source</ThemedText>
+              <View style={styles.chipRow}>
+                {WATER_SOURCES.map(option => (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.chip, waterSource === option.key && styles.activeChip]}
+                    onPress={() => setWaterSource(option.key)}
+                  >
+                    <ThemedText style={[styles.chipText, waterSource === option.key && styles.activeChipText]}>
+                      {option.label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>Install Location</ThemedText>
+              <TextInput
+                style={styles.textInput}
+                value={address}
+                onChangeText={setAddress}
+                placeholder="Address or landmark"
+                maxLength={255}
+              />
+              <TouchableOpacity style={styles.locationButton} onPress={locateSensor} disabled={isLocating}>
+                {isLocating ? (
+                  <ActivityIndicator color="#2196F3" />
+                ) : (
+                  <IconSymbol name="location.fill" size={16} color="#2196F3" />
+                )}
+                <ThemedText style={styles.locationButtonText}>
+                  {installLocation?.latitude != null && installLocation.longitude != null
+                    ? `${installLocation.latitude.toFixed(5)}, ${installLocation.longitude.toFixed(5)}`
+                    : 'Use my current location'}
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <View style={styles.switchRow}>
+                <ThemedText style={styles.inputLabel}>Share with the community</ThemedText>
+                <Switch value={shared} onValueChange={setShared} />
+              </View>
+              <ThemedText style={styles.hintText}>
+                People nearby will see this sensor, where it is installed and its readings from now on.
+              </ThemedText>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>Firmware</ThemedText>
+              <TextInput
+                style={styles.textInput}
+                value={firmware}
+                onChangeText={setFirmware}
+                placeholder="e.g. 1.4.2"
+                autoCapitalize="none"
+                maxLength={32}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>Calibration</ThemedText>
+              <ThemedText style={styles.hintText}>
+                Readings are corrected as raw × slope + offset.{' '}
+                {sensor.lastCalibratedAt
+                  ? `Last calibrated ${new Date(sensor.lastCalibratedAt).toLocaleDateString()}.`
+                  : 'Not calibrated yet.'}
+              </ThemedText>
+
+              {getParameters(sensorType).map(parameter => (
+                <View key={parameter} style={styles.calibrationRow}>
+                  <ThemedText style={styles.calibrationLabel}>{SENSOR_PARAMETERS[parameter].label}</ThemedText>
+                  <TextInput
+                    style={[styles.textInput, styles.calibrationInput]}
+                    value={calibration[parameter]?.slope ?? '1'}
+                    onChangeText={value => updateCalibration(parameter, 'slope', value)}
+                    placeholder="Slope"
+                    keyboardType="numeric"
+                  />
+                  <TextInput
+                    style={[styles.textInput, styles.calibrationInput]}
+                    value={calibration[parameter]?.offset ?? '0'}
+                    onChangeText={value => updateCalibration(parameter, 'offset', value)}
+                    placeholder="Offset"
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, isSaving && styles.disabledButton]}
+              onPress={save}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <ThemedText style={styles.saveButtonText}>
+                  {isRegistered(sensor) ? 'Save Changes' : 'Register Sensor'}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+
+            {isRegistered(sensor) && (
+              <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete}>
+                <ThemedText style={styles.deleteButtonText}>Delete Sensor</ThemedText>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      )}
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  closeButton: {
+    padding: 8,
+    marginRight: 16,
+  },
+  content: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    color: '#333',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  activeChip: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeChipText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  locationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+  },
+  locationButtonText: {
+    color: '#2196F3',
+  },
+  calibrationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  calibrationLabel: {
+    width: 100,
+    color: '#333',
+  },
+  calibrationInput: {
+    flex: 1,
+    padding: 8,
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2196F3',
+    padding: 16,
+    borderRadius: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    alignItems: 'center',
+    padding: 16,
+    marginTop: 8,
+    marginBottom: 40,
+  },
+  deleteButtonText: {
+    color: '#F44336',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Voucher, VoucherStatus } from '@/lib/appwrite';
+import { getVoucherStatus } from '@/lib/rewards';
+
+interface VoucherDetailsProps {
+  voucher: Voucher | null;
+  onClose: () => void;
+}
+
+export const VOUCHER_STATUS_COLORS: Record<VoucherStatus, string> = {
+  active: '#4CAF50',
+  used: '#757575',
+  expired: '#F44336',
+};
+
+// Full-screen voucher with a QR code the partner scans at redemption
+export const VoucherDetails: React.FC<VoucherDetailsProps> = ({ voucher, onClose }) => {
+  const status = voucher ? getVoucherStatus(voucher) : 'active';
+
+  return (
+    <Modal
+      visible={!!voucher}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      {voucher && (
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <IconSymbol name="xmark" size={24} color="#666" />
+            </TouchableOpacity>
+            <ThemedText type="title">Your Voucher</ThemedText>
+          </View>
+
+          <View style={styles.content}>
+            <ThemedText type="subtitle" style={styles.rewardName}>{voucher.rewardName}</ThemedText>
+
+            <View style={[styles.qrContainer, status !== 'active' && styles.inactiveQr]}>
+              <QRCode value={voucher.code} size={200} />
+            </View>
+
+            <ThemedText style={styles.code}>{voucher.code}</ThemedText>
+
+            <View style={[styles.statusBadge, { backgroundColor: VOUCHER_STATUS_COLORS[status] }]}>
+              <ThemedText style={styles.statusText}>{status.toUpperCase()}</ThemedText>
+            </View>
+
+            <ThemedText style={styles.detailText}>
+              {status === 'used' && voucher.redeemedAt
+                ? `Redeemed on ${new Date(voucher.redeemedAt).toLocaleDateString()}`
+                : `${status === 'expired' ? 'Expired' : 'Valid until'} ${new Date(voucher.expiresAt).toLocaleDateString()}`}
+            </ThemedText>
+            <ThemedText style={styles.hintText}>
+              Show this code at a partner location to redeem your reward.
+            </ThemedText>
+          </View>
+        </View>
+      )}
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    gap: 16,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  rewardName: {
+    textAlign: 'center',
+    color: '#333',
+  },
+  qrContainer: {
+    padding: 16,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  inactiveQr: {
+    opacity: 0.3,
+  },
+  code: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+    color: '#333',
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  detailText: {
+    color: '#666',
+  },
+  hintText: {
+    color: '#999',
+    fontSize: 12,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { WaterQualityAssessment, WaterQualityStatus } from '@/lib/waterQuality/thresholds';
+
+interface WaterQualityVerdictProps {
+  assessment: WaterQualityAssessment;
+}
+
+export const WATER_STATUS_COLORS: Record<WaterQualityStatus, string> = {
+  safe: '#4CAF50',
+  warning: '#FF9800',
+  danger: '#F44336',
+  unknown: '#757575',
+};
+
+export const WATER_STATUS_ICONS: Record<WaterQualityStatus, React.ComponentProps<typeof IconSymbol>['name']> = {
+  safe: 'checkmark.circle.fill',
+  warning: 'exclamationmark.triangle.fill',
+  danger: 'xmark.circle.fill',
+  unknown: 'questionmark.circle.fill',
+};
+
+export const WATER_STATUS_LABELS: Record<WaterQualityStatus, string> = {
+  safe: 'Safe',
+  warning: 'Warning',
+  danger: 'Unsafe',
+  unknown: 'No data',
+};
+
+// Why water was judged the way it was, and by which standard
+export const WaterQualityVerdict: React.FC<WaterQualityVerdictProps> = ({ assessment }) => (
+  <View style={styles.container}>
+    {assessment.reasons.map((reason) => (
+      <View key={reason} style={styles.reasonRow}>
+        <IconSymbol
+          name={WATER_STATUS_ICONS[assessment.status]}
+          size={14}
+          color={WATER_STATUS_COLORS[assessment.status]}
+        />
+        <ThemedText style={styles.reasonText}>{reason}</ThemedText>
+      </View>
+    ))}
+    <ThemedText style={styles.profileText}>Judged against {assessment.profile.name}</ThemedText>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#555',
+  },
+  profileText: {
+    fontSize: 11,
+    color: '#999',
+  },
+});
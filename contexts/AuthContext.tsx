@@ -1,7 +1,10 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { account } from '@/lib/appwrite';
 import { DatabaseService } from '@/lib/database';
-import { UserProfile } from '@/lib/appwrite';
+import { NotificationCenter } from '@/lib/notifications';
+import { PushNotifications } from '@/lib/pushNotifications';
+import { SyncQueue } from '@/lib/syncQueue';
+import { UserLocation, UserProfile } from '@/lib/appwrite';
 import { Models } from 'appwrite';
 
 interface AuthContextType {
@@ -9,7 +12,7 @@ interface AuthContextType {
   userProfile: UserProfile | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, name: string) => Promise<void>;
+  register: (email: string, password: string, name: string, location?: UserLocation) => Promise<void>;
   logout: () => Promise<void>;
   isAuthenticated: boolean;
   refreshUserProfile: () => Promise<void>;
@@ -56,20 +59,43 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const loadUserProfile = async (userId: string) => {
+  // Pushes reach whoever is signed in on this device
+  const userId = user?.$id;
+  useEffect(() => {
+    if (!userId) return;
+    PushNotifications.register(userId).catch(() => {
+      // Logged by PushNotifications; in-app notifications still work
+    });
+  }, [userId]);
+
+  // In-app notifications follow the user across devices
+  useEffect(() => {
+    if (!userId) return;
+    NotificationCenter.setUser(userId).catch(error =>
+      console.error('Error loading notifications:', error)
+    );
+  }, [userId]);
+
+  // Queued changes are replayed only as the user who made them
+  useEffect(() => {
+    if (userId) SyncQueue.setUser(userId);
+  }, [userId]);
+
+  const loadUserProfile = useCallback(async (userId: string) => {
     try {
       const profile = await DatabaseService.getUserProfile(userId);
       setUserProfile(profile);
     } catch (error) {
       console.error('Error loading user profile:', error);
     }
-  };
+  }, []);
 
-  const refreshUserProfile = async () => {
+  // Stable between renders so consumers can depend on it in effects
+  const refreshUserProfile = useCallback(async () => {
     if (user) {
       await loadUserProfile(user.$id);
     }
-  };
+  }, [user, loadUserProfile]);
 
   const login = async (email: string, password: string) => {
     try {
@@ -85,7 +111,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const register = async (email: string, password: string, name: string) => {
+  const register = async (email: string, password: string, name: string, location?: UserLocation) => {
     try {
       const newUser = await account.create('unique()', email, password, name);
       await account.createEmailPasswordSession(email, password);
@@ -93,7 +119,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setUser(currentUser);
       
       // Create user profile in database
-      const profile = await DatabaseService.createUserProfile(currentUser.$id, name, email);
+      const profile = await DatabaseService.createUserProfile(name, location);
       setUserProfile(profile);
     } catch (error) {
       console.error('Registration error:', error);
@@ -103,7 +129,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = async () => {
     try {
+      if (user) {
+        await PushNotifications.unregister(user.$id).catch(() => {
+          // Never block signing out; the token is replaced on next sign-in
+        });
+      }
+      // Stop replaying this user's outbox before the session goes; their
+      // entries wait for them to sign in again
+      SyncQueue.setUser(null);
       await account.deleteSession('current');
+      // The next person to sign in here must not see these
+      await NotificationCenter.setUser(null);
       setUser(null);
       setUserProfile(null);
     } catch (error) {
@@ -0,0 +1,190 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserAchievement, UserProfile } from '@/lib/appwrite';
+import { DatabaseService } from '@/lib/database';
+import { calculateLevel } from '@/lib/points';
+import { getAvailableFreezes, getCurrentStreak, systemClock, toLocalDateKey } from '@/lib/streak';
+import { SyncQueue, getPendingAwards } from '@/lib/syncQueue';
+
+// Last stats confirmed by the server, so screens have numbers while offline
+const STATS_CACHE_KEY = 'statsCache';
+// Client-side balance from before the points ledger; no longer trusted
+const LEGACY_STATS_KEY = 'userStats';
+
+export interface UserStats {
+  points: number;
+  totalEarned: number;
+  level: number;
+  reportsSubmitted: number;
+  streak: number;
+  // Streak freezes bought and not yet used up
+  streakFreezes: number;
+  achievements: UserAchievement[];
+}
+
+interface CachedStats {
+  userId: string;
+  stats: UserStats;
+}
+
+interface StatsContextType {
+  // Server stats plus any point awards still waiting in the offline outbox
+  stats: UserStats;
+  // Points shown in `stats` that the server has not confirmed yet
+  pendingPoints: number;
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const EMPTY_STATS: UserStats = {
+  points: 0,
+  totalEarned: 0,
+  level: 1,
+  reportsSubmitted: 0,
+  streak: 0,
+  streakFreezes: 0,
+  achievements: [],
+};
+
+const NO_PENDING_AWARDS = { points: 0, reportsSubmitted: 0 };
+
+const StatsContext = createContext<StatsContextType | undefined>(undefined);
+
+export const useStats = () => {
+  const context = useContext(StatsContext);
+  if (context === undefined) {
+    throw new Error('useStats must be used within a StatsProvider');
+  }
+  return context;
+};
+
+const toStats = (profile: UserProfile, achievements: UserAchievement[]): UserStats => ({
+  points: profile.points,
+  totalEarned: profile.totalEarned,
+  level: profile.level,
+  reportsSubmitted: profile.reportsSubmitted,
+  // A streak that has already lapsed shows as 0 until the next activity
+  streak: getCurrentStreak(profile, toLocalDateKey(systemClock())),
+  streakFreezes: getAvailableFreezes(profile),
+  achievements,
+});
+
+interface StatsProviderProps {
+  children: React.ReactNode;
+}
+
+export const StatsProvider: React.FC<StatsProviderProps> = ({ children }) => {
+  const { user, userProfile, refreshUserProfile } = useAuth();
+  const [confirmed, setConfirmed] = useState<UserStats>(EMPTY_STATS);
+  const [pendingAwards, setPendingAwards] = useState(NO_PENDING_AWARDS);
+  const [loading, setLoading] = useState(true);
+  const pendingPointsRef = useRef(0);
+  const userId = user?.$id;
+
+  // Show the cached stats straight away, before the server answers
+  useEffect(() => {
+    AsyncStorage.removeItem(LEGACY_STATS_KEY).catch(() => undefined);
+
+    if (!userId) {
+      setConfirmed(EMPTY_STATS);
+      setLoading(false);
+      return;
+    }
+
+    AsyncStorage.getItem(STATS_CACHE_KEY)
+      .then(saved => {
+        const cached: CachedStats | null = saved ? JSON.parse(saved) : null;
+        if (cached?.userId === userId) {
+          setConfirmed(current => (current === EMPTY_STATS ? cached.stats : current));
+        }
+      })
+      .catch(error => console.error('Error loading cached stats:', error));
+  }, [userId]);
+
+  const loadAchievements = useCallback(async (): Promise<UserAchievement[] | null> => {
+    if (!userId) return [];
+    try {
+      return await DatabaseService.getUserAchievements(userId);
+    } catch (error) {
+      console.error('Error loading achievements:', error);
+      return null;
+    }
+  }, [userId]);
+
+  // Whenever AuthContext has a fresh profile, it becomes the confirmed stats
+  useEffect(() => {
+    if (!userId || !userProfile) return;
+
+    setConfirmed(current => toStats(userProfile, current.achievements));
+    setLoading(false);
+
+    let cancelled = false;
+    loadAchievements().then(achievements => {
+      if (!cancelled && achievements) {
+        setConfirmed(current => ({ ...current, achievements }));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, userProfile, loadAchievements]);
+
+  useEffect(() => {
+    if (!userId || confirmed === EMPTY_STATS) return;
+
+    const cached: CachedStats = { userId, stats: confirmed };
+    AsyncStorage.setItem(STATS_CACHE_KEY, JSON.stringify(cached))
+      .catch(error => console.error('Error caching stats:', error));
+  }, [userId, confirmed]);
+
+  const refresh = useCallback(async () => {
+    await refreshUserProfile();
+  }, [refreshUserProfile]);
+
+  // Awards queued offline count immediately. Once they leave the outbox
+  // they are in the ledger, so the profile is reloaded before the pending
+  // total is lowered rather than briefly showing a smaller balance.
+  useEffect(() => {
+    if (!userId) return;
+
+    return SyncQueue.subscribe(pending => {
+      const awards = getPendingAwards(pending);
+      const settled = awards.points < pendingPointsRef.current;
+      pendingPointsRef.current = awards.points;
+
+      if (settled) {
+        refresh()
+          .catch(error => console.error('Error refreshing stats:', error))
+          .finally(() => setPendingAwards(awards));
+      } else {
+        setPendingAwards(current =>
+          current.points === awards.points && current.reportsSubmitted === awards.reportsSubmitted ? current : awards
+        );
+      }
+    });
+  }, [userId, refresh]);
+
+  const totalEarned = confirmed.totalEarned + pendingAwards.points;
+  const stats: UserStats = {
+    ...confirmed,
+    points: confirmed.points + pendingAwards.points,
+    totalEarned,
+    level: pendingAwards.points > 0 ? calculateLevel(totalEarned) : confirmed.level,
+    reportsSubmitted: confirmed.reportsSubmitted + pendingAwards.reportsSubmitted,
+  };
+
+  const value: StatsContextType = {
+    stats,
+    pendingPoints: pendingAwards.points,
+    loading,
+    refresh,
+  };
+
+  return (
+    <StatsContext.Provider value={value}>
+      {children}
+    </StatsContext.Provider>
+  );
+};
@@ -0,0 +1,145 @@
+import NetInfo from '@react-native-community/netinfo';
+import { act, fireEvent, render, screen, within } from '@testing-library/react-native';
+import React, { useLayoutEffect } from 'react';
+import { Alert, View } from 'react-native';
+import HomeScreen from '@/app/(tabs)/index';
+import ReportScreen from '@/app/(tabs)/report';
+import RewardsScreen from '@/app/(tabs)/rewards';
+import { useAuth } from '@/contexts/AuthContext';
+import { AchievementService } from '@/lib/achievements';
+import { UserProfile } from '@/lib/appwrite';
+import { DatabaseService } from '@/lib/database';
+import { ReportsService } from '@/lib/reports';
+import { RewardsService } from '@/lib/rewards';
+import { SyncQueue } from '@/lib/syncQueue';
+import { StatsProvider, useStats } from '../StatsContext';
+
+jest.mock('@/contexts/AuthContext', () => ({ useAuth: jest.fn() }));
+jest.mock('expo-router', () => ({ router: { push: jest.fn() } }));
+jest.mock('expo-location', () => ({
+  requestForegroundPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+  getCurrentPositionAsync: jest.fn(async () => ({ coords: { latitude: 12.9716, longitude: 77.5946 } })),
+}));
+jest.mock('expo-camera', () => ({
+  Camera: { requestCameraPermissionsAsync: jest.fn(async () => ({ status: 'granted' })) },
+}));
+
+// Heavy children of the screens, which play no part in the stats they show
+jest.mock('@/components/notification-system', () => ({ NotificationSystem: () => null }));
+jest.mock('@/components/TestDatabaseActions', () => ({ TestDatabaseActions: () => null }));
+jest.mock('@/components/evidence-camera', () => ({ EvidenceCamera: () => null }));
+jest.mock('@/components/voucher-details', () => ({
+  VoucherDetails: () => null,
+  VOUCHER_STATUS_COLORS: { active: '#4CAF50', used: '#9E9E9E', expired: '#F44336' },
+}));
+jest.mock('@/lib/waterQuality/feed', () => ({
+  createWaterQualityProvider: () => ({ subscribe: () => () => undefined }),
+}));
+jest.mock('@/lib/outbreak/surveillance', () => ({
+  OutbreakSurveillance: { check: jest.fn(async () => undefined) },
+}));
+
+const profile: UserProfile = {
+  $id: 'user-1',
+  name: 'Asha',
+  email: 'asha@example.com',
+  userId: 'user-1',
+  points: 100,
+  level: 1,
+  reportsSubmitted: 1,
+  streak: 0,
+  lastActiveDate: null,
+  streakFreezesPurchased: 0,
+  streakFreezesUsed: 0,
+  totalEarned: 100,
+  village: null,
+  district: null,
+  leaderboardOptOut: false,
+  pushTokens: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+// How often each screen shows a number: Home in its header badge and its
+// stats card, Rewards in its overview
+const pointsShown = (points: number) => ({
+  home: within(screen.getByTestId('home')).queryAllByText(String(points)).length,
+  rewards: within(screen.getByTestId('rewards')).queryAllByText(String(points)).length,
+});
+
+// What the screens showed as each render was committed while recording,
+// read by a probe rendered after them
+let commits: ReturnType<typeof pointsShown>[] | null = null;
+const CommitProbe = () => {
+  useStats();
+  useLayoutEffect(() => {
+    commits?.push(pointsShown(100));
+  });
+  return null;
+};
+
+const App = () => (
+  <StatsProvider>
+    <View testID="home">
+      <HomeScreen />
+    </View>
+    <View testID="report">
+      <ReportScreen />
+    </View>
+    <View testID="rewards">
+      <RewardsScreen />
+    </View>
+    <CommitProbe />
+  </StatsProvider>
+);
+
+beforeEach(() => {
+  commits = null;
+  jest.mocked(useAuth).mockReturnValue({
+    user: { $id: 'user-1', name: 'Asha' },
+    userProfile: profile,
+    refreshUserProfile: jest.fn().mockResolvedValue(undefined),
+  } as unknown as ReturnType<typeof useAuth>);
+  jest.spyOn(DatabaseService, 'getUserAchievements').mockResolvedValue([]);
+  jest.spyOn(AchievementService, 'checkAndUnlock').mockResolvedValue(null);
+  jest.spyOn(RewardsService, 'getCatalog').mockResolvedValue([]);
+  jest.spyOn(RewardsService, 'getVouchers').mockResolvedValue([]);
+  jest.spyOn(ReportsService, 'listReports').mockResolvedValue([]);
+  jest.spyOn(ReportsService, 'migrateLocalReports').mockResolvedValue(0);
+  jest.spyOn(Alert, 'alert').mockImplementation(() => undefined);
+  // Offline, so the submitted report and its points wait in the outbox
+  jest.mocked(NetInfo.fetch).mockResolvedValue({ isConnected: false } as Awaited<ReturnType<typeof NetInfo.fetch>>);
+  SyncQueue.setUser('user-1');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('shows a report submitted on the Report screen on Home, its header and Rewards in the same render', async () => {
+  render(<App />);
+  await act(async () => undefined);
+  expect(pointsShown(100)).toEqual({ home: 2, rewards: 1 });
+
+  const report = within(screen.getByTestId('report'));
+  fireEvent.press(report.getByText('Water Contamination'));
+  fireEvent.changeText(report.getByPlaceholderText('Brief description of the issue'), 'Brown tap water');
+  fireEvent.changeText(
+    report.getByPlaceholderText('Provide detailed information about the water issue...'),
+    'The tap water on our street has been brown since Monday.'
+  );
+  commits = [];
+  await act(async () => {
+    fireEvent.press(report.getByText('Submit Report'));
+  });
+
+  expect(Alert.alert).toHaveBeenCalledWith('Report Submitted!', expect.stringContaining('You earned 50 points'), expect.anything());
+  // A medium-severity report earns 50 points
+  expect(pointsShown(150)).toEqual({ home: 2, rewards: 1 });
+  expect(pointsShown(100)).toEqual({ home: 0, rewards: 0 });
+  // No commit ever showed the old points on one screen and not another
+  expect(commits!.length).toBeGreaterThan(0);
+  commits!.forEach(shown => {
+    expect([{ home: 2, rewards: 1 }, { home: 0, rewards: 0 }]).toContainEqual(shown);
+  });
+});
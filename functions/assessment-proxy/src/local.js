@@ -0,0 +1,52 @@
+import http from 'node:http';
+import handler from './main.js';
+
+// Runs the function on this machine, outside Appwrite, by giving it the
+// same req/res/log/error context Appwrite does. It still checks JWTs and
+// logs usage against a real Appwrite project, so set
+// APPWRITE_FUNCTION_API_ENDPOINT, APPWRITE_FUNCTION_PROJECT_ID and
+// APPWRITE_API_KEY alongside the model variables, e.g. in a .env file:
+//
+//   node --env-file=.env src/local.js [port]   (default 3000)
+
+const port = Number(process.argv[2]) || 3000;
+
+const respond = (body, statusCode = 200, headers = {}) => ({ body, statusCode, headers });
+
+const server = http.createServer((request, response) => {
+  let bodyText = '';
+  request.on('data', chunk => (bodyText += chunk));
+  request.on('end', async () => {
+    let bodyJson = null;
+    try {
+      bodyJson = bodyText ? JSON.parse(bodyText) : null;
+    } catch {
+      // Left null, as Appwrite does for a body that is not JSON
+    }
+
+    const context = {
+      req: { method: request.method, path: request.url, headers: request.headers, bodyText, bodyJson },
+      res: {
+        json: (body, statusCode, headers = {}) =>
+          respond(JSON.stringify(body), statusCode, { 'Content-Type': 'application/json', ...headers }),
+        text: (body, statusCode, headers) => respond(body, statusCode, headers),
+      },
+      log: message => console.log(message),
+      error: message => console.error(message),
+    };
+
+    try {
+      const { body, statusCode, headers } = await handler(context);
+      response.writeHead(statusCode, headers);
+      response.end(body);
+    } catch (err) {
+      console.error(err);
+      response.writeHead(500);
+      response.end();
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`assessment-proxy listening on http://localhost:${port}`);
+});
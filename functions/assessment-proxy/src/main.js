@@ -0,0 +1,150 @@
+import { Account, Client, Databases } from 'node-appwrite';
+import { complete, getModelConfig } from './model.js';
+import { buildMessages } from './prompt.js';
+import { getLimits, hashUser, UsageLog } from './usage.js';
+
+// The symptom checker's only way to a model. The app sends the user's
+// symptoms and questionnaire; the prompt and the model keys stay here, so
+// nothing in the app bundle can be used to call the model directly. Each
+// signed-in user gets a few requests every few minutes and a daily quota,
+// and every request is logged without who made it or what was asked.
+//
+// POST { "symptoms": ["Vomiting"], "questionnaire": { ... },
+//        "repair": { "response": "...", "problems": ["..."] } }
+// Header Authorization: Bearer <Appwrite session JWT from account.createJWT()>
+// Answers { ok, response, remaining } where `response` is the model's
+// unchecked answer text; the app validates it.
+
+const QUESTIONNAIRE_FIELDS = ['duration', 'severity', 'waterExposure', 'recentTravel', 'additionalInfo'];
+const MAX_SYMPTOMS = 30;
+const MAX_FIELD_LENGTH = 1000;
+const MAX_RESPONSE_LENGTH = 12000;
+const MAX_PROBLEMS = 20;
+
+// The app's web build calls the function from another origin
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+};
+
+const isText = (value, maxLength) => typeof value === 'string' && value.length <= maxLength;
+
+// The request body, or a reason it is unacceptable
+const parseBody = (body) => {
+  const { symptoms, questionnaire, repair } = body ?? {};
+  if (!Array.isArray(symptoms) || symptoms.length === 0 || symptoms.length > MAX_SYMPTOMS
+    || !symptoms.every(symptom => isText(symptom, 100))) {
+    return { problem: `symptoms must be 1-${MAX_SYMPTOMS} symptom names` };
+  }
+  if (!questionnaire || !QUESTIONNAIRE_FIELDS.every(field => isText(questionnaire[field] ?? '', MAX_FIELD_LENGTH))) {
+    return { problem: `questionnaire fields must be text of at most ${MAX_FIELD_LENGTH} characters` };
+  }
+  if (repair !== undefined && (
+    !isText(repair?.response, MAX_RESPONSE_LENGTH)
+    || !Array.isArray(repair.problems) || repair.problems.length === 0 || repair.problems.length > MAX_PROBLEMS
+    || !repair.problems.every(problem => isText(problem, 300))
+  )) {
+    return { problem: 'repair must have the earlier response and what was wrong with it' };
+  }
+
+  return {
+    symptoms,
+    questionnaire: Object.fromEntries(QUESTIONNAIRE_FIELDS.map(field => [field, questionnaire[field] ?? ''])),
+    repair,
+  };
+};
+
+// The signed-in user behind a session JWT, or null
+const getUser = async (jwt) => {
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+    .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+    .setJWT(jwt);
+  try {
+    return await new Account(client).get();
+  } catch {
+    return null;
+  }
+};
+
+export default async ({ req, res, log, error }) => {
+  const reply = (body, status = 200, headers = {}) => res.json(body, status, { ...CORS_HEADERS, ...headers });
+
+  if (req.method === 'OPTIONS') {
+    return res.text('', 204, CORS_HEADERS);
+  }
+  if (req.method !== 'POST') {
+    return reply({ ok: false, message: 'Method not allowed' }, 405);
+  }
+
+  const jwt = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  const user = jwt ? await getUser(jwt) : null;
+  if (!user) {
+    return reply({ ok: false, message: 'Sign in to use the symptom checker' }, 401);
+  }
+
+  const request = parseBody(req.bodyJson);
+  if (request.problem) {
+    return reply({ ok: false, message: request.problem }, 400);
+  }
+
+  const config = getModelConfig();
+  if (!config.apiKey) {
+    error(`No API key configured for ${config.provider}`);
+    return reply({ ok: false, message: 'Assessment service not configured' }, 503);
+  }
+
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+    .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(req.headers['x-appwrite-key'] ?? process.env.APPWRITE_API_KEY);
+  const usage = new UsageLog(new Databases(client));
+  const userHash = hashUser(user.$id);
+
+  let verdict;
+  try {
+    verdict = await usage.reserve(userHash, getLimits(), {
+      provider: config.provider,
+      model: config.model,
+      repair: !!request.repair,
+      symptomCount: request.symptoms.length,
+    });
+  } catch (err) {
+    error(`Error checking usage: ${err.message}`);
+    return reply({ ok: false, message: 'Failed to check usage limits' }, 500);
+  }
+  if (!verdict.allowed) {
+    log(`Refused request: ${verdict.reason}`);
+    return reply(
+      {
+        ok: false,
+        reason: verdict.reason,
+        message: verdict.reason === 'daily_quota'
+          ? 'Daily limit of AI assessments reached'
+          : 'Too many AI assessments in a short time',
+        retryAfter: verdict.retryAfter,
+      },
+      429,
+      { 'Retry-After': String(verdict.retryAfter) }
+    );
+  }
+  const { usageId, remaining } = verdict;
+
+  const startedAt = Date.now();
+  try {
+    const { text, tokens } = await complete(config, buildMessages(request));
+    const latencyMs = Date.now() - startedAt;
+    await usage.finish(usageId, { status: 'ok', latencyMs, tokens })
+      .catch(err => error(`Error logging usage: ${err.message}`));
+
+    log(`Assessment by ${config.provider}/${config.model}${request.repair ? ' (repair)' : ''} in ${latencyMs} ms`);
+    return reply({ ok: true, response: text, remaining });
+  } catch (err) {
+    await usage.finish(usageId, { status: 'error', latencyMs: Date.now() - startedAt, tokens: null })
+      .catch(logError => error(`Error logging usage: ${logError.message}`));
+
+    error(`Error getting assessment from ${config.provider}: ${err.message}`);
+    return reply({ ok: false, message: 'The AI service failed to answer' }, 502);
+  }
+};
@@ -0,0 +1,92 @@
+import { SYSTEM_PROMPT } from './prompt.js';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// The model behind the proxy, from the function's variables: AI_PROVIDER
+// (`openai` or `gemini`; without it, whichever has a key, OpenAI first),
+// OPENAI_API_KEY or GEMINI_API_KEY, AI_MODEL to override the default model
+// and AI_BASE_URL for another server that speaks the same API, such as
+// scripts/assessment-stub-server.js
+export const getModelConfig = () => {
+  const provider = process.env.AI_PROVIDER
+    || (!process.env.OPENAI_API_KEY && process.env.GEMINI_API_KEY ? 'gemini' : 'openai');
+  if (provider === 'gemini') {
+    return {
+      provider,
+      model: process.env.AI_MODEL || 'gemini-2.5-flash',
+      apiKey: process.env.GEMINI_API_KEY,
+      baseUrl: process.env.AI_BASE_URL || GEMINI_BASE_URL,
+    };
+  }
+  return {
+    provider: 'openai',
+    model: process.env.AI_MODEL || 'gpt-4o-mini',
+    apiKey: process.env.OPENAI_API_KEY,
+    baseUrl: process.env.AI_BASE_URL || OPENAI_BASE_URL,
+  };
+};
+
+const completeWithOpenAI = async ({ model, apiKey, baseUrl }, messages) => {
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'system', content: SYSTEM_PROMPT }, ...messages],
+      temperature: 0.3,
+      max_tokens: 2000,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${response.status} - ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  const text = data.choices?.[0]?.message?.content;
+  if (typeof text !== 'string') {
+    throw new Error('Invalid response format from OpenAI API');
+  }
+  return { text, tokens: data.usage?.total_tokens ?? null };
+};
+
+const completeWithGemini = async ({ model, apiKey, baseUrl }, messages) => {
+  const response = await fetch(`${baseUrl}/models/${encodeURIComponent(model)}:generateContent`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': apiKey,
+    },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: SYSTEM_PROMPT }] },
+      contents: messages.map(({ role, content }) => ({
+        role: role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: content }],
+      })),
+      generationConfig: {
+        temperature: 0.3,
+        maxOutputTokens: 2000,
+        // Asks for bare JSON rather than prose around it
+        responseMimeType: 'application/json',
+      },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Gemini API error: ${response.status} - ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  const text = data.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('');
+  if (!text) {
+    throw new Error(`Invalid response format from Gemini API${data.promptFeedback?.blockReason ? ` (blocked: ${data.promptFeedback.blockReason})` : ''}`);
+  }
+  return { text, tokens: data.usageMetadata?.totalTokenCount ?? null };
+};
+
+// The model's answer to a conversation of { role: 'user' | 'assistant',
+// content } messages after the system prompt, unchecked
+export const complete = (config, messages) =>
+  config.provider === 'gemini' ? completeWithGemini(config, messages) : completeWithOpenAI(config, messages);
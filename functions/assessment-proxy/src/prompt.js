@@ -0,0 +1,105 @@
+// The prompt lives with the function, like the model keys, so clients send
+// only symptoms and answers and cannot use the proxy as a general chatbot.
+
+// Tells the model what it is and how to answer
+export const SYSTEM_PROMPT =
+  'You are a helpful medical AI assistant specializing in water-borne diseases. Provide health assessments in the exact JSON format requested. Always be responsible and emphasize the need for professional medical consultation.';
+
+// The full instructions for one assessment, with the JSON shape every
+// provider must answer in
+export const buildAssessmentPrompt = ({ symptoms, questionnaire }) => `You are a specialized medical AI assistant with expertise in water-borne diseases, waterborne pathogens, and water related health issues.
+
+PATIENT INFORMATION:
+- Symptoms: ${symptoms.join(', ')}
+- Duration: ${questionnaire.duration}
+- Severity Level: ${questionnaire.severity}
+- Recent Water Exposure: ${questionnaire.waterExposure}
+- Recent Travel: ${questionnaire.recentTravel}
+- Additional Information: ${questionnaire.additionalInfo}
+
+CRITICAL FOCUS AREAS:
+- Water-borne diseases (Cholera, Typhoid, Hepatitis A/E, Giardiasis, Cryptosporidiosis, Amoebiasis)
+- Water contamination-related illnesses (E. coli, Salmonella, Shigella, Campylobacter)
+- Dehydration and electrolyte imbalances
+- Gastrointestinal infections from contaminated water sources
+- Vector-borne diseases related to stagnant water (Dengue, Malaria considerations)
+
+Please provide a comprehensive health assessment in the following JSON format:
+
+{
+  "possibleConditions": [
+    {
+      "name": "Specific Water-borne Disease Name",
+      "probability": 85,
+      "description": "Detailed description focusing on water contamination source and transmission",
+      "severity": "low/medium/high",
+      "commonDuration": "typical duration of illness",
+      "waterSource": "likely contaminated water source (drinking water, recreational water, etc.)"
+    }
+  ],
+  "riskLevel": "low/medium/high",
+  "homeRemedies": [
+    "💧 Oral Rehydration Solution (ORS): Mix 1 tsp salt + 2 tbsp sugar in 1 liter clean boiled water",
+    "🔥 Boil all drinking water for at least 1 minute before consumption",
+    "🍵 Ginger tea or chamomile tea to soothe stomach and reduce nausea",
+    "🍌 BRAT diet: Bananas, Rice, Applesauce, Toast for easy digestion",
+    "🧂 Electrolyte replacement: Add pinch of salt to clean water or coconut water",
+    "🌿 Probiotics from yogurt (if tolerated) to restore gut bacteria"
+  ],
+  "whenToSeekHelp": [
+    "🚨 IMMEDIATE: Signs of severe dehydration (dizziness, dry mouth, no urination for 8+ hours)",
+    "⚠️ URGENT: High fever above 39°C (102°F) lasting more than 24 hours",
+    "🩸 URGENT: Blood or mucus in stool or vomit",
+    "⏰ If symptoms persist or worsen after 48-72 hours of home treatment",
+    "🤒 Severe abdominal pain or signs of appendicitis",
+    "👶 Special concern for children, elderly, or immunocompromised individuals"
+  ],
+  "generalAdvice": [
+    "🚰 Water Safety: Only drink boiled, bottled, or properly treated water",
+    "🧼 Hand Hygiene: Wash hands frequently with soap for 20+ seconds",
+    "🍎 Food Safety: Avoid raw foods, street food, and unpeeled fruits",
+    "🏠 Rest and avoid strenuous activities to conserve energy for recovery",
+    "📊 Monitor symptoms: Keep track of frequency of bowel movements and fluid intake",
+    "🌡️ Temperature monitoring: Check fever regularly and record patterns"
+  ],
+  "preventionTips": [
+    "💧 Water purification: Use water purification tablets or UV sterilization",
+    "🧊 Avoid ice cubes from unknown water sources",
+    "🥗 Eat only thoroughly cooked hot foods",
+    "🏊 Avoid swimming in potentially contaminated water bodies"
+  ],
+  "disclaimer": "This AI assessment focuses on water-related health issues and is for informational purposes only. It cannot replace professional medical diagnosis. Seek immediate medical attention for severe symptoms or if you suspect serious water-borne illness."
+}
+
+ASSESSMENT GUIDELINES:
+1. Prioritize water-borne and water-contamination related conditions
+2. Include probability percentages (0-100) with higher accuracy for water-related diseases
+3. Never provide definitive diagnosis - use "may indicate", "could suggest", "possible"
+4. Emphasize immediate hydration and water safety measures
+5. Include specific home remedies for water-borne illness recovery
+6. Provide clear warning signs requiring immediate medical attention
+7. Focus on prevention of further water contamination exposure
+8. Consider incubation periods and typical progression of water-borne diseases
+9. Maximum 4 conditions, prioritized by probability and water-relation
+10. Include practical advice for water purification and food safety
+
+Respond only with the JSON object, no additional text.`;
+
+// Follows an answer that failed validation, asking the model to correct it
+export const buildRepairPrompt = (problems) => `Your previous answer could not be used because:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Reply with the corrected assessment as a single JSON object in exactly the format requested before: "riskLevel" and every condition's "severity" must be one of "low", "medium" or "high", every "probability" a number from 0 to 100, at most 4 conditions, and "whenToSeekHelp" must list warning signs. Respond only with the JSON object, no additional text.`;
+
+// The conversation sent to the model after the system prompt: the
+// assessment prompt and, for a repair, the earlier answer and what was
+// wrong with it
+export const buildMessages = ({ symptoms, questionnaire, repair }) => [
+  { role: 'user', content: buildAssessmentPrompt({ symptoms, questionnaire }) },
+  ...(repair
+    ? [
+      { role: 'assistant', content: repair.response },
+      { role: 'user', content: buildRepairPrompt(repair.problems) },
+    ]
+    : []),
+];
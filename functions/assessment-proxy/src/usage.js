@@ -0,0 +1,140 @@
+import { createHash } from 'node:crypto';
+import { Query } from 'node-appwrite';
+import { toStableDocumentId } from './ids.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Limits from the function's variables: at most RATE_LIMIT requests in any
+// RATE_LIMIT_WINDOW_MINUTES, and DAILY_QUOTA a day (UTC). A correction
+// request counts like any other.
+export const getLimits = () => ({
+  rateLimit: Number(process.env.RATE_LIMIT) || 6,
+  windowMs: (Number(process.env.RATE_LIMIT_WINDOW_MINUTES) || 10) * MINUTE_MS,
+  dailyQuota: Number(process.env.DAILY_QUOTA) || 20,
+});
+
+// Without a salt, anyone with the usage log and a list of user IDs could
+// tell whose requests are whose, so the function refuses to start
+const salt = process.env.USAGE_SALT;
+if (!salt) {
+  throw new Error('USAGE_SALT is not set: add a long random string to the function variables');
+}
+
+const isConflict = (err) => err?.code === 409;
+
+// Usage is stored against a salted hash of the user ID, never the ID
+// itself, and never with the symptoms
+export const hashUser = (userId) => createHash('sha256').update(`${salt}:${userId}`).digest('hex');
+
+export class UsageLog {
+  constructor(databases) {
+    this.databases = databases;
+    this.databaseId = process.env.DATABASE_ID ?? 'main';
+    this.collectionId = process.env.AI_USAGE_COLLECTION_ID ?? 'ai_usage';
+  }
+
+  // Requests since a time, and the earliest of them
+  async countSince(userHash, since) {
+    const result = await this.databases.listDocuments({
+      databaseId: this.databaseId,
+      collectionId: this.collectionId,
+      queries: [
+        Query.equal('userHash', userHash),
+        Query.greaterThanEqual('timestamp', since.toISOString()),
+        Query.orderAsc('timestamp'),
+        Query.limit(1),
+      ],
+    });
+    return { count: result.total, earliest: result.documents[0]?.timestamp ?? null };
+  }
+
+  // Record a request before it reaches the model, if the user is within
+  // their limits; `finish` fills in how it went. Answers the usage ID and
+  // how many requests they have left, or, when refused, why and how many
+  // seconds until they may ask again.
+  //
+  // Every request of a day takes a numbered slot whose document ID depends
+  // only on the user, the day and the number, so of two requests racing
+  // for the same slot one gets a 409 and tries another, and no more than
+  // the quota are ever stored. The rate limit is checked once the request
+  // is stored, so parallel requests count each other; any that find the
+  // window over the limit withdraw, which can refuse all of them but never
+  // lets one too many through.
+  async reserve(userHash, limits, { provider, model, repair, symptomCount }, now = new Date()) {
+    const startOfDay = new Date(Math.floor(now.getTime() / DAY_MS) * DAY_MS);
+    const day = await this.countSince(userHash, startOfDay);
+    const overQuota = {
+      allowed: false,
+      reason: 'daily_quota',
+      retryAfter: Math.ceil((startOfDay.getTime() + DAY_MS - now.getTime()) / 1000),
+    };
+    if (day.count >= limits.dailyQuota) return overQuota;
+
+    // Slots from the day's count up are most likely free. Those below it
+    // are tried last, as one is freed when a request withdraws.
+    const slots = [...Array(limits.dailyQuota).keys()]
+      .sort((a, b) => (a < day.count) - (b < day.count) || a - b);
+    let usageId = null;
+    for (const slot of slots) {
+      const documentId = toStableDocumentId('ai', `${userHash}:${startOfDay.toISOString()}:${slot}`);
+      try {
+        await this.databases.createDocument({
+          databaseId: this.databaseId,
+          collectionId: this.collectionId,
+          documentId,
+          data: {
+            userHash,
+            timestamp: now.toISOString(),
+            provider,
+            model,
+            repair,
+            symptomCount,
+            status: 'pending',
+            latencyMs: null,
+            tokens: null,
+          },
+        });
+        usageId = documentId;
+        break;
+      } catch (err) {
+        if (!isConflict(err)) throw err;
+      }
+    }
+    if (!usageId) return overQuota;
+
+    const window = await this.countSince(userHash, new Date(now.getTime() - limits.windowMs));
+    if (window.count > limits.rateLimit) {
+      await this.databases.deleteDocument({
+        databaseId: this.databaseId,
+        collectionId: this.collectionId,
+        documentId: usageId,
+      });
+      // The window includes its start, so the earliest request still counts
+      // at the very moment it is windowMs old; the user may ask again the
+      // second after
+      return {
+        allowed: false,
+        reason: 'rate_limit',
+        retryAfter: Math.floor((new Date(window.earliest).getTime() + limits.windowMs - now.getTime()) / 1000) + 1,
+      };
+    }
+    return {
+      allowed: true,
+      usageId,
+      remaining: {
+        window: limits.rateLimit - window.count,
+        day: Math.max(0, limits.dailyQuota - day.count - 1),
+      },
+    };
+  }
+
+  async finish(usageId, { status, latencyMs, tokens }) {
+    await this.databases.updateDocument({
+      databaseId: this.databaseId,
+      collectionId: this.collectionId,
+      documentId: usageId,
+      data: { status, latencyMs, tokens },
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { Client, Databases } from 'node-appwrite';
+import { hashUser, recordSignal, toSignal } from './signals.js';
+
+// Stores a signed-in user's symptom check, anonymised, for the outbreak
+// scan, so the app needs no write access to health signals and cannot
+// place them in a district of its choosing or flood one.
+//
+// Called by the app as an execution for the signed-in user, never through
+// a domain, so Appwrite sets the x-appwrite-user-id header itself.
+// POST { "syndrome": "diarrhoeal", "latitude": 12.95, "longitude": 77.55, "timestamp": "..." }
+// Answers { ok: true, recorded }, where recorded is false if the user
+// already shared a signal that day, or { ok: false, message } with 400 or
+// 401.
+export default async ({ req, res, error }) => {
+  if (req.method !== 'POST') {
+    return res.json({ ok: false, message: 'Method not allowed' }, 405);
+  }
+
+  const userId = req.headers['x-appwrite-user-id'];
+  if (!userId) {
+    return res.json({ ok: false, message: 'Sign in to share a symptom check' }, 401);
+  }
+
+  const signal = toSignal(req.bodyJson ?? {});
+  if (!signal) {
+    return res.json({ ok: false, message: 'Send a syndrome, a position and a time within the last week' }, 400);
+  }
+
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+    .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(req.headers['x-appwrite-key'] ?? process.env.APPWRITE_API_KEY);
+
+  try {
+    const recorded = await recordSignal(new Databases(client), hashUser(userId), signal);
+    return res.json({ ok: true, recorded });
+  } catch (err) {
+    error(`Error storing health signal: ${err.message}`);
+    return res.json({ ok: false, message: 'Failed to store the health signal' }, 500);
+  }
+};
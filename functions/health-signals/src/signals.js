@@ -0,0 +1,84 @@
+import { createHash } from 'node:crypto';
+import { Permission, Role } from 'node-appwrite';
+import { toStableDocumentId } from './ids.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// The app's DISTRICT_CELL_DEGREES and getDistrict in lib/outbreak/signals.ts
+export const DISTRICT_CELL_DEGREES = 0.1;
+const SYNDROMES = ['diarrhoeal', 'jaundice', 'febrile'];
+// How long a symptom check may wait in the app's outbox
+const MAX_SIGNAL_AGE_MS = 7 * DAY_MS;
+// How far ahead of the server's clock a device's time may be
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const databaseId = process.env.DATABASE_ID ?? 'main';
+const signalsCollectionId = process.env.HEALTH_SIGNALS_COLLECTION_ID ?? 'health_signals';
+
+// Without a salt, anyone with a list of user IDs could work out which
+// signal IDs belong to whom, so the function refuses to start
+const salt = process.env.SIGNAL_SALT;
+if (!salt) {
+  throw new Error('SIGNAL_SALT is not set: add a long random string to the function variables');
+}
+
+const isConflict = (err) => err?.code === 409;
+const isInRange = (value, min, max) => typeof value === 'number' && value >= min && value <= max;
+
+// Signals are limited per user by a salted hash of the user ID, which is
+// never stored
+export const hashUser = (userId) => createHash('sha256').update(`${salt}:${userId}`).digest('hex');
+
+// The district a place falls in, and its centre
+export const getDistrict = ({ latitude, longitude }) => {
+  const row = Math.floor(latitude / DISTRICT_CELL_DEGREES);
+  const column = Math.floor(longitude / DISTRICT_CELL_DEGREES);
+  return {
+    district: `${row}_${column}`,
+    latitude: Number(((row + 0.5) * DISTRICT_CELL_DEGREES).toFixed(4)),
+    longitude: Number(((column + 0.5) * DISTRICT_CELL_DEGREES).toFixed(4)),
+  };
+};
+
+// The signal to store for what the app sent, or null if it is not one.
+// The district and its centre are worked out here from the coordinates
+// and the time is rounded down to the hour, whatever the app sent.
+export const toSignal = ({ syndrome, latitude, longitude, timestamp }, now = new Date()) => {
+  const time = typeof timestamp === 'string' ? Date.parse(timestamp) : NaN;
+  const valid = SYNDROMES.includes(syndrome)
+    && isInRange(latitude, -90, 90)
+    && isInRange(longitude, -180, 180)
+    && time >= now.getTime() - MAX_SIGNAL_AGE_MS
+    && time <= now.getTime() + MAX_CLOCK_SKEW_MS;
+  if (!valid) return null;
+
+  return {
+    source: 'assessment',
+    syndrome,
+    ...getDistrict({ latitude, longitude }),
+    timestamp: new Date(Math.floor(time / HOUR_MS) * HOUR_MS).toISOString(),
+  };
+};
+
+// Store a user's signal: at most one per user and day (UTC), so one person
+// checking their symptoms again and again counts once, and a replayed
+// upload changes nothing. The document ID is derived from the user's hash
+// and the day, so signals cannot be linked to each other or to the user.
+// Returns false when the user already shared a signal that day.
+export const recordSignal = async (databases, userHash, signal) => {
+  try {
+    await databases.createDocument({
+      databaseId,
+      collectionId: signalsCollectionId,
+      documentId: toStableDocumentId('hs', `${userHash}:${signal.timestamp.slice(0, 10)}`),
+      data: signal,
+      // Anyone signed in may scan for outbreaks; nobody may change a signal
+      permissions: [Permission.read(Role.users())],
+    });
+    return true;
+  } catch (err) {
+    if (isConflict(err)) return false;
+    throw err;
+  }
+};
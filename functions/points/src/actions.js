@@ -0,0 +1,326 @@
+import { Permission, Role } from 'node-appwrite';
+import {
+  advanceStreak,
+  evaluateAchievements,
+  getAvailableFreezes,
+  getCounters,
+  isPlausibleActiveDate,
+  LEADERBOARD_WINDOWS,
+  MAX_STREAK_FREEZES,
+  POINT_RULES,
+  STREAK_BONUS_INTERVAL,
+} from './rules.js';
+import { getLeaderboardPage, LEADERBOARD_SCOPES } from './leaderboard.js';
+import { getReward, getVoucher, isRewardAvailable, issueVoucher, restock, takeFromStock } from './rewards.js';
+import { registerSensor, toSensorData } from './sensors.js';
+
+// How long an award or streak activity may wait in the app's outbox
+const MAX_ACTIVITY_AGE_DAYS = 7;
+const MAX_PUSH_TOKENS = 5;
+// Sensors a user is paid for. Nothing proves a device ID belongs to real
+// hardware, so registering more pays nothing.
+const MAX_PAID_SENSORS = 5;
+
+// Reasons the app may claim. Sensors, streak bonuses, freezes and
+// achievements are only ever paid by the actions below.
+const CLAIMABLE_REASON = /^(report_(low|medium|high|critical)|health_check)$/;
+
+// A request the function will not carry out, answered with its status
+export class Refusal extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const isText = (value, maxLength) => typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+const isOptionalText = (value, maxLength) => value === null || isText(value, maxLength);
+
+const checkActiveDate = (activeDate) => {
+  if (!isPlausibleActiveDate(activeDate, MAX_ACTIVITY_AGE_DAYS)) {
+    throw new Refusal(`activeDate must be a YYYY-MM-DD day within the last ${MAX_ACTIVITY_AGE_DAYS} days`);
+  }
+};
+
+const requireProfile = async (ledger, userId) => {
+  const profile = await ledger.getProfile(userId);
+  if (!profile) throw new Refusal('Profile not found', 404);
+  return profile;
+};
+
+// Check that the user really did what they are claiming points for.
+// Reports are created by the reports function alone, which records the
+// signed-in user as the reporter, and nobody can change a report's
+// reporter or severity afterwards.
+const verifyClaim = async ({ userId, databases, ledger }, reason, entityId) => {
+  if (reason.startsWith('report_')) {
+    let report;
+    try {
+      report = await databases.getDocument({
+        databaseId: ledger.databaseId,
+        collectionId: process.env.WATER_REPORTS_COLLECTION_ID ?? 'water_reports',
+        documentId: entityId,
+      });
+    } catch (err) {
+      if (err?.code === 404) throw new Refusal('Report not found', 404);
+      throw err;
+    }
+    if (report.reporterId !== userId) throw new Refusal('Only the reporter earns points for a report', 403);
+    if (`report_${report.severity}` !== reason) throw new Refusal('The report has a different severity');
+  }
+};
+
+// Pay every achievement the user has reached, and any that the bonuses
+// themselves reach (a level, say). Returns the IDs newly unlocked. Each is
+// paid before it is recorded as unlocked, so one that fails in between is
+// found again next time and only recorded: the payment is idempotent.
+const unlockAchievements = async (ledger, userId, profile, activeDate) => {
+  const newlyUnlocked = [];
+  for (;;) {
+    const [entries, unlocked] = await Promise.all([ledger.getEntries(userId), ledger.getUnlockedIds(userId)]);
+    const candidates = evaluateAchievements(getCounters(entries, profile), unlocked);
+    if (candidates.length === 0) return newlyUnlocked;
+
+    for (const { id } of candidates) {
+      const reason = `achievement_${id}`;
+      await ledger.award(userId, reason, id, activeDate);
+      if (await ledger.unlockAchievement(userId, id, POINT_RULES[reason].points)) newlyUnlocked.push(id);
+    }
+  }
+};
+
+export const ACTIONS = {
+  // { reason, entityId, activeDate }: points for a report, health check or
+  // sensor. Claiming the same reason and entity again pays nothing.
+  async award(context, { reason, entityId, activeDate }) {
+    const { userId, ledger } = context;
+    if (typeof reason !== 'string' || !CLAIMABLE_REASON.test(reason)) {
+      throw new Refusal(`Points for ${reason} cannot be claimed`);
+    }
+    if (!isText(entityId, 255)) throw new Refusal('entityId is required');
+    checkActiveDate(activeDate);
+    await verifyClaim(context, reason, entityId);
+
+    const result = await ledger.award(userId, reason, entityId, activeDate);
+    const profile = await ledger.recalculateProfile(userId);
+    return { ...result, profile };
+  },
+
+  // { sensor, activeDate }: register a sensor to the user and pay for it.
+  // Each newly registered sensor takes the next of MAX_PAID_SENSORS
+  // numbered payments, so registering the same device again, or any
+  // number of made-up ones at once, never pays more than that.
+  async registerSensor(context, { sensor, activeDate }) {
+    const { userId, ledger } = context;
+    checkActiveDate(activeDate);
+    const data = toSensorData(sensor);
+    if (!data) throw new Refusal('The sensor is missing a field or has one that is not valid');
+    const current = await requireProfile(ledger, userId);
+
+    const { sensor: registered, created } = await registerSensor(context, data);
+    let result = { awarded: false, points: 0 };
+    for (let slot = 0; created && !result.awarded && slot < MAX_PAID_SENSORS; slot++) {
+      result = await ledger.award(userId, 'sensor_connected', `sensor-${slot}`, activeDate);
+    }
+    const profile = result.awarded ? await ledger.recalculateProfile(userId) : current;
+    return { sensor: registered, ...result, profile };
+  },
+
+  // { activeDate }: count a local day towards the streak, paying the
+  // bonus every STREAK_BONUS_INTERVAL days
+  async recordActivity({ userId, ledger }, { activeDate }) {
+    checkActiveDate(activeDate);
+    const current = await requireProfile(ledger, userId);
+
+    const { changed, ...update } = advanceStreak(current, activeDate);
+    if (!changed) return { update: { ...update, changed }, profile: current };
+
+    let profile = await ledger.updateProfile(userId, update);
+    if (update.streak % STREAK_BONUS_INTERVAL === 0) {
+      // Keyed by day, so a replayed activity cannot pay the bonus twice
+      await ledger.award(userId, 'streak_bonus', activeDate, activeDate);
+      profile = await ledger.recalculateProfile(userId);
+    }
+    return { update: { ...update, changed }, profile };
+  },
+
+  // { purchaseId, activeDate }: spend points on a streak freeze, from the
+  // ledger balance. Repeating a purchaseId charges nothing. Like redeem,
+  // a debit that overdraws the balance because of a concurrent purchase
+  // is refunded, and a refunded purchase stays cancelled.
+  async purchaseFreeze({ userId, ledger }, { purchaseId, activeDate }) {
+    if (!isText(purchaseId, 36)) throw new Refusal('purchaseId is required');
+    checkActiveDate(activeDate);
+    const profile = await requireProfile(ledger, userId);
+    if (await ledger.hasAdjustment(userId, 'freeze_refund', purchaseId)) {
+      throw new Refusal('This purchase was cancelled. Please try again.', 409);
+    }
+
+    if (getAvailableFreezes(profile) >= MAX_STREAK_FREEZES) {
+      throw new Refusal(`You can hold at most ${MAX_STREAK_FREEZES} streak freezes.`);
+    }
+    const cost = -POINT_RULES.streak_freeze.points;
+    const notEnoughPoints = 'Not enough points for a streak freeze.';
+    if ((await ledger.getBalance(userId)) < cost) throw new Refusal(notEnoughPoints);
+
+    const result = await ledger.award(userId, 'streak_freeze', purchaseId, activeDate);
+    if (result.awarded && (await ledger.getBalance(userId)) < 0) {
+      await ledger.adjust(userId, 'freeze_refund', purchaseId, cost);
+      await ledger.recalculateProfile(userId);
+      throw new Refusal(notEnoughPoints);
+    }
+    return { ...result, profile: await ledger.recalculateProfile(userId) };
+  },
+
+  // { rewardId, redemptionId }: spend points on a reward and issue its
+  // voucher. Appwrite has no multi-document transactions, so the steps run
+  // in an order that can be undone: take one from stock (atomically, never
+  // below zero), debit the points, then issue the voucher. If a later step
+  // fails, or the debit overdraws the balance because of a concurrent
+  // redemption, the earlier steps are compensated. Retrying a redemptionId
+  // returns the voucher already issued instead of charging again.
+  async redeem(context, { rewardId, redemptionId }) {
+    const { userId, ledger } = context;
+    if (!isText(rewardId, 36) || !isText(redemptionId, 36)) {
+      throw new Refusal('rewardId and redemptionId are required');
+    }
+    const current = await requireProfile(ledger, userId);
+
+    const existing = await getVoucher(context, redemptionId);
+    if (existing) return { voucher: existing, profile: current };
+    // A refunded redemption stays refunded; debiting it again would leave
+    // the refund in place and pay for the voucher twice over
+    if (await ledger.hasAdjustment(userId, 'reward_refund', redemptionId)) {
+      throw new Refusal('This redemption was cancelled. Please try again.', 409);
+    }
+
+    const reward = await getReward(context, rewardId);
+    if (!reward) throw new Refusal('Reward not found', 404);
+    if (!isRewardAvailable(reward)) {
+      throw new Refusal(reward.stock > 0 ? 'This reward is no longer available.' : 'This reward is out of stock.');
+    }
+    const notEnoughPoints = `You need ${reward.cost} points to claim this reward.`;
+    if ((await ledger.getBalance(userId)) < reward.cost) throw new Refusal(notEnoughPoints);
+
+    if (!(await takeFromStock(context, rewardId))) throw new Refusal('This reward is out of stock.');
+
+    let debited = false;
+    try {
+      const { awarded } = await ledger.adjust(userId, 'reward_redemption', redemptionId, -reward.cost);
+      if (!awarded) {
+        // Another attempt with this redemptionId made the debit, and issues
+        // the voucher or refunds it; this one charged nothing
+        throw new Refusal('This redemption is already being processed.', 409);
+      }
+      debited = true;
+
+      if ((await ledger.getBalance(userId)) < 0) throw new Refusal(notEnoughPoints);
+
+      const voucher = await issueVoucher(context, reward, redemptionId);
+      return { voucher, profile: await ledger.recalculateProfile(userId) };
+    } catch (err) {
+      if (debited) {
+        await ledger.adjust(userId, 'reward_refund', redemptionId, reward.cost);
+      }
+      await restock(context, rewardId);
+      if (err?.code === 409) throw new Refusal('This redemption was already used.', 409);
+      throw err;
+    }
+  },
+
+  // { activeDate }: unlock and pay every achievement the user has earned
+  async checkAchievements({ userId, ledger }, { activeDate }) {
+    checkActiveDate(activeDate);
+    const current = await requireProfile(ledger, userId);
+
+    const newlyUnlocked = await unlockAchievements(ledger, userId, current, activeDate);
+    const profile = newlyUnlocked.length > 0 ? await ledger.recalculateProfile(userId) : current;
+    return { newlyUnlocked, profile };
+  },
+
+  // { window, scope, offset, activeDate }: a page of the weekly, monthly
+  // or all-time leaderboard for everyone, or for the user's village or
+  // district. Profiles are not readable by other users, so only what the
+  // board shows leaves this function.
+  async leaderboard({ userId, ledger }, { window, scope, offset = 0, activeDate }) {
+    if (!Object.hasOwn(LEADERBOARD_WINDOWS, window ?? '') || !LEADERBOARD_SCOPES.includes(scope)) {
+      throw new Refusal(`Unknown leaderboard ${window} for ${scope}`);
+    }
+    if (!Number.isInteger(offset) || offset < 0) throw new Refusal('offset must be a whole number');
+    checkActiveDate(activeDate);
+
+    const current = await requireProfile(ledger, userId);
+    if (scope !== 'everyone' && !current[scope]) {
+      throw new Refusal(`No ${scope} was registered for your account.`);
+    }
+    return getLeaderboardPage(ledger, current, { window, scope, offset, activeDate });
+  },
+
+  // { name, village, district }: the profile of a newly registered user,
+  // readable by them alone
+  async createProfile({ userId, users, ledger }, { name, village = null, district = null }) {
+    if (!isText(name, 255)) throw new Refusal('name is required');
+    if (!isOptionalText(village, 255) || !isOptionalText(district, 255)) {
+      throw new Refusal('village and district must be text of at most 255 characters');
+    }
+
+    const { email } = await users.get({ userId });
+    const now = new Date().toISOString();
+    try {
+      const profile = await ledger.databases.createDocument({
+        databaseId: ledger.databaseId,
+        collectionId: ledger.usersCollectionId,
+        documentId: userId,
+        data: {
+          name,
+          email,
+          userId,
+          points: 0,
+          level: 1,
+          reportsSubmitted: 0,
+          streak: 0,
+          lastActiveDate: null,
+          streakFreezesPurchased: 0,
+          streakFreezesUsed: 0,
+          totalEarned: 0,
+          weekStart: null,
+          weeklyEarned: 0,
+          monthStart: null,
+          monthlyEarned: 0,
+          village,
+          district,
+          leaderboardOptOut: false,
+          pushTokens: [],
+          createdAt: now,
+          updatedAt: now,
+        },
+        permissions: [Permission.read(Role.user(userId))],
+      });
+      return { profile };
+    } catch (err) {
+      if (err?.code === 409) throw new Refusal('Profile already exists', 409);
+      throw err;
+    }
+  },
+
+  // { updates }: change the fields users own; points, streaks and the
+  // rest are only ever set by the actions above
+  async updateProfile({ userId, ledger }, { updates }) {
+    const checks = {
+      name: value => isText(value, 255),
+      village: value => isOptionalText(value, 255),
+      district: value => isOptionalText(value, 255),
+      leaderboardOptOut: value => typeof value === 'boolean',
+      pushTokens: value => Array.isArray(value) && value.length <= MAX_PUSH_TOKENS
+        && value.every(token => isText(token, 255)),
+    };
+    const fields = Object.entries(updates ?? {});
+    const invalid = fields.find(([field, value]) => !Object.hasOwn(checks, field) || !checks[field](value));
+    if (fields.length === 0 || invalid) {
+      throw new Refusal(invalid ? `${invalid[0]} cannot be set to that` : 'Nothing to update');
+    }
+
+    await requireProfile(ledger, userId);
+    return { profile: await ledger.updateProfile(userId, Object.fromEntries(fields)) };
+  },
+};
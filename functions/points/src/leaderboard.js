@@ -0,0 +1,81 @@
+import { Query } from 'node-appwrite';
+import { getWindowStarts, LEADERBOARD_WINDOWS } from './rules.js';
+
+export const LEADERBOARD_PAGE_SIZE = 20;
+export const LEADERBOARD_SCOPES = ['everyone', 'village', 'district'];
+// Shown instead of the name of users who opted out of the leaderboard
+const ANONYMOUS_NAME = 'Anonymous';
+
+// The points a profile has in a window, or 0 if its total is for an
+// earlier one
+const getWindowPoints = (profile, window, start) => {
+  const { startField, totalField } = LEADERBOARD_WINDOWS[window];
+  if (startField && profile[startField] !== start) return 0;
+  return profile[totalField] ?? 0;
+};
+
+// A row of the leaderboard. Users who opted out are shown to everyone else
+// without their name or user ID, under an ID that only says where they
+// are on the board.
+const toEntry = (profile, points, rank, position, currentUserId) => {
+  const isCurrentUser = profile.userId === currentUserId;
+  const anonymous = (profile.leaderboardOptOut ?? false) && !isCurrentUser;
+  return {
+    id: anonymous ? `anonymous_${position}` : profile.userId,
+    rank,
+    name: anonymous ? ANONYMOUS_NAME : profile.name,
+    points,
+    level: profile.level ?? 1,
+    reportsSubmitted: profile.reportsSubmitted ?? 0,
+    isCurrentUser,
+    anonymous,
+  };
+};
+
+// One page of a leaderboard for `current`, ranked by the totals the
+// ledger keeps on each profile. Weekly and monthly boards only rank users
+// who earned points in the window; `activeDate` is the viewer's local day,
+// which says which window that is.
+export const getLeaderboardPage = async (ledger, current, { window, scope, offset, activeDate }) => {
+  const { startField, totalField } = LEADERBOARD_WINDOWS[window];
+  const start = startField ? getWindowStarts(activeDate)[window] : null;
+
+  const filters = [
+    ...(scope === 'everyone' ? [] : [Query.equal(scope, current[scope])]),
+    ...(startField ? [Query.equal(startField, start), Query.greaterThan(totalField, 0)] : []),
+  ];
+  const list = (queries) =>
+    ledger.databases.listDocuments({ databaseId: ledger.databaseId, collectionId: ledger.usersCollectionId, queries });
+  // Users in scope with more than `points` in the window
+  const countAbove = async (points) =>
+    (await list([...filters, Query.greaterThan(totalField, points), Query.limit(1)])).total;
+
+  const result = await list([
+    ...filters,
+    Query.orderDesc(totalField),
+    Query.orderAsc('$id'),
+    Query.limit(LEADERBOARD_PAGE_SIZE),
+    Query.offset(offset),
+  ]);
+  const scores = result.documents.map(profile => ({ profile, points: getWindowPoints(profile, window, start) }));
+
+  // Users with equal points share a rank (1, 2, 2, 4). A page can start
+  // part-way through a tie, so its first rank is counted rather than
+  // assumed to be offset + 1.
+  const entries = [];
+  for (const [index, { profile, points }] of scores.entries()) {
+    const previous = entries[index - 1];
+    const rank = previous
+      ? (previous.points === points ? previous.rank : offset + index + 1)
+      : (offset > 0 ? await countAbove(points) + 1 : 1);
+    entries.push(toEntry(profile, points, rank, offset + index, current.userId));
+  }
+
+  const currentPoints = getWindowPoints(current, window, start);
+  const currentPosition = await countAbove(currentPoints);
+  return {
+    entries,
+    currentUser: toEntry(current, currentPoints, currentPosition + 1, currentPosition, current.userId),
+    nextOffset: offset + scores.length < result.total ? offset + scores.length : null,
+  };
+};
@@ -0,0 +1,192 @@
+import { Query } from 'node-appwrite';
+import { toStableDocumentId } from './ids.js';
+import {
+  calculateLevel,
+  getEarnedPoints,
+  getIdempotencyKey,
+  getWindowStarts,
+  LEADERBOARD_WINDOWS,
+  POINT_RULES,
+} from './rules.js';
+
+const PAGE_SIZE = 100;
+
+const isConflict = (err) => err?.code === 409;
+const isNotFound = (err) => err?.code === 404;
+
+// The points ledger and what is derived from it. Only this function writes
+// the ledger, achievements and the points fields of profiles.
+export class Ledger {
+  constructor(databases) {
+    this.databases = databases;
+    this.databaseId = process.env.DATABASE_ID ?? 'main';
+    this.usersCollectionId = process.env.USERS_COLLECTION_ID ?? 'users';
+    this.ledgerCollectionId = process.env.POINTS_LEDGER_COLLECTION_ID ?? 'points_ledger';
+    this.achievementsCollectionId = process.env.USER_ACHIEVEMENTS_COLLECTION_ID ?? 'user_achievements';
+  }
+
+  // A user's profile document, or null
+  async getProfile(userId) {
+    try {
+      return await this.databases.getDocument({
+        databaseId: this.databaseId,
+        collectionId: this.usersCollectionId,
+        documentId: userId,
+      });
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  async updateProfile(userId, data) {
+    return this.databases.updateDocument({
+      databaseId: this.databaseId,
+      collectionId: this.usersCollectionId,
+      documentId: userId,
+      data: { ...data, updatedAt: new Date().toISOString() },
+    });
+  }
+
+  // Every ledger entry for a user, oldest first
+  async getEntries(userId) {
+    const entries = [];
+    let cursor;
+    for (;;) {
+      const queries = [Query.equal('userId', userId), Query.orderAsc('$createdAt'), Query.limit(PAGE_SIZE)];
+      if (cursor) queries.push(Query.cursorAfter(cursor));
+
+      const page = await this.databases.listDocuments({
+        databaseId: this.databaseId,
+        collectionId: this.ledgerCollectionId,
+        queries,
+      });
+      entries.push(...page.documents);
+
+      if (page.documents.length < PAGE_SIZE) return entries;
+      cursor = page.documents[page.documents.length - 1].$id;
+    }
+  }
+
+  async getBalance(userId) {
+    const entries = await this.getEntries(userId);
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  // Append one entry. Returns false if its idempotency key was used before.
+  async write(userId, reason, entityId, amount, idempotencyKey) {
+    try {
+      await this.databases.createDocument({
+        databaseId: this.databaseId,
+        collectionId: this.ledgerCollectionId,
+        documentId: toStableDocumentId('pl', idempotencyKey),
+        data: { userId, amount, reason, entityId, idempotencyKey, createdAt: new Date().toISOString() },
+      });
+      return true;
+    } catch (err) {
+      if (isConflict(err)) return false;
+      throw err;
+    }
+  }
+
+  // Pay a reason from POINT_RULES, at most once per entity (or per day)
+  async award(userId, reason, entityId, activeDate) {
+    const { points } = POINT_RULES[reason];
+    const awarded = await this.write(userId, reason, entityId, points, getIdempotencyKey(userId, reason, entityId, activeDate));
+    if (awarded && points > 0) await this.addToWindows(userId, points, activeDate);
+    return { awarded, points };
+  }
+
+  // Count points earned on a local day towards the weekly and monthly
+  // leaderboards. A day in a later window starts that window's total
+  // afresh; one in an earlier window (an award that waited offline past
+  // the end of the week) no longer counts.
+  async addToWindows(userId, points, activeDate) {
+    const profile = await this.getProfile(userId);
+    if (!profile) return;
+
+    const starts = getWindowStarts(activeDate);
+    for (const [window, start] of Object.entries(starts)) {
+      const { startField, totalField } = LEADERBOARD_WINDOWS[window];
+      const current = profile[startField] ?? '';
+      if (start < current) continue;
+
+      if (start === current) {
+        await this.databases.incrementDocumentAttribute({
+          databaseId: this.databaseId,
+          collectionId: this.usersCollectionId,
+          documentId: userId,
+          attribute: totalField,
+          value: points,
+        });
+      } else {
+        await this.updateProfile(userId, { [startField]: start, [totalField]: points });
+      }
+    }
+  }
+
+  // Debit (negative) or refund (positive) points for a reward or streak
+  // freeze, at most once per reason and redemption or purchase
+  async adjust(userId, reason, redemptionId, amount) {
+    const awarded = await this.write(userId, reason, redemptionId, amount, `${userId}:${reason}:${redemptionId}`);
+    return { awarded, points: amount };
+  }
+
+  // Whether an adjust() for this reason and redemption has been written
+  async hasAdjustment(userId, reason, redemptionId) {
+    try {
+      await this.databases.getDocument({
+        databaseId: this.databaseId,
+        collectionId: this.ledgerCollectionId,
+        documentId: toStableDocumentId('pl', `${userId}:${reason}:${redemptionId}`),
+      });
+      return true;
+    } catch (err) {
+      if (isNotFound(err)) return false;
+      throw err;
+    }
+  }
+
+  // Rebuild the profile's balance, level, report count and purchased
+  // streak freezes from the ledger
+  async recalculateProfile(userId) {
+    const entries = await this.getEntries(userId);
+    const totalEarned = getEarnedPoints(entries);
+
+    return this.updateProfile(userId, {
+      points: Math.max(0, entries.reduce((sum, entry) => sum + entry.amount, 0)),
+      totalEarned,
+      // Spending points never costs a level
+      level: calculateLevel(totalEarned),
+      reportsSubmitted: entries.filter(entry => entry.reason.startsWith('report_')).length,
+      streakFreezesPurchased: entries.filter(entry => entry.reason === 'streak_freeze').length
+        - entries.filter(entry => entry.reason === 'freeze_refund').length,
+    });
+  }
+
+  // IDs of the achievements a user has unlocked
+  async getUnlockedIds(userId) {
+    const result = await this.databases.listDocuments({
+      databaseId: this.databaseId,
+      collectionId: this.achievementsCollectionId,
+      queries: [Query.equal('userId', userId), Query.limit(100)],
+    });
+    return new Set(result.documents.map(doc => doc.achievementId));
+  }
+
+  // Record an unlocked achievement, once per user
+  async unlockAchievement(userId, achievementId, points) {
+    try {
+      await this.databases.createDocument({
+        databaseId: this.databaseId,
+        collectionId: this.achievementsCollectionId,
+        documentId: toStableDocumentId('ua', `${userId}:${achievementId}`),
+        data: { userId, achievementId, unlockedAt: new Date().toISOString(), points },
+      });
+      return true;
+    } catch (err) {
+      if (isConflict(err)) return false;
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Client, Databases, Users } from 'node-appwrite';
+import { ACTIONS, Refusal } from './actions.js';
+import { Ledger } from './ledger.js';
+
+// The only writer of points. The app cannot create ledger entries or
+// achievements, or change the points, level and streak on a profile; it
+// asks this function, which checks the claim (the report is the user's,
+// the sensor is new to them, the balance covers a purchase) and
+// writes with an API key.
+//
+// Called by the app as an execution for the signed-in user, never through
+// a domain, so Appwrite sets the x-appwrite-user-id header itself.
+// POST { "action": "award", "reason": "report_high", "entityId": "...", "activeDate": "2025-03-30" }
+// Answers { ok: true, ... } with what the action returns, or
+// { ok: false, message } with 400, 401, 403, 404 or 409.
+export default async ({ req, res, error }) => {
+  if (req.method !== 'POST') {
+    return res.json({ ok: false, message: 'Method not allowed' }, 405);
+  }
+
+  const userId = req.headers['x-appwrite-user-id'];
+  if (!userId) {
+    return res.json({ ok: false, message: 'Sign in to earn points' }, 401);
+  }
+
+  const { action, ...body } = req.bodyJson ?? {};
+  if (typeof action !== 'string' || !Object.hasOwn(ACTIONS, action)) {
+    return res.json({ ok: false, message: `Unknown action ${action}` }, 400);
+  }
+
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+    .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(req.headers['x-appwrite-key'] ?? process.env.APPWRITE_API_KEY);
+  const databases = new Databases(client);
+  const context = { userId, databases, users: new Users(client), ledger: new Ledger(databases) };
+
+  try {
+    return res.json({ ok: true, ...(await ACTIONS[action](context, body)) });
+  } catch (err) {
+    if (err instanceof Refusal) {
+      return res.json({ ok: false, message: err.message }, err.status);
+    }
+    error(`Error in ${action}: ${err.message}`);
+    return res.json({ ok: false, message: 'Failed to update points' }, 500);
+  }
+};
@@ -0,0 +1,99 @@
+import { randomInt } from 'node:crypto';
+import { Permission, Role } from 'node-appwrite';
+
+// How long a voucher stays valid when its reward has no earlier expiry
+const VOUCHER_VALIDITY_DAYS = 90;
+// Unambiguous characters for voucher codes (no 0/O, 1/I/L)
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 10;
+
+const rewardsCollectionId = () => process.env.REWARDS_CATALOG_COLLECTION_ID ?? 'rewards_catalog';
+const vouchersCollectionId = () => process.env.VOUCHERS_COLLECTION_ID ?? 'vouchers';
+
+// A random voucher code, formatted XXXXX-XXXXX. Only this function knows
+// it until the voucher is issued.
+const newVoucherCode = () => {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+export const isRewardAvailable = (reward, now = new Date()) =>
+  (reward.active ?? true) && (reward.stock ?? 0) > 0 && (!reward.expiryDate || new Date(reward.expiryDate) > now);
+
+const getOrNull = async (databases, databaseId, collectionId, documentId) => {
+  try {
+    return await databases.getDocument({ databaseId, collectionId, documentId });
+  } catch (err) {
+    if (err?.code === 404) return null;
+    throw err;
+  }
+};
+
+export const getReward = ({ databases, ledger }, rewardId) =>
+  getOrNull(databases, ledger.databaseId, rewardsCollectionId(), rewardId);
+
+// The voucher issued for a redemption, if it is the user's
+export const getVoucher = async ({ userId, databases, ledger }, redemptionId) => {
+  const voucher = await getOrNull(databases, ledger.databaseId, vouchersCollectionId(), redemptionId);
+  return voucher?.userId === userId ? voucher : null;
+};
+
+// Take one from stock, atomically and never below zero. Returns false when
+// there is none left.
+export const takeFromStock = async ({ databases, ledger }, rewardId) => {
+  try {
+    await databases.decrementDocumentAttribute({
+      databaseId: ledger.databaseId,
+      collectionId: rewardsCollectionId(),
+      documentId: rewardId,
+      attribute: 'stock',
+      value: 1,
+      min: 0,
+    });
+    return true;
+  } catch (err) {
+    // Appwrite refuses to take the stock below `min` with a 400
+    if (err?.code === 400) return false;
+    throw err;
+  }
+};
+
+export const restock = ({ databases, ledger }, rewardId) =>
+  databases.incrementDocumentAttribute({
+    databaseId: ledger.databaseId,
+    collectionId: rewardsCollectionId(),
+    documentId: rewardId,
+    attribute: 'stock',
+    value: 1,
+  });
+
+// A voucher readable by the user alone, with the redemption ID as its
+// document ID so a redemption can only ever issue one
+export const issueVoucher = ({ userId, databases, ledger }, reward, redemptionId) => {
+  const issuedAt = new Date();
+  const validUntil = new Date(issuedAt.getTime() + VOUCHER_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  const expiresAt =
+    reward.expiryDate && new Date(reward.expiryDate) < validUntil ? new Date(reward.expiryDate) : validUntil;
+
+  return databases.createDocument({
+    databaseId: ledger.databaseId,
+    collectionId: vouchersCollectionId(),
+    documentId: redemptionId,
+    data: {
+      userId,
+      rewardId: reward.$id,
+      rewardName: reward.name,
+      code: newVoucherCode(),
+      cost: reward.cost,
+      status: 'active',
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      redeemedAt: null,
+      redeemedBy: null,
+    },
+    permissions: [Permission.read(Role.user(userId))],
+  });
+};
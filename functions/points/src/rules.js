@@ -0,0 +1,115 @@
+import catalogue from '../../shared/catalogue.json' with { type: 'json' };
+
+// Points, achievements and streak rules come from the catalogue shared
+// with the app, which shows the same numbers as are paid here
+export const POINTS_PER_LEVEL = catalogue.pointsPerLevel;
+export const MAX_STREAK_FREEZES = catalogue.maxStreakFreezes;
+export const STREAK_BONUS_INTERVAL = catalogue.streakBonusInterval;
+
+// Points for each reason, and whether it pays at most once per local day
+export const POINT_RULES = catalogue.pointRules;
+
+// Each achievement unlocks once its counter reaches the threshold
+export const ACHIEVEMENTS = catalogue.achievements;
+
+// The profile fields each leaderboard ranks by. Weekly and monthly totals
+// belong to the window starting on `startField`, a local YYYY-MM-DD day.
+export const LEADERBOARD_WINDOWS = {
+  weekly: { startField: 'weekStart', totalField: 'weeklyEarned' },
+  monthly: { startField: 'monthStart', totalField: 'monthlyEarned' },
+  allTime: { startField: null, totalField: 'totalEarned' },
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const calculateLevel = (points) => Math.floor(Math.max(0, points) / POINTS_PER_LEVEL) + 1;
+
+// Same user, reason and entity, same key. Once-a-day rules are keyed by
+// the local calendar day instead of the entity.
+export const getIdempotencyKey = (userId, reason, entityId, activeDate) =>
+  `${userId}:${reason}:${POINT_RULES[reason].oncePerDay ? activeDate : entityId}`;
+
+// Points earned, not counting spending or refunds of spent points
+export const getEarnedPoints = (entries) =>
+  entries
+    .filter(entry => !entry.reason.endsWith('_refund'))
+    .reduce((sum, entry) => sum + Math.max(0, entry.amount), 0);
+
+// Whole calendar days between two YYYY-MM-DD keys
+export const daysBetween = (fromKey, toKey) => {
+  const toUtc = (key) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(toKey) - toUtc(fromKey)) / MS_PER_DAY);
+};
+
+// Whether a day the app says something happened on is believable: a real
+// date, no later than tomorrow in UTC (the furthest-ahead timezone is
+// UTC+14) and no more than `maxAgeDays` ago, which bounds how long an
+// award can wait offline
+export const isPlausibleActiveDate = (activeDate, maxAgeDays, now = new Date()) => {
+  if (typeof activeDate !== 'string' || !DATE_KEY.test(activeDate)) return false;
+  if (Number.isNaN(Date.parse(activeDate))) return false;
+  const age = daysBetween(activeDate, now.toISOString().slice(0, 10));
+  return age >= -1 && age <= maxAgeDays;
+};
+
+// The start of each window a local day falls in: the Monday of its week
+// and the 1st of its month
+export const getWindowStarts = (activeDate) => {
+  const [year, month, day] = activeDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  const monday = new Date(date.getTime() - daysSinceMonday * MS_PER_DAY);
+  return { weekly: monday.toISOString().slice(0, 10), monthly: `${activeDate.slice(0, 7)}-01` };
+};
+
+export const getAvailableFreezes = (profile) =>
+  Math.max(0, (profile.streakFreezesPurchased ?? 0) - (profile.streakFreezesUsed ?? 0));
+
+// Apply activity on `activeDate` to a profile's streak: the first activity
+// of a new day extends it, missed days are bridged by streak freezes if
+// there are enough, otherwise it restarts at 1
+export const advanceStreak = (profile, activeDate) => {
+  const streak = profile.streak ?? 0;
+  const streakFreezesUsed = profile.streakFreezesUsed ?? 0;
+  const lastActiveDate = profile.lastActiveDate ?? null;
+  const unchanged = { streak, lastActiveDate: lastActiveDate ?? activeDate, streakFreezesUsed, changed: false };
+
+  if (!lastActiveDate) {
+    return { ...unchanged, streak: 1, lastActiveDate: activeDate, changed: true };
+  }
+
+  const gap = daysBetween(lastActiveDate, activeDate);
+  if (gap <= 0) return unchanged;
+
+  const missedDays = gap - 1;
+  if (missedDays === 0) {
+    return { ...unchanged, streak: streak + 1, lastActiveDate: activeDate, changed: true };
+  }
+  if (missedDays <= getAvailableFreezes(profile)) {
+    return { streak: streak + 1, lastActiveDate: activeDate, streakFreezesUsed: streakFreezesUsed + missedDays, changed: true };
+  }
+  return { ...unchanged, streak: 1, lastActiveDate: activeDate, changed: true };
+};
+
+// The numbers achievements are measured against, from the ledger
+export const getCounters = (entries, profile) => {
+  const entitiesFor = (matches) =>
+    new Set(entries.filter(entry => matches(entry.reason)).map(entry => entry.entityId)).size;
+  return {
+    reportsSubmitted: entitiesFor(reason => reason.startsWith('report_')),
+    healthChecks: entries.filter(entry => entry.reason === 'health_check').length,
+    sensorsConnected: entitiesFor(reason => reason === 'sensor_connected'),
+    streak: profile.streak ?? 0,
+    level: calculateLevel(getEarnedPoints(entries)),
+  };
+};
+
+// Achievements reached but not unlocked yet
+export const evaluateAchievements = (counters, unlockedIds) =>
+  ACHIEVEMENTS.filter(achievement =>
+    !unlockedIds.has(achievement.id) && counters[achievement.counter] >= achievement.threshold
+  );
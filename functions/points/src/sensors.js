@@ -0,0 +1,65 @@
+import { Permission, Role } from 'node-appwrite';
+import { toStableDocumentId } from './ids.js';
+
+const SENSOR_TYPES = ['multiparameter', 'ph', 'turbidity', 'tds', 'temperature'];
+const WATER_SOURCES = ['well', 'handpump', 'tank', 'tap', 'surface', 'other'];
+
+const sensorsCollectionId = () => process.env.SENSORS_COLLECTION_ID ?? 'sensors';
+
+const isText = (value, maxLength) => typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+const isOptionalText = (value, maxLength) => value == null || isText(value, maxLength);
+const isOptionalNumber = (value, min, max) => value == null || (typeof value === 'number' && value >= min && value <= max);
+
+// The fields of a new sensor the app may set, or null if any is invalid
+export const toSensorData = (sensor) => {
+  const {
+    deviceId, name, sensorType, waterSource, latitude = null, longitude = null, address = null,
+    firmware = null, lastCalibratedAt = null, calibration = null, shared = false,
+  } = sensor ?? {};
+  const valid = isText(deviceId, 255)
+    && isText(name, 255)
+    && SENSOR_TYPES.includes(sensorType)
+    && WATER_SOURCES.includes(waterSource)
+    && isOptionalNumber(latitude, -90, 90)
+    && isOptionalNumber(longitude, -180, 180)
+    && isOptionalText(address, 500)
+    && isOptionalText(firmware, 64)
+    && (lastCalibratedAt == null || !Number.isNaN(Date.parse(lastCalibratedAt)))
+    && isOptionalText(calibration, 2000)
+    && typeof shared === 'boolean';
+  if (!valid) return null;
+
+  return { deviceId, name, sensorType, waterSource, latitude, longitude, address, firmware, lastCalibratedAt, calibration, shared };
+};
+
+// Register a sensor to the user, once per device: the document ID comes
+// from the user and device, as it did when the app registered sensors
+// itself. Returns the sensor and whether it was newly registered.
+export const registerSensor = async ({ userId, databases, ledger }, data) => {
+  const documentId = toStableDocumentId('sn', `${userId}:${data.deviceId}`);
+  const now = new Date().toISOString();
+  try {
+    const sensor = await databases.createDocument({
+      databaseId: ledger.databaseId,
+      collectionId: sensorsCollectionId(),
+      documentId,
+      data: { ...data, ownerId: userId, createdAt: now, updatedAt: now },
+      // Only the owner can change a sensor; everyone signed in can see a
+      // shared one
+      permissions: [
+        Permission.read(data.shared ? Role.users() : Role.user(userId)),
+        Permission.update(Role.user(userId)),
+        Permission.delete(Role.user(userId)),
+      ],
+    });
+    return { sensor, created: true };
+  } catch (err) {
+    if (err?.code !== 409) throw err;
+    const sensor = await databases.getDocument({
+      databaseId: ledger.databaseId,
+      collectionId: sensorsCollectionId(),
+      documentId,
+    });
+    return { sensor, created: false };
+  }
+};
@@ -0,0 +1,39 @@
+import { Client, Databases } from 'node-appwrite';
+import { redeemVoucher, Refusal } from './redeem.js';
+
+// Partners scan or type a voucher code at the counter and call this
+// function to mark it used. The function runs with an API key, so it is
+// the only place vouchers are updated; clients can only read their own.
+//
+// POST { "code": "ABCDE-FGHJK", "partnerId": "store-42" }
+// Header x-partner-key must match the PARTNER_API_KEY variable.
+export default async ({ req, res, log, error }) => {
+  if (req.method !== 'POST') {
+    return res.json({ ok: false, message: 'Method not allowed' }, 405);
+  }
+  if (!process.env.PARTNER_API_KEY || req.headers['x-partner-key'] !== process.env.PARTNER_API_KEY) {
+    return res.json({ ok: false, message: 'Unauthorized' }, 401);
+  }
+
+  const { code, partnerId } = req.bodyJson ?? {};
+  if (typeof code !== 'string' || typeof partnerId !== 'string' || !code || !partnerId) {
+    return res.json({ ok: false, message: 'code and partnerId are required' }, 400);
+  }
+
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+    .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(req.headers['x-appwrite-key'] ?? process.env.APPWRITE_API_KEY);
+
+  try {
+    const { code: redeemedCode, rewardName, redeemedAt } = await redeemVoucher(new Databases(client), { code, partnerId });
+    log(`Voucher ${redeemedCode} redeemed by ${partnerId}`);
+    return res.json({ ok: true, rewardName, redeemedAt });
+  } catch (err) {
+    if (err instanceof Refusal) {
+      return res.json({ ok: false, message: err.message, ...err.details }, err.status);
+    }
+    error(`Error redeeming voucher: ${err.message}`);
+    return res.json({ ok: false, message: 'Failed to redeem voucher' }, 500);
+  }
+};
@@ -0,0 +1,72 @@
+import { Query } from 'node-appwrite';
+
+const databaseId = process.env.DATABASE_ID ?? 'main';
+const vouchersCollectionId = process.env.VOUCHERS_COLLECTION_ID ?? 'vouchers';
+const redemptionsCollectionId = process.env.VOUCHER_REDEMPTIONS_COLLECTION_ID ?? 'voucher_redemptions';
+
+// A request the function will not carry out, answered with its status and
+// any details the partner's till shows alongside the message
+export class Refusal extends Error {
+  constructor(message, status = 400, details = {}) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const isConflict = (err) => err?.code === 409;
+
+const alreadyRedeemed = (redeemedAt) => new Refusal('Voucher already redeemed', 409, { redeemedAt });
+
+// Mark the voucher with this code used. Reading the voucher and updating it
+// are two requests, so two tills scanning the same code at once would both
+// see it active. The redemption is therefore first claimed by creating a
+// document whose ID is the voucher's: only one of them can, and the other
+// gets a 409 and is refused.
+export const redeemVoucher = async (databases, { code, partnerId }) => {
+  const result = await databases.listDocuments({
+    databaseId,
+    collectionId: vouchersCollectionId,
+    queries: [Query.equal('code', code.trim().toUpperCase()), Query.limit(1)],
+  });
+  const voucher = result.documents[0];
+
+  if (!voucher) throw new Refusal('Voucher not found', 404);
+  if (voucher.status === 'used') throw alreadyRedeemed(voucher.redeemedAt);
+  if (new Date(voucher.expiresAt) <= new Date()) {
+    throw new Refusal('Voucher expired', 410, { expiresAt: voucher.expiresAt });
+  }
+
+  const redeemedAt = new Date().toISOString();
+  try {
+    await databases.createDocument({
+      databaseId,
+      collectionId: redemptionsCollectionId,
+      documentId: voucher.$id,
+      data: { partnerId, redeemedAt },
+    });
+  } catch (err) {
+    if (!isConflict(err)) throw err;
+    const redemption = await databases.getDocument({
+      databaseId,
+      collectionId: redemptionsCollectionId,
+      documentId: voucher.$id,
+    });
+    throw alreadyRedeemed(redemption.redeemedAt);
+  }
+
+  try {
+    await databases.updateDocument({
+      databaseId,
+      collectionId: vouchersCollectionId,
+      documentId: voucher.$id,
+      data: { status: 'used', redeemedAt, redeemedBy: partnerId },
+    });
+  } catch (err) {
+    // Give the claim back, so the partner can scan the voucher again
+    await databases.deleteDocument({ databaseId, collectionId: redemptionsCollectionId, documentId: voucher.$id });
+    throw err;
+  }
+
+  return { code: voucher.code, rewardName: voucher.rewardName, redeemedAt };
+};
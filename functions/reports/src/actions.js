@@ -0,0 +1,187 @@
+import { Query } from 'node-appwrite';
+import catalogue from '../../shared/catalogue.json' with { type: 'json' };
+import { toStableDocumentId } from './ids.js';
+
+const REPORT_TYPES = ['contamination', 'shortage', 'infrastructure', 'quality', 'other'];
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const VOTE_TYPES = ['up', 'down'];
+const MAX_PHOTOS = 3;
+// How far ahead of the server's clock a device's report time may be
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Reports one verification may cover: a problem area on the map
+const MAX_VERIFIED_REPORTS = 100;
+
+const databaseId = process.env.DATABASE_ID ?? 'main';
+const reportsCollectionId = process.env.WATER_REPORTS_COLLECTION_ID ?? 'water_reports';
+const votesCollectionId = process.env.REPORT_VOTES_COLLECTION_ID ?? 'report_votes';
+
+// A request the function will not carry out, answered with its status
+export class Refusal extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const isConflict = (err) => err?.code === 409;
+const isNotFound = (err) => err?.code === 404;
+const isText = (value, maxLength) => typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+const isOptionalText = (value, maxLength) => value == null || (typeof value === 'string' && value.length <= maxLength);
+const isInRange = (value, min, max) => typeof value === 'number' && value >= min && value <= max;
+
+// The fields of a new report the app may set, or null if any is invalid
+const toReportData = (report, timestamp) => {
+  const {
+    type, severity, title, description, latitude, longitude, address = null, photos = [], photoEvidence = null,
+  } = report ?? {};
+  const valid = REPORT_TYPES.includes(type)
+    && SEVERITIES.includes(severity)
+    && isText(title, 100)
+    && isText(description, 500)
+    && isInRange(latitude, -90, 90)
+    && isInRange(longitude, -180, 180)
+    && isOptionalText(address, 255)
+    && Array.isArray(photos) && photos.length <= MAX_PHOTOS && photos.every(fileId => isText(fileId, 36))
+    && isOptionalText(photoEvidence, 4000);
+  if (!valid) return null;
+
+  return {
+    type, severity, title, description, latitude, longitude, address, photos, photoEvidence,
+    timestamp: new Date(timestamp).toISOString(),
+  };
+};
+
+// Keys handed to water and health authorities, from the AUTHORITY_KEYS
+// variable (comma-separated). They never leave the function.
+const getAuthorityKeys = () =>
+  (process.env.AUTHORITY_KEYS ?? '').split(',').map(key => key.trim()).filter(Boolean);
+
+const getReport = async (databases, reportId) => {
+  try {
+    return await databases.getDocument({ databaseId, collectionId: reportsCollectionId, documentId: reportId });
+  } catch (err) {
+    if (isNotFound(err)) throw new Refusal('Report not found', 404);
+    throw err;
+  }
+};
+
+// Set a report's up and down counts from the votes cast on it
+const recountVotes = async (databases, reportId) => {
+  const count = async (voteType) => {
+    const result = await databases.listDocuments({
+      databaseId,
+      collectionId: votesCollectionId,
+      queries: [Query.equal('reportId', reportId), Query.equal('voteType', voteType), Query.limit(1)],
+    });
+    return result.total;
+  };
+  const [upvotes, downvotes] = await Promise.all([count('up'), count('down')]);
+
+  return databases.updateDocument({
+    databaseId,
+    collectionId: reportsCollectionId,
+    documentId: reportId,
+    data: { upvotes, downvotes },
+  });
+};
+
+export const ACTIONS = {
+  // { reportId, report, timestamp }: a new pending report by the user,
+  // with no votes, written at `timestamp` on their device. The reporter is
+  // always the signed-in user, which is what the points function checks
+  // before paying for a report. Creating the same reportId again returns
+  // the report already created.
+  async create({ userId, databases }, { reportId, report, timestamp }) {
+    if (!isText(reportId, 36)) throw new Refusal('reportId is required');
+    const time = Date.parse(timestamp);
+    if (typeof timestamp !== 'string' || Number.isNaN(time) || time > Date.now() + MAX_CLOCK_SKEW_MS) {
+      throw new Refusal('timestamp must be a time that has passed');
+    }
+    const data = toReportData(report, timestamp);
+    if (!data) throw new Refusal('The report is missing a field or has one that is not valid');
+
+    try {
+      return {
+        report: await databases.createDocument({
+          databaseId,
+          collectionId: reportsCollectionId,
+          documentId: reportId,
+          data: {
+            ...data,
+            reporterId: userId,
+            status: 'pending',
+            // What the points function pays for the report, shown on it
+            reporterPoints: catalogue.pointRules[`report_${data.severity}`].points,
+            upvotes: 0,
+            downvotes: 0,
+          },
+        }),
+      };
+    } catch (err) {
+      if (!isConflict(err)) throw err;
+
+      const existing = await getReport(databases, reportId);
+      if (existing.reporterId !== userId) throw new Refusal('A report with this ID already exists', 409);
+      return { report: existing };
+    }
+  },
+
+  // { reportId, voteType }: the user's vote on a report. A user's vote
+  // always lives in the same document, so voting again can only switch
+  // it, never add another; the counts are then recounted from the votes,
+  // so a replayed or switched vote can never skew them.
+  async vote({ userId, databases }, { reportId, voteType }) {
+    if (!isText(reportId, 36) || !VOTE_TYPES.includes(voteType)) {
+      throw new Refusal('reportId and an up or down voteType are required');
+    }
+    await getReport(databases, reportId);
+
+    const voteId = toStableDocumentId('rv', `${userId}:${reportId}`);
+    const data = { userId, reportId, voteType, votedAt: new Date().toISOString() };
+    try {
+      await databases.createDocument({ databaseId, collectionId: votesCollectionId, documentId: voteId, data });
+    } catch (err) {
+      if (!isConflict(err)) throw err;
+
+      const existing = await databases.getDocument({ databaseId, collectionId: votesCollectionId, documentId: voteId });
+      if (existing.voteType !== voteType) {
+        await databases.updateDocument({ databaseId, collectionId: votesCollectionId, documentId: voteId, data });
+      }
+    }
+
+    return { report: await recountVotes(databases, reportId) };
+  },
+
+  // { reportIds, authorityKey, changedAt }: mark reports verified on
+  // behalf of an authority holding one of the AUTHORITY_KEYS. Last writer
+  // wins: a report modified after `changedAt`, when the official verified
+  // it on their device, is left as it is.
+  async verify({ databases }, { reportIds, authorityKey, changedAt }) {
+    if (!Array.isArray(reportIds) || reportIds.length === 0 || reportIds.length > MAX_VERIFIED_REPORTS
+      || !reportIds.every(reportId => isText(reportId, 36))) {
+      throw new Refusal(`reportIds must list 1-${MAX_VERIFIED_REPORTS} reports`);
+    }
+    if (typeof changedAt !== 'string' || Number.isNaN(Date.parse(changedAt))) {
+      throw new Refusal('changedAt must be a time');
+    }
+    if (!isText(authorityKey, 255) || !getAuthorityKeys().includes(authorityKey)) {
+      throw new Refusal('The authority key is not valid', 403);
+    }
+
+    const reports = [];
+    for (const reportId of reportIds) {
+      const current = await getReport(databases, reportId);
+      if (new Date(current.$updatedAt) > new Date(changedAt)) {
+        reports.push(current);
+        continue;
+      }
+      reports.push(await databases.updateDocument({
+        databaseId,
+        collectionId: reportsCollectionId,
+        documentId: reportId,
+        data: { status: 'verified' },
+      }));
+    }
+    return { reports };
+  },
+};
@@ -0,0 +1,43 @@
+import { Client, Databases } from 'node-appwrite';
+import { ACTIONS, Refusal } from './actions.js';
+
+// The only writer of water reports and their votes. The app can read
+// reports but not create or change them, so nobody can report in someone
+// else's name, vote twice or set the counts and status directly.
+//
+// Called by the app as an execution for the signed-in user, never through
+// a domain, so Appwrite sets the x-appwrite-user-id header itself.
+// POST { "action": "vote", "reportId": "...", "voteType": "up" }
+// Answers { ok: true, ... } with what the action returns, or
+// { ok: false, message } with 400, 401, 403 or 404.
+export default async ({ req, res, error }) => {
+  if (req.method !== 'POST') {
+    return res.json({ ok: false, message: 'Method not allowed' }, 405);
+  }
+
+  const userId = req.headers['x-appwrite-user-id'];
+  if (!userId) {
+    return res.json({ ok: false, message: 'Sign in to change reports' }, 401);
+  }
+
+  const { action, ...body } = req.bodyJson ?? {};
+  if (typeof action !== 'string' || !Object.hasOwn(ACTIONS, action)) {
+    return res.json({ ok: false, message: `Unknown action ${action}` }, 400);
+  }
+
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+    .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+    .setKey(req.headers['x-appwrite-key'] ?? process.env.APPWRITE_API_KEY);
+  const context = { userId, databases: new Databases(client) };
+
+  try {
+    return res.json({ ok: true, ...(await ACTIONS[action](context, body)) });
+  } catch (err) {
+    if (err instanceof Refusal) {
+      return res.json({ ok: false, message: err.message }, err.status);
+    }
+    error(`Error in ${action}: ${err.message}`);
+    return res.json({ ok: false, message: 'Failed to update the report' }, 500);
+  }
+};
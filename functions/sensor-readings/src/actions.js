@@ -0,0 +1,145 @@
+import { Permission, Query, Role } from 'node-appwrite';
+import { toStableDocumentId } from './ids.js';
+
+// Readings the app sends in one request
+const MAX_BATCH_SIZE = 100;
+const PARAMETERS = ['ph', 'turbidity', 'tds', 'temperature'];
+// Enough recent readings to hold the latest of every parameter
+const LATEST_READINGS_LIMIT = 40;
+
+const databaseId = process.env.DATABASE_ID ?? 'main';
+const sensorsCollectionId = process.env.SENSORS_COLLECTION_ID ?? 'sensors';
+const readingsCollectionId = process.env.SENSOR_READINGS_COLLECTION_ID ?? 'sensor_readings';
+
+// A request the function will not carry out, answered with its status
+export class Refusal extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const isConflict = (err) => err?.code === 409;
+const isNotFound = (err) => err?.code === 404;
+const isText = (value, maxLength) => typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+
+const isReading = (reading) =>
+  isText(reading?.deviceId, 255) &&
+  PARAMETERS.includes(reading.parameter) &&
+  Number.isFinite(reading.value) &&
+  Number.isFinite(reading.rawValue) &&
+  Number.isInteger(reading.sequence) &&
+  typeof reading.fault === 'boolean' &&
+  typeof reading.timestamp === 'string' && !Number.isNaN(Date.parse(reading.timestamp));
+
+// The user's registered sensors among some device IDs, by device ID
+const getSensors = async (databases, userId, deviceIds) => {
+  const result = await databases.listDocuments({
+    databaseId,
+    collectionId: sensorsCollectionId,
+    queries: [Query.equal('ownerId', userId), Query.equal('deviceId', deviceIds), Query.limit(deviceIds.length)],
+  });
+  return new Map(result.documents.map(sensor => [sensor.deviceId, sensor]));
+};
+
+// Create documents in one request. A batch that repeats an upload fails
+// as a whole, so it is then created one by one, skipping the readings
+// already stored.
+const createAll = async (databases, documents) => {
+  try {
+    await databases.createDocuments({ databaseId, collectionId: readingsCollectionId, documents });
+    return documents.length;
+  } catch (err) {
+    if (!isConflict(err)) throw err;
+  }
+
+  let created = 0;
+  for (const { $id, $permissions, ...data } of documents) {
+    try {
+      await databases.createDocument({
+        databaseId,
+        collectionId: readingsCollectionId,
+        documentId: $id,
+        data,
+        permissions: $permissions,
+      });
+      created++;
+    } catch (err) {
+      if (!isConflict(err)) throw err;
+    }
+  }
+  return created;
+};
+
+const toReading = ({ deviceId, parameter, value, rawValue, sequence, fault, timestamp }) =>
+  ({ deviceId, parameter, value, rawValue, sequence, fault, timestamp });
+
+export const ACTIONS = {
+  // { readings: [{ deviceId, parameter, value, rawValue, sequence, fault, timestamp }] }:
+  // store up to MAX_BATCH_SIZE readings. Readings already stored are not
+  // created again, and malformed ones are counted in `rejected` without
+  // failing the rest. Every reading is readable by its owner only, even
+  // from a shared sensor: others see those through `latest`, which checks
+  // the sensor is shared at the time they ask.
+  async upload({ userId, databases }, { readings }) {
+    if (!Array.isArray(readings) || readings.length === 0 || readings.length > MAX_BATCH_SIZE) {
+      throw new Refusal(`Send between 1 and ${MAX_BATCH_SIZE} readings`);
+    }
+
+    const valid = readings.filter(isReading);
+    if (valid.length === 0) return { created: 0, rejected: readings.length };
+
+    const sensors = await getSensors(databases, userId, [...new Set(valid.map(reading => reading.deviceId))]);
+    const documents = valid.map(reading => ({
+      // The same reading always maps to the same document, so a retried
+      // upload is a 409 rather than a duplicate
+      $id: toStableDocumentId('rd', `${reading.deviceId}:${reading.parameter}:${reading.timestamp}`),
+      $permissions: [Permission.read(Role.user(userId))],
+      ownerId: userId,
+      sensorId: sensors.get(reading.deviceId)?.$id ?? null,
+      ...toReading(reading),
+    }));
+
+    return { created: await createAll(databases, documents), rejected: readings.length - valid.length };
+  },
+
+  // { sensorId, since }: the latest reading of each parameter since a
+  // time, leaving out faults, from a sensor that is the user's own or
+  // shared right now. Stops answering the moment its owner stops sharing.
+  async latest({ userId, databases }, { sensorId, since }) {
+    if (!isText(sensorId, 36)) throw new Refusal('sensorId is required');
+    if (typeof since !== 'string' || Number.isNaN(Date.parse(since))) {
+      throw new Refusal('since must be a time');
+    }
+
+    let sensor;
+    try {
+      sensor = await databases.getDocument({ databaseId, collectionId: sensorsCollectionId, documentId: sensorId });
+    } catch (err) {
+      if (!isNotFound(err)) throw err;
+    }
+    // A private sensor is answered like a missing one, so nobody can
+    // find out which IDs exist
+    if (!sensor || (!sensor.shared && sensor.ownerId !== userId)) {
+      throw new Refusal('Sensor not found', 404);
+    }
+
+    const result = await databases.listDocuments({
+      databaseId,
+      collectionId: readingsCollectionId,
+      queries: [
+        Query.equal('ownerId', sensor.ownerId),
+        Query.equal('deviceId', sensor.deviceId),
+        Query.greaterThanEqual('timestamp', new Date(since).toISOString()),
+        Query.orderDesc('timestamp'),
+        Query.limit(LATEST_READINGS_LIMIT),
+      ],
+    });
+
+    const latest = {};
+    result.documents.forEach(doc => {
+      if (!latest[doc.parameter] && !doc.fault) latest[doc.parameter] = toReading(doc);
+    });
+    return { readings: latest };
+  },
+};
@@ -0,0 +1,20 @@
+// The app's lib/ids.ts, so readings stored here and those uploaded by
+// earlier app versions share document IDs
+
+// cyrb53: a small, fast, well-distributed 53-bit string hash
+const hash53 = (input, seed) => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// A document ID that depends only on the key, so a second create of the
+// same thing fails with 409
+export const toStableDocumentId = (prefix, key) => `${prefix}_${hash53(key, 0)}${hash53(key, 1)}`;
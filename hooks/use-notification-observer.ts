@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Href, router } from 'expo-router';
+import { getNotificationUrl } from '@/lib/pushNotifications';
+
+// Open the screen a tapped notification points at, including the tap
+// that launched the app
+export function useNotificationObserver() {
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    const redirect = (notification: Notifications.Notification) => {
+      const url = getNotificationUrl(notification);
+      if (url) router.push(url as Href);
+    };
+
+    const launchResponse = Notifications.getLastNotificationResponse();
+    if (launchResponse) {
+      redirect(launchResponse.notification);
+      Notifications.clearLastNotificationResponse();
+    }
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(response =>
+      redirect(response.notification)
+    );
+    return () => subscription.remove();
+  }, []);
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { AppNotification, NotificationCenter } from '@/lib/notifications';
+
+// The user's notifications, kept current, and how many are unread
+export function useNotifications() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => NotificationCenter.subscribe(setNotifications), []);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.read).length,
+  };
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { ThresholdProfile, ThresholdSettings } from '@/lib/waterQuality/thresholds';
+
+// The standard the user has chosen to judge water quality by
+export function useThresholdProfile(): ThresholdProfile {
+  const [profile, setProfile] = useState(() => ThresholdSettings.getProfile());
+
+  useEffect(() => ThresholdSettings.subscribe(setProfile), []);
+
+  return profile;
+}
@@ -0,0 +1,10 @@
+// lib/appwrite.ts builds its client from these when first imported. Tests
+// replace the services it exports, so nothing ever reaches this endpoint.
+process.env.EXPO_PUBLIC_APPWRITE_ENDPOINT = 'http://appwrite.test/v1';
+process.env.EXPO_PUBLIC_APPWRITE_PROJECT_ID = 'test';
+
+// In-memory stand-ins for the native modules the services use
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock'));
@@ -0,0 +1,54 @@
+import { AlertEvent, AlertState, evaluateAlert, INITIAL_ALERT_STATE } from '../waterQuality/alerts';
+import { THRESHOLD_PROFILES } from '../waterQuality/thresholds';
+
+// Turbidity is safe up to 1 NTU and dangerous above 5
+const LIMITS = THRESHOLD_PROFILES.bis10500.limits.turbidity!;
+const START = Date.UTC(2025, 5, 15, 8);
+
+// Feed turbidity readings 30 seconds apart, from `minutes` after START,
+// and collect the events they raise
+const play = (state: AlertState, minutes: number, values: number[]) =>
+  values.reduce(
+    ({ state: current, events }, value, index) => {
+      const timestamp = new Date(START + minutes * 60000 + index * 30000).toISOString();
+      const result = evaluateAlert(current, { parameter: 'turbidity', value, timestamp }, LIMITS);
+      return { state: result.state, events: result.event ? [...events, result.event] : events };
+    },
+    { state, events: [] as AlertEvent[] }
+  );
+
+const pushes = (events: AlertEvent[]) => events.filter(event => event.kind === 'alert' && event.push).length;
+
+describe('water quality alert pushes', () => {
+  it('pushes the first danger of a group, and not the repeats within its cooldown', () => {
+    const first = play(INITIAL_ALERT_STATE, 0, [8, 8, 8]);
+    expect(first.events).toMatchObject([{ kind: 'alert', verdict: 'danger', push: true }]);
+
+    const recovered = play(first.state, 5, [0.5, 0.5, 0.5]);
+    expect(recovered.events).toMatchObject([{ kind: 'recovered' }]);
+
+    const repeat = play(recovered.state, 10, [8, 8, 8]);
+    expect(repeat.events).toMatchObject([
+      { kind: 'alert', verdict: 'danger', groupStartedAt: first.events[0].groupStartedAt, push: false },
+    ]);
+  });
+
+  it('pushes when a warning group turns dangerous', () => {
+    const warning = play(INITIAL_ALERT_STATE, 0, [3, 3, 3]);
+    expect(warning.events).toMatchObject([{ kind: 'alert', verdict: 'warning', push: false }]);
+
+    const danger = play(warning.state, 5, [8, 8, 8]);
+    expect(danger.events).toMatchObject([
+      { kind: 'alert', verdict: 'danger', groupStartedAt: warning.events[0].groupStartedAt, push: true },
+    ]);
+  });
+
+  it('pushes again once the cooldown has passed', () => {
+    const first = play(INITIAL_ALERT_STATE, 0, [8, 8, 8]);
+    const recovered = play(first.state, 5, [0.5, 0.5, 0.5]);
+    const later = play(recovered.state, 45, [8, 8, 8, 8, 8, 8]);
+
+    expect(later.events).toHaveLength(1);
+    expect(pushes([...first.events, ...recovered.events, ...later.events])).toBe(2);
+  });
+});
@@ -0,0 +1,156 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createServer } from 'net';
+import path from 'path';
+import { LocalHttpProvider } from '../assessment/localProvider';
+import { AssessmentService } from '../assessment/service';
+import { AssessmentProvider, AssessmentRequest } from '../assessment/types';
+
+// The assessment-proxy function's model client and prompt, which the app
+// never bundles
+interface ModelConfig { provider: string; model: string; apiKey?: string; baseUrl: string }
+interface Message { role: 'user' | 'assistant'; content: string }
+const { complete, getModelConfig } = require('../../functions/assessment-proxy/src/model.js') as {
+  complete: (config: ModelConfig, messages: Message[]) => Promise<{ text: string; tokens: number | null }>;
+  getModelConfig: () => ModelConfig;
+};
+const { buildMessages } = require('../../functions/assessment-proxy/src/prompt.js') as {
+  buildMessages: (request: Pick<AssessmentRequest, 'symptoms' | 'questionnaire'> & { repair?: unknown }) => Message[];
+};
+
+const STUB_SCRIPT = path.join(__dirname, '../../scripts/assessment-stub-server.js');
+
+const REQUEST: AssessmentRequest = {
+  symptoms: ['Severe Diarrhea', 'Vomiting'],
+  symptomIds: ['severe_diarrhea', 'vomiting'],
+  questionnaire: {
+    duration: '1-2 days',
+    severity: 'moderate',
+    waterExposure: 'Drank from a village well',
+    recentTravel: 'No',
+    additionalInfo: '',
+  },
+};
+
+const getFreePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+// Runs scripts/assessment-stub-server.js until `stop` is called
+const startStub = async (...flags: string[]) => {
+  const port = await getFreePort();
+  const child: ChildProcess = spawn(process.execPath, [STUB_SCRIPT, String(port), ...flags]);
+  await new Promise<void>((resolve, reject) => {
+    child.once('error', reject);
+    child.once('exit', code => reject(new Error(`Stub server exited with ${code}`)));
+    child.stdout!.on('data', chunk => {
+      if (String(chunk).includes('listening')) resolve();
+    });
+  });
+  return {
+    url: `http://localhost:${port}`,
+    stop: () => new Promise<void>(resolve => {
+      child.removeAllListeners('exit');
+      child.once('exit', () => resolve());
+      child.kill();
+    }),
+  };
+};
+
+// The proxy function's side of an assessment, without Appwrite: the model
+// it is configured with, sent the conversation it would send
+const proxiedModel = (env: Record<string, string>): AssessmentProvider => {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+  const config = getModelConfig();
+  process.env = saved;
+
+  return {
+    id: 'proxy',
+    model: config.model,
+    canRepair: true,
+    needsInternet: false,
+    isConfigured: () => !!config.apiKey,
+    assess: async (request, repair) => (await complete(config, buildMessages({ ...request, repair }))).text,
+  };
+};
+
+const PROVIDERS = {
+  openai: (url: string) => proxiedModel({ AI_PROVIDER: 'openai', OPENAI_API_KEY: 'stub-key', AI_BASE_URL: `${url}/v1` }),
+  gemini: (url: string) => proxiedModel({ AI_PROVIDER: 'gemini', GEMINI_API_KEY: 'stub-key', AI_BASE_URL: `${url}/v1beta` }),
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('falls back to the offline triage when the provider is not set up', async () => {
+  const provider = new LocalHttpProvider('');
+  const assess = jest.spyOn(provider, 'assess');
+
+  const outcome = await AssessmentService.assess(provider, REQUEST);
+
+  expect(outcome.source).toBe('triage');
+  expect(outcome.fallback).toMatchObject({ provider: 'local', reason: 'not_configured' });
+  expect(assess).not.toHaveBeenCalled();
+});
+
+describe('providers against the stub server', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+  beforeAll(async () => {
+    stub = await startStub();
+  });
+  afterAll(() => stub.stop());
+
+  it.each(['openai', 'gemini'] as const)('gets a valid assessment from %s through the proxy', async provider => {
+    const outcome = await AssessmentService.assess(PROVIDERS[provider](stub.url), REQUEST);
+
+    expect(outcome.source).toBe('model');
+    expect(outcome.fallback).toBeUndefined();
+    expect(outcome.assessment).toMatchObject({
+      riskLevel: 'medium',
+      possibleConditions: [{ name: 'Stub Water-borne Infection', probability: 50, severity: 'medium' }],
+    });
+  });
+
+  it('gets a valid assessment from a local server', async () => {
+    const outcome = await AssessmentService.assess(new LocalHttpProvider(`${stub.url}/assess`), REQUEST);
+
+    expect(outcome.source).toBe('model');
+    expect(outcome.assessment.possibleConditions[0].name).toBe('Stub Water-borne Infection');
+  });
+});
+
+describe('providers against a stub that answers badly first', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+  beforeAll(async () => {
+    stub = await startStub('--malformed');
+  });
+  afterAll(() => stub.stop());
+
+  it.each(['openai', 'gemini'] as const)('corrects the answer from %s with one repair request', async provider => {
+    const outcome = await AssessmentService.assess(PROVIDERS[provider](stub.url), REQUEST);
+
+    expect(outcome.source).toBe('repaired');
+    expect(outcome.assessment.riskLevel).toBe('medium');
+    expect(outcome.assessment.possibleConditions[0].probability).toBe(50);
+  });
+
+  it('falls back to the offline triage for a local server, which is never asked again', async () => {
+    const outcome = await AssessmentService.assess(new LocalHttpProvider(`${stub.url}/assess`), REQUEST);
+
+    expect(outcome.source).toBe('triage');
+    expect(outcome.fallback).toMatchObject({ provider: 'local', reason: 'invalid_response' });
+    expect(outcome.fallback!.details.join(' ')).toMatch(/riskLevel/);
+  });
+});
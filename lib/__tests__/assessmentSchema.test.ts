@@ -0,0 +1,128 @@
+import { parseAssessmentJson } from '../assessment/prompt';
+import { DEFAULT_DISCLAIMER, MAX_CONDITIONS, validateAssessment } from '../assessment/schema';
+
+const condition = (name: string, probability: unknown) => ({
+  name,
+  probability,
+  description: `${name} from the water`,
+  severity: 'medium',
+});
+
+// A complete model answer, as the prompt asks for it
+const ANSWER = {
+  possibleConditions: [condition('Cholera', 60)],
+  riskLevel: 'high',
+  homeRemedies: ['Drink ORS'],
+  whenToSeekHelp: ['Go to a clinic if you cannot keep fluids down'],
+  generalAdvice: ['Boil water'],
+  preventionTips: ['Wash hands'],
+  disclaimer: 'Not a diagnosis.',
+};
+
+const expectValid = (value: unknown) => {
+  const result = validateAssessment(value);
+  if (!result.valid) throw new Error(`Expected a valid answer, got: ${result.problems.join('; ')}`);
+  return result;
+};
+
+describe('validateAssessment', () => {
+  it('accepts a complete answer unchanged', () => {
+    const { assessment, corrections } = expectValid(ANSWER);
+
+    expect(assessment).toEqual(ANSWER);
+    expect(corrections).toEqual([]);
+  });
+
+  it.each([
+    [140, 100],
+    [-5, 0],
+    ['85%', 85],
+    [72.6, 73],
+  ])('brings a probability of %p into 0-100 as %p', (probability, expected) => {
+    const { assessment } = expectValid({ ...ANSWER, possibleConditions: [condition('Cholera', probability)] });
+
+    expect(assessment.possibleConditions[0].probability).toBe(expected);
+  });
+
+  it('records a clamped probability as a correction', () => {
+    const { corrections } = expectValid({ ...ANSWER, possibleConditions: [condition('Cholera', 140)] });
+
+    expect(corrections).toEqual(['clamped possibleConditions[0].probability from 140 to 0-100']);
+  });
+
+  it(`keeps the ${MAX_CONDITIONS} most likely conditions, most likely first`, () => {
+    const possibleConditions = [10, 70, 30, 90, 50, 20].map((probability, index) =>
+      condition(`Condition ${index}`, probability)
+    );
+
+    const { assessment, corrections } = expectValid({ ...ANSWER, possibleConditions });
+
+    expect(assessment.possibleConditions.map(({ probability }) => probability)).toEqual([90, 70, 50, 30]);
+    expect(corrections).toEqual([`kept the ${MAX_CONDITIONS} most likely of 6 conditions`]);
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['not a level', 'unknown'],
+  ])('rejects an answer whose riskLevel is %s', (_case, riskLevel) => {
+    expect(validateAssessment({ ...ANSWER, riskLevel })).toEqual({
+      valid: false,
+      problems: ['riskLevel must be low, medium or high'],
+    });
+  });
+
+  it.each([
+    ['moderate', 'medium'],
+    ['Severe', 'high'],
+    [' mild ', 'low'],
+  ])('reads a riskLevel of %p as %p', (riskLevel, expected) => {
+    expect(expectValid({ ...ANSWER, riskLevel }).assessment.riskLevel).toBe(expected);
+  });
+
+  it.each([
+    ['that is not an object', ['Cholera'], 'the answer is not a JSON object'],
+    ['without conditions', { ...ANSWER, possibleConditions: [] }, 'possibleConditions is empty'],
+    ['without warning signs', { ...ANSWER, whenToSeekHelp: undefined }, 'whenToSeekHelp is missing'],
+    [
+      'with a probability that is not a number',
+      { ...ANSWER, possibleConditions: [condition('Cholera', 'likely')] },
+      'possibleConditions[0].probability is not a number',
+    ],
+  ])('rejects an answer %s', (_case, value, problem) => {
+    const result = validateAssessment(value);
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.problems).toContain(problem);
+  });
+
+  it('fills the gaps the results screen can do without', () => {
+    const { homeRemedies, generalAdvice, preventionTips, disclaimer, ...rest } = ANSWER;
+
+    const { assessment, corrections } = expectValid(rest);
+
+    expect(assessment).toMatchObject({ homeRemedies: [], generalAdvice: [], disclaimer: DEFAULT_DISCLAIMER });
+    expect(assessment.preventionTips).toBeUndefined();
+    expect(corrections).toEqual(['homeRemedies was missing', 'generalAdvice was missing', 'disclaimer was missing']);
+  });
+});
+
+describe('parseAssessmentJson', () => {
+  const json = JSON.stringify(ANSWER);
+
+  it.each([
+    ['bare JSON', json],
+    ['a json code fence', `\`\`\`json\n${json}\n\`\`\``],
+    ['a plain code fence', `\`\`\`\n${json}\n\`\`\``],
+    ['a sentence before it', `Here is the assessment:\n${json}`],
+    ['sentences around it', `Here is the assessment: ${json} Stay safe and drink clean water.`],
+  ])('reads the answer from %s', (_case, text) => {
+    expect(parseAssessmentJson(text)).toEqual(ANSWER);
+  });
+
+  it.each([
+    ['no JSON', 'I cannot assess these symptoms.'],
+    ['an unfinished object', `Here you go: ${json.slice(0, -10)}`],
+  ])('throws for text with %s', (_case, text) => {
+    expect(() => parseAssessmentJson(text)).toThrow(SyntaxError);
+  });
+});
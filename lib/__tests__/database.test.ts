@@ -0,0 +1,143 @@
+import { AppwriteException, Functions, Models } from 'appwrite';
+import { USERS_COLLECTION_ID, USER_ACHIEVEMENTS_COLLECTION_ID } from '../appwrite';
+import { DatabaseService, isConflictError, isNotFoundError } from '../database';
+import { FakeDatabases } from '../testing/fakeDatabases';
+
+jest.mock('../appwrite', () => {
+  const { FakeDatabases } = jest.requireActual('../testing/fakeDatabases');
+  return { ...jest.requireActual('../appwrite'), databases: new FakeDatabases() };
+});
+
+const { databases, functions } = jest.requireMock('../appwrite') as { databases: FakeDatabases; functions: Functions };
+
+// Answer the next function execution with a status and JSON body
+const answerExecution = (responseStatusCode: number, body: object) =>
+  jest.spyOn(functions, 'createExecution').mockResolvedValueOnce({
+    status: 'completed',
+    responseStatusCode,
+    responseBody: JSON.stringify(body),
+  } as Models.Execution);
+
+// What the app sent in the first function execution
+const sentBody = () => {
+  const [params] = jest.mocked(functions.createExecution).mock.calls[0] as unknown as [{ body: string }];
+  return JSON.parse(params.body);
+};
+
+beforeEach(() => {
+  databases.reset();
+  jest.restoreAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('error classification', () => {
+  it('tells a missing document and a duplicate from network errors', () => {
+    expect(isNotFoundError(new AppwriteException('missing', 404))).toBe(true);
+    expect(isConflictError(new AppwriteException('duplicate', 409))).toBe(true);
+    expect(isNotFoundError(new AppwriteException('offline', 0))).toBe(false);
+    expect(isConflictError(new AppwriteException('offline', 0))).toBe(false);
+    expect(isNotFoundError(new Error('404'))).toBe(false);
+  });
+});
+
+describe('user profiles', () => {
+  it('has the points function create the profile and reads it back', async () => {
+    answerExecution(201, {
+      ok: true,
+      profile: { $id: 'user-1', name: 'Asha', email: 'asha@example.com', userId: 'user-1', village: 'Majuli', district: 'Jorhat' },
+    });
+
+    const profile = await DatabaseService.createUserProfile('Asha', { village: 'Majuli', district: 'Jorhat' });
+
+    expect(sentBody()).toEqual({
+      action: 'createProfile',
+      name: 'Asha',
+      village: 'Majuli',
+      district: 'Jorhat',
+    });
+    expect(profile).toMatchObject({
+      $id: 'user-1',
+      name: 'Asha',
+      points: 0,
+      level: 1,
+      streak: 0,
+      lastActiveDate: null,
+      village: 'Majuli',
+      leaderboardOptOut: false,
+    });
+  });
+
+  it("throws the function's refusal with its status code", async () => {
+    answerExecution(409, { ok: false, message: 'Profile already exists' });
+
+    await expect(DatabaseService.createUserProfile('Asha')).rejects.toMatchObject({
+      code: 409,
+      message: 'Profile already exists',
+    });
+  });
+
+  it('fills defaults for attributes added after the profile was created', async () => {
+    databases.seed(USERS_COLLECTION_ID, 'old-user', {
+      name: 'Bikash',
+      email: 'bikash@example.com',
+      userId: 'old-user',
+      points: 120,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    expect(await DatabaseService.getUserProfile('old-user')).toMatchObject({
+      points: 120,
+      level: 1,
+      streakFreezesPurchased: 0,
+      village: null,
+      leaderboardOptOut: false,
+      pushTokens: [],
+    });
+  });
+
+  it('returns null for a missing profile but rethrows network errors', async () => {
+    expect(await DatabaseService.getUserProfile('nobody')).toBeNull();
+
+    jest.spyOn(databases, 'getDocument').mockRejectedValueOnce(new AppwriteException('Network request failed', 0));
+    await expect(DatabaseService.getUserProfile('user-1')).rejects.toMatchObject({ code: 0 });
+  });
+
+  it('sends only the fields being changed', async () => {
+    answerExecution(200, {
+      ok: true,
+      profile: { $id: 'user-1', name: 'Asha', email: 'asha@example.com', userId: 'user-1', leaderboardOptOut: true },
+    });
+
+    const updated = await DatabaseService.updateUserProfile({ leaderboardOptOut: true });
+
+    expect(sentBody()).toEqual({
+      action: 'updateProfile',
+      updates: { leaderboardOptOut: true },
+    });
+    expect(updated).toMatchObject({ name: 'Asha', leaderboardOptOut: true });
+
+    answerExecution(404, { ok: false, message: 'Profile not found' });
+    expect(await DatabaseService.updateUserProfile({ name: 'x' })).toBeNull();
+  });
+});
+
+describe('achievements', () => {
+  it("lists and checks only the user's own achievements", async () => {
+    const unlock = (userId: string, achievementId: string) =>
+      databases.seed(USER_ACHIEVEMENTS_COLLECTION_ID, `${userId}-${achievementId}`, {
+        userId,
+        achievementId,
+        unlockedAt: new Date().toISOString(),
+        points: 50,
+      });
+    unlock('user-1', 'first_report');
+    unlock('user-1', 'streak_warrior');
+    unlock('user-2', 'health_checker');
+
+    const achievements = await DatabaseService.getUserAchievements('user-1');
+    expect(achievements.map(achievement => achievement.achievementId).sort()).toEqual(['first_report', 'streak_warrior']);
+    expect(await DatabaseService.isAchievementUnlocked('user-1', 'streak_warrior')).toBe(true);
+    expect(await DatabaseService.isAchievementUnlocked('user-1', 'health_checker')).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { getEmergencies } from '../assessment/emergency';
+
+const ids = (symptomIds: string[], forChild = false) => getEmergencies(symptomIds, forChild).map(rule => rule.id);
+
+describe('getEmergencies', () => {
+  it('flags Severe Diarrhea with Dehydration and Rapid Heartbeat as severe dehydration', () => {
+    expect(ids(['severe_diarrhea', 'dehydration', 'rapid_heartbeat'])).toEqual(['severe_dehydration']);
+  });
+
+  it.each([
+    ['no racing heart or dizziness', ['severe_diarrhea', 'dehydration']],
+    ['no dehydration', ['severe_diarrhea', 'rapid_heartbeat']],
+    ['no fluid loss', ['dehydration', 'dizziness']],
+  ])('does not flag severe dehydration with %s', (_, symptomIds) => {
+    expect(ids(symptomIds)).not.toContain('severe_dehydration');
+  });
+
+  it.each([
+    ['jaundice', ['jaundice', 'dark_urine'], 'jaundice'],
+    ['blood in stool', ['blood_in_stool', 'stomach_cramps'], 'blood_in_stool'],
+    ['vomiting, dehydration and dizziness', ['vomiting', 'dehydration', 'dizziness'], 'severe_dehydration'],
+  ])('flags %s for anyone', (_, symptomIds, rule) => {
+    expect(ids(symptomIds)).toContain(rule);
+    expect(ids(symptomIds, true)).toContain(rule);
+  });
+
+  it.each([
+    ['dehydration with loose stools', ['dehydration', 'loose_stools'], 'child_dehydration'],
+    ['a high fever', ['high_fever'], 'child_high_fever'],
+  ])('flags %s only in a child under 5', (_, symptomIds, rule) => {
+    expect(ids(symptomIds, true)).toContain(rule);
+    expect(ids(symptomIds, false)).not.toContain(rule);
+  });
+
+  it('lists every danger sign found, in rule order', () => {
+    expect(ids(['blood_in_stool', 'jaundice', 'high_fever', 'severe_diarrhea', 'dehydration', 'dizziness'], true)).toEqual([
+      'severe_dehydration',
+      'child_dehydration',
+      'jaundice',
+      'child_high_fever',
+      'blood_in_stool',
+    ]);
+  });
+
+  it('finds nothing in mild symptoms', () => {
+    expect(ids(['nausea', 'fatigue', 'loose_stools'], true)).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { base64ToBytes, encodeFrame, FRAME_LENGTH, FrameError, parseFrame } from '../sensors/frames';
+
+const RECEIVED_AT = new Date(Date.UTC(2025, 5, 15, 8));
+
+// A frame as bytes, for corrupting one field at a time
+const frameBytes = (...bytes: number[]) => new Uint8Array(bytes);
+
+describe('parseFrame', () => {
+  it('decodes a well-formed frame', () => {
+    expect(parseFrame(encodeFrame('ph', 7.25, 12), 'sensor-1', RECEIVED_AT)).toEqual({
+      deviceId: 'sensor-1',
+      parameter: 'ph',
+      value: 7.25,
+      rawValue: 7.25,
+      unit: 'pH',
+      timestamp: RECEIVED_AT.toISOString(),
+      sequence: 12,
+      fault: false,
+    });
+  });
+
+  it('reads the fault flag, a wrapped sequence and a negative value', () => {
+    const reading = parseFrame(encodeFrame('temperature', -2.5, 257, true), 'sensor-1', RECEIVED_AT);
+
+    expect(reading).toMatchObject({ parameter: 'temperature', value: -2.5, sequence: 1, fault: true });
+  });
+
+  it('decodes a frame at an offset in a larger buffer', () => {
+    const notification = new Uint8Array(FRAME_LENGTH + 4);
+    notification.set(encodeFrame('tds', 320, 3), 4);
+
+    expect(parseFrame(notification.subarray(4), 'sensor-1').value).toBe(320);
+  });
+
+  it('decodes a frame handed over as base64', () => {
+    const base64 = btoa(String.fromCharCode(...encodeFrame('turbidity', 2.1, 5)));
+
+    expect(parseFrame(base64ToBytes(base64), 'sensor-1').value).toBe(2.1);
+  });
+
+  it.each([
+    ['empty', frameBytes()],
+    ['truncated', encodeFrame('ph', 7, 1).subarray(0, FRAME_LENGTH - 1)],
+    ['too long', frameBytes(...encodeFrame('ph', 7, 1), 0)],
+  ])('rejects a frame that is %s', (_, bytes) => {
+    expect(() => parseFrame(bytes, 'sensor-1')).toThrow(`Expected a ${FRAME_LENGTH}-byte frame, got ${bytes.length} bytes`);
+  });
+
+  // The frame has no checksum; a corrupted frame is caught by a field no
+  // sensor would send
+  it.each([
+    ['an unsupported version', frameBytes(2, 1, 0, 1, 0x58, 0x1b, 0, 0), 'Unsupported frame version 2'],
+    ['an unknown parameter code', frameBytes(1, 9, 0, 1, 0x58, 0x1b, 0, 0), 'Unknown parameter code 9'],
+    ['a value no probe can report', encodeFrame('ph', 15, 1), 'pH value 15 is outside 0-14'],
+    ['a value with its sign bit flipped', frameBytes(1, 3, 0, 1, 0x00, 0x00, 0x00, 0x80), 'is outside 0-10000'],
+  ])('rejects a frame with %s', (_, bytes, message) => {
+    expect(() => parseFrame(bytes, 'sensor-1')).toThrow(FrameError);
+    expect(() => parseFrame(bytes, 'sensor-1')).toThrow(message);
+  });
+});
@@ -0,0 +1,70 @@
+import { HEALTH_SIGNALS_COLLECTION_ID } from '../appwrite';
+import { getDistrict } from '../outbreak/signals';
+import { FakeDatabases } from '../testing/fakeDatabases';
+
+// The function's server SDK is installed with the function, not the app.
+// The web SDK builds the same permissions and roles.
+jest.mock('node-appwrite', () => jest.requireActual('appwrite'), { virtual: true });
+
+// The health-signals function, which the app never bundles. It refuses to
+// load without its salt.
+type Signal = { source: string; syndrome: string; district: string; latitude: number; longitude: number; timestamp: string };
+process.env.SIGNAL_SALT = 'test-salt';
+const { hashUser, recordSignal, toSignal } = require('../../functions/health-signals/src/signals.js') as {
+  hashUser: (userId: string) => string;
+  recordSignal: (databases: FakeDatabases, userHash: string, signal: Signal) => Promise<boolean>;
+  toSignal: (body: Record<string, unknown>, now?: Date) => Signal | null;
+};
+
+const NOW = new Date('2025-07-01T12:00:00.000Z');
+const CHECK = { syndrome: 'diarrhoeal', latitude: 12.9716, longitude: 77.5946, timestamp: '2025-07-01T11:47:12.000Z' };
+
+describe('toSignal', () => {
+  it('places the signal in the district of its position, at the hour, whatever the app says', () => {
+    const signal = toSignal({ ...CHECK, district: '0_0', source: 'report' }, NOW);
+    const { id, center } = getDistrict(CHECK);
+
+    expect(signal).toEqual({
+      source: 'assessment',
+      syndrome: 'diarrhoeal',
+      district: id,
+      ...center,
+      timestamp: '2025-07-01T11:00:00.000Z',
+    });
+  });
+
+  it.each([
+    ['an unknown syndrome', { syndrome: 'flu' }],
+    ['no syndrome', { syndrome: null }],
+    ['a position off the globe', { latitude: 91 }],
+    ['a time in the future', { timestamp: '2025-07-01T13:00:00.000Z' }],
+    ['a time over a week ago', { timestamp: '2025-06-23T12:00:00.000Z' }],
+    ['no time', { timestamp: 'yesterday' }],
+  ])('refuses %s', (_, change) => {
+    expect(toSignal({ ...CHECK, ...change }, NOW)).toBeNull();
+  });
+});
+
+describe('recordSignal', () => {
+  const databases = new FakeDatabases();
+  const signal = toSignal(CHECK, NOW)!;
+
+  beforeEach(() => databases.reset());
+
+  it('keeps one signal per user and day', async () => {
+    expect(await recordSignal(databases, hashUser('user-1'), signal)).toBe(true);
+    expect(await recordSignal(databases, hashUser('user-1'), { ...signal, timestamp: '2025-07-01T18:00:00.000Z' })).toBe(false);
+    expect(await recordSignal(databases, hashUser('user-1'), { ...signal, timestamp: '2025-07-02T08:00:00.000Z' })).toBe(true);
+    expect(await recordSignal(databases, hashUser('user-2'), signal)).toBe(true);
+
+    expect(databases.all(HEALTH_SIGNALS_COLLECTION_ID)).toHaveLength(3);
+  });
+
+  it('stores nothing that identifies the user', async () => {
+    await recordSignal(databases, hashUser('user-1'), signal);
+    const [stored] = databases.all(HEALTH_SIGNALS_COLLECTION_ID);
+
+    expect(JSON.stringify(stored)).not.toMatch(/user-1|test-salt/);
+    expect(JSON.stringify(stored)).not.toContain(hashUser('user-1'));
+  });
+});
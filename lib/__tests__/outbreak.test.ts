@@ -0,0 +1,68 @@
+import { getDistrict, DISTRICT_CELL_DEGREES } from '../outbreak/signals';
+import { scanForOutbreaks, DEFAULT_SCAN_OPTIONS } from '../outbreak/scan';
+import { createSeededRandom, generateSyntheticSignals, SyntheticScenario } from '../outbreak/synthetic';
+
+const NOW = new Date(Date.UTC(2025, 6, 1, 12));
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Four weeks of background illness over a 5 x 5 block of districts
+const BACKGROUND: SyntheticScenario = {
+  center: { latitude: 12.95, longitude: 77.55 },
+  districtsAcross: 5,
+  days: 28,
+  backgroundPerDay: 3,
+  reportShare: 0.2,
+};
+
+// The same, with three days of extra diarrhoea in the district north-west
+// of the middle one
+const OUTBREAK: SyntheticScenario = {
+  ...BACKGROUND,
+  outbreak: { rows: 1, columns: -1, days: 3, perDay: 10, syndrome: 'diarrhoeal' },
+};
+
+const OUTBREAK_DISTRICT = getDistrict({
+  latitude: BACKGROUND.center.latitude + DISTRICT_CELL_DEGREES,
+  longitude: BACKGROUND.center.longitude - DISTRICT_CELL_DEGREES,
+}).id;
+
+const scan = (scenario: SyntheticScenario, seed: number) =>
+  scanForOutbreaks(
+    generateSyntheticSignals(scenario, NOW, createSeededRandom(seed)),
+    NOW,
+    DEFAULT_SCAN_OPTIONS,
+    createSeededRandom(seed + 1000)
+  );
+
+describe('scanForOutbreaks on synthetic signals', () => {
+  it.each([1, 2, 3, 4, 5])('finds the outbreak district, and only it (seed %i)', seed => {
+    const [cluster, ...others] = scan(OUTBREAK, seed);
+
+    expect(cluster.evidence.districts).toContain(OUTBREAK_DISTRICT);
+    expect(cluster.pValue).toBeLessThanOrEqual(DEFAULT_SCAN_OPTIONS.alpha);
+    expect(cluster.observed).toBeGreaterThan(cluster.expected);
+    expect(cluster.relativeRisk).toBeGreaterThan(1);
+    // The extra signals are all diarrhoeal, so they dominate the evidence
+    const { diarrhoeal = 0 } = cluster.evidence.syndromes;
+    expect(diarrhoeal).toBeGreaterThan(cluster.evidence.assessments / 2);
+    // It began within the scan's longest window, and ends now
+    expect(NOW.getTime() - new Date(cluster.windowStart).getTime()).toBeLessThanOrEqual(
+      DEFAULT_SCAN_OPTIONS.maxWindowDays * DAY_MS
+    );
+    expect(cluster.windowEnd).toBe(NOW.toISOString());
+    expect(others.every(other => !other.evidence.districts.includes(OUTBREAK_DISTRICT))).toBe(true);
+  });
+
+  it.each([1, 2, 3, 4, 5])('reports nothing over background illness alone (seed %i)', seed => {
+    expect(scan(BACKGROUND, seed)).toEqual([]);
+  });
+
+  it('gives the same clusters for the same seeds', () => {
+    expect(scan(OUTBREAK, 7)).toEqual(scan(OUTBREAK, 7));
+  });
+
+  it('ignores signals from before the study period', () => {
+    const old = generateSyntheticSignals(OUTBREAK, new Date(NOW.getTime() - 60 * DAY_MS), createSeededRandom(1));
+    expect(scanForOutbreaks(old, NOW, DEFAULT_SCAN_OPTIONS, createSeededRandom(2))).toEqual([]);
+  });
+});
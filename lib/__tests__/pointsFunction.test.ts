@@ -0,0 +1,159 @@
+import { ACHIEVEMENTS } from '../achievements';
+import { POINT_RULES } from '../points';
+import { FakeDatabases } from '../testing/fakeDatabases';
+
+// The function's server SDK is installed with the function, not the app.
+// The web SDK builds the same queries, permissions and roles.
+jest.mock('node-appwrite', () => jest.requireActual('appwrite'), { virtual: true });
+
+// The points function's actions and ledger, which the app never bundles
+type Ledger = { getBalance: (userId: string) => Promise<number> };
+type Profile = { points: number; streakFreezesPurchased: number };
+type Context = { userId: string; databases: FakeDatabases; ledger: Ledger };
+const { ACTIONS } = require('../../functions/points/src/actions.js') as {
+  ACTIONS: {
+    award: (context: Context, body: { reason: string; entityId: string; activeDate: string }) => Promise<unknown>;
+    registerSensor: (
+      context: Context,
+      body: { sensor: Record<string, unknown>; activeDate: string }
+    ) => Promise<{ sensor: { $id: string; ownerId: string }; awarded: boolean }>;
+    checkAchievements: (context: Context, body: { activeDate: string }) => Promise<{ newlyUnlocked: string[] }>;
+    purchaseFreeze: (
+      context: Context,
+      body: { purchaseId: string; activeDate: string }
+    ) => Promise<{ awarded: boolean; profile: Profile }>;
+  };
+};
+const { Ledger } = require('../../functions/points/src/ledger.js') as {
+  Ledger: new (databases: FakeDatabases) => Ledger;
+};
+
+const USER_ID = 'user-1';
+const TODAY = new Date().toISOString().slice(0, 10);
+
+const databases = new FakeDatabases();
+const context: Context = { userId: USER_ID, databases, ledger: new Ledger(databases) };
+
+const reasonsPaid = (reason: string) =>
+  databases.all('points_ledger').filter(entry => entry.reason === reason).length;
+
+beforeEach(() => {
+  databases.reset();
+  databases.seed('users', USER_ID, {
+    name: 'Asha',
+    points: 300,
+    level: 1,
+    streak: 0,
+    lastActiveDate: null,
+    streakFreezesPurchased: 0,
+    streakFreezesUsed: 0,
+    weekStart: null,
+    weeklyEarned: 0,
+    monthStart: null,
+    monthlyEarned: 0,
+  });
+  databases.seed('points_ledger', 'entry-1', {
+    userId: USER_ID,
+    amount: 300,
+    reason: 'report_critical',
+    entityId: 'report-1',
+    idempotencyKey: `${USER_ID}:report_critical:report-1`,
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('checkAchievements', () => {
+  it('finds a bonus and a counter for every achievement in the shared catalogue', () => {
+    ACHIEVEMENTS.forEach(({ id, counter }) => {
+      expect(POINT_RULES).toHaveProperty(`achievement_${id}.points`);
+      expect(['reportsSubmitted', 'healthChecks', 'sensorsConnected', 'streak', 'level']).toContain(counter);
+    });
+  });
+
+  it('pays an achievement whose unlock failed, once, when it is checked again', async () => {
+    // The payment goes through, then recording the unlock fails
+    const createDocument = databases.createDocument.bind(databases);
+    let failed = false;
+    jest.spyOn(databases, 'createDocument').mockImplementation(async params => {
+      if (params.collectionId === 'user_achievements' && !failed) {
+        failed = true;
+        throw new Error('Network down');
+      }
+      return createDocument(params);
+    });
+
+    await expect(ACTIONS.checkAchievements(context, { activeDate: TODAY })).rejects.toThrow('Network down');
+    expect(reasonsPaid('achievement_first_report')).toBe(1);
+
+    const { newlyUnlocked } = await ACTIONS.checkAchievements(context, { activeDate: TODAY });
+
+    expect(newlyUnlocked).toEqual(['first_report']);
+    expect(reasonsPaid('achievement_first_report')).toBe(1);
+    expect(databases.all('user_achievements')).toHaveLength(1);
+  });
+});
+
+describe('purchaseFreeze', () => {
+  it('never lets concurrent purchases overdraw the balance', async () => {
+    const results = await Promise.allSettled(
+      ['purchase-1', 'purchase-2'].map(purchaseId => ACTIONS.purchaseFreeze(context, { purchaseId, activeDate: TODAY }))
+    );
+    const balance = await context.ledger.getBalance(USER_ID);
+    const profile = databases.all('users')[0] as unknown as Profile;
+
+    expect(results.some(result => result.status === 'rejected')).toBe(true);
+    expect(balance).toBeGreaterThanOrEqual(0);
+    expect(balance).toBe(300 - 200 * profile.streakFreezesPurchased);
+    expect(profile.points).toBe(balance);
+  });
+
+  it('refunds a purchase that overdrew the balance, and keeps it cancelled', async () => {
+    // Another purchase spends the points between the check and the debit
+    const getBalance = context.ledger.getBalance.bind(context.ledger);
+    jest.spyOn(context.ledger, 'getBalance')
+      .mockImplementationOnce(getBalance)
+      .mockImplementationOnce(async () => -100);
+    const purchase = () => ACTIONS.purchaseFreeze(context, { purchaseId: 'purchase-1', activeDate: TODAY });
+
+    await expect(purchase()).rejects.toMatchObject({ message: 'Not enough points for a streak freeze.' });
+    expect(await getBalance(USER_ID)).toBe(300);
+    expect(databases.all('users')[0]).toMatchObject({ points: 300, streakFreezesPurchased: 0 });
+
+    await expect(purchase()).rejects.toMatchObject({ status: 409 });
+    expect(await getBalance(USER_ID)).toBe(300);
+  });
+});
+
+describe('registerSensor', () => {
+  const register = (deviceId: string) =>
+    ACTIONS.registerSensor(context, {
+      sensor: { deviceId, name: 'Well sensor', sensorType: 'ph', waterSource: 'well', shared: false },
+      activeDate: TODAY,
+    });
+
+  it('registers the sensor to the user and pays for it once', async () => {
+    const first = await register('AA:BB');
+    const again = await register('AA:BB');
+
+    expect(first).toMatchObject({ awarded: true, sensor: { ownerId: USER_ID, deviceId: 'AA:BB' } });
+    expect(again).toMatchObject({ awarded: false, sensor: { $id: first.sensor.$id } });
+    expect(reasonsPaid('sensor_connected')).toBe(1);
+  });
+
+  it('pays for at most five sensors, even registered all at once', async () => {
+    const results = await Promise.all(['1', '2', '3', '4', '5', '6', '7'].map(register));
+
+    expect(results.filter(result => result.awarded)).toHaveLength(5);
+    expect(reasonsPaid('sensor_connected')).toBe(5);
+    expect(databases.all('sensors')).toHaveLength(7);
+  });
+
+  it('no longer pays sensor points claimed directly', async () => {
+    await expect(
+      ACTIONS.award(context, { reason: 'sensor_connected', entityId: 'AA:BB', activeDate: TODAY })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
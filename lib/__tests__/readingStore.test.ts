@@ -0,0 +1,196 @@
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+import type NetInfoStatic from '@react-native-community/netinfo';
+import { Models } from 'appwrite';
+import type * as AppwriteModule from '../appwrite';
+import type { ReadingStore as ReadingStoreStatic } from '../sensors/readingStore';
+import { SensorReading } from '../sensors/types';
+import type { FakeDatabases } from '../testing/fakeDatabases';
+
+jest.mock('../appwrite', () => {
+  const { FakeDatabases } = jest.requireActual('../testing/fakeDatabases');
+  return { ...jest.requireActual('../appwrite'), databases: new FakeDatabases() };
+});
+
+interface Session {
+  ReadingStore: typeof ReadingStoreStatic;
+  AsyncStorage: typeof AsyncStorageStatic & { __INTERNAL_MOCK_STORAGE__: Record<string, string> };
+  NetInfo: typeof NetInfoStatic;
+  appwrite: typeof AppwriteModule & { databases: FakeDatabases };
+}
+
+// A fresh app launch: new module state, with whatever the last session
+// left in AsyncStorage
+const launch = (storage: Record<string, string> = {}): Session => {
+  let session!: Session;
+  jest.isolateModules(() => {
+    session = {
+      ReadingStore: require('../sensors/readingStore').ReadingStore,
+      AsyncStorage: require('@react-native-async-storage/async-storage'),
+      NetInfo: require('@react-native-community/netinfo'),
+      appwrite: require('../appwrite'),
+    };
+  });
+  Object.assign(session.AsyncStorage.__INTERNAL_MOCK_STORAGE__, storage);
+  jest.mocked(session.NetInfo.fetch).mockResolvedValue({ isConnected: false } as Awaited<ReturnType<typeof NetInfoStatic.fetch>>);
+  return session;
+};
+
+const START = Date.UTC(2025, 5, 15, 8);
+
+// One turbidity reading every 5 seconds from START
+const reading = (index: number, deviceId = 'sensor-1'): SensorReading => ({
+  deviceId,
+  parameter: 'turbidity',
+  value: index,
+  rawValue: index,
+  unit: 'NTU',
+  timestamp: new Date(START + index * 5000).toISOString(),
+  sequence: index % 256,
+  fault: false,
+});
+
+// The readings sent in each execution of the sensor-readings function
+const sentBatches = (execute: jest.SpyInstance): SensorReading[][] =>
+  (execute.mock.calls as unknown as [{ body: string }][]).map(([params]) => JSON.parse(params.body).readings);
+
+// Let the 30 second save and sync timers fire and their work finish
+const runTimers = async () => {
+  await jest.advanceTimersByTimeAsync(30000);
+  await jest.advanceTimersByTimeAsync(0);
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: START });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('saving readings on the device', () => {
+  it('rewrites only the segments that gained readings', async () => {
+    const { ReadingStore, AsyncStorage } = launch();
+    for (let i = 0; i < 1200; i++) ReadingStore.append(reading(i));
+    await runTimers();
+
+    const multiSet = jest.mocked(AsyncStorage.multiSet);
+    expect(multiSet.mock.calls[0][0].map(([key]) => key))
+      .toEqual(['sensorReadings:0', 'sensorReadings:1', 'sensorReadings:2', 'sensorReadings']);
+
+    multiSet.mockClear();
+    for (let i = 1200; i < 1210; i++) ReadingStore.append(reading(i));
+    await runTimers();
+    expect(multiSet.mock.calls[0][0].map(([key]) => key)).toEqual(['sensorReadings:2', 'sensorReadings']);
+  });
+
+  it('restores the buffer in a new session, and drops segments that have left it', async () => {
+    const first = launch();
+    for (let i = 0; i < 400; i++) first.ReadingStore.append(reading(i));
+    await runTimers();
+    for (let i = 400; i < 10600; i++) first.ReadingStore.append(reading(i));
+    await runTimers();
+    expect(Object.keys(first.AsyncStorage.__INTERNAL_MOCK_STORAGE__)).not.toContain('sensorReadings:0');
+
+    const second = launch({ ...first.AsyncStorage.__INTERNAL_MOCK_STORAGE__ });
+    await second.ReadingStore.load();
+    const recent = second.ReadingStore.getRecent(10000);
+    expect(recent).toHaveLength(10000);
+    expect(recent[0].value).toBe(10599);
+    expect(recent[9999].value).toBe(600);
+
+    for (let i = 10600; i < 11100; i++) second.ReadingStore.append(reading(i));
+    await runTimers();
+    const keys = Object.keys(second.AsyncStorage.__INTERNAL_MOCK_STORAGE__);
+    expect(keys).not.toContain('sensorReadings:1');
+    expect(keys).toContain('sensorReadings:2');
+    expect(keys).toContain('sensorReadings:22');
+  });
+
+  it('reads a buffer saved whole by an earlier version', async () => {
+    const legacy = { nextId: 3, syncedThrough: 0, readings: [
+      [1, 'sensor-1', 'ph', reading(0).timestamp, 7.1, 7.0, 0, 0],
+      [2, 'sensor-1', 'ph', reading(1).timestamp, 7.2, 7.1, 1, 0],
+    ] };
+    const { ReadingStore } = launch({ sensorReadings: JSON.stringify(legacy) });
+    await ReadingStore.load();
+
+    expect(ReadingStore.getRecent(5).map(r => r.value)).toEqual([7.2, 7.1]);
+  });
+});
+
+describe('uploading readings', () => {
+  it('sends pending readings to the function in batches of 100', async () => {
+    const { ReadingStore, NetInfo, appwrite } = launch();
+    jest.mocked(NetInfo.fetch).mockResolvedValue({ isConnected: true } as Awaited<ReturnType<typeof NetInfoStatic.fetch>>);
+    jest.spyOn(appwrite.account, 'get').mockResolvedValue({ $id: 'user-1' } as Awaited<ReturnType<typeof appwrite.account.get>>);
+    const execute = jest.spyOn(appwrite.functions, 'createExecution').mockImplementation(async () => ({
+      status: 'completed',
+      responseStatusCode: 200,
+      responseBody: JSON.stringify({ ok: true, created: 100, rejected: 0 }),
+    }) as Models.Execution);
+
+    for (let i = 0; i < 250; i++) ReadingStore.append(reading(i));
+    await ReadingStore.sync();
+
+    const batches = sentBatches(execute);
+    expect(batches.map(batch => batch.length)).toEqual([100, 100, 50]);
+    expect(batches[2][49]).toEqual({
+      deviceId: 'sensor-1', parameter: 'turbidity', value: 249, rawValue: 249,
+      sequence: 249, fault: false, timestamp: reading(249).timestamp,
+    });
+
+    execute.mockClear();
+    await ReadingStore.sync();
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('keeps readings for the next sync when the server is unavailable', async () => {
+    const { ReadingStore, NetInfo, appwrite } = launch();
+    jest.mocked(NetInfo.fetch).mockResolvedValue({ isConnected: true } as Awaited<ReturnType<typeof NetInfoStatic.fetch>>);
+    jest.spyOn(appwrite.account, 'get').mockResolvedValue({ $id: 'user-1' } as Awaited<ReturnType<typeof appwrite.account.get>>);
+    const execute = jest.spyOn(appwrite.functions, 'createExecution').mockResolvedValueOnce({
+      status: 'completed',
+      responseStatusCode: 503,
+      responseBody: JSON.stringify({ ok: false, message: 'Unavailable' }),
+    } as Models.Execution);
+
+    for (let i = 0; i < 10; i++) ReadingStore.append(reading(i));
+    await expect(ReadingStore.sync()).rejects.toMatchObject({ code: 503 });
+
+    execute.mockResolvedValueOnce({
+      status: 'completed',
+      responseStatusCode: 200,
+      responseBody: JSON.stringify({ ok: true, created: 10, rejected: 0 }),
+    } as Models.Execution);
+    await ReadingStore.sync();
+    expect(sentBatches(execute)[1]).toHaveLength(10);
+  });
+});
+
+describe('charts', () => {
+  it('buckets every synced reading in a 7 day range, not just the newest', async () => {
+    const { ReadingStore, appwrite } = launch();
+    const { databases, SENSOR_READINGS_COLLECTION_ID } = appwrite;
+    const end = new Date(START + 7 * 24 * 60 * 60 * 1000);
+    jest.setSystemTime(end);
+
+    // One reading every 5 minutes for the week, with the value of its day:
+    // more than a few pages, none of them on this device
+    const READINGS_PER_DAY = 24 * 12;
+    for (let i = 0; i < 7 * READINGS_PER_DAY; i++) {
+      databases.seed(SENSOR_READINGS_COLLECTION_ID, `rd-${i}`, {
+        deviceId: 'sensor-1', parameter: 'turbidity', value: Math.floor(i / READINGS_PER_DAY),
+        rawValue: 0, sequence: i % 256, fault: false, timestamp: new Date(START + i * 5 * 60 * 1000).toISOString(),
+      });
+    }
+    const list = jest.spyOn(databases, 'listDocuments');
+
+    const series = await ReadingStore.getSeries('sensor-1', 'turbidity', new Date(START), end, 7);
+
+    expect(series.map(bucket => [bucket.avg, bucket.count])).toEqual(
+      [0, 1, 2, 3, 4, 5, 6].map(day => [day, READINGS_PER_DAY])
+    );
+    expect(list).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,76 @@
+import { VOUCHERS_COLLECTION_ID } from '../appwrite';
+import { FakeDatabases } from '../testing/fakeDatabases';
+
+// The function's server SDK is installed with the function, not the app.
+// The web SDK builds the same queries.
+jest.mock('node-appwrite', () => jest.requireActual('appwrite'), { virtual: true });
+
+// The redeem-voucher function's redemption, which the app never bundles
+type Redemption = { code: string; rewardName: string; redeemedAt: string };
+const { redeemVoucher } = require('../../functions/redeem-voucher/src/redeem.js') as {
+  redeemVoucher: (databases: FakeDatabases, body: { code: string; partnerId: string }) => Promise<Redemption>;
+};
+
+const databases = new FakeDatabases();
+const redeem = (partnerId: string, code = 'abcde-fghjk ') => redeemVoucher(databases, { code, partnerId });
+
+beforeEach(() => {
+  databases.reset();
+  databases.seed(VOUCHERS_COLLECTION_ID, 'redemption-1', {
+    userId: 'user-1',
+    rewardId: 'grocery_voucher',
+    rewardName: 'Grocery Voucher',
+    code: 'ABCDE-FGHJK',
+    status: 'active',
+    expiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('marks the voucher used by the partner who scanned it', async () => {
+  const { rewardName, redeemedAt } = await redeem('store-42');
+
+  expect(rewardName).toBe('Grocery Voucher');
+  expect(databases.all(VOUCHERS_COLLECTION_ID)).toEqual([
+    expect.objectContaining({ status: 'used', redeemedAt, redeemedBy: 'store-42' }),
+  ]);
+});
+
+it('redeems a voucher once when two tills scan it at the same time', async () => {
+  const results = await Promise.allSettled([redeem('store-42'), redeem('store-7')]);
+
+  expect(results.filter(({ status }) => status === 'fulfilled')).toHaveLength(1);
+  const [refused] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  expect(refused.reason).toMatchObject({ status: 409, message: 'Voucher already redeemed' });
+  expect(refused.reason.details.redeemedAt).toEqual(expect.any(String));
+  expect(databases.all(VOUCHERS_COLLECTION_ID)).toEqual([expect.objectContaining({ redeemedBy: 'store-42' })]);
+});
+
+it('refuses a voucher already used', async () => {
+  const { redeemedAt } = await redeem('store-42');
+
+  await expect(redeem('store-7')).rejects.toMatchObject({ status: 409, details: { redeemedAt } });
+});
+
+it('can be scanned again when marking the voucher used fails', async () => {
+  jest.spyOn(databases, 'updateDocument').mockRejectedValueOnce(new Error('Server error'));
+  await expect(redeem('store-42')).rejects.toThrow('Server error');
+
+  await expect(redeem('store-42')).resolves.toMatchObject({ rewardName: 'Grocery Voucher' });
+});
+
+it('refuses an unknown code and an expired voucher', async () => {
+  await expect(redeem('store-42', 'ZZZZZ-ZZZZZ')).rejects.toMatchObject({ status: 404 });
+
+  const expiresAt = new Date(Date.now() - 1000).toISOString();
+  await databases.updateDocument({
+    databaseId: 'main',
+    collectionId: VOUCHERS_COLLECTION_ID,
+    documentId: 'redemption-1',
+    data: { expiresAt },
+  });
+  await expect(redeem('store-42')).rejects.toMatchObject({ status: 410, details: { expiresAt } });
+});
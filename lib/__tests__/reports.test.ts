@@ -0,0 +1,12 @@
+import { WaterReport } from '../appwrite';
+import { applyVote } from '../reports';
+
+const report = { id: 'report-1', upvotes: 3, downvotes: 1 } as WaterReport;
+
+describe('applyVote', () => {
+  it('adds a first vote, switches a changed one and ignores a repeat', () => {
+    expect(applyVote(report, undefined, 'up')).toMatchObject({ upvotes: 4, downvotes: 1 });
+    expect(applyVote(report, 'down', 'up')).toMatchObject({ upvotes: 4, downvotes: 0 });
+    expect(applyVote(report, 'up', 'up')).toBe(report);
+  });
+});
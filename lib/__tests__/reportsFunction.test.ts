@@ -0,0 +1,128 @@
+import { REPORT_VOTES_COLLECTION_ID, WATER_REPORTS_COLLECTION_ID } from '../appwrite';
+import { FakeDatabases } from '../testing/fakeDatabases';
+
+// The function's server SDK is installed with the function, not the app.
+// The web SDK builds the same queries.
+jest.mock('node-appwrite', () => jest.requireActual('appwrite'), { virtual: true });
+
+// The reports function's actions, which the app never bundles
+type Context = { userId: string; databases: FakeDatabases };
+type Report = { $id: string; reporterId: string; upvotes: number; downvotes: number; status: string };
+const { ACTIONS } = require('../../functions/reports/src/actions.js') as {
+  ACTIONS: {
+    create: (
+      context: Context,
+      body: { reportId: string; report: Record<string, unknown>; timestamp: string }
+    ) => Promise<{ report: Report }>;
+    vote: (context: Context, body: { reportId: string; voteType: string }) => Promise<{ report: Report }>;
+    verify: (
+      context: Context,
+      body: { reportIds: string[]; authorityKey: string; changedAt: string }
+    ) => Promise<{ reports: Report[] }>;
+  };
+};
+
+const databases = new FakeDatabases();
+const as = (userId: string): Context => ({ userId, databases });
+const vote = (userId: string, voteType: string) => ACTIONS.vote(as(userId), { reportId: 'report-1', voteType });
+
+beforeEach(() => {
+  process.env.AUTHORITY_KEYS = 'water-dept, health-dept';
+  databases.reset();
+  databases.seed(WATER_REPORTS_COLLECTION_ID, 'report-1', {
+    reporterId: 'reporter',
+    type: 'contamination',
+    severity: 'high',
+    status: 'pending',
+    upvotes: 0,
+    downvotes: 0,
+  });
+});
+
+describe('create', () => {
+  const NEW_REPORT = {
+    type: 'shortage',
+    severity: 'medium',
+    title: 'Tap dry since Monday',
+    description: 'No water from the village tap',
+    latitude: 26.1,
+    longitude: 91.7,
+    photos: [],
+    photoEvidence: '[]',
+  };
+  const create = (userId: string, report: Record<string, unknown> = NEW_REPORT, reportId = 'report-2') =>
+    ACTIONS.create(as(userId), { reportId, report, timestamp: '2025-01-01T08:00:00.000Z' });
+
+  it('records the signed-in user as the reporter, whatever the app sends', async () => {
+    const { report } = await create('user-1', { ...NEW_REPORT, reporterId: 'someone-else', status: 'verified', upvotes: 99 });
+
+    expect(report).toMatchObject({ reporterId: 'user-1', status: 'pending', reporterPoints: 50, upvotes: 0, downvotes: 0 });
+  });
+
+  it("returns the user's own report when it is created again, and refuses someone else's ID", async () => {
+    const first = await create('user-1');
+
+    await expect(create('user-1')).resolves.toEqual(first);
+    await expect(create('user-2')).rejects.toMatchObject({ status: 409 });
+    await expect(create('user-2', NEW_REPORT, 'report-1')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('refuses a report with a field that is not valid', async () => {
+    await expect(create('user-1', { ...NEW_REPORT, severity: 'apocalyptic' })).rejects.toMatchObject({ status: 400 });
+    await expect(create('user-1', { ...NEW_REPORT, latitude: 200 })).rejects.toMatchObject({ status: 400 });
+    await expect(create('user-1', { ...NEW_REPORT, photos: ['a', 'b', 'c', 'd'] })).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('vote', () => {
+  it('counts repeated votes from one user once', async () => {
+    await vote('user-1', 'up');
+    await vote('user-1', 'up');
+    const { report } = await vote('user-1', 'up');
+
+    expect(report).toMatchObject({ upvotes: 1, downvotes: 0 });
+    expect(databases.all(REPORT_VOTES_COLLECTION_ID)).toHaveLength(1);
+  });
+
+  it('switches a vote instead of adding one', async () => {
+    await vote('user-1', 'up');
+    const { report } = await vote('user-1', 'down');
+
+    expect(report).toMatchObject({ upvotes: 0, downvotes: 1 });
+  });
+
+  it('counts each user separately', async () => {
+    await vote('user-1', 'up');
+    await vote('user-2', 'up');
+    const { report } = await vote('user-3', 'down');
+
+    expect(report).toMatchObject({ upvotes: 2, downvotes: 1 });
+  });
+
+  it('refuses a vote on a missing report or of an unknown type', async () => {
+    await expect(ACTIONS.vote(as('user-1'), { reportId: 'missing', voteType: 'up' })).rejects.toMatchObject({ status: 404 });
+    await expect(vote('user-1', 'sideways')).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('verify', () => {
+  const verify = (authorityKey: string, changedAt = '2030-01-01T00:00:00.000Z') =>
+    ACTIONS.verify(as('official'), { reportIds: ['report-1'], authorityKey, changedAt });
+
+  it('marks reports verified for a known authority key', async () => {
+    const { reports } = await verify('health-dept');
+
+    expect(reports).toMatchObject([{ $id: 'report-1', status: 'verified' }]);
+  });
+
+  it('refuses a key that is not in AUTHORITY_KEYS', async () => {
+    await expect(verify('guessed-key')).rejects.toMatchObject({ status: 403 });
+    expect(databases.all(WATER_REPORTS_COLLECTION_ID)[0].status).toBe('pending');
+  });
+
+  it('leaves a report changed since the official verified it', async () => {
+    const { reports } = await verify('water-dept', '2024-12-31T00:00:00.000Z');
+
+    expect(reports[0].status).toBe('pending');
+  });
+});
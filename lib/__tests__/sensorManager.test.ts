@@ -0,0 +1,211 @@
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+import { Sensor } from '../appwrite';
+import { encodeFrame } from '../sensors/frames';
+import type { ReadingStore as ReadingStoreStatic } from '../sensors/readingStore';
+import type { SensorRegistry as SensorRegistryStatic } from '../sensors/registry';
+import type { SensorManager as SensorManagerStatic, SensorStatus } from '../sensors/sensorManager';
+import { SIMULATED_DEVICES, SimulatedTransport } from '../sensors/simulatedTransport';
+import { DiscoveredDevice, SensorReading } from '../sensors/types';
+
+// The Bluetooth transport needs the native module; these tests only use
+// the simulated one
+jest.mock('../sensors/bleTransport', () => ({ BleTransport: jest.fn() }));
+
+interface Session {
+  SensorManager: typeof SensorManagerStatic;
+  ReadingStore: typeof ReadingStoreStatic;
+  SensorRegistry: typeof SensorRegistryStatic;
+  transport: SimulatedTransport;
+  readings: SensorReading[];
+  statuses: SensorStatus[][];
+}
+
+const INTERVAL_MS = 5000;
+const LATENCY_MS = 400;
+const [WELL, TANK] = SIMULATED_DEVICES;
+
+// A fresh app launch on simulated sensors: new module state, with
+// whatever the last session left in AsyncStorage. Readings are kept in
+// memory rather than stored and uploaded.
+const launch = (sensors: Partial<Sensor>[] = []): Session => {
+  let session!: Session;
+  jest.isolateModules(() => {
+    session = {
+      SensorManager: require('../sensors/sensorManager').SensorManager,
+      ReadingStore: require('../sensors/readingStore').ReadingStore,
+      SensorRegistry: require('../sensors/registry').SensorRegistry,
+      transport: new SimulatedTransport({ intervalMs: INTERVAL_MS, latencyMs: LATENCY_MS }),
+      readings: [],
+      statuses: [],
+    };
+  });
+  const { SensorManager, ReadingStore, SensorRegistry, transport, readings, statuses } = session;
+  jest.spyOn(ReadingStore, 'start').mockReturnValue(() => undefined);
+  jest.spyOn(ReadingStore, 'append').mockImplementation(() => undefined);
+  jest.spyOn(SensorRegistry, 'load').mockResolvedValue();
+  jest.spyOn(SensorRegistry, 'getByDevice').mockImplementation(deviceId =>
+    sensors.find(sensor => sensor.deviceId === deviceId) as Sensor | undefined
+  );
+  SensorManager.setTransport(transport);
+  SensorManager.onReading(reading => readings.push(reading));
+  SensorManager.subscribe(sensors => statuses.push(sensors));
+  return session;
+};
+
+const stateOf = ({ SensorManager }: Session, deviceId: string) =>
+  SensorManager.getSensors().find(sensor => sensor.id === deviceId)?.state;
+
+// Let timers due within `ms` fire and the promises they start settle
+const advance = async (ms: number) => {
+  await jest.advanceTimersByTimeAsync(ms);
+  await jest.advanceTimersByTimeAsync(0);
+};
+
+const pair = async ({ SensorManager }: Session, { id, name }: DiscoveredDevice) => {
+  const paired = SensorManager.pair({ id, name, rssi: -60 });
+  await advance(LATENCY_MS);
+  return paired;
+};
+
+let stops: (() => void)[] = [];
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  stops = [];
+});
+
+afterEach(async () => {
+  stops.forEach(stop => stop());
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  const AsyncStorage: typeof AsyncStorageStatic = require('@react-native-async-storage/async-storage');
+  await AsyncStorage.clear();
+});
+
+it('finds simulated sensors, leaving out those already paired', async () => {
+  const session = launch();
+  stops.push(session.SensorManager.start());
+  await pair(session, WELL);
+
+  const found: string[] = [];
+  await session.SensorManager.startScan(device => found.push(device.id));
+  await advance(LATENCY_MS * SIMULATED_DEVICES.length);
+  session.SensorManager.stopScan();
+
+  expect(found).toEqual(SIMULATED_DEVICES.slice(1).map(({ id }) => id));
+});
+
+it('streams readings from a paired sensor and keeps the latest of each parameter', async () => {
+  const session = launch();
+  stops.push(session.SensorManager.start());
+  await pair(session, TANK);
+  expect(stateOf(session, TANK.id)).toBe('connected');
+
+  await advance(INTERVAL_MS * 2);
+
+  expect(session.readings.map(({ parameter }) => parameter)).toEqual([
+    ...['ph', 'turbidity', 'temperature'],
+    ...['ph', 'turbidity', 'temperature'],
+  ]);
+  expect(session.ReadingStore.append).toHaveBeenCalledTimes(6);
+  const [sensor] = session.SensorManager.getSensors();
+  expect(sensor.latest.ph).toEqual(session.readings[3]);
+  expect(sensor.latest.ph!.sequence).toBe(2);
+});
+
+it('calibrates readings before anyone sees them', async () => {
+  const session = launch([{ deviceId: WELL.id, calibration: { ph: { offset: -0.5, slope: 1 } } }]);
+  stops.push(session.SensorManager.start());
+  await pair(session, WELL);
+
+  await advance(INTERVAL_MS);
+
+  const ph = session.readings.find(({ parameter }) => parameter === 'ph')!;
+  expect(ph.value).toBeCloseTo(ph.rawValue - 0.5);
+  // Parameters without a calibration are left as reported
+  const tds = session.readings.find(({ parameter }) => parameter === 'tds')!;
+  expect(tds.value).toBe(tds.rawValue);
+  expect(session.SensorManager.getSensors()[0].latest.ph).toBe(ph);
+});
+
+it('skips a bad frame and keeps streaming', async () => {
+  const session = launch();
+  let notify!: (value: Uint8Array) => void;
+  const subscribe = session.transport.subscribe.bind(session.transport);
+  jest.spyOn(session.transport, 'subscribe').mockImplementation((deviceId, service, characteristic, onValue, onError) => {
+    notify = onValue;
+    return subscribe(deviceId, service, characteristic, onValue, onError);
+  });
+  stops.push(session.SensorManager.start());
+  await pair(session, WELL);
+
+  notify(encodeFrame('ph', 7, 1).subarray(0, 5));
+  notify(encodeFrame('ph', 42, 2));
+  await advance(INTERVAL_MS);
+
+  expect(console.warn).toHaveBeenCalledWith(`Ignoring bad frame from sensor ${WELL.id}:`, 'Expected a 8-byte frame, got 5 bytes');
+  expect(console.warn).toHaveBeenCalledWith(`Ignoring bad frame from sensor ${WELL.id}:`, 'pH value 42 is outside 0-14');
+  expect(session.readings).toHaveLength(4);
+  expect(stateOf(session, WELL.id)).toBe('connected');
+});
+
+it('reconnects a dropped sensor, backing off while it stays out of reach', async () => {
+  const session = launch();
+  stops.push(session.SensorManager.start());
+  await pair(session, WELL);
+
+  const connect = jest.spyOn(session.transport, 'connect');
+  connect.mockRejectedValueOnce(new Error('Out of range'));
+  session.transport.simulateDisconnect(WELL.id);
+  expect(session.SensorManager.getSensors()[0]).toMatchObject({ state: 'reconnecting', error: 'Link lost' });
+
+  // The first retry fails, and the next waits twice as long
+  await advance(1000);
+  expect(connect).toHaveBeenCalledTimes(1);
+  expect(session.SensorManager.getSensors()[0]).toMatchObject({ state: 'reconnecting', error: 'Out of range' });
+  await advance(1999);
+  expect(connect).toHaveBeenCalledTimes(1);
+  await advance(1 + LATENCY_MS);
+  expect(connect).toHaveBeenCalledTimes(2);
+  expect(session.SensorManager.getSensors()[0]).toMatchObject({ state: 'connected', error: null });
+
+  session.readings.length = 0;
+  await advance(INTERVAL_MS);
+  expect(session.readings).toHaveLength(4);
+});
+
+it('reconnects paired sensors on the next launch, until stopped', async () => {
+  const first = launch();
+  stops.push(first.SensorManager.start());
+  await pair(first, WELL);
+  stops.pop()!();
+  expect(stateOf(first, WELL.id)).toBe('disconnected');
+
+  const second = launch();
+  const stop = second.SensorManager.start();
+  await advance(LATENCY_MS);
+  expect(second.SensorManager.getSensors()).toEqual([
+    expect.objectContaining({ id: WELL.id, name: WELL.name, state: 'connected' }),
+  ]);
+  await advance(INTERVAL_MS);
+  expect(second.readings).toHaveLength(4);
+
+  stop();
+  await advance(INTERVAL_MS);
+  expect(stateOf(second, WELL.id)).toBe('disconnected');
+  expect(second.readings).toHaveLength(4);
+});
+
+it('forgets an unpaired sensor', async () => {
+  const session = launch();
+  stops.push(session.SensorManager.start());
+  await pair(session, WELL);
+
+  await session.SensorManager.unpair(WELL.id);
+  await advance(INTERVAL_MS);
+
+  expect(session.SensorManager.getSensors()).toEqual([]);
+  expect(session.readings).toEqual([]);
+  expect(session.statuses.at(-1)).toEqual([]);
+});
@@ -0,0 +1,115 @@
+import { SENSOR_READINGS_COLLECTION_ID, SENSORS_COLLECTION_ID } from '../appwrite';
+import { FakeDatabases } from '../testing/fakeDatabases';
+
+// The function's server SDK is installed with the function, not the app.
+// The web SDK builds the same queries, permissions and roles.
+jest.mock('node-appwrite', () => jest.requireActual('appwrite'), { virtual: true });
+
+// The sensor-readings function's actions, which the app never bundles
+type Context = { userId: string; databases: FakeDatabases };
+type Reading = {
+  deviceId: string; parameter: string; value: number; rawValue: number; sequence: number; fault: boolean; timestamp: string;
+};
+const { ACTIONS } = require('../../functions/sensor-readings/src/actions.js') as {
+  ACTIONS: {
+    upload: (context: Context, body: { readings: unknown[] }) => Promise<{ created: number; rejected: number }>;
+    latest: (context: Context, body: { sensorId: string; since: string }) => Promise<{ readings: Record<string, Reading> }>;
+  };
+};
+
+const databases = new FakeDatabases();
+const as = (userId: string): Context => ({ userId, databases });
+
+const reading = (parameter: string, value: number, minute: number, fault = false): Reading => ({
+  deviceId: 'device-1',
+  parameter,
+  value,
+  rawValue: value,
+  sequence: minute,
+  fault,
+  timestamp: new Date(Date.UTC(2025, 6, 1, 12, minute)).toISOString(),
+});
+const SINCE = '2025-07-01T00:00:00.000Z';
+
+const setShared = (shared: boolean) =>
+  databases.updateDocument({ databaseId: 'main', collectionId: SENSORS_COLLECTION_ID, documentId: 'sensor-1', data: { shared } });
+
+beforeEach(() => {
+  databases.reset();
+  databases.seed(SENSORS_COLLECTION_ID, 'sensor-1', { ownerId: 'owner', deviceId: 'device-1', name: 'Well pump', shared: true });
+});
+
+describe('upload', () => {
+  it('stores readings readable by their owner only, even from a shared sensor', async () => {
+    const result = await ACTIONS.upload(as('owner'), { readings: [reading('ph', 7.1, 0), reading('tds', 300, 0)] });
+
+    expect(result).toEqual({ created: 2, rejected: 0 });
+    expect(databases.all(SENSOR_READINGS_COLLECTION_ID)).toEqual([
+      expect.objectContaining({ ownerId: 'owner', sensorId: 'sensor-1', $permissions: ['read("user:owner")'] }),
+      expect.objectContaining({ ownerId: 'owner', sensorId: 'sensor-1', $permissions: ['read("user:owner")'] }),
+    ]);
+  });
+
+  it('skips readings already stored and counts malformed ones', async () => {
+    await ACTIONS.upload(as('owner'), { readings: [reading('ph', 7.1, 0)] });
+
+    const result = await ACTIONS.upload(as('owner'), {
+      readings: [reading('ph', 7.1, 0), reading('ph', 7.2, 1), { ...reading('ph', 7.3, 2), parameter: 'colour' }],
+    });
+
+    expect(result).toEqual({ created: 1, rejected: 1 });
+    expect(databases.all(SENSOR_READINGS_COLLECTION_ID)).toHaveLength(2);
+  });
+
+  it('refuses an empty batch', async () => {
+    await expect(ACTIONS.upload(as('owner'), { readings: [] })).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('latest', () => {
+  beforeEach(async () => {
+    await ACTIONS.upload(as('owner'), {
+      readings: [reading('ph', 7.0, 0), reading('ph', 7.4, 5), reading('tds', 300, 0), reading('tds', 900, 5, true)],
+    });
+  });
+
+  it('gives anyone the newest good reading of each parameter from a shared sensor', async () => {
+    const { readings } = await ACTIONS.latest(as('neighbour'), { sensorId: 'sensor-1', since: SINCE });
+
+    expect(readings).toEqual({ ph: reading('ph', 7.4, 5), tds: reading('tds', 300, 0) });
+  });
+
+  it("leaves out another user's readings from a device with the same ID", async () => {
+    await ACTIONS.upload(as('someone-else'), { readings: [reading('ph', 4.0, 10)] });
+
+    const { readings } = await ACTIONS.latest(as('neighbour'), { sensorId: 'sensor-1', since: SINCE });
+
+    expect(readings.ph.value).toBe(7.4);
+  });
+
+  it('stops serving readings, old ones too, once the owner stops sharing', async () => {
+    await setShared(false);
+
+    await expect(ACTIONS.latest(as('neighbour'), { sensorId: 'sensor-1', since: SINCE })).rejects.toMatchObject({
+      status: 404,
+    });
+    expect((await ACTIONS.latest(as('owner'), { sensorId: 'sensor-1', since: SINCE })).readings.ph.value).toBe(7.4);
+  });
+
+  it('serves readings uploaded while private once the owner shares the sensor', async () => {
+    await setShared(false);
+    await ACTIONS.upload(as('owner'), { readings: [reading('ph', 7.8, 20)] });
+    await setShared(true);
+
+    const { readings } = await ACTIONS.latest(as('neighbour'), { sensorId: 'sensor-1', since: SINCE });
+
+    expect(readings.ph.value).toBe(7.8);
+  });
+
+  it('answers a missing sensor like a private one', async () => {
+    await expect(ACTIONS.latest(as('neighbour'), { sensorId: 'sensor-2', since: SINCE })).rejects.toMatchObject({
+      status: 404,
+      message: 'Sensor not found',
+    });
+  });
+});
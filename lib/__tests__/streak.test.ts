@@ -0,0 +1,156 @@
+import NetInfo from '@react-native-community/netinfo';
+import { account, POINTS_LEDGER_COLLECTION_ID, USERS_COLLECTION_ID } from '../appwrite';
+import {
+  Clock,
+  daysBetween,
+  getCurrentStreak,
+  STREAK_BONUS_INTERVAL,
+  StreakService,
+  StreakState,
+  StreakUpdate,
+  toLocalDateKey,
+} from '../streak';
+import { SyncQueue } from '../syncQueue';
+import { FakeDatabases } from '../testing/fakeDatabases';
+import { UserActions } from '../userActions';
+
+jest.mock('../appwrite', () => {
+  const { FakeDatabases } = jest.requireActual('../testing/fakeDatabases');
+  return { ...jest.requireActual('../appwrite'), databases: new FakeDatabases() };
+});
+
+const { databases } = jest.requireMock('../appwrite') as { databases: FakeDatabases };
+
+// The points function's rules, which advance the streak and unlock
+// achievements on the server; the app never bundles them
+const { advanceStreak, evaluateAchievements, getCounters } = require('../../functions/points/src/rules.js') as {
+  advanceStreak: (state: StreakState, activeDate: string) => StreakUpdate;
+  getCounters: (entries: { reason: string; amount: number; entityId: string }[], profile: { streak: number }) => object;
+  evaluateAchievements: (counters: object, unlockedIds: Set<string>) => { id: string }[];
+};
+
+// The clock of a device set to `timeZone`, at an instant. The Date it
+// returns reads back that zone's wall-clock time through the local getters
+// the app uses, whatever timezone the tests themselves run in.
+const deviceClock = (timeZone: string, iso: string): Clock => () => {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  });
+  const parts = Object.fromEntries(
+    format.formatToParts(new Date(iso)).map(({ type, value }) => [type, Number(value)])
+  );
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+};
+
+const NEW_STREAK: StreakState = { streak: 0, lastActiveDate: null, streakFreezesPurchased: 0, streakFreezesUsed: 0 };
+
+// Apply activity at each instant in turn, as a device in `timeZone` dates it
+const playActivity = (timeZone: string, instants: string[], state: StreakState = NEW_STREAK) =>
+  instants.reduce(
+    (current, instant) => ({ ...current, ...advanceStreak(current, toLocalDateKey(deviceClock(timeZone, instant)())) }),
+    state
+  );
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('local calendar days', () => {
+  it("dates activity by the device's own calendar, not UTC", () => {
+    // 00:10 in India is still the previous day in UTC
+    expect(toLocalDateKey(deviceClock('Asia/Kolkata', '2025-06-14T18:40:00Z')())).toBe('2025-06-15');
+    // 23:30 in California is already the next day in UTC
+    expect(toLocalDateKey(deviceClock('America/Los_Angeles', '2025-06-15T06:30:00Z')())).toBe('2025-06-14');
+  });
+
+  it('counts a 23 or 25 hour DST day as one day', () => {
+    expect(daysBetween('2025-03-08', '2025-03-09')).toBe(1);
+    expect(daysBetween('2025-03-09', '2025-03-10')).toBe(1);
+    expect(daysBetween('2025-11-01', '2025-11-02')).toBe(1);
+    expect(daysBetween('2025-11-02', '2025-11-03')).toBe(1);
+    expect(daysBetween('2025-03-29', '2025-04-05')).toBe(7);
+  });
+});
+
+describe('streaks across DST', () => {
+  it('keeps the streak going over the night the clocks go forward', () => {
+    // 23:30 on 8 March, then 00:30 on 9 March: an hour of wall time apart,
+    // though 2am is skipped that night
+    const state = playActivity('America/New_York', ['2025-03-09T04:30:00Z', '2025-03-09T05:30:00Z']);
+    expect(state).toMatchObject({ streak: 2, lastActiveDate: '2025-03-09' });
+  });
+
+  it('counts the repeated hour when the clocks go back as the same day', () => {
+    // 01:30 BST and then 01:30 GMT on 26 October
+    const state = playActivity('Europe/London', ['2025-10-26T00:30:00Z', '2025-10-26T01:30:00Z']);
+    expect(state).toMatchObject({ streak: 1, lastActiveDate: '2025-10-26' });
+  });
+
+  it('pays the weekly bonus and unlocks streak_warrior on the seventh day across a DST change', () => {
+    // Late every evening from 25 to 31 March; BST starts on the 30th
+    const evenings = ['25', '26', '27', '28', '29'].map(day => `2025-03-${day}T23:15:00Z`)
+      .concat(['2025-03-30T22:15:00Z', '2025-03-31T22:15:00Z']);
+
+    const streaks = evenings.map((_, day) => playActivity('Europe/London', evenings.slice(0, day + 1)).streak);
+    expect(streaks).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(streaks.filter(streak => streak % STREAK_BONUS_INTERVAL === 0)).toHaveLength(1);
+
+    const counters = getCounters([], { streak: streaks[6] });
+    expect(evaluateAchievements(counters, new Set()).map(achievement => achievement.id)).toContain('streak_warrior');
+    expect(evaluateAchievements(getCounters([], { streak: streaks[5] }), new Set()).map(a => a.id))
+      .not.toContain('streak_warrior');
+  });
+
+  it('ignores activity dated earlier after flying west, and resumes the next day', () => {
+    const state = { ...NEW_STREAK, streak: 3, lastActiveDate: '2025-06-15' };
+    expect(advanceStreak(state, '2025-06-14')).toMatchObject({ streak: 3, lastActiveDate: '2025-06-15', changed: false });
+    expect(advanceStreak(state, '2025-06-16')).toMatchObject({ streak: 4, changed: true });
+  });
+
+  it('bridges missed days with freezes, and otherwise restarts', () => {
+    const state = { streak: 5, lastActiveDate: '2025-03-08', streakFreezesPurchased: 2, streakFreezesUsed: 0 };
+    expect(advanceStreak(state, '2025-03-11')).toMatchObject({ streak: 6, streakFreezesUsed: 2 });
+    expect(advanceStreak(state, '2025-03-12')).toMatchObject({ streak: 1, streakFreezesUsed: 0 });
+  });
+
+  it('shows a streak as broken once freezes can no longer bridge it', () => {
+    const state = { streak: 5, lastActiveDate: '2025-03-08', streakFreezesPurchased: 2, streakFreezesUsed: 0 };
+    expect(getCurrentStreak(state, '2025-03-11')).toBe(5);
+    expect(getCurrentStreak(state, '2025-03-12')).toBe(0);
+  });
+});
+
+describe('with an injected clock', () => {
+  beforeEach(() => {
+    jest.mocked(NetInfo.fetch).mockResolvedValue({ isConnected: false } as Awaited<ReturnType<typeof NetInfo.fetch>>);
+    SyncQueue.setUser('user-1');
+  });
+
+  it("queues activity for the clock's local day, once per day", async () => {
+    await UserActions.recordActivity(deviceClock('Asia/Kolkata', '2025-06-14T18:40:00Z'));
+    await UserActions.recordActivity(deviceClock('Asia/Kolkata', '2025-06-15T10:00:00Z'));
+    await UserActions.recordActivity(deviceClock('Asia/Kolkata', '2025-06-15T18:40:00Z'));
+
+    const days = (await SyncQueue.getPending())
+      .filter(mutation => mutation.type === 'recordActivity')
+      .map(mutation => mutation.payload);
+    expect(days).toEqual([{ activeDate: '2025-06-15' }, { activeDate: '2025-06-16' }]);
+  });
+
+  it('prices a streak freeze from the ledger balance, not the cached profile', async () => {
+    databases.reset();
+    jest.spyOn(account, 'get').mockResolvedValue({ $id: 'user-1' } as Awaited<ReturnType<typeof account.get>>);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    databases.seed(USERS_COLLECTION_ID, 'user-1', { userId: 'user-1', points: 500 });
+    databases.seed(POINTS_LEDGER_COLLECTION_ID, 'entry-1', { userId: 'user-1', amount: 150, reason: 'report_high' });
+
+    await expect(StreakService.purchaseFreeze('purchase-1', deviceClock('Asia/Kolkata', '2025-06-15T10:00:00Z')))
+      .rejects.toThrow('Not enough points for a streak freeze.');
+  });
+});
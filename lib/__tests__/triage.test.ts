@@ -0,0 +1,119 @@
+import { DurationOption, SeverityOption, WaterExposureOption } from '../assessment/questionnaire';
+import { triage } from '../assessment/triage';
+import { TRIAGE_KNOWLEDGE } from '../assessment/triageKnowledge';
+import { AssessmentRequest } from '../assessment/types';
+
+const request = (
+  symptomIds: string[],
+  duration: DurationOption,
+  waterExposure: WaterExposureOption,
+  severity: SeverityOption = 'Mild (manageable)'
+): AssessmentRequest => ({
+  symptoms: symptomIds,
+  symptomIds,
+  questionnaire: {
+    duration,
+    severity,
+    waterExposure,
+    recentTravel: 'No recent travel or outside food',
+    additionalInfo: '',
+  },
+});
+
+const redFlagMessage = (id: string) => TRIAGE_KNOWLEDGE.redFlags.find(rule => rule.id === id)!.message;
+
+describe('triage scores', () => {
+  it.each([
+    {
+      case: 'sudden watery diarrhoea after river water',
+      request: request(['severe_diarrhea', 'vomiting', 'muscle_cramps'], 'Less than 24 hours', 'River/lake water', 'Moderate (concerning)'),
+      // Cholera: 16 of 27 points; gastroenteritis: 9 of 29
+      conditions: [{ name: 'Cholera', probability: 59 }, { name: 'Acute Gastroenteritis', probability: 31 }],
+      riskLevel: 'high',
+    },
+    {
+      case: 'jaundice alone, from bottled water',
+      request: request(['jaundice'], 'Less than 24 hours', 'Bottled water'),
+      // Hepatitis: 4 of 27 points, below the share that raises the risk
+      conditions: [{ name: 'Hepatitis A or E', probability: 15 }],
+      riskLevel: 'low',
+    },
+    {
+      case: 'a week of jaundice and dark urine after well water',
+      request: request(['jaundice', 'dark_urine'], '4-7 days', 'Well water'),
+      // Hepatitis: 15 of 27 points
+      conditions: [{ name: 'Hepatitis A or E', probability: 56 }],
+      riskLevel: 'high',
+    },
+    {
+      case: 'a headache without fever',
+      request: request(['headache'], '1-3 days', 'Tap water'),
+      conditions: [{ name: 'No water-borne illness pattern recognised', probability: 0 }],
+      riskLevel: 'low',
+    },
+    {
+      case: 'a headache without fever, rated unbearable',
+      request: request(['headache'], '1-3 days', 'Tap water', 'Critical (unbearable)'),
+      conditions: [{ name: 'No water-borne illness pattern recognised', probability: 0 }],
+      riskLevel: 'high',
+    },
+  ] as const)('scores $case', ({ request, conditions, riskLevel }) => {
+    const assessment = triage(request);
+
+    expect(assessment.possibleConditions).toHaveLength(conditions.length);
+    expect(assessment.possibleConditions).toMatchObject(conditions);
+    expect(assessment.riskLevel).toBe(riskLevel);
+  });
+
+  it('names the answers that counted for a condition', () => {
+    const [cholera] = triage(
+      request(['severe_diarrhea', 'vomiting', 'muscle_cramps'], 'Less than 24 hours', 'River/lake water')
+    ).possibleConditions;
+
+    expect(cholera.description).toMatch(
+      /Suggested by: severe_diarrhea, vomiting, muscle_cramps, Less than 24 hours, River\/lake water\.$/
+    );
+  });
+
+  it('gives the same answer for the same request', () => {
+    const same = request(['loose_stools', 'gas', 'bloating'], 'More than a week', 'Well water');
+    expect(triage(same)).toEqual(triage(same));
+  });
+});
+
+describe('triage red flags', () => {
+  it.each([
+    {
+      case: 'jaundice with dark urine',
+      flag: 'jaundice_dark_urine',
+      // Hepatitis scores 9 of 27 points, too few to raise the risk itself
+      flagged: ['jaundice', 'dark_urine'],
+      unflagged: ['jaundice'],
+    },
+    {
+      case: 'severe dehydration',
+      flag: 'severe_dehydration',
+      // No condition is suggested, so only the flag can raise the risk
+      flagged: ['dehydration', 'dizziness'],
+      unflagged: ['dehydration'],
+    },
+  ])('raises the risk and leads the warning signs for $case', ({ flag, flagged, unflagged }) => {
+    const withFlag = triage(request(flagged, 'Less than 24 hours', 'Bottled water'));
+    const withoutFlag = triage(request(unflagged, 'Less than 24 hours', 'Bottled water'));
+
+    expect(withFlag.riskLevel).toBe('high');
+    expect(withFlag.whenToSeekHelp[0]).toBe(redFlagMessage(flag));
+    expect(withoutFlag.riskLevel).toBe('low');
+    expect(withoutFlag.whenToSeekHelp).not.toContain(redFlagMessage(flag));
+  });
+});
+
+describe('triage label', () => {
+  it('says it is the offline triage, not AI, and which table it used', () => {
+    const { disclaimer } = triage(request(['vomiting'], '1-3 days', 'Tap water'));
+
+    expect(disclaimer).toMatch(/^Offline triage from the app's built-in rules/);
+    expect(disclaimer).toContain(`knowledge table v${TRIAGE_KNOWLEDGE.version}`);
+    expect(disclaimer).toContain('not an AI assessment');
+  });
+});
@@ -0,0 +1,117 @@
+import { FakeDatabases } from '../testing/fakeDatabases';
+
+// The function's server SDK is installed with the function, not the app.
+// The web SDK builds the same queries.
+jest.mock('node-appwrite', () => jest.requireActual('appwrite'), { virtual: true });
+
+// The assessment-proxy function's usage log, which the app never bundles.
+// It refuses to load without its salt.
+interface Limits { rateLimit: number; windowMs: number; dailyQuota: number }
+type Reservation =
+  | { allowed: true; usageId: string; remaining: { window: number; day: number } }
+  | { allowed: false; reason: 'daily_quota' | 'rate_limit'; retryAfter: number };
+process.env.USAGE_SALT = 'test-salt';
+const { UsageLog, hashUser } = require('../../functions/assessment-proxy/src/usage.js') as {
+  hashUser: (userId: string) => string;
+  UsageLog: new (databases: FakeDatabases) => {
+    reserve: (userHash: string, limits: Limits, usage: object, now?: Date) => Promise<Reservation>;
+  };
+};
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2025-07-01T12:00:00.000Z');
+const USAGE = { provider: 'openai', model: 'gpt-4o-mini', repair: false, symptomCount: 2 };
+const USER = hashUser('user-1');
+
+const minutesBefore = (minutes: number) => new Date(NOW.getTime() - minutes * MINUTE_MS);
+
+describe('UsageLog.reserve', () => {
+  const databases = new FakeDatabases();
+  const log = new UsageLog(databases);
+  const stored = () => databases.all('ai_usage');
+
+  beforeEach(() => {
+    databases.reset();
+  });
+
+  it('stores a pending request without the user ID and says what is left', async () => {
+    const limits = { rateLimit: 6, windowMs: 10 * MINUTE_MS, dailyQuota: 20 };
+
+    const reservation = await log.reserve(USER, limits, USAGE, NOW);
+
+    expect(reservation).toMatchObject({ allowed: true, remaining: { window: 5, day: 19 } });
+    expect(stored()).toEqual([
+      expect.objectContaining({ userHash: USER, timestamp: NOW.toISOString(), status: 'pending', ...USAGE }),
+    ]);
+    expect(JSON.stringify(stored())).not.toContain('user-1');
+  });
+
+  it('lets parallel requests take no more than the daily quota', async () => {
+    const limits = { rateLimit: 100, windowMs: 10 * MINUTE_MS, dailyQuota: 3 };
+
+    const reservations = await Promise.all([...Array(6)].map(() => log.reserve(USER, limits, USAGE, NOW)));
+
+    expect(reservations.filter(({ allowed }) => allowed)).toHaveLength(3);
+    expect(reservations.filter(r => !r.allowed && r.reason === 'daily_quota')).toHaveLength(3);
+    expect(stored()).toHaveLength(3);
+  });
+
+  it('never lets parallel requests past the rate limit', async () => {
+    const limits = { rateLimit: 2, windowMs: 10 * MINUTE_MS, dailyQuota: 20 };
+
+    const reservations = await Promise.all([...Array(5)].map(() => log.reserve(USER, limits, USAGE, NOW)));
+    const allowed = reservations.filter(({ allowed }) => allowed);
+
+    expect(allowed.length).toBeLessThanOrEqual(2);
+    expect(stored()).toHaveLength(allowed.length);
+  });
+
+  it('gives out the last slot of the day, then refuses until midnight', async () => {
+    const limits = { rateLimit: 6, windowMs: 10 * MINUTE_MS, dailyQuota: 3 };
+    await log.reserve(USER, limits, USAGE, minutesBefore(120));
+    await log.reserve(USER, limits, USAGE, minutesBefore(60));
+
+    const last = await log.reserve(USER, limits, USAGE, NOW);
+    const refused = await log.reserve(USER, limits, USAGE, NOW);
+
+    expect(last).toMatchObject({ allowed: true, remaining: { window: 5, day: 0 } });
+    // Noon to midnight UTC
+    expect(refused).toEqual({ allowed: false, reason: 'daily_quota', retryAfter: 12 * 60 * 60 });
+    expect(stored()).toHaveLength(3);
+  });
+
+  it('counts a new day from midnight UTC', async () => {
+    const limits = { rateLimit: 6, windowMs: 10 * MINUTE_MS, dailyQuota: 1 };
+    await log.reserve(USER, limits, USAGE, new Date('2025-06-30T23:59:00.000Z'));
+
+    expect(await log.reserve(USER, limits, USAGE, new Date('2025-07-01T00:05:00.000Z'))).toMatchObject({ allowed: true });
+  });
+
+  it('withdraws a request over the rate limit, until the earliest in the window leaves it', async () => {
+    const limits = { rateLimit: 2, windowMs: 10 * MINUTE_MS, dailyQuota: 20 };
+    await log.reserve(USER, limits, USAGE, minutesBefore(4));
+    await log.reserve(USER, limits, USAGE, minutesBefore(1));
+
+    const refused = await log.reserve(USER, limits, USAGE, NOW);
+
+    // The request 4 minutes ago is still in the 10-minute window 6 minutes
+    // from now, and has left it a second later
+    expect(refused).toEqual({ allowed: false, reason: 'rate_limit', retryAfter: 6 * 60 + 1 });
+    expect(stored()).toHaveLength(2);
+
+    const retryAt = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+    expect(await log.reserve(USER, limits, USAGE, retryAt(6 * 60))).toMatchObject({ reason: 'rate_limit', retryAfter: 1 });
+    // The withdrawn requests' slots are free again
+    expect(await log.reserve(USER, limits, USAGE, retryAt(6 * 60 + 1))).toMatchObject({
+      allowed: true,
+      remaining: { window: 0, day: 17 },
+    });
+  });
+
+  it('keeps users apart', async () => {
+    const limits = { rateLimit: 1, windowMs: 10 * MINUTE_MS, dailyQuota: 1 };
+    await log.reserve(USER, limits, USAGE, NOW);
+
+    expect(await log.reserve(hashUser('user-2'), limits, USAGE, NOW)).toMatchObject({ allowed: true });
+  });
+});
@@ -0,0 +1,103 @@
+import catalogue from '../functions/shared/catalogue.json';
+import { account, POINTS_FUNCTION_ID, PointsLedgerEntry, UserAchievement, UserProfile } from './appwrite';
+import { DatabaseService, isNotFoundError } from './database';
+import { executeFunction } from './functions';
+import { addRewardNotification } from './notifications';
+import { calculateLevel, getEarnedPoints, PointReason, PointsService, POINT_RULES } from './points';
+import { systemClock, toLocalDateKey } from './streak';
+
+// Numbers a user's achievements are measured against
+export interface UserCounters {
+  reportsSubmitted: number;
+  healthChecks: number;
+  sensorsConnected: number;
+  streak: number;
+  level: number;
+}
+
+// Every achievement needs a matching `achievement_<id>` entry in
+// POINT_RULES for its bonus points
+export type AchievementId = PointReason extends infer Reason
+  ? Reason extends `achievement_${infer Id}` ? Id : never
+  : never;
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  name: string;
+  description: string;
+  icon: string;
+  category: 'reporting' | 'health' | 'community' | 'verification' | 'special';
+  // Unlocked once this counter reaches the threshold
+  counter: keyof UserCounters;
+  threshold: number;
+}
+
+// The achievement catalogue, shared with the points function, which is
+// what unlocks them. A new achievement is a new entry in
+// functions/shared/catalogue.json plus its bonus in its pointRules.
+export const ACHIEVEMENTS = catalogue.achievements as AchievementDefinition[];
+
+export const getAchievementReason = (id: AchievementId): PointReason => `achievement_${id}`;
+
+export const getAchievementPoints = (id: AchievementId): number => POINT_RULES[getAchievementReason(id)].points;
+
+// Counters are derived from the ledger rather than stored, so they agree
+// with the points however the entries arrived (live, or a batch sync)
+export const getCounters = (ledger: PointsLedgerEntry[], profile: Pick<UserProfile, 'streak'>): UserCounters => {
+  const entitiesFor = (matches: (reason: string) => boolean) =>
+    new Set(ledger.filter(entry => matches(entry.reason)).map(entry => entry.entityId)).size;
+  return {
+    reportsSubmitted: entitiesFor(reason => reason.startsWith('report_')),
+    healthChecks: ledger.filter(entry => entry.reason === 'health_check').length,
+    sensorsConnected: entitiesFor(reason => reason === 'sensor_connected'),
+    streak: profile.streak,
+    level: calculateLevel(getEarnedPoints(ledger)),
+  };
+};
+
+// How close a user is to an achievement, from 0 to 1
+export const getAchievementProgress = (achievement: AchievementDefinition, counters: UserCounters): number =>
+  Math.max(0, Math.min(1, counters[achievement.counter] / achievement.threshold));
+
+export interface AchievementCheck {
+  counters: UserCounters;
+  unlocked: UserAchievement[];
+  newlyUnlocked: AchievementDefinition[];
+}
+
+export class AchievementService {
+  // Have the points function unlock every achievement the signed-in user
+  // has earned and pay its bonus, then tell the user about the new ones.
+  // Unlocking is idempotent, so overlapping checks (the outbox and a
+  // screen, say) cannot unlock or pay an achievement twice.
+  static async checkAndUnlock(): Promise<AchievementCheck | null> {
+    try {
+      const user = await account.get();
+      const { newlyUnlocked: unlockedIds } = await executeFunction<{ newlyUnlocked: AchievementId[] }>(
+        POINTS_FUNCTION_ID,
+        { action: 'checkAchievements', activeDate: toLocalDateKey(systemClock()) }
+      );
+
+      const [profile, ledger, unlocked] = await Promise.all([
+        DatabaseService.getUserProfile(user.$id),
+        PointsService.getLedger(user.$id),
+        DatabaseService.getUserAchievements(user.$id),
+      ]);
+      if (!profile) return null;
+
+      const newlyUnlocked = ACHIEVEMENTS.filter(achievement => unlockedIds.includes(achievement.id));
+      for (const achievement of newlyUnlocked) {
+        const { label } = POINT_RULES[getAchievementReason(achievement.id)];
+        await addRewardNotification(getAchievementPoints(achievement.id), `${label}!`);
+      }
+
+      return { counters: getCounters(ledger, profile), unlocked, newlyUnlocked };
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      console.error('Error checking achievements:', error);
+      throw error;
+    }
+  }
+}
@@ -1,4 +1,5 @@
-import { Client, Account, Databases, Storage } from 'appwrite';
+import { Client, Account, Databases, Functions, Storage } from 'appwrite';
+import type { SensorParameter } from './sensors/types';
 
 // Get environment variables
 const endpoint = process.env.EXPO_PUBLIC_APPWRITE_ENDPOINT!;
@@ -13,6 +14,7 @@ const client = new Client()
 export const account = new Account(client);
 export const databases = new Databases(client);
 export const storage = new Storage(client);
+export const functions = new Functions(client);
 
 // Export client for additional configurations if needed
 export { client };
@@ -21,6 +23,24 @@ export { client };
 export const DATABASE_ID = 'main';
 export const USERS_COLLECTION_ID = 'users';
 export const USER_ACHIEVEMENTS_COLLECTION_ID = 'user_achievements';
+export const WATER_REPORTS_COLLECTION_ID = 'water_reports';
+export const REPORT_VOTES_COLLECTION_ID = 'report_votes';
+export const POINTS_LEDGER_COLLECTION_ID = 'points_ledger';
+export const REWARDS_CATALOG_COLLECTION_ID = 'rewards_catalog';
+export const VOUCHERS_COLLECTION_ID = 'vouchers';
+export const SENSORS_COLLECTION_ID = 'sensors';
+export const SENSOR_READINGS_COLLECTION_ID = 'sensor_readings';
+export const NOTIFICATIONS_COLLECTION_ID = 'notifications';
+export const HEALTH_SIGNALS_COLLECTION_ID = 'health_signals';
+
+// Function IDs (deploy these from the functions folder)
+export const POINTS_FUNCTION_ID = 'points';
+export const SENSOR_READINGS_FUNCTION_ID = 'sensor-readings';
+export const REPORTS_FUNCTION_ID = 'reports';
+export const HEALTH_SIGNALS_FUNCTION_ID = 'health-signals';
+
+// Storage bucket IDs (create these in Appwrite console)
+export const REPORT_PHOTOS_BUCKET_ID = 'report_photos';
 
 // User data interface
 export interface UserProfile {
@@ -32,11 +52,24 @@ export interface UserProfile {
   level: number;
   reportsSubmitted: number;
   streak: number;
+  // Local calendar date (YYYY-MM-DD) of the last activity counted towards the streak
+  lastActiveDate: string | null;
+  streakFreezesPurchased: number;
+  streakFreezesUsed: number;
   totalEarned: number;
+  // Where the user registered, for village and district leaderboards
+  village: string | null;
+  district: string | null;
+  // Shown as "Anonymous" on leaderboards when true
+  leaderboardOptOut: boolean;
+  // Expo push tokens of the devices the user is signed in on
+  pushTokens: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type UserLocation = Pick<UserProfile, 'village' | 'district'>;
+
 // User achievement interface
 export interface UserAchievement {
   $id?: string;
@@ -44,4 +77,117 @@ export interface UserAchievement {
   achievementId: string;
   unlockedAt: string;
   points: number;
-}
\ No newline at end of file
+}
+
+// Points ledger entry interface. A user's balance is the sum of their entries.
+export interface PointsLedgerEntry {
+  $id?: string;
+  userId: string;
+  amount: number;
+  reason: string;
+  entityId: string;
+  idempotencyKey: string;
+  createdAt: string;
+}
+
+// Where and when a report photo was taken
+export interface PhotoEvidence {
+  fileId: string;
+  capturedAt: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+}
+
+export type VoteType = 'up' | 'down';
+
+// Water report interface
+export interface WaterReport {
+  id: string;
+  reporterId: string;
+  type: 'contamination' | 'shortage' | 'infrastructure' | 'quality' | 'other';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  description: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    address?: string;
+  };
+  photos: string[]; // Storage file IDs in the report_photos bucket
+  photoEvidence: PhotoEvidence[];
+  timestamp: Date;
+  status: 'pending' | 'verified' | 'resolved' | 'rejected';
+  reporterPoints: number;
+  upvotes: number;
+  downvotes: number;
+}
+
+// A reward that can be bought with points
+export interface RewardCatalogItem {
+  $id: string;
+  name: string;
+  description: string;
+  cost: number;
+  category: 'vouchers' | 'services' | 'products' | 'donations';
+  icon: string;
+  // Vouchers left to issue
+  stock: number;
+  // The reward can no longer be redeemed after this date
+  expiryDate: string | null;
+  active: boolean;
+}
+
+// A voucher issued for a redeemed reward. 'expired' is never stored; it is
+// derived from expiresAt when the voucher is read.
+export interface Voucher {
+  $id: string;
+  userId: string;
+  rewardId: string;
+  rewardName: string;
+  code: string;
+  cost: number;
+  status: 'active' | 'used';
+  issuedAt: string;
+  expiresAt: string;
+  redeemedAt: string | null;
+  redeemedBy: string | null;
+}
+
+export type VoucherStatus = 'active' | 'used' | 'expired';
+
+export type WaterSourceType = 'well' | 'handpump' | 'tank' | 'tap' | 'surface' | 'other';
+
+export type SensorType = 'multiparameter' | SensorParameter;
+
+// Linear correction for one parameter: calibrated = raw * slope + offset
+export interface ParameterCalibration {
+  offset: number;
+  slope: number;
+}
+
+export type SensorCalibration = Partial<Record<SensorParameter, ParameterCalibration>>;
+
+// A water sensor registered to a user
+export interface Sensor {
+  $id: string;
+  ownerId: string;
+  // Bluetooth identifier the sensor is paired by
+  deviceId: string;
+  name: string;
+  sensorType: SensorType;
+  waterSource: WaterSourceType;
+  // Where the sensor is installed: a GPS fix, a description, or both
+  installLocation: {
+    latitude: number | null;
+    longitude: number | null;
+    address: string | null;
+  } | null;
+  firmware: string | null;
+  lastCalibratedAt: string | null;
+  calibration: SensorCalibration;
+  // Shown to other users as a community sensor, readings included
+  shared: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
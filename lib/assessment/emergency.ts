@@ -0,0 +1,73 @@
+// Danger signs that need a doctor now, checked as soon as symptoms are
+// picked and before any AI analysis. Every group in `requires` needs at
+// least one of its symptoms selected; `childOnly` rules apply only when
+// the check is for a child under 5.
+export interface EmergencyRule {
+  id: string;
+  requires: string[][];
+  childOnly?: boolean;
+  title: string;
+  message: string;
+}
+
+export const EMERGENCY_RULES: EmergencyRule[] = [
+  {
+    id: 'severe_dehydration',
+    requires: [['dehydration'], ['severe_diarrhea', 'vomiting'], ['rapid_heartbeat', 'dizziness']],
+    title: 'Severe dehydration',
+    message:
+      'Losing fluid with a racing heart or dizziness means the body is running dry. Start ORS now and keep sipping on the way to a health centre.',
+  },
+  {
+    id: 'child_dehydration',
+    requires: [['dehydration'], ['severe_diarrhea', 'vomiting', 'loose_stools']],
+    childOnly: true,
+    title: 'Dehydration in a young child',
+    message:
+      'Young children can become dangerously dehydrated within hours. Give ORS in small spoonfuls every few minutes and take the child to a health centre now.',
+  },
+  {
+    id: 'jaundice',
+    requires: [['jaundice']],
+    title: 'Jaundice',
+    message:
+      'Yellow skin or eyes point to a liver infection such as hepatitis, which needs a blood test and a doctor. It is especially dangerous in pregnancy.',
+  },
+  {
+    id: 'child_high_fever',
+    requires: [['high_fever']],
+    childOnly: true,
+    title: 'High fever in a young child',
+    message:
+      'A high fever in a child under 5 can be typhoid, dengue or malaria and can cause fits. See a doctor today; sponge with lukewarm water meanwhile.',
+  },
+  {
+    id: 'blood_in_stool',
+    requires: [['blood_in_stool']],
+    title: 'Blood in stool',
+    message:
+      'Bloody diarrhoea (dysentery) is usually a bacterial or amoebic infection that needs prescribed treatment. Keep drinking ORS and see a doctor today.',
+  },
+];
+
+// The danger signs among the selected symptoms, in the order listed above
+export const getEmergencies = (symptomIds: string[], forChild: boolean): EmergencyRule[] =>
+  EMERGENCY_RULES.filter(rule =>
+    (!rule.childOnly || forChild) &&
+    rule.requires.every(group => group.some(id => symptomIds.includes(id)))
+  );
+
+export const EMERGENCY_NUMBERS = [
+  { number: '108', label: 'Ambulance', description: 'Free emergency ambulance' },
+  { number: '104', label: 'Health Helpline', description: 'Advice from a doctor or nurse' },
+] as const;
+
+// Oral Rehydration Solution at home, per WHO guidance, for when packets
+// are not at hand
+export const ORS_GUIDE = [
+  'Wash your hands with soap and water',
+  'Boil 1 litre of drinking water and let it cool',
+  'Stir in 6 level teaspoons of sugar and ½ level teaspoon of salt until dissolved',
+  'Sip small amounts often; give children a spoonful every 1-2 minutes',
+  'Make a fresh batch every 24 hours and throw away what is left',
+];
@@ -0,0 +1,42 @@
+import { AssessmentProvider, AssessmentRequest } from './types';
+
+export const DEFAULT_LOCAL_URL = 'http://localhost:8787/assess';
+
+// Assessments from a server of our own, e.g. a model hosted on the local
+// network or the stub in scripts/assessment-stub-server.js. The server is
+// sent the AssessmentRequest as JSON and answers with an
+// AIHealthAssessment as JSON, so the prompt is its business, and so is
+// correcting the model: answers are checked but never sent back.
+export class LocalHttpProvider implements AssessmentProvider {
+  readonly id = 'local';
+  readonly model: string;
+  readonly canRepair = false;
+  // A server on the local network can be reachable without the internet
+  readonly needsInternet = false;
+
+  constructor(private readonly url: string = DEFAULT_LOCAL_URL) {
+    this.model = url;
+  }
+
+  isConfigured(): boolean {
+    return !!this.url;
+  }
+
+  async assess(request: AssessmentRequest): Promise<string> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Assessment server error: ${response.status} - ${await response.text()}`);
+      }
+      return await response.text();
+    } catch (error) {
+      console.error('Error getting assessment from local server:', error);
+      throw error;
+    }
+  }
+}
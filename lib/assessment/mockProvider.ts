@@ -0,0 +1,75 @@
+import { AIHealthAssessment, AssessmentProvider } from './types';
+
+// A general water-borne illness assessment, the same whatever the symptoms
+export const MOCK_ASSESSMENT: AIHealthAssessment = {
+  possibleConditions: [
+    {
+      name: 'Water-borne Gastrointestinal Infection',
+      probability: 75,
+      description:
+        'Possible infection from contaminated water or food, commonly caused by bacteria, viruses, or parasites found in unsafe water sources.',
+      severity: 'medium',
+      commonDuration: '3-7 days with proper treatment',
+      waterSource:
+        'Contaminated drinking water, recreational water, or food prepared with unsafe water',
+    },
+    {
+      name: 'Acute Gastroenteritis',
+      probability: 60,
+      description:
+        'Inflammation of stomach and intestines, often caused by waterborne pathogens like E. coli, Salmonella, or Norovirus.',
+      severity: 'medium',
+      commonDuration: '2-5 days',
+      waterSource: 'Contaminated water supply or cross-contamination',
+    },
+  ],
+  riskLevel: 'medium',
+  homeRemedies: [
+    '💧 Oral Rehydration Solution (ORS): Mix 1 tsp salt + 2 tbsp sugar in 1 liter boiled water',
+    '🔥 Boil all drinking water for at least 1 minute before consumption',
+    '🍵 Ginger tea or chamomile tea to soothe stomach and reduce nausea',
+    '🍌 BRAT diet: Bananas, Rice, Applesauce, Toast for easy digestion',
+    '🧂 Electrolyte replacement: Coconut water or homemade electrolyte solution',
+    '🌿 Probiotics from plain yogurt (if tolerated) to restore gut bacteria',
+  ],
+  whenToSeekHelp: [
+    '🚨 IMMEDIATE: Signs of severe dehydration (dizziness, dry mouth, no urination for 8+ hours)',
+    '⚠️ URGENT: High fever above 39°C (102°F) lasting more than 24 hours',
+    '🩸 URGENT: Blood or mucus in stool or vomit',
+    '⏰ If symptoms persist or worsen after 48-72 hours of home treatment',
+    '🤒 Severe abdominal pain or signs of complications',
+  ],
+  generalAdvice: [
+    '🚰 Water Safety: Only drink boiled, bottled, or properly treated water',
+    '🧼 Hand Hygiene: Wash hands frequently with soap for 20+ seconds',
+    '🍎 Food Safety: Avoid raw foods, street food, and unpeeled fruits',
+    '🏠 Rest and avoid strenuous activities to conserve energy',
+    '📊 Monitor symptoms: Track bowel movements and fluid intake',
+    '🌡️ Temperature monitoring: Check fever regularly',
+  ],
+  preventionTips: [
+    '💧 Water purification: Use water purification tablets or boiling',
+    '🧊 Avoid ice cubes from unknown water sources',
+    '🥗 Eat only thoroughly cooked hot foods',
+    '🏊 Avoid swimming in potentially contaminated water bodies',
+  ],
+  disclaimer:
+    'This AI assessment focuses on water-related health issues and is for informational purposes only. It cannot replace professional medical diagnosis. Seek immediate medical attention for severe symptoms or if you suspect serious water-borne illness.',
+};
+
+// Canned assessments, for demos and for developing without network access
+// or an API key. Never a silent stand-in for a real model.
+export class MockProvider implements AssessmentProvider {
+  readonly id = 'mock';
+  readonly model = 'canned';
+  readonly canRepair = false;
+  readonly needsInternet = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async assess(): Promise<string> {
+    return JSON.stringify(MOCK_ASSESSMENT);
+  }
+}
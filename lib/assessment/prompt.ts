@@ -0,0 +1,17 @@
+// Model answers are meant to be bare JSON, but some wrap it in a Markdown
+// code fence or add a sentence before or after it; the outermost object is
+// taken from whatever surrounds it
+export const parseAssessmentJson = (text: string): unknown => {
+  let cleaned = text.trim();
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  }
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+};
@@ -0,0 +1,20 @@
+import { LocalHttpProvider } from './localProvider';
+import { MockProvider } from './mockProvider';
+import { ProxyProvider } from './proxyProvider';
+import { AssessmentProvider } from './types';
+
+// EXPO_PUBLIC_AI_PROVIDER picks what answers the symptom checker: `proxy`
+// (the default; the assessment-proxy function at EXPO_PUBLIC_AI_PROXY_URL),
+// `local` (EXPO_PUBLIC_AI_LOCAL_URL) or `mock`. Model API keys are
+// variables of the proxy function and never part of the app, since
+// anything in the bundle can be read out of it.
+export const createAssessmentProvider = (): AssessmentProvider => {
+  switch (process.env.EXPO_PUBLIC_AI_PROVIDER) {
+    case 'local':
+      return new LocalHttpProvider(process.env.EXPO_PUBLIC_AI_LOCAL_URL || undefined);
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new ProxyProvider(process.env.EXPO_PUBLIC_AI_PROXY_URL || undefined);
+  }
+};
@@ -0,0 +1,66 @@
+import { account } from '../appwrite';
+import { AssessmentProvider, AssessmentRepair, AssessmentRequest } from './types';
+
+// The proxy refused because the user has used up their requests for now
+export class AssessmentLimitError extends Error {
+  constructor(
+    message: string,
+    // Seconds until another request will be accepted
+    readonly retryAfter: number | null
+  ) {
+    super(message);
+    this.name = 'AssessmentLimitError';
+  }
+}
+
+// Assessments from the assessment-proxy Appwrite Function, which holds the
+// model keys and prompt and calls the model for us. Requests are signed
+// with a short-lived JWT for the user's session, so only signed-in users
+// get through, each within their own limits.
+export class ProxyProvider implements AssessmentProvider {
+  readonly id = 'proxy';
+  readonly model: string;
+  readonly canRepair = true;
+  readonly needsInternet = true;
+
+  constructor(private readonly url?: string) {
+    this.model = url ?? 'assessment-proxy';
+  }
+
+  isConfigured(): boolean {
+    return !!this.url;
+  }
+
+  async assess(request: AssessmentRequest, repair?: AssessmentRepair): Promise<string> {
+    if (!this.url) {
+      throw new Error('Assessment proxy not configured. Please set EXPO_PUBLIC_AI_PROXY_URL in the .env file.');
+    }
+
+    try {
+      const { jwt } = await account.createJWT();
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${jwt}`,
+        },
+        body: JSON.stringify({ symptoms: request.symptoms, questionnaire: request.questionnaire, repair }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (response.status === 429) {
+        throw new AssessmentLimitError(data?.message ?? 'AI assessment limit reached', data?.retryAfter ?? null);
+      }
+      if (!response.ok) {
+        throw new Error(`Assessment proxy error: ${response.status} - ${data?.message ?? 'no details'}`);
+      }
+      if (typeof data?.response !== 'string') {
+        throw new Error('Invalid response format from assessment proxy');
+      }
+      return data.response;
+    } catch (error) {
+      console.error('Error getting assessment from proxy:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// The symptom checker's questionnaire answers, shared by the screen and the
+// offline triage rules that score them
+
+export const DURATION_OPTIONS = [
+  'Less than 24 hours',
+  '1-3 days',
+  '4-7 days',
+  'More than a week',
+  'More than a month',
+] as const;
+
+export const SEVERITY_OPTIONS = [
+  'Mild (manageable)',
+  'Moderate (concerning)',
+  'Severe (very uncomfortable)',
+  'Critical (unbearable)',
+] as const;
+
+export const WATER_EXPOSURE_OPTIONS = [
+  'Tap water',
+  'Well water',
+  'Bottled water',
+  'River/lake water',
+  'Street vendor water',
+  'No unusual water consumption',
+] as const;
+
+export const RECENT_TRAVEL_OPTIONS = [
+  'No recent travel or outside food',
+  'Traveled within country',
+  'International travel',
+  'Ate street food',
+  'Ate at restaurants',
+  'Attended events/gatherings',
+] as const;
+
+export type DurationOption = (typeof DURATION_OPTIONS)[number];
+export type SeverityOption = (typeof SEVERITY_OPTIONS)[number];
+export type WaterExposureOption = (typeof WATER_EXPOSURE_OPTIONS)[number];
+export type RecentTravelOption = (typeof RECENT_TRAVEL_OPTIONS)[number];
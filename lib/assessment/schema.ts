@@ -0,0 +1,153 @@
+import { AIHealthAssessment } from './types';
+
+// The prompt asks for at most this many, most likely first
+export const MAX_CONDITIONS = 4;
+
+export const DEFAULT_DISCLAIMER =
+  'This AI assessment focuses on water-related health issues and is for informational purposes only. It cannot replace professional medical diagnosis. Seek immediate medical attention for severe symptoms or if you suspect serious water-borne illness.';
+
+type Level = AIHealthAssessment['riskLevel'];
+
+// Words models use for the three levels
+const LEVELS: Record<string, Level> = {
+  low: 'low',
+  mild: 'low',
+  minimal: 'low',
+  medium: 'medium',
+  moderate: 'medium',
+  high: 'high',
+  severe: 'high',
+  critical: 'high',
+};
+
+// An answer checked against AIHealthAssessment: either usable, with what
+// was changed to make it fit, or not, with what is wrong with it
+export type AssessmentValidation =
+  | { valid: true; assessment: AIHealthAssessment; corrections: string[] }
+  | { valid: false; problems: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const toLevel = (value: unknown): Level | undefined =>
+  typeof value === 'string' ? LEVELS[value.trim().toLowerCase()] : undefined;
+
+// A percentage from 85, 85.4 or "85%"
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+// Check a parsed model answer and bring it into shape: probabilities are
+// clamped to 0-100, levels normalised, conditions capped at MAX_CONDITIONS
+// and lists cleaned of anything but text. Gaps the results screen can do
+// without are filled; a missing risk level, condition or warning sign makes
+// the answer invalid, since guessing those would mislead.
+export const validateAssessment = (value: unknown): AssessmentValidation => {
+  const problems: string[] = [];
+  const corrections: string[] = [];
+
+  if (!isRecord(value)) {
+    return { valid: false, problems: ['the answer is not a JSON object'] };
+  }
+
+  // A list of strings from a list, or a lone string
+  const toList = (field: string, required: boolean): string[] | undefined => {
+    const raw = value[field];
+    if (raw === undefined || raw === null) {
+      if (required) problems.push(`${field} is missing`);
+      return undefined;
+    }
+    const items = Array.isArray(raw) ? raw : [raw];
+    const list = items.map(toText).filter((item): item is string => item !== undefined);
+    if (list.length < items.length) corrections.push(`dropped ${items.length - list.length} empty or non-text ${field} entries`);
+    if (required && list.length === 0) problems.push(`${field} has no entries`);
+    return list;
+  };
+
+  const conditions: AIHealthAssessment['possibleConditions'] = [];
+  const rawConditions = value.possibleConditions;
+  if (!Array.isArray(rawConditions)) {
+    problems.push('possibleConditions is missing or not a list');
+  } else {
+    rawConditions.forEach((raw, index) => {
+      const path = `possibleConditions[${index}]`;
+      if (!isRecord(raw)) {
+        problems.push(`${path} is not an object`);
+        return;
+      }
+
+      const name = toText(raw.name);
+      if (!name) problems.push(`${path}.name is missing`);
+
+      const probability = toNumber(raw.probability);
+      if (probability === undefined) {
+        problems.push(`${path}.probability is not a number`);
+      } else if (probability < 0 || probability > 100) {
+        corrections.push(`clamped ${path}.probability from ${probability} to 0-100`);
+      }
+
+      const severity = toLevel(raw.severity);
+      if (!severity) problems.push(`${path}.severity must be low, medium or high`);
+
+      if (!name || probability === undefined || !severity) return;
+      const description = toText(raw.description);
+      if (!description) corrections.push(`${path}.description was missing`);
+      const commonDuration = toText(raw.commonDuration);
+      const waterSource = toText(raw.waterSource);
+
+      conditions.push({
+        name,
+        probability: Math.round(Math.min(100, Math.max(0, probability))),
+        description: description ?? '',
+        severity,
+        ...(commonDuration && { commonDuration }),
+        ...(waterSource && { waterSource }),
+      });
+    });
+    if (rawConditions.length === 0) problems.push('possibleConditions is empty');
+  }
+
+  conditions.sort((a, b) => b.probability - a.probability);
+  if (conditions.length > MAX_CONDITIONS) {
+    corrections.push(`kept the ${MAX_CONDITIONS} most likely of ${conditions.length} conditions`);
+    conditions.length = MAX_CONDITIONS;
+  }
+
+  const riskLevel = toLevel(value.riskLevel);
+  if (!riskLevel) problems.push('riskLevel must be low, medium or high');
+
+  const whenToSeekHelp = toList('whenToSeekHelp', true);
+  const homeRemedies = toList('homeRemedies', false);
+  const generalAdvice = toList('generalAdvice', false);
+  const preventionTips = toList('preventionTips', false);
+  if (!homeRemedies) corrections.push('homeRemedies was missing');
+  if (!generalAdvice) corrections.push('generalAdvice was missing');
+
+  let disclaimer = toText(value.disclaimer);
+  if (!disclaimer) {
+    corrections.push('disclaimer was missing');
+    disclaimer = DEFAULT_DISCLAIMER;
+  }
+
+  if (problems.length > 0 || !riskLevel || !whenToSeekHelp) {
+    return { valid: false, problems };
+  }
+
+  return {
+    valid: true,
+    assessment: {
+      possibleConditions: conditions,
+      riskLevel,
+      homeRemedies: homeRemedies ?? [],
+      whenToSeekHelp,
+      generalAdvice: generalAdvice ?? [],
+      ...(preventionTips && preventionTips.length > 0 && { preventionTips }),
+      disclaimer,
+    },
+    corrections,
+  };
+};
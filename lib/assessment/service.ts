@@ -0,0 +1,137 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { isOnline } from '../syncQueue';
+import { parseAssessmentJson } from './prompt';
+import { AssessmentLimitError } from './proxyProvider';
+import { validateAssessment } from './schema';
+import { triage } from './triage';
+import { AIHealthAssessment, AssessmentProvider, AssessmentProviderId, AssessmentRequest } from './types';
+
+const FALLBACKS_KEY = 'assessmentFallbacks';
+const MAX_FALLBACKS = 50;
+
+// Why the offline triage stood in for a model's answer
+export type FallbackReason =
+  // No provider is set up (a URL or key is missing), so nothing was asked
+  | 'not_configured'
+  // No network, so the model was not asked
+  | 'offline'
+  // The request failed: network, HTTP error, empty response
+  | 'provider_error'
+  // The answer was not usable and the provider cannot be asked again
+  | 'invalid_response'
+  // The answer was not usable, and neither was the corrected one
+  | 'repair_failed';
+
+export const FALLBACK_REASON_LABELS: Record<FallbackReason, string> = {
+  not_configured: 'no AI service is set up in this app',
+  offline: 'you are offline',
+  provider_error: 'the AI service could not be reached',
+  invalid_response: 'the AI answer was incomplete or malformed',
+  repair_failed: 'the AI answer was still incomplete after asking it to correct it',
+};
+
+export interface AssessmentFallback {
+  timestamp: string;
+  provider: AssessmentProviderId;
+  model: string;
+  reason: FallbackReason;
+  // The error, or what was wrong with each answer
+  details: string[];
+}
+
+export interface AssessmentOutcome {
+  assessment: AIHealthAssessment;
+  // `model` as answered, `repaired` after one correction, `triage` when
+  // the offline triage stands in
+  source: 'model' | 'repaired' | 'triage';
+  // What validation changed to make the answer fit, e.g. clamped
+  // probabilities
+  corrections: string[];
+  fallback?: AssessmentFallback;
+}
+
+// Parse and validate one answer, turning a parse failure into a problem
+const check = (response: string) => {
+  try {
+    return validateAssessment(parseAssessmentJson(response));
+  } catch (error) {
+    return { valid: false as const, problems: [`the answer is not valid JSON (${(error as Error).message})`] };
+  }
+};
+
+export class AssessmentService {
+  // An assessment from the provider, checked against the schema. An answer
+  // that does not fit is sent back once for correction. If that fails too,
+  // the provider errors, is not set up or there is no network to reach
+  // it, the offline triage answers instead and the fallback is recorded
+  // with its reason. Running out of requests at the proxy is not a
+  // fallback: the AssessmentLimitError is thrown for the caller to explain.
+  static async assess(provider: AssessmentProvider, request: AssessmentRequest): Promise<AssessmentOutcome> {
+    const fallBack = async (reason: FallbackReason, details: string[]): Promise<AssessmentOutcome> => {
+      const fallback: AssessmentFallback = {
+        timestamp: new Date().toISOString(),
+        provider: provider.id,
+        model: provider.model,
+        reason,
+        details,
+      };
+      await this.recordFallback(fallback);
+      return { assessment: triage(request), source: 'triage', corrections: [], fallback };
+    };
+
+    if (!provider.isConfigured()) {
+      return fallBack('not_configured', [`${provider.id} is missing its URL or key`]);
+    }
+    if (provider.needsInternet && !isOnline(await NetInfo.fetch())) {
+      return fallBack('offline', ['no network connection']);
+    }
+
+    let response: string;
+    try {
+      response = await provider.assess(request);
+    } catch (error) {
+      if (error instanceof AssessmentLimitError) throw error;
+      return fallBack('provider_error', [(error as Error).message]);
+    }
+
+    const first = check(response);
+    if (first.valid) {
+      return { assessment: first.assessment, source: 'model', corrections: first.corrections };
+    }
+    console.warn(`Invalid assessment from ${provider.id}:`, first.problems);
+    if (!provider.canRepair) {
+      return fallBack('invalid_response', first.problems);
+    }
+
+    let repaired: string;
+    try {
+      repaired = await provider.assess(request, { response, problems: first.problems });
+    } catch (error) {
+      return fallBack('repair_failed', [...first.problems, `repair request failed: ${(error as Error).message}`]);
+    }
+
+    const second = check(repaired);
+    if (second.valid) {
+      return { assessment: second.assessment, source: 'repaired', corrections: second.corrections };
+    }
+    return fallBack('repair_failed', [...first.problems, ...second.problems.map(problem => `after repair: ${problem}`)]);
+  }
+
+  // Keep a record of a fallback, newest first, for working out which
+  // providers and prompts fail and why
+  static async recordFallback(fallback: AssessmentFallback): Promise<void> {
+    console.warn(`Assessment fell back to offline triage (${fallback.reason}):`, fallback.details);
+    try {
+      const fallbacks = await this.getFallbacks();
+      await AsyncStorage.setItem(FALLBACKS_KEY, JSON.stringify([fallback, ...fallbacks].slice(0, MAX_FALLBACKS)));
+    } catch (error) {
+      console.error('Error recording assessment fallback:', error);
+    }
+  }
+
+  static async getFallbacks(): Promise<AssessmentFallback[]> {
+    const saved = await AsyncStorage.getItem(FALLBACKS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  }
+}
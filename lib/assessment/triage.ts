@@ -0,0 +1,135 @@
+import { DurationOption, SeverityOption } from './questionnaire';
+import { TRIAGE_KNOWLEDGE, TriageCondition, TriageKnowledge } from './triageKnowledge';
+import { AIHealthAssessment, AssessmentRequest } from './types';
+
+type Level = AIHealthAssessment['riskLevel'];
+
+// Conditions scoring less than this share of their points are left out,
+// unless nothing scores higher
+const MIN_PROBABILITY = 20;
+// Rules cannot be as sure as a doctor, so no condition is put above this
+const MAX_PROBABILITY = 85;
+const MAX_CONDITIONS = 4;
+// A condition this likely sets the risk level to its own severity
+const LIKELY_PROBABILITY = 50;
+
+const LEVEL_ORDER: Level[] = ['low', 'medium', 'high'];
+const raise = (a: Level, b: Level): Level => (LEVEL_ORDER.indexOf(b) > LEVEL_ORDER.indexOf(a) ? b : a);
+
+const sumPositive = (points: Partial<Record<string, number>> = {}) =>
+  Object.values(points).reduce<number>((sum, value) => sum + Math.max(0, value ?? 0), 0);
+
+const maxPositive = (points: Partial<Record<string, number>> = {}) =>
+  Math.max(0, ...Object.values(points).map(value => value ?? 0));
+
+// Most points a condition can get: every symptom that counts for it and
+// the best answer to each question
+const getMaxScore = (condition: TriageCondition) =>
+  sumPositive(condition.symptoms) +
+  maxPositive(condition.duration) +
+  maxPositive(condition.waterExposure) +
+  maxPositive(condition.recentTravel);
+
+interface ScoredCondition {
+  condition: TriageCondition;
+  probability: number;
+  // What counted for it, e.g. "Severe Diarrhea" or "River/lake water"
+  evidence: string[];
+}
+
+const scoreCondition = (
+  condition: TriageCondition,
+  { symptomIds, symptoms, questionnaire }: AssessmentRequest
+): ScoredCondition | null => {
+  if (!condition.requiresAny.some(id => symptomIds.includes(id))) return null;
+
+  let score = 0;
+  const evidence: string[] = [];
+  symptomIds.forEach((id, index) => {
+    const points = condition.symptoms[id] ?? 0;
+    score += points;
+    if (points > 0) evidence.push(symptoms[index] ?? id);
+  });
+
+  const answers: [Partial<Record<string, number>> | undefined, string][] = [
+    [condition.duration, questionnaire.duration],
+    [condition.waterExposure, questionnaire.waterExposure],
+    [condition.recentTravel, questionnaire.recentTravel],
+  ];
+  answers.forEach(([points, answer]) => {
+    const value = points?.[answer] ?? 0;
+    score += value;
+    if (value > 0) evidence.push(answer);
+  });
+
+  if (score <= 0) return null;
+  return {
+    condition,
+    probability: Math.min(MAX_PROBABILITY, Math.round((100 * score) / getMaxScore(condition))),
+    evidence,
+  };
+};
+
+// A rule-based assessment that needs no network: conditions from the
+// knowledge table scored by the symptoms and questionnaire answers, and
+// red-flag rules that raise the risk level and lead the warning signs.
+// The same answers and table always give the same result.
+export const triage = (request: AssessmentRequest, knowledge: TriageKnowledge = TRIAGE_KNOWLEDGE): AIHealthAssessment => {
+  const { symptomIds, questionnaire } = request;
+
+  const scored = knowledge.conditions
+    .map(condition => scoreCondition(condition, request))
+    .filter((result): result is ScoredCondition => result !== null)
+    // Stable, so ties keep the table's order
+    .sort((a, b) => b.probability - a.probability);
+  const suggested = scored
+    .filter((result, index) => index === 0 || result.probability >= MIN_PROBABILITY)
+    .slice(0, MAX_CONDITIONS);
+
+  const redFlags = knowledge.redFlags.filter(rule =>
+    (rule.allOf ?? []).every(id => symptomIds.includes(id)) &&
+    (!rule.anyOf || rule.anyOf.some(id => symptomIds.includes(id))) &&
+    (!rule.duration || rule.duration.includes(questionnaire.duration as DurationOption)) &&
+    (!rule.severity || rule.severity.includes(questionnaire.severity as SeverityOption))
+  );
+
+  let riskLevel: Level = knowledge.severityRisk[questionnaire.severity as SeverityOption] ?? 'low';
+  if (suggested[0] && suggested[0].probability >= LIKELY_PROBABILITY) {
+    riskLevel = raise(riskLevel, suggested[0].condition.severity);
+  }
+  redFlags.forEach(rule => {
+    riskLevel = raise(riskLevel, rule.riskLevel);
+  });
+
+  const possibleConditions: AIHealthAssessment['possibleConditions'] = suggested.map(
+    ({ condition, probability, evidence }) => ({
+      name: condition.name,
+      probability,
+      description: `${condition.description} Suggested by: ${evidence.join(', ')}.`,
+      severity: condition.severity,
+      commonDuration: condition.commonDuration,
+      waterSource: condition.waterSource,
+    })
+  );
+  if (possibleConditions.length === 0) {
+    possibleConditions.push({
+      name: 'No water-borne illness pattern recognised',
+      probability: 0,
+      description:
+        'Your symptoms do not match the water-borne illnesses the offline triage knows about. That does not rule them out; see a doctor if you are worried or the symptoms continue.',
+      severity: 'low',
+    });
+  }
+
+  return {
+    possibleConditions,
+    riskLevel,
+    homeRemedies: [...new Set([...suggested.flatMap(({ condition }) => condition.advice), ...knowledge.homeRemedies])],
+    whenToSeekHelp: [...redFlags.map(rule => rule.message), ...knowledge.whenToSeekHelp],
+    generalAdvice: knowledge.generalAdvice,
+    preventionTips: knowledge.preventionTips,
+    disclaimer:
+      `Offline triage from the app's built-in rules (knowledge table v${knowledge.version}), not an AI assessment. ` +
+      'It only scores your answers against common water-borne illnesses and cannot diagnose you. See a doctor for anything serious.',
+  };
+};
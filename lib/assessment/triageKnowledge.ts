@@ -0,0 +1,355 @@
+import { DurationOption, RecentTravelOption, SeverityOption, WaterExposureOption } from './questionnaire';
+import { AIHealthAssessment } from './types';
+
+type Level = AIHealthAssessment['riskLevel'];
+
+// A condition the offline triage can suggest, and the points each answer
+// gives it. Symptoms are symptom checker ids; negative points count
+// against the condition, e.g. a high fever against cholera.
+export interface TriageCondition {
+  id: string;
+  name: string;
+  description: string;
+  severity: Level;
+  commonDuration: string;
+  waterSource: string;
+  symptoms: Record<string, number>;
+  duration?: Partial<Record<DurationOption, number>>;
+  waterExposure?: Partial<Record<WaterExposureOption, number>>;
+  recentTravel?: Partial<Record<RecentTravelOption, number>>;
+  // Never suggested without at least one of these symptoms
+  requiresAny: string[];
+  // Shown under home care when the condition is suggested
+  advice: string[];
+}
+
+// A combination of answers that needs a doctor whatever the condition.
+// Matches when every `allOf` symptom and at least one `anyOf` symptom is
+// present, and the duration and severity are among those listed.
+export interface RedFlagRule {
+  id: string;
+  allOf?: string[];
+  anyOf?: string[];
+  duration?: DurationOption[];
+  severity?: SeverityOption[];
+  riskLevel: Level;
+  // Shown first under when to seek help
+  message: string;
+}
+
+export interface TriageKnowledge {
+  // Bump with every change to the table, so a saved triage can be traced
+  // to the rules that produced it
+  version: number;
+  conditions: TriageCondition[];
+  redFlags: RedFlagRule[];
+  // Risk level from the user's own rating of how bad it is
+  severityRisk: Record<SeverityOption, Level>;
+  homeRemedies: string[];
+  whenToSeekHelp: string[];
+  generalAdvice: string[];
+  preventionTips: string[];
+}
+
+export const TRIAGE_KNOWLEDGE: TriageKnowledge = {
+  version: 2,
+  conditions: [
+    {
+      id: 'cholera',
+      name: 'Cholera',
+      description:
+        'Bacterial infection causing sudden, profuse watery diarrhoea that can dehydrate within hours. Usually little or no fever.',
+      severity: 'high',
+      commonDuration: '1-5 days; dangerous dehydration can set in within hours',
+      waterSource: 'Water or food contaminated with sewage, especially after floods',
+      symptoms: {
+        severe_diarrhea: 5,
+        dehydration: 4,
+        vomiting: 3,
+        muscle_cramps: 3,
+        loose_stools: 2,
+        rapid_heartbeat: 2,
+        dizziness: 1,
+        weakness: 1,
+        fever: -2,
+        high_fever: -3,
+      },
+      duration: { 'Less than 24 hours': 2, '1-3 days': 2, 'More than a week': -2, 'More than a month': -3 },
+      waterExposure: {
+        'River/lake water': 3,
+        'Well water': 2,
+        'Street vendor water': 2,
+        'Tap water': 1,
+        'Bottled water': -1,
+        'No unusual water consumption': -2,
+      },
+      recentTravel: { 'International travel': 1, 'Ate street food': 1, 'Attended events/gatherings': 1 },
+      requiresAny: ['severe_diarrhea', 'loose_stools'],
+      advice: ['💧 Start Oral Rehydration Solution (ORS) now and keep sipping after every loose stool'],
+    },
+    {
+      id: 'typhoid',
+      name: 'Typhoid Fever',
+      description:
+        'Salmonella Typhi infection with a fever that climbs over several days, headache, stomach pain and loss of appetite. Needs antibiotics.',
+      severity: 'high',
+      commonDuration: '1-3 weeks; needs antibiotics from a doctor',
+      waterSource: 'Drinking water or food contaminated by an infected person',
+      symptoms: {
+        high_fever: 5,
+        fever: 3,
+        headache: 3,
+        stomach_pain: 2,
+        loss_appetite: 2,
+        weakness: 2,
+        fatigue: 2,
+        constipation: 2,
+        loose_stools: 1,
+        chills: 1,
+        rash: 1,
+      },
+      duration: { 'Less than 24 hours': -2, '4-7 days': 3, 'More than a week': 3, 'More than a month': 1 },
+      waterExposure: {
+        'Street vendor water': 3,
+        'Well water': 2,
+        'River/lake water': 2,
+        'Tap water': 1,
+        'Bottled water': -1,
+        'No unusual water consumption': -1,
+      },
+      recentTravel: { 'Ate street food': 2, 'International travel': 2, 'Traveled within country': 1 },
+      requiresAny: ['high_fever', 'fever'],
+      advice: ['🌡️ Keep a record of your temperature morning and evening to show the doctor'],
+    },
+    {
+      id: 'hepatitis',
+      name: 'Hepatitis A or E',
+      description:
+        'Viral liver infection with yellowing of the skin or eyes, dark urine, tiredness and nausea. Hepatitis E is especially dangerous in pregnancy.',
+      severity: 'high',
+      commonDuration: 'Several weeks; jaundice can last 2-8 weeks',
+      waterSource: 'Water or food contaminated with faeces, common in monsoon season',
+      symptoms: {
+        jaundice: 6,
+        dark_urine: 5,
+        fatigue: 2,
+        loss_appetite: 2,
+        nausea: 2,
+        stomach_pain: 1,
+        vomiting: 1,
+        fever: 1,
+        joint_pain: 1,
+      },
+      duration: { 'Less than 24 hours': -1, '1-3 days': 1, '4-7 days': 2, 'More than a week': 2, 'More than a month': 1 },
+      waterExposure: {
+        'Well water': 2,
+        'River/lake water': 2,
+        'Street vendor water': 2,
+        'Tap water': 1,
+        'Bottled water': -1,
+      },
+      recentTravel: { 'Ate street food': 2, 'International travel': 1, 'Traveled within country': 1 },
+      requiresAny: ['jaundice', 'dark_urine'],
+      advice: ['🚫 Avoid alcohol and any medicine not prescribed by a doctor, including paracetamol, to spare the liver'],
+    },
+    {
+      id: 'giardiasis',
+      name: 'Giardiasis',
+      description:
+        'Parasite infection of the gut causing greasy, loose stools, gas, bloating and cramps that can drag on for weeks.',
+      severity: 'medium',
+      commonDuration: '2-6 weeks without treatment',
+      waterSource: 'Untreated well, river or lake water; the parasite survives chlorination',
+      symptoms: {
+        loose_stools: 3,
+        gas: 3,
+        bloating: 3,
+        stomach_cramps: 2,
+        severe_diarrhea: 1,
+        nausea: 1,
+        fatigue: 1,
+        loss_appetite: 1,
+        fever: -1,
+        high_fever: -2,
+      },
+      duration: { 'Less than 24 hours': -2, '4-7 days': 2, 'More than a week': 3, 'More than a month': 3 },
+      waterExposure: {
+        'River/lake water': 3,
+        'Well water': 2,
+        'Tap water': 1,
+        'Street vendor water': 1,
+        'Bottled water': -1,
+      },
+      recentTravel: { 'International travel': 1, 'Traveled within country': 1 },
+      requiresAny: ['loose_stools', 'severe_diarrhea', 'gas', 'bloating'],
+      advice: ['🥛 Cut down on milk and dairy for a few weeks; the infection often leaves them hard to digest'],
+    },
+    {
+      id: 'amoebiasis',
+      name: 'Amoebiasis',
+      description:
+        'Amoeba infection of the gut with stomach pain and diarrhoea, sometimes with blood or mucus. Can spread to the liver if untreated.',
+      severity: 'medium',
+      commonDuration: '1-4 weeks; needs treatment to clear the parasite',
+      waterSource: 'Water or raw food contaminated with faeces',
+      symptoms: {
+        blood_in_stool: 4,
+        stomach_pain: 3,
+        loose_stools: 2,
+        severe_diarrhea: 2,
+        stomach_cramps: 2,
+        fever: 1,
+        fatigue: 1,
+        weakness: 1,
+        loss_appetite: 1,
+      },
+      duration: { 'Less than 24 hours': -2, '4-7 days': 2, 'More than a week': 3, 'More than a month': 2 },
+      waterExposure: {
+        'River/lake water': 2,
+        'Well water': 2,
+        'Street vendor water': 2,
+        'Tap water': 1,
+        'Bottled water': -1,
+      },
+      recentTravel: { 'Ate street food': 2, 'International travel': 1 },
+      requiresAny: ['loose_stools', 'severe_diarrhea', 'blood_in_stool'],
+      advice: ['🩸 Check your stools for blood or mucus and tell the doctor if you see any'],
+    },
+    {
+      id: 'dengue',
+      name: 'Dengue Fever',
+      description:
+        'Mosquito-borne viral fever with severe headache, pain behind the eyes, joint and muscle pain and sometimes a rash.',
+      severity: 'high',
+      commonDuration: '5-7 days; watch closely as the fever falls',
+      waterSource: 'Not from drinking water: spread by mosquitoes that breed in stagnant water around homes',
+      symptoms: {
+        high_fever: 5,
+        joint_pain: 4,
+        headache: 3,
+        rash: 3,
+        fever: 2,
+        chills: 1,
+        muscle_cramps: 1,
+        fatigue: 1,
+        nausea: 1,
+        vomiting: 1,
+        loose_stools: -1,
+        severe_diarrhea: -2,
+      },
+      duration: { 'Less than 24 hours': 1, '1-3 days': 2, '4-7 days': 2, 'More than a month': -2 },
+      recentTravel: { 'Traveled within country': 1, 'International travel': 1, 'Attended events/gatherings': 1 },
+      requiresAny: ['high_fever', 'fever'],
+      advice: ['💊 Use paracetamol for fever, never ibuprofen or aspirin, which can worsen bleeding in dengue'],
+    },
+    {
+      id: 'gastroenteritis',
+      name: 'Acute Gastroenteritis',
+      description:
+        'Stomach and gut infection from bacteria such as E. coli, Salmonella or Shigella, or viruses such as norovirus, with vomiting, diarrhoea and cramps.',
+      severity: 'medium',
+      commonDuration: '1-5 days',
+      waterSource: 'Contaminated water, or food washed or prepared with it',
+      symptoms: {
+        vomiting: 3,
+        loose_stools: 3,
+        stomach_cramps: 3,
+        severe_diarrhea: 2,
+        nausea: 2,
+        stomach_pain: 2,
+        fever: 2,
+        chills: 1,
+        loss_appetite: 1,
+        dehydration: 1,
+        blood_in_stool: 1,
+        jaundice: -3,
+      },
+      duration: { 'Less than 24 hours': 2, '1-3 days': 3, '4-7 days': 1, 'More than a week': -1, 'More than a month': -2 },
+      waterExposure: { 'River/lake water': 2, 'Street vendor water': 2, 'Tap water': 1, 'Well water': 1 },
+      recentTravel: {
+        'Ate street food': 3,
+        'Ate at restaurants': 2,
+        'Attended events/gatherings': 2,
+        'International travel': 1,
+      },
+      requiresAny: ['vomiting', 'loose_stools', 'severe_diarrhea', 'nausea'],
+      advice: ['🍌 Eat small, plain meals such as rice, bananas and toast once the vomiting settles'],
+    },
+  ],
+  redFlags: [
+    {
+      id: 'severe_dehydration',
+      allOf: ['dehydration'],
+      anyOf: ['severe_diarrhea', 'vomiting', 'dizziness', 'rapid_heartbeat'],
+      riskLevel: 'high',
+      message: '🚨 IMMEDIATE: Signs of severe dehydration. Go to a health centre now and keep drinking ORS on the way',
+    },
+    {
+      id: 'jaundice_dark_urine',
+      allOf: ['jaundice', 'dark_urine'],
+      riskLevel: 'high',
+      message: '🚨 URGENT: Yellow skin or eyes with dark urine point to a liver infection. See a doctor within 24 hours',
+    },
+    {
+      id: 'persistent_high_fever',
+      allOf: ['high_fever'],
+      duration: ['4-7 days', 'More than a week', 'More than a month'],
+      riskLevel: 'high',
+      message: '🚨 URGENT: A high fever lasting more than 3 days needs a doctor and a blood test for typhoid or dengue',
+    },
+    {
+      id: 'fever_with_rash',
+      allOf: ['rash'],
+      anyOf: ['high_fever', 'fever'],
+      riskLevel: 'high',
+      message: '⚠️ URGENT: Fever with a rash can be dengue. See a doctor, and go immediately if you notice bleeding gums or black stools',
+    },
+    {
+      id: 'blood_in_stool',
+      allOf: ['blood_in_stool'],
+      riskLevel: 'high',
+      message: '🩸 URGENT: Blood in stool (dysentery) needs prescribed treatment. See a doctor today',
+    },
+    {
+      id: 'critical_severity',
+      severity: ['Critical (unbearable)'],
+      riskLevel: 'high',
+      message: '🚨 IMMEDIATE: You rated your symptoms as unbearable. Get medical help now',
+    },
+    {
+      id: 'chronic_diarrhoea',
+      anyOf: ['loose_stools', 'severe_diarrhea'],
+      duration: ['More than a week', 'More than a month'],
+      riskLevel: 'medium',
+      message: '⚠️ Diarrhoea lasting more than a week needs a stool test to find the cause',
+    },
+  ],
+  severityRisk: {
+    'Mild (manageable)': 'low',
+    'Moderate (concerning)': 'medium',
+    'Severe (very uncomfortable)': 'medium',
+    'Critical (unbearable)': 'high',
+  },
+  homeRemedies: [
+    '💧 Oral Rehydration Solution (ORS): Mix 1 tsp salt + 2 tbsp sugar in 1 liter boiled water',
+    '🔥 Boil all drinking water for at least 1 minute before consumption',
+    '🏠 Rest and avoid strenuous activities to conserve energy',
+  ],
+  whenToSeekHelp: [
+    '🚨 IMMEDIATE: Signs of severe dehydration (dizziness, dry mouth, no urination for 8+ hours)',
+    '🩸 URGENT: Blood or mucus in stool or vomit',
+    '⏰ If symptoms persist or worsen after 48-72 hours of home treatment',
+    '👶 Special concern for children, elderly, pregnant women or anyone with a long-term illness',
+  ],
+  generalAdvice: [
+    '🚰 Water Safety: Only drink boiled, bottled, or properly treated water',
+    '🧼 Hand Hygiene: Wash hands frequently with soap for 20+ seconds',
+    '📊 Monitor symptoms: Track bowel movements, fluid intake and temperature',
+  ],
+  preventionTips: [
+    '💧 Water purification: Use water purification tablets or boiling',
+    '🧊 Avoid ice cubes from unknown water sources',
+    '🥗 Eat only thoroughly cooked hot foods',
+    '🦟 Empty standing water around the home each week so mosquitoes cannot breed',
+  ],
+};
@@ -0,0 +1,63 @@
+// What the user told the symptom checker
+export interface SymptomQuestionnaire {
+  duration: string;
+  severity: string;
+  waterExposure: string;
+  recentTravel: string;
+  additionalInfo: string;
+}
+
+// The assessment every provider answers with, whatever model is behind it
+export interface AIHealthAssessment {
+  possibleConditions: {
+    name: string;
+    probability: number;
+    description: string;
+    severity: string;
+    commonDuration?: string;
+    waterSource?: string;
+  }[];
+  riskLevel: 'low' | 'medium' | 'high';
+  homeRemedies: string[];
+  whenToSeekHelp: string[];
+  generalAdvice: string[];
+  preventionTips?: string[];
+  disclaimer: string;
+}
+
+export interface AssessmentRequest {
+  // Symptom names as shown to the user, e.g. "Severe Diarrhea"
+  symptoms: string[];
+  // The same symptoms as symptom checker ids, e.g. "severe_diarrhea", for
+  // the offline triage
+  symptomIds: string[];
+  questionnaire: SymptomQuestionnaire;
+}
+
+export type AssessmentProviderId = 'proxy' | 'local' | 'mock';
+
+// A second try after an answer failed validation: the answer and what was
+// wrong with it
+export interface AssessmentRepair {
+  response: string;
+  problems: string[];
+}
+
+// Something that can turn symptoms into an assessment: the model proxy, a
+// server on the local network, or canned answers
+export interface AssessmentProvider {
+  readonly id: AssessmentProviderId;
+  // Model or endpoint in use, for logs and the results screen
+  readonly model: string;
+  // Whether `assess` can be asked to correct an earlier answer
+  readonly canRepair: boolean;
+  // Whether it needs the internet; without it, the offline triage answers
+  // without trying
+  readonly needsInternet: boolean;
+  // False when a key or URL it needs is missing
+  isConfigured(): boolean;
+  // The answer as it came, meant to be an AIHealthAssessment as JSON but
+  // unchecked. With `repair`, the model is shown its earlier answer and
+  // asked to fix it.
+  assess(request: AssessmentRequest, repair?: AssessmentRepair): Promise<string>;
+}
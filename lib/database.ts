@@ -0,0 +1,147 @@
+import { AppwriteException, Models, Query } from 'appwrite';
+import {
+  databases,
+  DATABASE_ID,
+  POINTS_FUNCTION_ID,
+  USERS_COLLECTION_ID,
+  USER_ACHIEVEMENTS_COLLECTION_ID,
+  UserProfile,
+  UserAchievement,
+  UserLocation,
+} from './appwrite';
+import { executeFunction } from './functions';
+
+// Appwrite reports a missing document (or collection) with HTTP 404
+export const isNotFoundError = (error: unknown): boolean =>
+  error instanceof AppwriteException && error.code === 404;
+
+// Appwrite reports a duplicate document ID with HTTP 409
+export const isConflictError = (error: unknown): boolean =>
+  error instanceof AppwriteException && error.code === 409;
+
+export type UserProfileDocument = Models.Document & Omit<UserProfile, '$id'>;
+
+// The profile fields users may change themselves
+export type ProfileUpdate = Partial<Pick<UserProfile, 'name' | 'village' | 'district' | 'leaderboardOptOut' | 'pushTokens'>>;
+type UserAchievementDocument = Models.Document & Omit<UserAchievement, '$id'>;
+
+export const toUserProfile = (doc: UserProfileDocument): UserProfile => ({
+  $id: doc.$id,
+  name: doc.name,
+  email: doc.email,
+  userId: doc.userId,
+  points: doc.points ?? 0,
+  level: doc.level ?? 1,
+  reportsSubmitted: doc.reportsSubmitted ?? 0,
+  streak: doc.streak ?? 0,
+  lastActiveDate: doc.lastActiveDate ?? null,
+  streakFreezesPurchased: doc.streakFreezesPurchased ?? 0,
+  streakFreezesUsed: doc.streakFreezesUsed ?? 0,
+  totalEarned: doc.totalEarned ?? 0,
+  village: doc.village ?? null,
+  district: doc.district ?? null,
+  leaderboardOptOut: doc.leaderboardOptOut ?? false,
+  pushTokens: doc.pushTokens ?? [],
+  createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt,
+});
+
+const toUserAchievement = (doc: UserAchievementDocument): UserAchievement => ({
+  $id: doc.$id,
+  userId: doc.userId,
+  achievementId: doc.achievementId,
+  unlockedAt: doc.unlockedAt,
+  points: doc.points,
+});
+
+export class DatabaseService {
+  // Get a user's profile. Returns null when no profile exists yet;
+  // any other failure (network, permissions) is rethrown to the caller.
+  static async getUserProfile(userId: string): Promise<UserProfile | null> {
+    try {
+      const doc = await databases.getDocument<UserProfileDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: USERS_COLLECTION_ID,
+        documentId: userId,
+      });
+      return toUserProfile(doc);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      console.error('Error getting user profile:', error);
+      throw error;
+    }
+  }
+
+  // Create the profile for the freshly registered, signed-in user. The
+  // points function writes it, under the same ID as the auth account.
+  static async createUserProfile(
+    name: string,
+    location: UserLocation = { village: null, district: null }
+  ): Promise<UserProfile> {
+    try {
+      const { profile } = await executeFunction<{ profile: UserProfileDocument }>(POINTS_FUNCTION_ID, {
+        action: 'createProfile',
+        name,
+        ...location,
+      });
+      return toUserProfile(profile);
+    } catch (error) {
+      console.error('Error creating user profile:', error);
+      throw error;
+    }
+  }
+
+  // Change the signed-in user's own details. Points, level and streak are
+  // kept by the points function and cannot be set here.
+  static async updateUserProfile(updates: ProfileUpdate): Promise<UserProfile | null> {
+    try {
+      const { profile } = await executeFunction<{ profile: UserProfileDocument }>(POINTS_FUNCTION_ID, {
+        action: 'updateProfile',
+        updates,
+      });
+      return toUserProfile(profile);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      console.error('Error updating user profile:', error);
+      throw error;
+    }
+  }
+
+  // Get every achievement a user has unlocked, newest first
+  static async getUserAchievements(userId: string): Promise<UserAchievement[]> {
+    try {
+      const result = await databases.listDocuments<UserAchievementDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: USER_ACHIEVEMENTS_COLLECTION_ID,
+        queries: [Query.equal('userId', userId), Query.orderDesc('unlockedAt'), Query.limit(100)],
+      });
+      return result.documents.map(toUserAchievement);
+    } catch (error) {
+      console.error('Error getting user achievements:', error);
+      throw error;
+    }
+  }
+
+  // Check whether a user has already unlocked an achievement
+  static async isAchievementUnlocked(userId: string, achievementId: string): Promise<boolean> {
+    try {
+      const result = await databases.listDocuments<UserAchievementDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: USER_ACHIEVEMENTS_COLLECTION_ID,
+        queries: [
+          Query.equal('userId', userId),
+          Query.equal('achievementId', achievementId),
+          Query.limit(1),
+        ],
+      });
+      return result.total > 0;
+    } catch (error) {
+      console.error('Error checking achievement:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+// "12 seconds ago", "5 minutes ago", "3 hours ago", "2 days ago"
+export const formatAge = (timestamp: string | Date, now: Date = new Date()): string => {
+  const seconds = Math.max(0, Math.round((now.getTime() - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `${seconds} seconds ago`;
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return minutes === 1 ? '1 minute ago' : `${minutes} minutes ago`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+
+  const days = Math.round(hours / 24);
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+};
+
+// "350 m" or "2.4 km"
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
@@ -0,0 +1,27 @@
+import { AppwriteException } from 'appwrite';
+import { functions } from './appwrite';
+
+// Run an Appwrite Function as the signed-in user and return its JSON
+// answer. A refusal or failure is thrown as an AppwriteException with the
+// function's status code, so callers (and the outbox's retry rules) treat
+// it like any other Appwrite error.
+export const executeFunction = async <T>(functionId: string, body: object): Promise<T> => {
+  const execution = await functions.createExecution({ functionId, body: JSON.stringify(body) });
+
+  let data: { message?: string } | null = null;
+  try {
+    data = JSON.parse(execution.responseBody);
+  } catch {
+    // An empty or non-JSON body; the status code still says what happened
+  }
+
+  const status = execution.responseStatusCode;
+  if (execution.status === 'failed' || status >= 400 || !data) {
+    throw new AppwriteException(
+      data?.message ?? `${functionId} failed with status ${status}`,
+      status >= 400 ? status : 500,
+      'function_error'
+    );
+  }
+  return data as T;
+};
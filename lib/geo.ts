@@ -0,0 +1,32 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points (haversine formula)
+export const getDistanceMeters = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+// Latitude/longitude box around a point, for querying places near it. The
+// box is a little larger than the circle, so filter results by distance.
+export const getBounds = (center: Coordinates, radiusMeters: number) => {
+  const latDelta = radiusMeters / METERS_PER_DEGREE_LATITUDE;
+  const lonDelta = radiusMeters / (METERS_PER_DEGREE_LATITUDE * Math.max(Math.cos(toRadians(center.latitude)), 0.01));
+  return {
+    south: center.latitude - latDelta,
+    north: center.latitude + latDelta,
+    west: center.longitude - lonDelta,
+    east: center.longitude + lonDelta,
+  };
+};
@@ -0,0 +1,127 @@
+import { Coordinates, getDistanceMeters } from './geo';
+
+export interface HealthFacility {
+  id: string;
+  name: string;
+  // Primary and Community Health Centres are closest to villages; district
+  // and medical college hospitals take what they cannot treat
+  type: 'PHC' | 'CHC' | 'District Hospital' | 'Medical College';
+  district: string;
+  state: string;
+  location: Coordinates;
+  phone?: string;
+}
+
+// Bundled so the emergency screen works without a network. It lists each
+// Northeast state's main referral hospital only, and no phone numbers:
+// Primary and Community Health Centres are not bundled, because a wrong
+// address or number on the emergency screen costs time and none could be
+// checked against the states' NHM facility lists. The screen sends users
+// to 104 to find their nearest PHC instead. Each district listed here can
+// be chosen on that screen when location is off.
+export const HEALTH_FACILITIES: HealthFacility[] = [
+  {
+    id: 'gmch-guwahati',
+    name: 'Gauhati Medical College and Hospital',
+    type: 'Medical College',
+    district: 'Kamrup Metropolitan',
+    state: 'Assam',
+    location: { latitude: 26.1521, longitude: 91.7679 },
+  },
+  {
+    id: 'neigrihms-shillong',
+    name: 'NEIGRIHMS',
+    type: 'Medical College',
+    district: 'East Khasi Hills',
+    state: 'Meghalaya',
+    location: { latitude: 25.6093, longitude: 91.9441 },
+  },
+  {
+    id: 'rims-imphal',
+    name: 'Regional Institute of Medical Sciences',
+    type: 'Medical College',
+    district: 'Imphal West',
+    state: 'Manipur',
+    location: { latitude: 24.8155, longitude: 93.9268 },
+  },
+  {
+    id: 'agmc-agartala',
+    name: 'Agartala Government Medical College',
+    type: 'Medical College',
+    district: 'West Tripura',
+    state: 'Tripura',
+    location: { latitude: 23.8427, longitude: 91.2823 },
+  },
+  {
+    id: 'civil-hospital-aizawl',
+    name: 'Civil Hospital Aizawl',
+    type: 'District Hospital',
+    district: 'Aizawl',
+    state: 'Mizoram',
+    location: { latitude: 23.7307, longitude: 92.7173 },
+  },
+  {
+    id: 'naga-hospital-kohima',
+    name: 'Naga Hospital Authority',
+    type: 'District Hospital',
+    district: 'Kohima',
+    state: 'Nagaland',
+    location: { latitude: 25.6676, longitude: 94.1077 },
+  },
+  {
+    id: 'trihms-naharlagun',
+    name: 'Tomo Riba Institute of Health and Medical Sciences',
+    type: 'Medical College',
+    district: 'Papum Pare',
+    state: 'Arunachal Pradesh',
+    location: { latitude: 27.1040, longitude: 93.6960 },
+  },
+  {
+    id: 'stnm-gangtok',
+    name: 'STNM Multispeciality Hospital',
+    type: 'District Hospital',
+    district: 'Gangtok',
+    state: 'Sikkim',
+    location: { latitude: 27.3314, longitude: 88.6138 },
+  },
+];
+
+// Facilities nearest a point, closest first, with their distance
+export const getNearestFacilities = (
+  from: Coordinates,
+  count: number = 3,
+  facilities: HealthFacility[] = HEALTH_FACILITIES
+): { facility: HealthFacility; distanceKm: number }[] =>
+  facilities
+    .map(facility => ({ facility, distanceKm: getDistanceMeters(from, facility.location) / 1000 }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, count);
+
+// Closest to a village first
+const TYPE_ORDER: HealthFacility['type'][] = ['PHC', 'CHC', 'District Hospital', 'Medical College'];
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Districts with bundled facilities, by state, for choosing one when the
+// phone's location is unavailable
+export const getFacilityDistricts = (
+  facilities: HealthFacility[] = HEALTH_FACILITIES
+): { district: string; state: string }[] =>
+  [...new Map(facilities.map(({ district, state }) => [`${state}:${district}`, { district, state }])).values()]
+    .sort((a, b) => a.state.localeCompare(b.state) || a.district.localeCompare(b.district));
+
+// The bundled district a user typed into their profile, or null
+export const findFacilityDistrict = (
+  name: string | null | undefined,
+  facilities: HealthFacility[] = HEALTH_FACILITIES
+): string | null =>
+  name ? facilities.find(facility => normalizeName(facility.district) === normalizeName(name))?.district ?? null : null;
+
+// Facilities in a district, Primary Health Centres first
+export const getDistrictFacilities = (
+  district: string,
+  facilities: HealthFacility[] = HEALTH_FACILITIES
+): HealthFacility[] =>
+  facilities
+    .filter(facility => facility.district === district)
+    .sort((a, b) => TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || a.name.localeCompare(b.name));
@@ -0,0 +1,23 @@
+// cyrb53: a small, fast, well-distributed 53-bit string hash
+const hash53 = (input: string, seed: number): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// 28 hex characters that depend only on the key
+export const hashKey = (key: string): string => `${hash53(key, 0)}${hash53(key, 1)}`;
+
+// Appwrite document IDs are limited to 36 characters, so documents whose
+// identity is a longer natural key (user + reason + entity, say) use a
+// hash of it. The same key always maps to the same ID, which lets a
+// duplicate create fail with 409 instead of writing a second document.
+export const toStableDocumentId = (prefix: string, key: string): string =>
+  `${prefix}_${hashKey(key)}`;
@@ -0,0 +1,73 @@
+import { POINTS_FUNCTION_ID, UserProfile } from './appwrite';
+import { DatabaseService, isNotFoundError } from './database';
+import { executeFunction } from './functions';
+import { Clock, systemClock, toLocalDateKey } from './streak';
+
+export type LeaderboardWindow = 'weekly' | 'monthly' | 'allTime';
+export type LeaderboardScope = 'everyone' | 'village' | 'district';
+
+// Shown instead of the name of users who opted out of the leaderboard
+export const ANONYMOUS_NAME = 'Anonymous';
+
+export interface LeaderboardEntry {
+  // The user's ID, or for users who opted out an ID that only marks their
+  // place on the board
+  id: string;
+  // Users with equal points share a rank (1, 2, 2, 4)
+  rank: number;
+  name: string;
+  // Points earned in the window; spending rewards never lowers them
+  points: number;
+  level: number;
+  reportsSubmitted: number;
+  isCurrentUser: boolean;
+  anonymous: boolean;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  // The signed-in user's own row, whether or not it is on this page
+  currentUser: LeaderboardEntry | null;
+  // Offset of the next page, or null on the last page
+  nextOffset: number | null;
+}
+
+// Whether the user registered a location for this scope
+export const isScopeAvailable = (scope: LeaderboardScope, profile: UserProfile): boolean =>
+  scope === 'everyone' || !!profile[scope];
+
+export class LeaderboardService {
+  // One page of the leaderboard for the signed-in user. All-time ranks
+  // users by the points they have ever earned; weekly and monthly by what
+  // they earned since Monday or the 1st, counted by the local day of each
+  // award. Village and district scopes compare against the location the
+  // user registered with. Profiles are private, so the points function
+  // builds the page.
+  static async getPage(
+    window: LeaderboardWindow,
+    scope: LeaderboardScope,
+    offset = 0,
+    clock: Clock = systemClock
+  ): Promise<LeaderboardPage> {
+    try {
+      return await executeFunction<LeaderboardPage>(POINTS_FUNCTION_ID, {
+        action: 'leaderboard',
+        window,
+        scope,
+        offset,
+        activeDate: toLocalDateKey(clock()),
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return { entries: [], currentUser: null, nextOffset: null };
+      }
+      console.error('Error loading leaderboard:', error);
+      throw error;
+    }
+  }
+
+  // Hide (or show again) the signed-in user's name on every leaderboard
+  static async setOptOut(optOut: boolean): Promise<UserProfile | null> {
+    return DatabaseService.updateUserProfile({ leaderboardOptOut: optOut });
+  }
+}
@@ -0,0 +1,408 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Models, Permission, Query, Role } from 'appwrite';
+import { databases, DATABASE_ID, NOTIFICATIONS_COLLECTION_ID } from './appwrite';
+import { isConflictError, isNotFoundError } from './database';
+import { NOTIFICATION_CHANNELS, NotificationKind } from './pushNotifications';
+import { SyncQueue } from './syncQueue';
+
+// Notifications shown on this device, newest first
+const NOTIFICATIONS_KEY = 'notifications';
+// Older notifications are dropped beyond this, here and on the server
+const MAX_NOTIFICATIONS = 50;
+
+export type NotificationType = 'success' | 'warning' | 'error' | 'info';
+
+// What a notification is about. The notification center filters on it,
+// and a notification without a link opens its category's screen.
+export type NotificationCategory = NotificationKind | 'report' | 'system';
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationCategory, { label: string; route: string | null }> = {
+  alert: { label: 'Alerts', route: NOTIFICATION_CHANNELS.alert.url },
+  outbreak: { label: 'Outbreaks', route: NOTIFICATION_CHANNELS.outbreak.url },
+  report: { label: 'Reports', route: '/(tabs)/report' },
+  reward: { label: 'Rewards', route: NOTIFICATION_CHANNELS.reward.url },
+  system: { label: 'System', route: null },
+};
+
+// A screen in the app and its route params. Plain data rather than a
+// callback, so it survives being saved and synced to other devices.
+export interface NotificationLink {
+  route: string;
+  params?: Record<string, string>;
+}
+
+export interface NotificationAction extends NotificationLink {
+  label: string;
+}
+
+export interface AppNotification {
+  id: string;
+  // Who the notification belongs to; null if nobody was signed in yet
+  userId: string | null;
+  type: NotificationType;
+  category: NotificationCategory;
+  title: string;
+  message: string;
+  timestamp: string;
+  read: boolean;
+  // Notifications with the same key are merged into one, counted
+  groupKey?: string;
+  count: number;
+  // Screen a tap opens, if not the category's own
+  link?: NotificationLink;
+  // A button that opens another screen
+  action?: NotificationAction;
+}
+
+export type NewNotification = Pick<AppNotification, 'type' | 'category' | 'title' | 'message'> &
+  Partial<Pick<AppNotification, 'groupKey' | 'link' | 'action'>>;
+
+type NotificationDocument = Models.Document & {
+  userId: string;
+  type: NotificationType;
+  category: NotificationCategory;
+  title: string;
+  message: string;
+  timestamp: string;
+  read: boolean;
+  groupKey: string | null;
+  count: number;
+  // NotificationLink and NotificationAction as JSON
+  link: string | null;
+  action: string | null;
+};
+
+type NotificationListener = (notifications: AppNotification[]) => void;
+
+// Screen a tap on the notification should open, if any
+export const getNotificationLink = (notification: AppNotification): NotificationLink | null => {
+  if (notification.link) return notification.link;
+  const { route } = NOTIFICATION_CATEGORIES[notification.category];
+  return route ? { route } : null;
+};
+
+// In-app URL for a link, e.g. "/(tabs)/map?reportId=abc". Links that are
+// not in-app paths give null, so a synced notification can never open an
+// arbitrary URL.
+export const toNotificationUrl = ({ route, params }: NotificationLink): string | null => {
+  if (!route.startsWith('/')) return null;
+  const query = Object.entries(params ?? {})
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return query ? `${route}?${query}` : route;
+};
+
+const parseJson = <T>(value: string | null): T | undefined => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const fromDocument = (doc: NotificationDocument): AppNotification => ({
+  id: doc.$id,
+  userId: doc.userId,
+  type: doc.type,
+  category: doc.category,
+  title: doc.title,
+  message: doc.message,
+  timestamp: doc.timestamp,
+  read: doc.read,
+  groupKey: doc.groupKey ?? undefined,
+  count: doc.count,
+  link: parseJson<NotificationLink>(doc.link),
+  action: parseJson<NotificationAction>(doc.action),
+});
+
+// Notifications saved before they had categories, or with an `onPress`
+// action that did not survive saving
+const fromSaved = (saved: any): AppNotification => ({
+  ...saved,
+  userId: saved.userId ?? null,
+  category: saved.category ?? 'system',
+  timestamp: new Date(saved.timestamp).toISOString(),
+  count: saved.count ?? 1,
+  action: saved.action?.route ? saved.action : undefined,
+});
+
+const byNewest = (a: AppNotification, b: AppNotification) => b.timestamp.localeCompare(a.timestamp);
+
+export class NotificationCenter {
+  private static notifications: AppNotification[] = [];
+  // The signed-in user, whose notifications are synced to the server
+  private static userId: string | null = null;
+  private static listeners = new Set<NotificationListener>();
+  private static loaded: Promise<void> | null = null;
+
+  // Be told the notifications now and whenever they change
+  static subscribe(listener: NotificationListener): () => void {
+    this.listeners.add(listener);
+    listener(this.notifications);
+    this.load().then(() => {
+      if (this.listeners.has(listener)) listener(this.notifications);
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A notification whose groupKey matches an earlier one replaces it at the
+  // top of the list and bumps its count, so repeats take a single slot
+  static async add(notification: NewNotification): Promise<AppNotification> {
+    await this.load();
+    const grouped = notification.groupKey
+      ? this.notifications.find(notif => notif.groupKey === notification.groupKey)
+      : undefined;
+
+    const added: AppNotification = {
+      ...notification,
+      id: grouped?.id ?? `notif_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      userId: this.userId,
+      timestamp: new Date().toISOString(),
+      read: false,
+      count: grouped ? grouped.count + 1 : 1,
+    };
+
+    const all = [added, ...this.notifications.filter(notif => notif !== grouped)];
+    await this.update(all.slice(0, MAX_NOTIFICATIONS));
+    await this.push({ type: 'saveNotification', payload: { notification: added } });
+    for (const dropped of all.slice(MAX_NOTIFICATIONS)) {
+      await this.push({ type: 'deleteNotification', payload: { notificationId: dropped.id } });
+    }
+    return added;
+  }
+
+  static async markRead(notificationId: string): Promise<void> {
+    await this.load();
+    const notification = this.notifications.find(notif => notif.id === notificationId);
+    if (!notification || notification.read) return;
+
+    const read = { ...notification, read: true };
+    await this.update(this.notifications.map(notif => (notif === notification ? read : notif)));
+    await this.push({ type: 'saveNotification', payload: { notification: read } });
+  }
+
+  static async markAllRead(): Promise<void> {
+    await this.load();
+    const unread = this.notifications.filter(notif => !notif.read);
+    await this.update(this.notifications.map(notif => ({ ...notif, read: true })));
+    for (const notification of unread) {
+      await this.push({ type: 'saveNotification', payload: { notification: { ...notification, read: true } } });
+    }
+  }
+
+  // Remove a notification here and on the user's other devices
+  static async dismiss(notificationId: string): Promise<void> {
+    await this.load();
+    await this.update(this.notifications.filter(notif => notif.id !== notificationId));
+    await this.push({ type: 'deleteNotification', payload: { notificationId } });
+  }
+
+  static async clear(): Promise<void> {
+    await this.load();
+    const cleared = this.notifications;
+    await this.update([]);
+    for (const notification of cleared) {
+      await this.push({ type: 'deleteNotification', payload: { notificationId: notification.id } });
+    }
+  }
+
+  // Follow the signed-in user: their notifications from other devices are
+  // fetched, and ones raised before anyone signed in become theirs. null
+  // on sign out clears the list from this device.
+  static async setUser(userId: string | null): Promise<void> {
+    await this.load();
+    this.userId = userId;
+    if (!userId) {
+      await this.update([]);
+      return;
+    }
+
+    const unclaimed = this.notifications
+      .filter(notif => notif.userId === null)
+      .map(notif => ({ ...notif, userId }));
+    await this.update([
+      ...unclaimed,
+      ...this.notifications.filter(notif => notif.userId === userId),
+    ].sort(byNewest));
+    for (const notification of unclaimed) {
+      await this.push({ type: 'saveNotification', payload: { notification } });
+    }
+    await this.refresh();
+  }
+
+  // Replace the list with the server's, keeping changes made on this
+  // device that have not been synced yet
+  static async refresh(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+    await this.load();
+
+    let remote: AppNotification[];
+    try {
+      const result = await databases.listDocuments<NotificationDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: NOTIFICATIONS_COLLECTION_ID,
+        queries: [
+          Query.equal('userId', userId),
+          Query.orderDesc('timestamp'),
+          Query.limit(MAX_NOTIFICATIONS),
+        ],
+      });
+      remote = result.documents.map(fromDocument);
+    } catch (error) {
+      // Offline or signed out meanwhile; the list on this device stands
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    if (this.userId !== userId) return;
+
+    const unsynced = new Map<string, AppNotification | null>();
+    (await SyncQueue.getPending()).forEach(mutation => {
+      if (mutation.type === 'saveNotification') {
+        unsynced.set(mutation.payload.notification.id, mutation.payload.notification);
+      } else if (mutation.type === 'deleteNotification') {
+        unsynced.set(mutation.payload.notificationId, null);
+      }
+    });
+
+    const merged = new Map(remote.map(notif => [notif.id, notif]));
+    unsynced.forEach((notification, id) => {
+      if (notification === null) {
+        merged.delete(id);
+      } else if (notification.userId === userId) {
+        // The newest local copy, not the queued one, in case it changed since
+        merged.set(id, this.notifications.find(notif => notif.id === id) ?? notification);
+      }
+    });
+    await this.update([...merged.values()].sort(byNewest).slice(0, MAX_NOTIFICATIONS));
+  }
+
+  // Write a notification to the server. Called by the sync queue.
+  static async upload(notification: AppNotification): Promise<void> {
+    if (!notification.userId) return;
+
+    const data = {
+      userId: notification.userId,
+      type: notification.type,
+      category: notification.category,
+      title: notification.title,
+      message: notification.message,
+      timestamp: notification.timestamp,
+      read: notification.read,
+      groupKey: notification.groupKey ?? null,
+      count: notification.count,
+      link: notification.link ? JSON.stringify(notification.link) : null,
+      action: notification.action ? JSON.stringify(notification.action) : null,
+    };
+
+    try {
+      await databases.createDocument({
+        databaseId: DATABASE_ID,
+        collectionId: NOTIFICATIONS_COLLECTION_ID,
+        documentId: notification.id,
+        data,
+        permissions: [
+          Permission.read(Role.user(notification.userId)),
+          Permission.update(Role.user(notification.userId)),
+          Permission.delete(Role.user(notification.userId)),
+        ],
+      });
+    } catch (error) {
+      if (!isConflictError(error)) {
+        console.error('Error uploading notification:', error);
+        throw error;
+      }
+      // Saved before; a grouped repeat or a change of read state
+      await databases.updateDocument({
+        databaseId: DATABASE_ID,
+        collectionId: NOTIFICATIONS_COLLECTION_ID,
+        documentId: notification.id,
+        data,
+      });
+    }
+  }
+
+  // Delete a notification from the server. Called by the sync queue.
+  static async remove(notificationId: string): Promise<void> {
+    try {
+      await databases.deleteDocument({
+        databaseId: DATABASE_ID,
+        collectionId: NOTIFICATIONS_COLLECTION_ID,
+        documentId: notificationId,
+      });
+    } catch (error) {
+      // Never synced, or already dismissed on another device
+      if (isNotFoundError(error)) return;
+      console.error('Error deleting notification:', error);
+      throw error;
+    }
+  }
+
+  // Queue a change for the server, if a signed-in user's notifications changed
+  private static async push(
+    mutation:
+      | { type: 'saveNotification'; payload: { notification: AppNotification } }
+      | { type: 'deleteNotification'; payload: { notificationId: string } }
+  ): Promise<void> {
+    if (!this.userId) return;
+    if (mutation.type === 'saveNotification' && mutation.payload.notification.userId !== this.userId) return;
+    await SyncQueue.enqueue(mutation).catch(error => console.error('Error queueing notification sync:', error));
+  }
+
+  private static async update(notifications: AppNotification[]): Promise<void> {
+    this.notifications = notifications;
+    this.listeners.forEach(listener => listener(notifications));
+    await AsyncStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(notifications))
+      .catch(error => console.error('Error saving notifications:', error));
+  }
+
+  // Restore the notifications saved by the last session
+  private static load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(NOTIFICATIONS_KEY)
+        .then(saved => {
+          if (saved) this.notifications = JSON.parse(saved).map(fromSaved);
+        })
+        .catch(error => console.error('Error loading notifications:', error));
+    }
+    return this.loaded;
+  }
+}
+
+// Utility function to add notifications
+export const addNotification = async (notification: NewNotification): Promise<AppNotification | null> => {
+  try {
+    return await NotificationCenter.add(notification);
+  } catch (error) {
+    console.error('Error adding notification:', error);
+    return null;
+  }
+};
+
+// Utility function to add reward notifications
+export const addRewardNotification = async (points: number, reason: string) => {
+  return addNotification({
+    type: 'success',
+    category: 'reward',
+    title: '🎉 Points Earned!',
+    message: `You earned ${points} points for ${reason}`,
+  });
+};
+
+// Utility function to add alert notifications
+export const addAlertNotification = async (
+  title: string,
+  message: string,
+  type: 'warning' | 'error' = 'warning',
+  category: NotificationCategory = 'alert'
+) => {
+  return addNotification({
+    type,
+    category,
+    title,
+    message,
+  });
+};
@@ -0,0 +1,233 @@
+import { Coordinates, getDistanceMeters } from '../geo';
+import { HealthSignal, OutbreakEvidence, OutbreakSignal } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScanOptions {
+  // Days of history that set what is normal for each district; signals
+  // older than this are ignored
+  studyDays: number;
+  // Longest recent stretch, ending now, that a cluster may span
+  maxWindowDays: number;
+  // Furthest from the district it centres on that a cluster may reach
+  maxRadiusKm: number;
+  // Fewest signals that can make a cluster
+  minSignals: number;
+  // Random reshuffles of the signals to judge the clusters against
+  replications: number;
+  // Clusters chance produces more often than this are not reported
+  alpha: number;
+  // Most clusters reported, strongest first
+  maxClusters: number;
+}
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  studyDays: 28,
+  maxWindowDays: 7,
+  maxRadiusKm: 15,
+  minSignals: 4,
+  replications: 99,
+  alpha: 0.05,
+  maxClusters: 5,
+};
+
+// Number generator in [0, 1). Pass a seeded one for repeatable scans.
+export type Random = () => number;
+
+// Districts within reach of one district, nearest (itself) first
+interface Zone {
+  members: number[];
+  distancesKm: number[];
+}
+
+interface Candidate {
+  center: number;
+  size: number;
+  windowDays: number;
+  observed: number;
+  expected: number;
+  llr: number;
+}
+
+// Log likelihood ratio of `observed` signals inside a cylinder where
+// `expected` were expected, out of `total`. Zero unless there is an excess.
+const getLogLikelihoodRatio = (observed: number, expected: number, total: number): number => {
+  if (observed <= expected) return 0;
+  const outside = total - observed;
+  return observed * Math.log(observed / expected) +
+    (outside > 0 ? outside * Math.log(outside / (total - expected)) : 0);
+};
+
+const buildZones = (centers: Coordinates[], maxRadiusKm: number): Zone[] =>
+  centers.map(center => {
+    const reachable = centers
+      .map((other, index) => ({ index, distanceKm: getDistanceMeters(center, other) / 1000 }))
+      .filter(({ distanceKm }) => distanceKm <= maxRadiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+    return {
+      members: reachable.map(({ index }) => index),
+      distancesKm: reachable.map(({ distanceKm }) => distanceKm),
+    };
+  });
+
+// Every cylinder: a district and its nearest neighbours, over the last
+// 1..maxWindowDays days. Calls `visit` with each that has an excess.
+const scanCylinders = (
+  districts: number[],
+  days: number[],
+  zones: Zone[],
+  districtTotals: number[],
+  windowTotals: number[],
+  options: ScanOptions,
+  visit: (candidate: Candidate) => void
+) => {
+  const total = districts.length;
+  // recent[district][d]: signals in the district over the last d days
+  const recent = districtTotals.map(() => new Array<number>(options.maxWindowDays + 1).fill(0));
+  districts.forEach((district, i) => {
+    for (let d = days[i] + 1; d <= options.maxWindowDays; d++) recent[district][d]++;
+  });
+
+  zones.forEach((zone, center) => {
+    let zoneTotal = 0;
+    const zoneRecent = new Array<number>(options.maxWindowDays + 1).fill(0);
+
+    zone.members.forEach((member, k) => {
+      zoneTotal += districtTotals[member];
+      for (let d = 1; d <= options.maxWindowDays; d++) {
+        zoneRecent[d] += recent[member][d];
+        const observed = zoneRecent[d];
+        if (observed < options.minSignals) continue;
+
+        // Under no outbreak, the zone's share of recent signals matches
+        // its share of the whole study period
+        const expected = (zoneTotal * windowTotals[d]) / total;
+        const llr = getLogLikelihoodRatio(observed, expected, total);
+        if (llr > 0) visit({ center, size: k + 1, windowDays: d, observed, expected, llr });
+      }
+    });
+  });
+};
+
+const shuffle = <T>(items: T[], random: Random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Find districts where health signals have recently come in faster than
+// usual, with a prospective space-time permutation scan (Kulldorff 2005).
+// Each district's own history sets its baseline, so no population figures
+// are needed; a rise across the whole area at once is not a cluster.
+// Significance comes from reshuffling the signals' days `replications`
+// times, so pass a seeded `random` for a repeatable result.
+export const scanForOutbreaks = (
+  signals: HealthSignal[],
+  now: Date,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+  random: Random = Math.random
+): OutbreakSignal[] => {
+  const end = now.getTime();
+  const start = end - options.studyDays * DAY_MS;
+  const included = signals.filter(signal => {
+    const time = new Date(signal.timestamp).getTime();
+    return time > start && time <= end;
+  });
+  if (included.length < options.minSignals) return [];
+
+  const districtIds: string[] = [];
+  const centers: Coordinates[] = [];
+  const indexes = new Map<string, number>();
+  const districts = included.map(signal => {
+    let index = indexes.get(signal.district);
+    if (index === undefined) {
+      index = districtIds.length;
+      indexes.set(signal.district, index);
+      districtIds.push(signal.district);
+      centers.push({ latitude: signal.latitude, longitude: signal.longitude });
+    }
+    return index;
+  });
+  // Whole days before now; 0 is the last 24 hours
+  const days = included.map(signal => Math.floor((end - new Date(signal.timestamp).getTime()) / DAY_MS));
+
+  // Both stay the same however the days are reshuffled
+  const districtTotals = districtIds.map(() => 0);
+  districts.forEach(district => districtTotals[district]++);
+  const windowTotals = Array.from({ length: options.maxWindowDays + 1 }, (_, d) =>
+    days.filter(day => day < d).length
+  );
+
+  const zones = buildZones(centers, options.maxRadiusKm);
+  const scan = (assignedDays: number[], visit: (candidate: Candidate) => void) =>
+    scanCylinders(districts, assignedDays, zones, districtTotals, windowTotals, options, visit);
+
+  const candidates: Candidate[] = [];
+  scan(days, candidate => candidates.push(candidate));
+  if (candidates.length === 0) return [];
+
+  // The strongest cluster chance alone produced in each reshuffle
+  const simulatedMaxima = Array.from({ length: options.replications }, () => {
+    let max = 0;
+    scan(shuffle(days, random), ({ llr }) => {
+      max = Math.max(max, llr);
+    });
+    return max;
+  });
+
+  // Report the strongest cluster, then the strongest that share no
+  // district with any reported so far
+  const covered = new Set<number>();
+  const clusters: OutbreakSignal[] = [];
+  for (const candidate of candidates.sort((a, b) => b.llr - a.llr)) {
+    if (clusters.length >= options.maxClusters) break;
+
+    const members = zones[candidate.center].members.slice(0, candidate.size);
+    if (members.some(member => covered.has(member))) continue;
+
+    const pValue = (1 + simulatedMaxima.filter(max => max >= candidate.llr).length) / (options.replications + 1);
+    if (pValue > options.alpha) break;
+    members.forEach(member => covered.add(member));
+
+    const memberIds = new Set(members.map(member => districtIds[member]));
+    const evidence: OutbreakEvidence = {
+      assessments: 0,
+      reports: 0,
+      syndromes: {},
+      districts: members.map(member => districtIds[member]),
+      signalIds: [],
+    };
+    included.forEach((signal, i) => {
+      if (!memberIds.has(signal.district) || days[i] >= candidate.windowDays) return;
+      evidence.signalIds.push(signal.id);
+      if (signal.source === 'report') evidence.reports++;
+      else evidence.assessments++;
+      if (signal.syndrome) evidence.syndromes[signal.syndrome] = (evidence.syndromes[signal.syndrome] ?? 0) + 1;
+    });
+
+    const { observed, expected } = candidate;
+    const outside = included.length - observed;
+    const windowStart = end - candidate.windowDays * DAY_MS;
+    clusters.push({
+      // Days since the epoch keep the id steady through one day's rescans
+      id: `outbreak_${districtIds[candidate.center]}_${Math.floor(windowStart / DAY_MS)}`,
+      district: districtIds[candidate.center],
+      center: centers[candidate.center],
+      radiusKm: zones[candidate.center].distancesKm[candidate.size - 1],
+      windowStart: new Date(windowStart).toISOString(),
+      windowEnd: now.toISOString(),
+      observed,
+      expected,
+      relativeRisk: outside > 0
+        ? (observed / expected) / (outside / (included.length - expected))
+        : observed / expected,
+      llr: candidate.llr,
+      pValue,
+      evidence,
+    });
+  }
+  return clusters;
+};
@@ -0,0 +1,89 @@
+import { ID } from 'appwrite';
+import { WaterReport } from '../appwrite';
+import { Coordinates } from '../geo';
+import { HealthSignal, Syndrome } from './types';
+
+// Districts are cells of this many degrees, about 11 km across at the
+// equator: coarse enough that a signal cannot be traced to a household
+export const DISTRICT_CELL_DEGREES = 0.1;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Symptom checker symptoms that point at each syndrome, strongest first
+const SYNDROME_SYMPTOMS: Record<Syndrome, string[]> = {
+  jaundice: ['jaundice', 'dark_urine'],
+  diarrhoeal: ['severe_diarrhea', 'blood_in_stool', 'loose_stools', 'vomiting', 'dehydration'],
+  febrile: ['high_fever', 'fever'],
+};
+
+// Fever only counts alongside a stomach complaint; on its own it is far
+// more often something unrelated to water
+const FEBRILE_COMPANIONS = ['stomach_pain', 'stomach_cramps', 'nausea', 'loss_appetite'];
+
+// Report types that say the water itself is unsafe
+export const CONTAMINATION_REPORT_TYPES: WaterReport['type'][] = ['contamination', 'quality'];
+
+export interface District {
+  id: string;
+  center: Coordinates;
+}
+
+// The district a place falls in
+export const getDistrict = ({ latitude, longitude }: Coordinates): District => {
+  const row = Math.floor(latitude / DISTRICT_CELL_DEGREES);
+  const column = Math.floor(longitude / DISTRICT_CELL_DEGREES);
+  return {
+    id: `${row}_${column}`,
+    center: {
+      latitude: Number(((row + 0.5) * DISTRICT_CELL_DEGREES).toFixed(4)),
+      longitude: Number(((column + 0.5) * DISTRICT_CELL_DEGREES).toFixed(4)),
+    },
+  };
+};
+
+const toHour = (timestamp: Date) => new Date(Math.floor(timestamp.getTime() / HOUR_MS) * HOUR_MS).toISOString();
+
+// The water-borne syndrome a set of symptoms most points at, if any
+export const getSyndrome = (symptomIds: string[]): Syndrome | null => {
+  if (SYNDROME_SYMPTOMS.jaundice.some(id => symptomIds.includes(id))) return 'jaundice';
+  if (SYNDROME_SYMPTOMS.diarrhoeal.some(id => symptomIds.includes(id))) return 'diarrhoeal';
+  if (
+    SYNDROME_SYMPTOMS.febrile.some(id => symptomIds.includes(id)) &&
+    FEBRILE_COMPANIONS.some(id => symptomIds.includes(id))
+  ) {
+    return 'febrile';
+  }
+  return null;
+};
+
+// Anonymise a symptom check. Checks that suggest nothing water-borne give
+// null and are never shared.
+export const fromAssessment = (symptomIds: string[], location: Coordinates, timestamp: Date): HealthSignal | null => {
+  const syndrome = getSyndrome(symptomIds);
+  if (!syndrome) return null;
+
+  const district = getDistrict(location);
+  return {
+    id: ID.unique(),
+    source: 'assessment',
+    syndrome,
+    district: district.id,
+    ...district.center,
+    timestamp: toHour(timestamp),
+  };
+};
+
+// A contamination report as a health signal, if it is one
+export const fromReport = (report: WaterReport): HealthSignal | null => {
+  if (!CONTAMINATION_REPORT_TYPES.includes(report.type) || report.status === 'rejected') return null;
+
+  const district = getDistrict(report.location);
+  return {
+    id: report.id,
+    source: 'report',
+    syndrome: null,
+    district: district.id,
+    ...district.center,
+    timestamp: toHour(report.timestamp),
+  };
+};
@@ -0,0 +1,202 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Models, Query } from 'appwrite';
+import * as Location from 'expo-location';
+import { databases, DATABASE_ID, HEALTH_SIGNALS_COLLECTION_ID, HEALTH_SIGNALS_FUNCTION_ID } from '../appwrite';
+import { executeFunction } from '../functions';
+import { Coordinates, getBounds, getDistanceMeters } from '../geo';
+import { addNotification, NotificationLink, toNotificationUrl } from '../notifications';
+import { PushNotifications } from '../pushNotifications';
+import { ReportsService } from '../reports';
+import { SyncQueue } from '../syncQueue';
+import { DEFAULT_SCAN_OPTIONS, scanForOutbreaks, ScanOptions } from './scan';
+import { CONTAMINATION_REPORT_TYPES, fromAssessment, fromReport, getDistrict } from './signals';
+import { HealthSignal, OutbreakSignal, Syndrome, SYNDROME_LABELS } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Signals are fetched from this far around the user, so clusters reaching
+// into the user's district from next door are still found
+const SEARCH_RADIUS_METERS = 50000;
+const MAX_SIGNALS = 2000;
+const SIGNAL_PAGE_SIZE = 100;
+// A scan around the same district is reused for this long
+const RESCAN_INTERVAL_MS = 30 * 60 * 1000;
+// Outbreaks the user was told about, by district, so a cluster found on
+// every scan is announced once
+const NOTIFIED_KEY = 'outbreaksNotified';
+const RENOTIFY_AFTER_MS = 3 * DAY_MS;
+// Only clusters that reach within this distance of the user are announced
+const NOTIFY_DISTANCE_KM = 10;
+
+type HealthSignalDocument = Models.Document & {
+  source: HealthSignal['source'];
+  syndrome: Syndrome | null;
+  district: string;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+};
+
+// The district is worked out again from the position rather than read
+const fromDocument = (doc: HealthSignalDocument): HealthSignal => ({
+  id: doc.$id,
+  source: doc.source,
+  syndrome: doc.syndrome,
+  district: getDistrict(doc).id,
+  latitude: doc.latitude,
+  longitude: doc.longitude,
+  timestamp: doc.timestamp,
+});
+
+// The evidence behind an outbreak in a sentence, e.g. "12 signals in 4 days
+// where 3.1 were expected: 10 symptom checks (diarrhoea or vomiting ×9,
+// jaundice ×1) and 2 contamination reports"
+export const describeOutbreak = (outbreak: OutbreakSignal): string => {
+  const { assessments, reports, syndromes } = outbreak.evidence;
+  const days = Math.round((new Date(outbreak.windowEnd).getTime() - new Date(outbreak.windowStart).getTime()) / DAY_MS);
+  const syndromeCounts = (Object.keys(syndromes) as Syndrome[])
+    .sort((a, b) => syndromes[b]! - syndromes[a]!)
+    .map(syndrome => `${SYNDROME_LABELS[syndrome]} ×${syndromes[syndrome]}`);
+
+  const parts = [
+    assessments > 0 && `${assessments} symptom check${assessments === 1 ? '' : 's'}${syndromeCounts.length ? ` (${syndromeCounts.join(', ')})` : ''}`,
+    reports > 0 && `${reports} contamination report${reports === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
+  return `${outbreak.observed} signals in ${days} day${days === 1 ? '' : 's'} where ${outbreak.expected.toFixed(1)} were expected: ${parts.join(' and ')}`;
+};
+
+// A name for the district around a point, e.g. "Andheri"
+const getDistrictName = async (center: Coordinates): Promise<string> => {
+  try {
+    const [place] = await Location.reverseGeocodeAsync(center);
+    const name = place?.district ?? place?.subregion ?? place?.city;
+    if (name) return name;
+  } catch {
+    // Not available on every platform; fall back to coordinates
+  }
+  return `around ${center.latitude.toFixed(1)}, ${center.longitude.toFixed(1)}`;
+};
+
+export class OutbreakSurveillance {
+  private static lastScan: { district: string; at: number; outbreaks: OutbreakSignal[] } | null = null;
+
+  // Share a symptom check, anonymised, if it suggests a water-borne
+  // illness. Needs location permission already granted; without it
+  // nothing is shared. Queued while offline.
+  static async recordAssessment(symptomIds: string[], timestamp: Date): Promise<HealthSignal | null> {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+
+    const position = await Location.getLastKnownPositionAsync()
+      ?? await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low });
+    const signal = fromAssessment(symptomIds, position.coords, timestamp);
+    if (!signal) return null;
+
+    await SyncQueue.enqueue({ type: 'submitHealthSignal', payload: { signal } });
+    return signal;
+  }
+
+  // Send a health signal to the health-signals function, which places it
+  // in its district and keeps one per user and day. Called by the sync
+  // queue; a replay is not stored twice.
+  static async upload(signal: HealthSignal): Promise<void> {
+    try {
+      await executeFunction<{ recorded: boolean }>(HEALTH_SIGNALS_FUNCTION_ID, {
+        syndrome: signal.syndrome,
+        latitude: signal.latitude,
+        longitude: signal.longitude,
+        timestamp: signal.timestamp,
+      });
+    } catch (error) {
+      console.error('Error uploading health signal:', error);
+      throw error;
+    }
+  }
+
+  // Symptom checks and contamination reports around a point over the
+  // scan's study period
+  static async fetchSignals(
+    center: Coordinates,
+    now: Date = new Date(),
+    options: ScanOptions = DEFAULT_SCAN_OPTIONS
+  ): Promise<HealthSignal[]> {
+    const bounds = getBounds(center, SEARCH_RADIUS_METERS);
+    const since = new Date(now.getTime() - options.studyDays * DAY_MS);
+
+    try {
+      const [assessments, reports] = await Promise.all([
+        this.fetchAssessments(bounds, since),
+        ReportsService.listReportsNear(bounds, since, CONTAMINATION_REPORT_TYPES),
+      ]);
+      return [...assessments, ...reports.flatMap(report => fromReport(report) ?? [])];
+    } catch (error) {
+      console.error('Error fetching health signals:', error);
+      throw error;
+    }
+  }
+
+  private static async fetchAssessments(bounds: ReturnType<typeof getBounds>, since: Date): Promise<HealthSignal[]> {
+    const signals: HealthSignal[] = [];
+    while (signals.length < MAX_SIGNALS) {
+      const result = await databases.listDocuments<HealthSignalDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: HEALTH_SIGNALS_COLLECTION_ID,
+        queries: [
+          Query.between('latitude', bounds.south, bounds.north),
+          Query.between('longitude', bounds.west, bounds.east),
+          Query.greaterThanEqual('timestamp', since.toISOString()),
+          Query.orderDesc('timestamp'),
+          Query.limit(SIGNAL_PAGE_SIZE),
+          Query.offset(signals.length),
+        ],
+      });
+      signals.push(...result.documents.map(fromDocument));
+      if (result.documents.length < SIGNAL_PAGE_SIZE) break;
+    }
+    return signals;
+  }
+
+  // Possible outbreaks around a point, and a notification for each new
+  // one near it. A recent scan of the same district is reused.
+  static async check(center: Coordinates, now: Date = new Date()): Promise<OutbreakSignal[]> {
+    const district = getDistrict(center).id;
+    if (this.lastScan?.district === district && now.getTime() - this.lastScan.at < RESCAN_INTERVAL_MS) {
+      return this.lastScan.outbreaks;
+    }
+
+    const signals = await this.fetchSignals(center, now);
+    const outbreaks = scanForOutbreaks(signals, now);
+    this.lastScan = { district, at: now.getTime(), outbreaks };
+
+    const nearby = outbreaks.filter(outbreak =>
+      getDistanceMeters(center, outbreak.center) / 1000 <= outbreak.radiusKm + NOTIFY_DISTANCE_KM
+    );
+    await this.notify(nearby, now);
+    return outbreaks;
+  }
+
+  private static async notify(outbreaks: OutbreakSignal[], now: Date): Promise<void> {
+    if (outbreaks.length === 0) return;
+
+    const saved = await AsyncStorage.getItem(NOTIFIED_KEY).catch(() => null);
+    const notified: Record<string, string> = saved ? JSON.parse(saved) : {};
+
+    for (const outbreak of outbreaks) {
+      const last = notified[outbreak.district];
+      if (last && now.getTime() - new Date(last).getTime() < RENOTIFY_AFTER_MS) continue;
+
+      const title = '🦠 Possible Outbreak Nearby';
+      const message = `${await getDistrictName(outbreak.center)}: ${describeOutbreak(outbreak)}. ` +
+        'Boil or treat drinking water, and see a doctor if you fall ill.';
+      const link: NotificationLink = { route: '/(tabs)/map', params: { outbreak: outbreak.id } };
+
+      await addNotification({ type: 'error', category: 'outbreak', title, message, groupKey: outbreak.id, link });
+      await PushNotifications.present('outbreak', title, message, toNotificationUrl(link) ?? undefined);
+      notified[outbreak.district] = now.toISOString();
+    }
+
+    await AsyncStorage.setItem(NOTIFIED_KEY, JSON.stringify(notified))
+      .catch(error => console.error('Error saving notified outbreaks:', error));
+  }
+}
@@ -0,0 +1,110 @@
+import { Coordinates } from '../geo';
+import { DISTRICT_CELL_DEGREES, getDistrict } from './signals';
+import { Random } from './scan';
+import { HealthSignal, HealthSignalSource, Syndrome } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Made-up health signals for trying the outbreak scan offline: steady
+// background illness over a square of districts, plus an optional outbreak
+export interface SyntheticScenario {
+  // Middle of the area
+  center: Coordinates;
+  // The area is this many districts wide and high
+  districtsAcross: number;
+  days: number;
+  // Average signals a day in each district, and the share that are
+  // contamination reports rather than symptom checks
+  backgroundPerDay: number;
+  reportShare: number;
+  outbreak?: {
+    // District offset from the middle one
+    rows: number;
+    columns: number;
+    // Runs over the last `days` days, adding this many signals a day
+    days: number;
+    perDay: number;
+    syndrome: Syndrome;
+  };
+}
+
+const BACKGROUND_SYNDROMES: Syndrome[] = ['diarrhoeal', 'diarrhoeal', 'febrile', 'jaundice'];
+
+// Deterministic numbers in [0, 1) from a seed (mulberry32), so a scenario
+// and the scan's reshuffles come out the same on every run
+export const createSeededRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Number of events in an interval that averages `mean` of them
+const samplePoisson = (mean: number, random: Random): number => {
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+};
+
+export const generateSyntheticSignals = (
+  scenario: SyntheticScenario,
+  now: Date,
+  random: Random
+): HealthSignal[] => {
+  const signals: HealthSignal[] = [];
+  const half = Math.floor(scenario.districtsAcross / 2);
+
+  const add = (rows: number, columns: number, daysAgo: number, source: HealthSignalSource, syndrome: Syndrome | null) => {
+    const district = getDistrict({
+      latitude: scenario.center.latitude + rows * DISTRICT_CELL_DEGREES,
+      longitude: scenario.center.longitude + columns * DISTRICT_CELL_DEGREES,
+    });
+    const hour = Math.floor(random() * 24);
+    const time = Math.floor((now.getTime() - daysAgo * DAY_MS) / HOUR_MS) * HOUR_MS - hour * HOUR_MS;
+    signals.push({
+      id: `synthetic_${signals.length + 1}`,
+      source,
+      syndrome,
+      district: district.id,
+      ...district.center,
+      timestamp: new Date(time).toISOString(),
+    });
+  };
+
+  for (let rows = -half; rows <= half; rows++) {
+    for (let columns = -half; columns <= half; columns++) {
+      for (let day = 0; day < scenario.days; day++) {
+        const count = samplePoisson(scenario.backgroundPerDay, random);
+        for (let i = 0; i < count; i++) {
+          if (random() < scenario.reportShare) {
+            add(rows, columns, day, 'report', null);
+          } else {
+            add(rows, columns, day, 'assessment', BACKGROUND_SYNDROMES[Math.floor(random() * BACKGROUND_SYNDROMES.length)]);
+          }
+        }
+      }
+    }
+  }
+
+  const { outbreak } = scenario;
+  if (outbreak) {
+    for (let day = 0; day < outbreak.days; day++) {
+      const count = samplePoisson(outbreak.perDay, random);
+      for (let i = 0; i < count; i++) {
+        add(outbreak.rows, outbreak.columns, day, 'assessment', outbreak.syndrome);
+      }
+    }
+  }
+
+  return signals;
+};
@@ -0,0 +1,60 @@
+import { Coordinates } from '../geo';
+
+// Illnesses spread by unsafe water, as a symptom checker can tell them
+// apart: acute watery diarrhoea (cholera and the like), acute jaundice
+// (hepatitis A and E) and fever with stomach upset (typhoid)
+export type Syndrome = 'diarrhoeal' | 'jaundice' | 'febrile';
+
+export const SYNDROME_LABELS: Record<Syndrome, string> = {
+  diarrhoeal: 'diarrhoea or vomiting',
+  jaundice: 'jaundice',
+  febrile: 'fever with stomach upset',
+};
+
+// Where a health signal came from
+export type HealthSignalSource = 'assessment' | 'report';
+
+// One piece of evidence of water-borne illness, stripped of anything that
+// identifies a person: no user, a place no finer than its district and a
+// time no finer than the hour
+export interface HealthSignal {
+  id: string;
+  source: HealthSignalSource;
+  // Reports say the water is bad, not that anyone is ill
+  syndrome: Syndrome | null;
+  district: string;
+  // Centre of the district, never the exact place
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+}
+
+// What the cluster statistic found in a district and its neighbours
+export interface OutbreakEvidence {
+  assessments: number;
+  reports: number;
+  syndromes: Partial<Record<Syndrome, number>>;
+  // Every district in the cluster, the one it centres on first
+  districts: string[];
+  signalIds: string[];
+}
+
+// A "possible outbreak": more signals in a few neighbouring districts over
+// the last few days than the area and the period would lead to expect
+export interface OutbreakSignal {
+  // Stable while the same cluster keeps being found
+  id: string;
+  district: string;
+  center: Coordinates;
+  radiusKm: number;
+  windowStart: string;
+  windowEnd: string;
+  observed: number;
+  expected: number;
+  relativeRisk: number;
+  // Log likelihood ratio of the cluster, and how often chance alone
+  // produced one as strong
+  llr: number;
+  pValue: number;
+  evidence: OutbreakEvidence;
+}
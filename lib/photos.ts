@@ -0,0 +1,82 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { AppwriteException } from 'appwrite';
+import { storage, REPORT_PHOTOS_BUCKET_ID } from './appwrite';
+import { isConflictError } from './database';
+
+// Longest edge of an uploaded photo, in pixels
+const MAX_PHOTO_DIMENSION = 1280;
+// JPEG quality used for uploads (0-1)
+const PHOTO_QUALITY = 0.7;
+// Upload attempts before giving up until the next outbox flush
+const MAX_UPLOAD_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Only connection problems, timeouts, rate limits and server errors are
+// worth retrying straight away
+const isTransientUploadError = (error: unknown): boolean =>
+  !(error instanceof AppwriteException) ||
+  error.code === 0 || error.code === 408 || error.code === 429 || error.code >= 500;
+
+export class PhotoService {
+  // Downscale a captured photo so its longest edge is at most
+  // MAX_PHOTO_DIMENSION and re-encode it as a compressed JPEG.
+  // Returns the URI of the compressed copy.
+  static async compress(uri: string): Promise<string> {
+    const original = await ImageManipulator.manipulate(uri).renderAsync();
+    const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(original.width, original.height));
+
+    const context = ImageManipulator.manipulate(original);
+    if (scale < 1) {
+      context.resize({
+        width: Math.round(original.width * scale),
+        height: Math.round(original.height * scale),
+      });
+    }
+
+    const image = await context.renderAsync();
+    const result = await image.saveAsync({ compress: PHOTO_QUALITY, format: SaveFormat.JPEG });
+    return result.uri;
+  }
+
+  // Upload a compressed photo under a fixed file ID, retrying transient
+  // failures with exponential backoff. Because the ID is chosen up front,
+  // an upload that already succeeded (but whose response was lost) is
+  // recognised on retry instead of creating a duplicate file.
+  static async upload(localUri: string, fileId: string): Promise<void> {
+    const blob = await (await fetch(localUri)).blob();
+    // React Native's FormData uploads straight from the file URI
+    const file = {
+      uri: localUri,
+      name: `${fileId}.jpg`,
+      type: 'image/jpeg',
+      size: blob.size,
+    } as unknown as File;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await storage.createFile({ bucketId: REPORT_PHOTOS_BUCKET_ID, fileId, file });
+        return;
+      } catch (error) {
+        if (isConflictError(error)) return;
+        if (attempt >= MAX_UPLOAD_ATTEMPTS || !isTransientUploadError(error)) {
+          console.error('Error uploading report photo:', error);
+          throw error;
+        }
+        await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  // URL of a square thumbnail for an uploaded photo
+  static getThumbnailUrl(fileId: string, size: number = 160): string {
+    return storage.getFilePreview({
+      bucketId: REPORT_PHOTOS_BUCKET_ID,
+      fileId,
+      width: size,
+      height: size,
+      quality: 70,
+    });
+  }
+}
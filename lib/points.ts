@@ -0,0 +1,114 @@
+import { Models, Query } from 'appwrite';
+import catalogue from '../functions/shared/catalogue.json';
+import {
+  databases,
+  DATABASE_ID,
+  POINTS_FUNCTION_ID,
+  POINTS_LEDGER_COLLECTION_ID,
+  PointsLedgerEntry,
+  UserProfile,
+} from './appwrite';
+import { toUserProfile, UserProfileDocument } from './database';
+import { executeFunction } from './functions';
+
+// Points needed to move up one level
+export const POINTS_PER_LEVEL = catalogue.pointsPerLevel;
+
+// Level is always derived from points earned, never stored independently
+export const calculateLevel = (points: number): number =>
+  Math.floor(Math.max(0, points) / POINTS_PER_LEVEL) + 1;
+
+interface PointRule {
+  points: number;
+  // Negative for purchases. Completes the sentence "You earned N points for ..."
+  label: string;
+  // Award at most once per local calendar day, whatever the entity
+  oncePerDay?: boolean;
+}
+
+// Every way to earn or spend points, and how many. Screens read them from
+// here for display; the points function pays from the same catalogue
+// (functions/shared/catalogue.json), so what is shown is what is paid.
+export const POINT_RULES = catalogue.pointRules satisfies Record<string, PointRule>;
+
+export type PointReason = keyof typeof POINT_RULES;
+
+export interface PointsAward {
+  // False when this reason/entity had already been awarded
+  awarded: boolean;
+  points: number;
+  profile: UserProfile | null;
+}
+
+type LedgerDocument = Models.Document & Omit<PointsLedgerEntry, '$id'>;
+
+// What the points function answers for a points award or purchase
+export type FunctionAward = Omit<PointsAward, 'profile'> & { profile: UserProfileDocument };
+
+// Points earned across some ledger entries. Spending does not reduce it,
+// and refunds give back spent points that were never newly earned.
+export const getEarnedPoints = (entries: Pick<PointsLedgerEntry, 'amount' | 'reason'>[]): number =>
+  entries
+    .filter(entry => !entry.reason.endsWith('_refund'))
+    .reduce((sum, entry) => sum + Math.max(0, entry.amount), 0);
+
+export class PointsService {
+  // Award points to the signed-in user for a reason in POINT_RULES.
+  // entityId is whatever earned them (a report, a sensor) and activeDate
+  // the local day it happened on. The points function checks the claim and
+  // writes the ledger; awarding the same reason for the same entity again
+  // (or a once-a-day reason on the same day) is a no-op.
+  static async award(reason: PointReason, entityId: string, activeDate: string): Promise<PointsAward> {
+    try {
+      const { awarded, points, profile } = await executeFunction<FunctionAward>(POINTS_FUNCTION_ID, {
+        action: 'award',
+        reason,
+        entityId,
+        activeDate,
+      });
+      return { awarded, points, profile: toUserProfile(profile) };
+    } catch (error) {
+      console.error('Error awarding points:', error);
+      throw error;
+    }
+  }
+
+  // A user's balance straight from the ledger. Unlike the profile's
+  // `points` this can be negative, which is how an overspend shows up.
+  static async getBalance(userId: string): Promise<number> {
+    const entries = await this.getLedger(userId);
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  // Every ledger entry for a user, oldest first
+  static async getLedger(userId: string): Promise<PointsLedgerEntry[]> {
+    return this.listEntries([Query.equal('userId', userId)]);
+  }
+
+  private static async listEntries(filters: string[]): Promise<PointsLedgerEntry[]> {
+    const entries: PointsLedgerEntry[] = [];
+    let cursor: string | undefined;
+
+    try {
+      for (;;) {
+        const queries = [...filters, Query.orderAsc('$createdAt'), Query.limit(100)];
+        if (cursor) queries.push(Query.cursorAfter(cursor));
+
+        const page = await databases.listDocuments<LedgerDocument>({
+          databaseId: DATABASE_ID,
+          collectionId: POINTS_LEDGER_COLLECTION_ID,
+          queries,
+        });
+        entries.push(...page.documents.map(({ $id, userId, amount, reason, entityId, idempotencyKey, createdAt }) => ({
+          $id, userId, amount, reason, entityId, idempotencyKey, createdAt,
+        })));
+
+        if (page.documents.length < 100) return entries;
+        cursor = page.documents[page.documents.length - 1].$id;
+      }
+    } catch (error) {
+      console.error('Error reading points ledger:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { DatabaseService } from './database';
+
+// Every kind of notification the app delivers outside the app. Each has
+// its own Android channel, so users can silence rewards and still hear
+// alerts, and a screen a tap opens.
+export type NotificationKind = 'reward' | 'alert' | 'outbreak';
+
+export const NOTIFICATION_CHANNELS: Record<NotificationKind, {
+  name: string;
+  description: string;
+  importance: Notifications.AndroidImportance;
+  url: string;
+}> = {
+  reward: {
+    name: 'Rewards',
+    description: 'Points, achievements and vouchers',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    url: '/(tabs)/rewards',
+  },
+  alert: {
+    name: 'Water quality alerts',
+    description: 'Unsafe readings from your water sensors',
+    importance: Notifications.AndroidImportance.MAX,
+    url: '/(tabs)/sensors',
+  },
+  outbreak: {
+    name: 'Outbreak warnings',
+    description: 'Clusters of water-borne illness reported near you',
+    importance: Notifications.AndroidImportance.MAX,
+    url: '/(tabs)/map',
+  },
+};
+
+// Devices a user can receive pushes on; the oldest token is dropped beyond this
+const MAX_PUSH_TOKENS = 5;
+
+// Payload every local and push notification carries, so a tap can open
+// the right screen
+export interface NotificationData {
+  kind: NotificationKind;
+  url: string;
+}
+
+// The in-app screen a tapped notification should open, if it names one
+export const getNotificationUrl = (notification: Notifications.Notification): string | null => {
+  const url = notification.request.content.data?.url;
+  // Only in-app paths; a push must never be able to open an arbitrary link
+  return typeof url === 'string' && url.startsWith('/') ? url : null;
+};
+
+export class PushNotifications {
+  private static token: string | null = null;
+
+  // Show notifications while the app is open and create the Android channels
+  static async setup(): Promise<void> {
+    if (Platform.OS === 'web') return;
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+        shouldShowBanner: true,
+        shouldShowList: true,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Promise.all(
+        (Object.keys(NOTIFICATION_CHANNELS) as NotificationKind[]).map(kind => {
+          const { name, description, importance } = NOTIFICATION_CHANNELS[kind];
+          return Notifications.setNotificationChannelAsync(kind, { name, description, importance });
+        })
+      );
+    }
+  }
+
+  // Ask for permission, get this device's Expo push token and add it to
+  // the user's profile. Returns the token, or null when pushes are not
+  // possible (web, permission denied, or no EAS project configured).
+  static async register(userId: string): Promise<string | null> {
+    if (Platform.OS === 'web') return null;
+
+    const { status: existingStatus } = await Notifications.getPermissionsAsync();
+    const { status } = existingStatus === 'granted'
+      ? { status: existingStatus }
+      : await Notifications.requestPermissionsAsync();
+    if (status !== 'granted') return null;
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    if (!projectId) {
+      console.warn('Push notifications need an EAS project ID (run `eas init`)');
+      return null;
+    }
+
+    try {
+      const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+      this.token = token;
+
+      const profile = await DatabaseService.getUserProfile(userId);
+      if (profile && !profile.pushTokens.includes(token)) {
+        await DatabaseService.updateUserProfile({
+          pushTokens: [...profile.pushTokens, token].slice(-MAX_PUSH_TOKENS),
+        });
+      }
+      return token;
+    } catch (error) {
+      console.error('Error registering for push notifications:', error);
+      throw error;
+    }
+  }
+
+  // Stop pushes to this device for a user who is signing out
+  static async unregister(userId: string): Promise<void> {
+    const token = this.token;
+    if (!token) return;
+
+    try {
+      const profile = await DatabaseService.getUserProfile(userId);
+      if (profile?.pushTokens.includes(token)) {
+        await DatabaseService.updateUserProfile({
+          pushTokens: profile.pushTokens.filter(saved => saved !== token),
+        });
+      }
+      this.token = null;
+    } catch (error) {
+      console.error('Error unregistering push token:', error);
+      throw error;
+    }
+  }
+
+  // Show a notification on this device now, on the kind's channel. A tap
+  // opens `url`, or the kind's usual screen.
+  static async present(kind: NotificationKind, title: string, body: string, url?: string): Promise<void> {
+    if (Platform.OS === 'web') return;
+
+    const data: NotificationData = { kind, url: url ?? NOTIFICATION_CHANNELS[kind].url };
+    try {
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body, data: { ...data } },
+        trigger: Platform.OS === 'android' ? { channelId: kind } : null,
+      });
+    } catch (error) {
+      console.error('Error presenting notification:', error);
+    }
+  }
+}
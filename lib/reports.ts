@@ -0,0 +1,285 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ID, Models, Query } from 'appwrite';
+import {
+  databases,
+  DATABASE_ID,
+  REPORTS_FUNCTION_ID,
+  WATER_REPORTS_COLLECTION_ID,
+  PhotoEvidence,
+  VoteType,
+  WaterReport,
+} from './appwrite';
+import { isConflictError } from './database';
+import { executeFunction } from './functions';
+
+// Device-local copy of the latest report list (also read by the map screen)
+const REPORTS_CACHE_KEY = 'waterReports';
+// Device-local record of how the user voted on each report, per user
+const MY_VOTES_KEY = 'reportVotes';
+// Set once the legacy device-only reports have been uploaded
+const MIGRATION_FLAG_KEY = 'waterReportsMigrated';
+// Sample reports the old screen seeded locally; these are never uploaded
+const LEGACY_SAMPLE_REPORT_IDS = ['report_001', 'report_002'];
+
+type WaterReportDocument = Models.Document & {
+  reporterId: string;
+  type: WaterReport['type'];
+  severity: WaterReport['severity'];
+  title: string;
+  description: string;
+  latitude: number;
+  longitude: number;
+  address?: string | null;
+  photos: string[];
+  photoEvidence?: string | null; // JSON-encoded PhotoEvidence[]
+  timestamp: string;
+  status: WaterReport['status'];
+  reporterPoints: number;
+  upvotes: number;
+  downvotes: number;
+};
+
+// A report's counts after the user's vote changes from `previous` (none
+// if they had not voted) to `vote`
+export const applyVote = (report: WaterReport, previous: VoteType | undefined, vote: VoteType): WaterReport => {
+  if (previous === vote) return report;
+  const counts = { up: report.upvotes, down: report.downvotes };
+  counts[vote] += 1;
+  if (previous) counts[previous] = Math.max(0, counts[previous] - 1);
+  return { ...report, upvotes: counts.up, downvotes: counts.down };
+};
+
+const parsePhotoEvidence = (json?: string | null): PhotoEvidence[] => {
+  if (!json) return [];
+  try {
+    return JSON.parse(json);
+  } catch {
+    return [];
+  }
+};
+
+export type NewWaterReport = Omit<WaterReport, 'id' | 'timestamp' | 'status' | 'upvotes' | 'downvotes'>;
+
+const toWaterReport = (doc: WaterReportDocument): WaterReport => ({
+  id: doc.$id,
+  reporterId: doc.reporterId,
+  type: doc.type,
+  severity: doc.severity,
+  title: doc.title,
+  description: doc.description,
+  location: {
+    latitude: doc.latitude,
+    longitude: doc.longitude,
+    address: doc.address ?? undefined,
+  },
+  photos: doc.photos ?? [],
+  photoEvidence: parsePhotoEvidence(doc.photoEvidence),
+  timestamp: new Date(doc.timestamp),
+  status: doc.status,
+  reporterPoints: doc.reporterPoints ?? 0,
+  upvotes: doc.upvotes ?? 0,
+  downvotes: doc.downvotes ?? 0,
+});
+
+// What the reports function takes for a new report. It sets the reporter,
+// status, points and votes itself.
+const toReportData = (report: NewWaterReport) => ({
+  type: report.type,
+  severity: report.severity,
+  title: report.title,
+  description: report.description,
+  latitude: report.location.latitude,
+  longitude: report.location.longitude,
+  address: report.location.address ?? null,
+  photos: report.photos,
+  photoEvidence: JSON.stringify(report.photoEvidence ?? []),
+});
+
+const parseCachedReports = (json: string): WaterReport[] =>
+  JSON.parse(json).map((report: any) => ({
+    ...report,
+    reporterId: report.reporterId ?? '',
+    photoEvidence: report.photoEvidence ?? [],
+    timestamp: new Date(report.timestamp),
+  }));
+
+export class ReportsService {
+  // Get the most recent community reports, newest first
+  static async listReports(limit: number = 50): Promise<WaterReport[]> {
+    try {
+      const result = await databases.listDocuments<WaterReportDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: WATER_REPORTS_COLLECTION_ID,
+        queries: [Query.orderDesc('timestamp'), Query.limit(limit)],
+      });
+      return result.documents.map(toWaterReport);
+    } catch (error) {
+      console.error('Error listing water reports:', error);
+      throw error;
+    }
+  }
+
+  // Reports of the given types inside a latitude/longitude box since a
+  // time, newest first
+  static async listReportsNear(
+    bounds: { south: number; west: number; north: number; east: number },
+    since: Date,
+    types: WaterReport['type'][],
+    limit: number = 500
+  ): Promise<WaterReport[]> {
+    try {
+      const result = await databases.listDocuments<WaterReportDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: WATER_REPORTS_COLLECTION_ID,
+        queries: [
+          Query.equal('type', types),
+          Query.between('latitude', bounds.south, bounds.north),
+          Query.between('longitude', bounds.west, bounds.east),
+          Query.greaterThanEqual('timestamp', since.toISOString()),
+          Query.orderDesc('timestamp'),
+          Query.limit(limit),
+        ],
+      });
+      return result.documents.map(toWaterReport);
+    } catch (error) {
+      console.error('Error listing nearby water reports:', error);
+      throw error;
+    }
+  }
+
+  // Create a new pending report by the signed-in user, with no votes.
+  // Reports queued while offline pass their own ID and the time they were
+  // written on the device; creating the same ID again returns the report
+  // already created.
+  static async createReport(
+    report: NewWaterReport,
+    reportId: string = ID.unique(),
+    timestamp: Date = new Date()
+  ): Promise<WaterReport> {
+    try {
+      const { report: doc } = await executeFunction<{ report: WaterReportDocument }>(REPORTS_FUNCTION_ID, {
+        action: 'create',
+        reportId,
+        report: toReportData(report),
+        timestamp: timestamp.toISOString(),
+      });
+      return toWaterReport(doc);
+    } catch (error) {
+      console.error('Error creating water report:', error);
+      throw error;
+    }
+  }
+
+  // Record the signed-in user's vote on a report. Each user has one vote
+  // per report: voting the other way switches it and voting the same way
+  // again changes nothing. The reports function keeps the votes and
+  // recounts the report from them, so a replayed or switched vote can
+  // never skew the counts.
+  static async voteOnReport(reportId: string, voteType: VoteType): Promise<WaterReport> {
+    try {
+      const { report } = await executeFunction<{ report: WaterReportDocument }>(REPORTS_FUNCTION_ID, {
+        action: 'vote',
+        reportId,
+        voteType,
+      });
+      return toWaterReport(report);
+    } catch (error) {
+      console.error('Error voting on water report:', error);
+      throw error;
+    }
+  }
+
+  // How the user has voted on each report from this device
+  static async getMyVotes(userId: string): Promise<Record<string, VoteType>> {
+    try {
+      const saved = await AsyncStorage.getItem(`${MY_VOTES_KEY}:${userId}`);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error('Error reading report votes:', error);
+      return {};
+    }
+  }
+
+  static async saveMyVotes(userId: string, votes: Record<string, VoteType>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${MY_VOTES_KEY}:${userId}`, JSON.stringify(votes));
+    } catch (error) {
+      console.error('Error saving report votes:', error);
+    }
+  }
+
+  // Mark reports verified on behalf of an authority, whose key the reports
+  // function checks. Last writer wins: a report modified on the server
+  // after `changedAt`, when the change was made on this device, is left
+  // as it is.
+  static async verifyReports(
+    reportIds: string[],
+    authorityKey: string,
+    changedAt: Date = new Date()
+  ): Promise<WaterReport[]> {
+    try {
+      const { reports } = await executeFunction<{ reports: WaterReportDocument[] }>(REPORTS_FUNCTION_ID, {
+        action: 'verify',
+        reportIds,
+        authorityKey,
+        changedAt: changedAt.toISOString(),
+      });
+      return reports.map(toWaterReport);
+    } catch (error) {
+      console.error('Error verifying water reports:', error);
+      throw error;
+    }
+  }
+
+  // Read the device-local copy of the report list
+  static async getCachedReports(): Promise<WaterReport[]> {
+    try {
+      const cached = await AsyncStorage.getItem(REPORTS_CACHE_KEY);
+      return cached ? parseCachedReports(cached) : [];
+    } catch (error) {
+      console.error('Error reading cached reports:', error);
+      return [];
+    }
+  }
+
+  // Replace the device-local copy of the report list
+  static async cacheReports(reports: WaterReport[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(REPORTS_CACHE_KEY, JSON.stringify(reports));
+    } catch (error) {
+      console.error('Error caching reports:', error);
+    }
+  }
+
+  // Upload reports that were only ever stored on this device, once, as
+  // the signed-in user's. The legacy report ID is reused as the document
+  // ID, so a migration interrupted halfway can safely run again on the
+  // next launch. They start again as pending, with no votes.
+  static async migrateLocalReports(): Promise<number> {
+    if (await AsyncStorage.getItem(MIGRATION_FLAG_KEY)) {
+      return 0;
+    }
+
+    const localReports = (await this.getCachedReports()).filter(
+      report => !LEGACY_SAMPLE_REPORT_IDS.includes(report.id)
+    );
+
+    let migrated = 0;
+    for (const report of localReports) {
+      try {
+        await this.createReport(report, report.id, report.timestamp);
+        migrated += 1;
+      } catch (error) {
+        // 409: someone else's report, cached from the server
+        if (isConflictError(error)) {
+          continue;
+        }
+        console.error('Error migrating water report:', error);
+        throw error;
+      }
+    }
+
+    await AsyncStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+    return migrated;
+  }
+}
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Models, Query } from 'appwrite';
+import {
+  databases,
+  DATABASE_ID,
+  POINTS_FUNCTION_ID,
+  REWARDS_CATALOG_COLLECTION_ID,
+  VOUCHERS_COLLECTION_ID,
+  RewardCatalogItem,
+  Voucher,
+  VoucherStatus,
+} from './appwrite';
+import { executeFunction } from './functions';
+
+// Device-local copies so the catalogue and vouchers show while offline
+const CATALOG_CACHE_KEY = 'rewardsCatalog';
+const VOUCHERS_CACHE_KEY = 'vouchers';
+
+type RewardDocument = Models.Document & Omit<RewardCatalogItem, '$id'>;
+type VoucherDocument = Models.Document & Omit<Voucher, '$id'>;
+
+const toReward = (doc: RewardDocument): RewardCatalogItem => ({
+  $id: doc.$id,
+  name: doc.name,
+  description: doc.description,
+  cost: doc.cost,
+  category: doc.category,
+  icon: doc.icon,
+  stock: doc.stock ?? 0,
+  expiryDate: doc.expiryDate ?? null,
+  active: doc.active ?? true,
+});
+
+const toVoucher = (doc: VoucherDocument): Voucher => ({
+  $id: doc.$id,
+  userId: doc.userId,
+  rewardId: doc.rewardId,
+  rewardName: doc.rewardName,
+  code: doc.code,
+  cost: doc.cost,
+  status: doc.status,
+  issuedAt: doc.issuedAt,
+  expiresAt: doc.expiresAt,
+  redeemedAt: doc.redeemedAt ?? null,
+  redeemedBy: doc.redeemedBy ?? null,
+});
+
+export const getVoucherStatus = (voucher: Voucher, now: Date = new Date()): VoucherStatus => {
+  if (voucher.status === 'used') return 'used';
+  return new Date(voucher.expiresAt) <= now ? 'expired' : 'active';
+};
+
+// functions/points/src/rewards.js makes the same check before a claim
+export const isRewardAvailable = (reward: RewardCatalogItem, now: Date = new Date()): boolean =>
+  reward.active && reward.stock > 0 && (!reward.expiryDate || new Date(reward.expiryDate) > now);
+
+export class RewardsService {
+  // Active rewards, cheapest first. Falls back to the last catalogue seen
+  // when the server cannot be reached.
+  static async getCatalog(): Promise<RewardCatalogItem[]> {
+    try {
+      const result = await databases.listDocuments<RewardDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: REWARDS_CATALOG_COLLECTION_ID,
+        queries: [Query.equal('active', true), Query.orderAsc('cost'), Query.limit(100)],
+      });
+      const catalog = result.documents.map(toReward);
+      await AsyncStorage.setItem(CATALOG_CACHE_KEY, JSON.stringify(catalog));
+      return catalog;
+    } catch (error) {
+      console.error('Error loading rewards catalogue:', error);
+      const cached = await AsyncStorage.getItem(CATALOG_CACHE_KEY);
+      if (cached) return JSON.parse(cached);
+      throw error;
+    }
+  }
+
+  // Every voucher issued to a user, newest first, with the same offline
+  // fallback as the catalogue
+  static async getVouchers(userId: string): Promise<Voucher[]> {
+    try {
+      const result = await databases.listDocuments<VoucherDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: VOUCHERS_COLLECTION_ID,
+        queries: [Query.equal('userId', userId), Query.orderDesc('issuedAt'), Query.limit(100)],
+      });
+      const vouchers = result.documents.map(toVoucher);
+      await AsyncStorage.setItem(VOUCHERS_CACHE_KEY, JSON.stringify(vouchers));
+      return vouchers;
+    } catch (error) {
+      console.error('Error loading vouchers:', error);
+      const cached = await AsyncStorage.getItem(VOUCHERS_CACHE_KEY);
+      if (cached) return (JSON.parse(cached) as Voucher[]).filter(voucher => voucher.userId === userId);
+      throw error;
+    }
+  }
+
+  // Redeem a reward for the signed-in user and return its voucher. The
+  // points function takes it from stock, debits the points and issues the
+  // voucher, undoing the earlier steps if a later one fails. redemptionId
+  // identifies the attempt; retrying it returns the voucher already issued
+  // instead of charging again.
+  static async redeem(rewardId: string, redemptionId: string): Promise<Voucher> {
+    try {
+      const { voucher } = await executeFunction<{ voucher: VoucherDocument }>(POINTS_FUNCTION_ID, {
+        action: 'redeem',
+        rewardId,
+        redemptionId,
+      });
+      return toVoucher(voucher);
+    } catch (error) {
+      console.error('Error redeeming reward:', error);
+      throw error;
+    }
+  }
+}
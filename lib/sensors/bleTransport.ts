@@ -0,0 +1,112 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import { BleManager, State } from 'react-native-ble-plx';
+import { base64ToBytes, WATER_SENSOR_SERVICE_UUID } from './frames';
+import { DiscoveredDevice, SensorTransport, Unsubscribe } from './types';
+
+const CONNECT_TIMEOUT_MS = 10000;
+// Bluetooth can take a moment to report itself powered on after launch
+const POWER_ON_TIMEOUT_MS = 5000;
+
+// Android 12 split Bluetooth access into its own permissions; older
+// versions gate scanning behind location instead
+const requestPermissions = async (): Promise<void> => {
+  if (Platform.OS !== 'android') return;
+
+  const permissions = Number(Platform.Version) >= 31
+    ? [PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN, PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT]
+    : [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION];
+  const results = await PermissionsAndroid.requestMultiple(permissions);
+
+  if (permissions.some(permission => results[permission] !== PermissionsAndroid.RESULTS.GRANTED)) {
+    throw new Error('Bluetooth permission is required to find and connect to sensors.');
+  }
+};
+
+// Sensors over Bluetooth Low Energy, through react-native-ble-plx
+export class BleTransport implements SensorTransport {
+  readonly kind = 'ble';
+
+  private manager = new BleManager();
+
+  async startScan(onDevice: (device: DiscoveredDevice) => void): Promise<void> {
+    await requestPermissions();
+    await this.waitForPowerOn();
+
+    await this.manager.startDeviceScan([WATER_SENSOR_SERVICE_UUID], { allowDuplicates: false }, (error, device) => {
+      if (error) {
+        console.error('Error scanning for sensors:', error);
+        return;
+      }
+      if (device) {
+        onDevice({ id: device.id, name: device.localName ?? device.name, rssi: device.rssi });
+      }
+    });
+  }
+
+  stopScan(): void {
+    this.manager.stopDeviceScan().catch(error => console.error('Error stopping sensor scan:', error));
+  }
+
+  async connect(deviceId: string): Promise<void> {
+    await requestPermissions();
+    await this.waitForPowerOn();
+
+    if (await this.manager.isDeviceConnected(deviceId)) return;
+    const device = await this.manager.connectToDevice(deviceId, { timeout: CONNECT_TIMEOUT_MS });
+    await device.discoverAllServicesAndCharacteristics();
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    if (await this.manager.isDeviceConnected(deviceId)) {
+      await this.manager.cancelDeviceConnection(deviceId);
+    }
+  }
+
+  subscribe(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    onValue: (value: Uint8Array) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    const subscription = this.manager.monitorCharacteristicForDevice(
+      deviceId,
+      serviceUuid,
+      characteristicUuid,
+      (error, characteristic) => {
+        if (error) {
+          onError(error);
+        } else if (characteristic?.value) {
+          onValue(base64ToBytes(characteristic.value));
+        }
+      }
+    );
+    return () => subscription.remove();
+  }
+
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void): Unsubscribe {
+    const subscription = this.manager.onDeviceDisconnected(deviceId, error => listener(error));
+    return () => subscription.remove();
+  }
+
+  private waitForPowerOn(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        subscription.remove();
+        reject(new Error('Turn on Bluetooth to connect to sensors.'));
+      }, POWER_ON_TIMEOUT_MS);
+
+      const subscription = this.manager.onStateChange(state => {
+        if (state === State.PoweredOn) {
+          clearTimeout(timeout);
+          subscription.remove();
+          resolve();
+        } else if (state === State.Unsupported || state === State.Unauthorized) {
+          clearTimeout(timeout);
+          subscription.remove();
+          reject(new Error('Bluetooth Low Energy is not available on this device.'));
+        }
+      }, true);
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { SENSOR_PARAMETERS, SensorParameter, SensorReading } from './types';
+
+// GATT layout of the water sensor. Every measurement is notified on the
+// one characteristic as an 8-byte frame:
+//
+//   byte 0     frame version (FRAME_VERSION)
+//   byte 1     parameter code (see PARAMETER_CODES)
+//   byte 2     flags; bit 0 set when the probe reports a fault
+//   byte 3     sequence number, wrapping at 255
+//   bytes 4-7  value in thousandths of the unit, signed 32-bit little endian
+export const WATER_SENSOR_SERVICE_UUID = 'f3a10001-5b7e-4a8e-9b1c-3c2d8a7e0a01';
+export const MEASUREMENT_CHARACTERISTIC_UUID = 'f3a10002-5b7e-4a8e-9b1c-3c2d8a7e0a01';
+
+export const FRAME_VERSION = 1;
+export const FRAME_LENGTH = 8;
+const FAULT_FLAG = 0x01;
+const VALUE_SCALE = 1000;
+
+const PARAMETER_CODES: Record<SensorParameter, number> = {
+  ph: 1,
+  turbidity: 2,
+  tds: 3,
+  temperature: 4,
+};
+
+// Values no probe of this kind can physically report; anything outside is
+// a corrupted frame rather than bad water
+const PLAUSIBLE_RANGES: Record<SensorParameter, [number, number]> = {
+  ph: [0, 14],
+  turbidity: [0, 4000],
+  tds: [0, 10000],
+  temperature: [-10, 100],
+};
+
+export class FrameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameError';
+  }
+}
+
+const toParameter = (code: number): SensorParameter | undefined =>
+  (Object.keys(PARAMETER_CODES) as SensorParameter[]).find(parameter => PARAMETER_CODES[parameter] === code);
+
+// Decode one measurement frame. Throws a FrameError for anything that is
+// not a well-formed frame, so a bad notification never becomes a reading.
+export const parseFrame = (bytes: Uint8Array, deviceId: string, receivedAt: Date = new Date()): SensorReading => {
+  if (bytes.length !== FRAME_LENGTH) {
+    throw new FrameError(`Expected a ${FRAME_LENGTH}-byte frame, got ${bytes.length} bytes`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(0);
+  if (version !== FRAME_VERSION) {
+    throw new FrameError(`Unsupported frame version ${version}`);
+  }
+
+  const parameter = toParameter(view.getUint8(1));
+  if (!parameter) {
+    throw new FrameError(`Unknown parameter code ${view.getUint8(1)}`);
+  }
+
+  const value = view.getInt32(4, true) / VALUE_SCALE;
+  const [min, max] = PLAUSIBLE_RANGES[parameter];
+  if (value < min || value > max) {
+    throw new FrameError(`${SENSOR_PARAMETERS[parameter].label} value ${value} is outside ${min}-${max}`);
+  }
+
+  return {
+    deviceId,
+    parameter,
+    value,
+    rawValue: value,
+    unit: SENSOR_PARAMETERS[parameter].unit,
+    timestamp: receivedAt.toISOString(),
+    sequence: view.getUint8(3),
+    fault: (view.getUint8(2) & FAULT_FLAG) !== 0,
+  };
+};
+
+// Build a measurement frame, as a sensor's firmware would
+export const encodeFrame = (parameter: SensorParameter, value: number, sequence: number, fault = false): Uint8Array => {
+  const bytes = new Uint8Array(FRAME_LENGTH);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, FRAME_VERSION);
+  view.setUint8(1, PARAMETER_CODES[parameter]);
+  view.setUint8(2, fault ? FAULT_FLAG : 0);
+  view.setUint8(3, sequence & 0xff);
+  view.setInt32(4, Math.round(value * VALUE_SCALE), true);
+  return bytes;
+};
+
+// BLE libraries hand characteristic values over as base64
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
@@ -0,0 +1,400 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { Models, Query } from 'appwrite';
+import {
+  account,
+  databases,
+  DATABASE_ID,
+  SENSOR_READINGS_COLLECTION_ID,
+  SENSOR_READINGS_FUNCTION_ID,
+} from '../appwrite';
+import { executeFunction } from '../functions';
+import { isOnline, isRetryableError } from '../syncQueue';
+import { SeriesBucket, SeriesBuilder } from './series';
+import { SENSOR_PARAMETERS, SensorParameter, SensorReading } from './types';
+
+// The sync cursor and which segments of readings are saved on this device
+const READINGS_KEY = 'sensorReadings';
+// Saved readings, SEGMENT_SIZE to a key by reading id, so a save only
+// rewrites the segments that gained readings since the last one
+const SEGMENT_KEY_PREFIX = 'sensorReadings:';
+const SEGMENT_SIZE = 500;
+// Readings kept on the device before the oldest is dropped. A sensor sends
+// each of its four parameters every 5 seconds, so this is about three and
+// a half hours of one sensor; charts fetch anything older from the server.
+export const READING_BUFFER_CAPACITY = 10000;
+// Readings arrive every few seconds; write them out in batches
+const SAVE_DELAY_MS = 30000;
+const SYNC_DELAY_MS = 30000;
+// Readings sent to the sensor-readings function in one request
+const UPLOAD_BATCH_SIZE = 100;
+const REMOTE_PAGE_SIZE = 500;
+
+// A reading numbered in arrival order, so the sync cursor is one number
+interface StoredReading extends SensorReading {
+  id: number;
+}
+
+// Readings are saved as tuples to keep a full buffer small:
+// [id, deviceId, parameter, timestamp, value, rawValue, sequence, fault]
+type SavedReading = [number, string, SensorParameter, string, number, number, number, 0 | 1];
+
+interface SavedStore {
+  nextId: number;
+  syncedThrough: number;
+  // Segments saved under SEGMENT_KEY_PREFIX, from first to last
+  firstSegment?: number;
+  lastSegment?: number;
+  // The whole buffer, as saved before readings were split into segments
+  readings?: SavedReading[];
+}
+
+// A reading as the server stores and returns it, without its unit
+type ReadingFields = Omit<SensorReading, 'unit'>;
+
+type SensorReadingDocument = Models.Document & ReadingFields & {
+  ownerId: string;
+  sensorId: string | null;
+};
+
+const toSaved = (reading: StoredReading): SavedReading => [
+  reading.id,
+  reading.deviceId,
+  reading.parameter,
+  reading.timestamp,
+  reading.value,
+  reading.rawValue,
+  reading.sequence,
+  reading.fault ? 1 : 0,
+];
+
+const fromSaved = ([id, deviceId, parameter, timestamp, value, rawValue, sequence, fault]: SavedReading): StoredReading => ({
+  id,
+  deviceId,
+  parameter,
+  timestamp,
+  value,
+  rawValue,
+  unit: SENSOR_PARAMETERS[parameter].unit,
+  sequence,
+  fault: fault === 1,
+});
+
+const segmentOf = (id: number): number => Math.floor((id - 1) / SEGMENT_SIZE);
+const segmentKey = (segment: number): string => `${SEGMENT_KEY_PREFIX}${segment}`;
+
+const segmentRange = (first: number, last: number): number[] =>
+  Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => first + i);
+
+const fromDocument = (doc: ReadingFields): SensorReading => ({
+  deviceId: doc.deviceId,
+  parameter: doc.parameter,
+  value: doc.value,
+  rawValue: doc.rawValue,
+  unit: SENSOR_PARAMETERS[doc.parameter].unit,
+  timestamp: doc.timestamp,
+  sequence: doc.sequence,
+  fault: doc.fault,
+});
+
+// Fixed-size buffer that overwrites its oldest item once full
+class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private head = 0;
+  private length = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  push(item: T): void {
+    this.items[(this.head + this.length) % this.capacity] = item;
+    if (this.length < this.capacity) {
+      this.length++;
+    } else {
+      this.head = (this.head + 1) % this.capacity;
+    }
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    return Array.from({ length: this.length }, (_, i) => this.items[(this.head + i) % this.capacity] as T);
+  }
+
+  oldest(): T | undefined {
+    return this.length > 0 ? this.items[this.head] : undefined;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.head = 0;
+    this.length = 0;
+  }
+}
+
+export class ReadingStore {
+  private static buffer = new RingBuffer<StoredReading>(READING_BUFFER_CAPACITY);
+  private static nextId = 1;
+  // Highest reading id known to be on the server
+  private static syncedThrough = 0;
+  // Highest reading id written to a saved segment, and the segments saved
+  private static savedThrough = 0;
+  private static savedSegments: { first: number; last: number } | null = null;
+  private static loaded: Promise<void> | null = null;
+  private static syncing: Promise<void> | null = null;
+  private static saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private static syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Keep a reading on the device and queue it for upload
+  static append(reading: SensorReading): void {
+    this.buffer.push({ ...reading, id: this.nextId++ });
+    this.scheduleSave();
+    this.scheduleSync();
+  }
+
+  // The newest readings from every sensor, newest first
+  static getRecent(limit: number): SensorReading[] {
+    return this.buffer.toArray().slice(-limit).reverse();
+  }
+
+  // One parameter from one sensor over [start, end), reduced to at most
+  // `buckets` slices. Readings older than anything kept on this device
+  // come from the server, a page at a time, however many there are.
+  static async getSeries(
+    deviceId: string,
+    parameter: SensorParameter,
+    start: Date,
+    end: Date,
+    buckets: number
+  ): Promise<SeriesBucket[]> {
+    await this.load();
+
+    const series = new SeriesBuilder(start, end, buckets);
+    const local: SensorReading[] = this.buffer.toArray().filter(reading =>
+      reading.deviceId === deviceId &&
+      reading.parameter === parameter &&
+      new Date(reading.timestamp) >= start
+    );
+    series.add(local);
+
+    const oldest = this.buffer.oldest();
+    if (!oldest || new Date(oldest.timestamp) > start) {
+      const before = local[0]?.timestamp ?? end.toISOString();
+      try {
+        await this.fetchRemote(deviceId, parameter, start.toISOString(), before, page => series.add(page));
+      } catch (error) {
+        console.error('Error fetching older sensor readings:', error);
+      }
+    }
+    return series.build();
+  }
+
+  // Every synced reading in [since, before), oldest first, handed to
+  // `onPage` as each page arrives
+  private static async fetchRemote(
+    deviceId: string,
+    parameter: SensorParameter,
+    since: string,
+    before: string,
+    onPage: (readings: SensorReading[]) => void
+  ): Promise<void> {
+    let cursor: string | undefined;
+    for (;;) {
+      const queries = [
+        Query.equal('deviceId', deviceId),
+        Query.equal('parameter', parameter),
+        Query.greaterThanEqual('timestamp', since),
+        Query.lessThan('timestamp', before),
+        Query.orderAsc('timestamp'),
+        Query.limit(REMOTE_PAGE_SIZE),
+      ];
+      if (cursor) queries.push(Query.cursorAfter(cursor));
+
+      const result = await databases.listDocuments<SensorReadingDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: SENSOR_READINGS_COLLECTION_ID,
+        queries,
+      });
+      onPage(result.documents.map(fromDocument));
+
+      if (result.documents.length < REMOTE_PAGE_SIZE) return;
+      cursor = result.documents[result.documents.length - 1].$id;
+    }
+  }
+
+  // Latest synced reading of each parameter from a sensor of the user's
+  // or one another user shares. Shared readings are only readable through
+  // the sensor-readings function, which checks the sensor is still shared.
+  static async fetchLatest(sensorId: string, since: Date): Promise<Partial<Record<SensorParameter, SensorReading>>> {
+    try {
+      const { readings } = await executeFunction<{ readings: Partial<Record<SensorParameter, ReadingFields>> }>(
+        SENSOR_READINGS_FUNCTION_ID,
+        { action: 'latest', sensorId, since: since.toISOString() }
+      );
+
+      const latest: Partial<Record<SensorParameter, SensorReading>> = {};
+      Object.values(readings).forEach(reading => {
+        latest[reading.parameter] = fromDocument(reading);
+      });
+      return latest;
+    } catch (error) {
+      console.error('Error fetching latest sensor readings:', error);
+      throw error;
+    }
+  }
+
+  // Upload every reading the server has not seen yet, in arrival order
+  // and UPLOAD_BATCH_SIZE at a time. Stops at the first failure worth
+  // retrying; batches the server rejects outright are skipped.
+  static sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.upload().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private static async upload(): Promise<void> {
+    await this.load();
+    if (!isOnline(await NetInfo.fetch())) return;
+
+    const pending = this.buffer.toArray().filter(reading => reading.id > this.syncedThrough);
+    if (pending.length === 0) return;
+
+    const user = await account.get().catch(() => null);
+    if (!user) return;
+
+    try {
+      for (let i = 0; i < pending.length; i += UPLOAD_BATCH_SIZE) {
+        const batch = pending.slice(i, i + UPLOAD_BATCH_SIZE);
+        try {
+          const { rejected } = await executeFunction<{ created: number; rejected: number }>(SENSOR_READINGS_FUNCTION_ID, {
+            action: 'upload',
+            readings: batch.map(({ deviceId, parameter, value, rawValue, sequence, fault, timestamp }) => ({
+              deviceId, parameter, value, rawValue, sequence, fault, timestamp,
+            })),
+          });
+          if (rejected > 0) {
+            console.error(`Dropped ${rejected} sensor readings the server rejected`);
+          }
+        } catch (error) {
+          if (isRetryableError(error)) throw error;
+          console.error('Dropping sensor readings that could not be synced:', error);
+        }
+        this.syncedThrough = batch[batch.length - 1].id;
+      }
+    } finally {
+      this.scheduleSave();
+    }
+  }
+
+  // Restore the buffer saved by the last session. Readings that arrived
+  // before it finished loading are kept after the restored ones.
+  static load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.restore().catch(error => console.error('Error loading sensor readings:', error));
+    }
+    return this.loaded;
+  }
+
+  private static async restore(): Promise<void> {
+    const saved = await AsyncStorage.getItem(READINGS_KEY);
+    if (!saved) return;
+    const store: SavedStore = JSON.parse(saved);
+
+    let readings: SavedReading[];
+    if (store.readings) {
+      // Saved whole by an earlier version; the next save splits it up
+      readings = store.readings;
+    } else {
+      const segments = segmentRange(store.firstSegment ?? 0, store.lastSegment ?? -1);
+      const values = await AsyncStorage.multiGet(segments.map(segmentKey));
+      readings = values.flatMap(([, value]) => (value ? (JSON.parse(value) as SavedReading[]) : []));
+      this.savedThrough = store.nextId - 1;
+      if (segments.length > 0) this.savedSegments = { first: segments[0], last: segments[segments.length - 1] };
+    }
+
+    const arrived = this.buffer.toArray();
+    this.buffer.clear();
+    readings.forEach(reading => this.buffer.push(fromSaved(reading)));
+    arrived.forEach(reading => this.buffer.push({ ...reading, id: reading.id + store.nextId - 1 }));
+    this.nextId += store.nextId - 1;
+    this.syncedThrough = store.syncedThrough;
+  }
+
+  // Load saved readings and upload them whenever the device is online.
+  // Returns a stop function that writes out anything unsaved.
+  static start(): () => void {
+    this.load().then(() => this.scheduleSync());
+    const unsubscribe = NetInfo.addEventListener(state => {
+      if (isOnline(state)) {
+        this.sync().catch(error => console.error('Error syncing sensor readings:', error));
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (this.syncTimer) clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+      if (this.saveTimer) {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        this.save().catch(error => console.error('Error saving sensor readings:', error));
+      }
+    };
+  }
+
+  private static scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => console.error('Error saving sensor readings:', error));
+    }, SAVE_DELAY_MS);
+  }
+
+  private static scheduleSync() {
+    if (this.syncTimer) return;
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.sync().catch(error => console.error('Error syncing sensor readings:', error));
+    }, SYNC_DELAY_MS);
+  }
+
+  // Write the segments holding readings added since the last save, and
+  // drop those whose readings have all left the buffer. Reading ids are
+  // consecutive, so each segment is a slice of the buffer.
+  private static async save(): Promise<void> {
+    // Never overwrite the saved buffer before it has been restored
+    await this.load();
+    const readings = this.buffer.toArray();
+    const lastId = this.nextId - 1;
+    const firstId = readings[0]?.id ?? this.nextId;
+    const first = segmentOf(firstId);
+    const last = segmentOf(lastId);
+
+    const changed = segmentRange(Math.max(first, segmentOf(this.savedThrough + 1)), last).map(
+      (segment): [string, string] => {
+        const from = Math.max(0, segment * SEGMENT_SIZE + 1 - firstId);
+        const to = (segment + 1) * SEGMENT_SIZE + 1 - firstId;
+        return [segmentKey(segment), JSON.stringify(readings.slice(from, to).map(toSaved))];
+      }
+    );
+    const store: SavedStore = {
+      nextId: lastId + 1,
+      syncedThrough: this.syncedThrough,
+      firstSegment: first,
+      lastSegment: last,
+    };
+    await AsyncStorage.multiSet([...changed, [READINGS_KEY, JSON.stringify(store)]]);
+
+    const stale = this.savedSegments ? segmentRange(this.savedSegments.first, Math.min(first - 1, this.savedSegments.last)) : [];
+    if (stale.length > 0) await AsyncStorage.multiRemove(stale.map(segmentKey));
+    this.savedThrough = lastId;
+    this.savedSegments = { first, last };
+  }
+}
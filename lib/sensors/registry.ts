@@ -0,0 +1,261 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Models, Permission, Query, Role } from 'appwrite';
+import {
+  account,
+  databases,
+  DATABASE_ID,
+  POINTS_FUNCTION_ID,
+  SENSORS_COLLECTION_ID,
+  ParameterCalibration,
+  Sensor,
+  SensorCalibration,
+} from '../appwrite';
+import { isNotFoundError } from '../database';
+import { executeFunction } from '../functions';
+import { SensorParameter, SensorReading } from './types';
+
+// Device-local copy of the signed-in user's sensors, so readings are
+// calibrated from the first frame after launch, even offline
+const REGISTRY_CACHE_KEY = 'sensorRegistry';
+
+export const IDENTITY_CALIBRATION: ParameterCalibration = { offset: 0, slope: 1 };
+
+export type NewSensor = Omit<Sensor, '$id' | 'ownerId' | 'createdAt' | 'updatedAt'>;
+
+type SensorDocument = Models.Document & {
+  ownerId: string;
+  deviceId: string;
+  name: string;
+  sensorType: Sensor['sensorType'];
+  waterSource: Sensor['waterSource'];
+  latitude?: number | null;
+  longitude?: number | null;
+  address?: string | null;
+  firmware?: string | null;
+  lastCalibratedAt?: string | null;
+  calibration?: string | null; // JSON-encoded SensorCalibration
+  shared?: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const parseCalibration = (json?: string | null): SensorCalibration => {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+};
+
+const toSensor = (doc: SensorDocument): Sensor => ({
+  $id: doc.$id,
+  ownerId: doc.ownerId,
+  deviceId: doc.deviceId,
+  name: doc.name,
+  sensorType: doc.sensorType,
+  waterSource: doc.waterSource,
+  installLocation:
+    doc.latitude != null || doc.address
+      ? { latitude: doc.latitude ?? null, longitude: doc.longitude ?? null, address: doc.address ?? null }
+      : null,
+  firmware: doc.firmware ?? null,
+  lastCalibratedAt: doc.lastCalibratedAt ?? null,
+  calibration: parseCalibration(doc.calibration),
+  shared: doc.shared ?? false,
+  createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt,
+});
+
+const toDocumentData = (sensor: NewSensor) => ({
+  deviceId: sensor.deviceId,
+  name: sensor.name,
+  sensorType: sensor.sensorType,
+  waterSource: sensor.waterSource,
+  latitude: sensor.installLocation?.latitude ?? null,
+  longitude: sensor.installLocation?.longitude ?? null,
+  address: sensor.installLocation?.address ?? null,
+  firmware: sensor.firmware,
+  lastCalibratedAt: sensor.lastCalibratedAt,
+  calibration: JSON.stringify(sensor.calibration),
+  shared: sensor.shared,
+});
+
+// Only the owner can change a sensor; everyone signed in can see a shared one
+const getPermissions = (ownerId: string, shared: boolean) => [
+  Permission.read(shared ? Role.users() : Role.user(ownerId)),
+  Permission.update(Role.user(ownerId)),
+  Permission.delete(Role.user(ownerId)),
+];
+
+// A calibration is usable when its slope is positive and both numbers
+// are finite; anything else would turn readings into nonsense
+export const isValidCalibration = ({ offset, slope }: ParameterCalibration): boolean =>
+  Number.isFinite(offset) && Number.isFinite(slope) && slope > 0;
+
+export const getCalibration = (sensor: Pick<Sensor, 'calibration'> | undefined, parameter: SensorParameter): ParameterCalibration => {
+  const calibration = sensor?.calibration[parameter];
+  return calibration && isValidCalibration(calibration) ? calibration : IDENTITY_CALIBRATION;
+};
+
+// Correct a raw reading with its sensor's calibration
+export const applyCalibration = (reading: SensorReading, sensor: Pick<Sensor, 'calibration'> | undefined): SensorReading => {
+  const { offset, slope } = getCalibration(sensor, reading.parameter);
+  return { ...reading, value: reading.rawValue * slope + offset };
+};
+
+export class SensorRegistry {
+  private static byDevice = new Map<string, Sensor>();
+  private static loaded: Promise<void> | null = null;
+
+  // The registered sensor paired as `deviceId`, if there is one
+  static getByDevice(deviceId: string): Sensor | undefined {
+    return this.byDevice.get(deviceId);
+  }
+
+  // Fill the in-memory registry from the device cache once, then refresh
+  // it from the server in the background
+  static load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(REGISTRY_CACHE_KEY)
+        .then(cached => {
+          if (cached) this.remember(JSON.parse(cached));
+          account.get()
+            .then(user => this.list(user.$id))
+            .catch(error => console.error('Error refreshing sensor registry:', error));
+        })
+        .catch(error => console.error('Error loading sensor registry:', error));
+    }
+    return this.loaded;
+  }
+
+  // Every sensor a user has registered, oldest first
+  static async list(ownerId: string): Promise<Sensor[]> {
+    try {
+      const result = await databases.listDocuments<SensorDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: SENSORS_COLLECTION_ID,
+        queries: [Query.equal('ownerId', ownerId), Query.orderAsc('createdAt'), Query.limit(100)],
+      });
+      const sensors = result.documents.map(toSensor);
+      await this.remember(sensors);
+      return sensors;
+    } catch (error) {
+      console.error('Error listing sensors:', error);
+      throw error;
+    }
+  }
+
+  // Shared sensors of any owner installed within the given bounds
+  static async listShared(bounds: {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+  }): Promise<Sensor[]> {
+    try {
+      const result = await databases.listDocuments<SensorDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: SENSORS_COLLECTION_ID,
+        queries: [
+          Query.equal('shared', true),
+          Query.between('latitude', bounds.south, bounds.north),
+          Query.between('longitude', bounds.west, bounds.east),
+          Query.limit(100),
+        ],
+      });
+      return result.documents.map(toSensor);
+    } catch (error) {
+      console.error('Error listing shared sensors:', error);
+      throw error;
+    }
+  }
+
+  // Register a sensor to the signed-in user through the points function,
+  // which pays for a newly registered one. A sensor is registered once per
+  // owner: registering the same device again returns the existing entry
+  // and pays nothing.
+  static async create(sensor: NewSensor, activeDate: string): Promise<{ sensor: Sensor; awarded: boolean; points: number }> {
+    try {
+      const { sensor: doc, awarded, points } = await executeFunction<{
+        sensor: SensorDocument;
+        awarded: boolean;
+        points: number;
+      }>(POINTS_FUNCTION_ID, { action: 'registerSensor', sensor: toDocumentData(sensor), activeDate });
+      return { sensor: await this.rememberOne(toSensor(doc)), awarded, points };
+    } catch (error) {
+      console.error('Error registering sensor:', error);
+      throw error;
+    }
+  }
+
+  static async get(sensorId: string): Promise<Sensor | null> {
+    try {
+      const doc = await databases.getDocument<SensorDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: SENSORS_COLLECTION_ID,
+        documentId: sensorId,
+      });
+      return this.rememberOne(toSensor(doc));
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      console.error('Error getting sensor:', error);
+      throw error;
+    }
+  }
+
+  static async update(sensor: Sensor, updates: Partial<NewSensor>): Promise<Sensor> {
+    const updated = { ...sensor, ...updates };
+    try {
+      const doc = await databases.updateDocument<SensorDocument>({
+        databaseId: DATABASE_ID,
+        collectionId: SENSORS_COLLECTION_ID,
+        documentId: sensor.$id,
+        data: { ...toDocumentData(updated), updatedAt: new Date().toISOString() },
+        permissions: getPermissions(sensor.ownerId, updated.shared),
+      });
+      if (updates.deviceId !== undefined && updates.deviceId !== sensor.deviceId) {
+        this.byDevice.delete(sensor.deviceId);
+      }
+      return this.rememberOne(toSensor(doc));
+    } catch (error) {
+      console.error('Error updating sensor:', error);
+      throw error;
+    }
+  }
+
+  static async remove(sensor: Sensor): Promise<void> {
+    try {
+      await databases.deleteDocument({
+        databaseId: DATABASE_ID,
+        collectionId: SENSORS_COLLECTION_ID,
+        documentId: sensor.$id,
+      });
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        console.error('Error deleting sensor:', error);
+        throw error;
+      }
+    }
+    this.byDevice.delete(sensor.deviceId);
+    await this.saveCache();
+  }
+
+  private static async rememberOne(sensor: Sensor): Promise<Sensor> {
+    this.byDevice.set(sensor.deviceId, sensor);
+    await this.saveCache();
+    return sensor;
+  }
+
+  private static async remember(sensors: Sensor[]): Promise<void> {
+    this.byDevice = new Map(sensors.map(sensor => [sensor.deviceId, sensor]));
+    await this.saveCache();
+  }
+
+  private static async saveCache(): Promise<void> {
+    await AsyncStorage.setItem(REGISTRY_CACHE_KEY, JSON.stringify([...this.byDevice.values()]))
+      .catch(error => console.error('Error caching sensor registry:', error));
+  }
+}
@@ -0,0 +1,283 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { BleTransport } from './bleTransport';
+import { FrameError, MEASUREMENT_CHARACTERISTIC_UUID, parseFrame, WATER_SENSOR_SERVICE_UUID } from './frames';
+import { ReadingStore } from './readingStore';
+import { applyCalibration, SensorRegistry } from './registry';
+import { SimulatedTransport } from './simulatedTransport';
+import {
+  ConnectionState,
+  DiscoveredDevice,
+  SensorParameter,
+  SensorReading,
+  SensorTransport,
+  Unsubscribe,
+} from './types';
+
+// Sensors paired on this device, reconnected on every launch
+const PAIRED_SENSORS_KEY = 'pairedSensors';
+// Reconnect delays double from the first to the last, then stay there
+const RECONNECT_INITIAL_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+export interface PairedSensor {
+  id: string;
+  name: string;
+  pairedAt: string;
+}
+
+// A paired sensor as the app currently sees it
+export interface SensorStatus extends PairedSensor {
+  state: ConnectionState;
+  // Latest reading for each parameter the sensor has reported
+  latest: Partial<Record<SensorParameter, SensorReading>>;
+  // Why the last connection attempt failed, if it did
+  error: string | null;
+}
+
+type StatusListener = (sensors: SensorStatus[]) => void;
+type ReadingListener = (reading: SensorReading) => void;
+
+interface Link {
+  unsubscribe: Unsubscribe[];
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  reconnectDelay: number;
+}
+
+// EXPO_PUBLIC_SENSOR_TRANSPORT picks the transport; without it, phones use
+// Bluetooth and the web build (which has none) uses simulated sensors
+const createTransport = (): SensorTransport => {
+  const configured = process.env.EXPO_PUBLIC_SENSOR_TRANSPORT;
+  if (configured === 'simulated' || (!configured && Platform.OS === 'web')) {
+    return new SimulatedTransport();
+  }
+  return new BleTransport();
+};
+
+export class SensorManager {
+  private static transport: SensorTransport | null = null;
+  private static sensors = new Map<string, SensorStatus>();
+  private static links = new Map<string, Link>();
+  private static statusListeners = new Set<StatusListener>();
+  private static readingListeners = new Set<ReadingListener>();
+  private static started = false;
+  private static stopReadingStore: (() => void) | null = null;
+
+  static getTransport(): SensorTransport {
+    if (!this.transport) {
+      this.transport = createTransport();
+    }
+    return this.transport;
+  }
+
+  // Swap the transport, e.g. for the simulator. Call before start().
+  static setTransport(transport: SensorTransport): void {
+    this.transport = transport;
+  }
+
+  static getSensors(): SensorStatus[] {
+    return [...this.sensors.values()];
+  }
+
+  // Listen for paired sensors and their connection state. The listener is
+  // called straight away with the current list. Returns an unsubscribe.
+  static subscribe(listener: StatusListener): Unsubscribe {
+    this.statusListeners.add(listener);
+    listener(this.getSensors());
+    return () => this.statusListeners.delete(listener);
+  }
+
+  // Listen for every reading from every connected sensor
+  static onReading(listener: ReadingListener): Unsubscribe {
+    this.readingListeners.add(listener);
+    return () => this.readingListeners.delete(listener);
+  }
+
+  static startScan(onDevice: (device: DiscoveredDevice) => void): Promise<void> {
+    return this.getTransport().startScan(device => {
+      if (!this.sensors.has(device.id)) onDevice(device);
+    });
+  }
+
+  static stopScan(): void {
+    this.getTransport().stopScan();
+  }
+
+  // Connect to a sensor found by a scan and remember it
+  static async pair(device: DiscoveredDevice): Promise<PairedSensor> {
+    const paired: PairedSensor = {
+      id: device.id,
+      name: device.name ?? `Sensor ${device.id.slice(-5)}`,
+      pairedAt: new Date().toISOString(),
+    };
+
+    this.setStatus({ ...paired, state: 'connecting', latest: {}, error: null });
+    try {
+      await this.open(paired.id);
+    } catch (error) {
+      console.error('Error pairing sensor:', error);
+      this.sensors.delete(paired.id);
+      this.emitStatus();
+      throw error;
+    }
+
+    await this.savePaired();
+    return paired;
+  }
+
+  // Disconnect from a sensor and forget it
+  static async unpair(deviceId: string): Promise<void> {
+    await this.close(deviceId);
+    this.sensors.delete(deviceId);
+    this.emitStatus();
+    await this.savePaired();
+  }
+
+  // Reconnect to every paired sensor and keep the links up until the
+  // returned stop function is called
+  static start(): () => void {
+    if (!this.started) {
+      this.started = true;
+      this.stopReadingStore = ReadingStore.start();
+      // Calibrations are needed before the first frame arrives
+      Promise.all([this.loadPaired(), SensorRegistry.load()])
+        .then(([paired]) =>
+          paired.forEach(sensor => {
+            if (!this.started || this.links.has(sensor.id)) return;
+            const latest = this.sensors.get(sensor.id)?.latest ?? {};
+            this.setStatus({ ...sensor, state: 'connecting', latest, error: null });
+            this.open(sensor.id).catch(error => this.scheduleReconnect(sensor.id, error));
+          })
+        )
+        .catch(error => console.error('Error loading paired sensors:', error));
+    }
+
+    return () => {
+      this.started = false;
+      this.stopReadingStore?.();
+      this.stopReadingStore = null;
+      [...this.links.keys()].forEach(deviceId => {
+        this.close(deviceId).catch(error => console.error('Error disconnecting sensor:', error));
+        this.updateStatus(deviceId, { state: 'disconnected' });
+      });
+    };
+  }
+
+  private static async open(deviceId: string): Promise<void> {
+    const transport = this.getTransport();
+    this.clearLink(deviceId);
+
+    await transport.connect(deviceId);
+
+    const link: Link = {
+      unsubscribe: [],
+      reconnectTimer: null,
+      reconnectDelay: this.links.get(deviceId)?.reconnectDelay ?? RECONNECT_INITIAL_DELAY_MS,
+    };
+    link.unsubscribe.push(
+      transport.subscribe(
+        deviceId,
+        WATER_SENSOR_SERVICE_UUID,
+        MEASUREMENT_CHARACTERISTIC_UUID,
+        value => this.handleFrame(deviceId, value),
+        error => this.scheduleReconnect(deviceId, error)
+      ),
+      transport.onDisconnected(deviceId, error => this.scheduleReconnect(deviceId, error))
+    );
+    this.links.set(deviceId, link);
+    this.updateStatus(deviceId, { state: 'connected', error: null });
+  }
+
+  private static async close(deviceId: string): Promise<void> {
+    this.clearLink(deviceId);
+    this.links.delete(deviceId);
+    await this.getTransport().disconnect(deviceId);
+  }
+
+  private static clearLink(deviceId: string) {
+    const link = this.links.get(deviceId);
+    if (!link) return;
+    link.unsubscribe.forEach(unsubscribe => unsubscribe());
+    link.unsubscribe = [];
+    if (link.reconnectTimer) clearTimeout(link.reconnectTimer);
+    link.reconnectTimer = null;
+  }
+
+  // Try again after a dropped link or failed connection, backing off
+  // exponentially, for as long as the sensor stays paired
+  private static scheduleReconnect(deviceId: string, error: unknown) {
+    const sensor = this.sensors.get(deviceId);
+    if (!sensor || !this.started) return;
+
+    const link = this.links.get(deviceId) ?? { unsubscribe: [], reconnectTimer: null, reconnectDelay: RECONNECT_INITIAL_DELAY_MS };
+    if (link.reconnectTimer) return;
+
+    this.clearLink(deviceId);
+    const delay = link.reconnectDelay;
+    link.reconnectDelay = Math.min(delay * 2, RECONNECT_MAX_DELAY_MS);
+    link.reconnectTimer = setTimeout(() => {
+      link.reconnectTimer = null;
+      this.open(deviceId)
+        .then(() => {
+          const current = this.links.get(deviceId);
+          if (current) current.reconnectDelay = RECONNECT_INITIAL_DELAY_MS;
+        })
+        .catch(retryError => this.scheduleReconnect(deviceId, retryError));
+    }, delay);
+    this.links.set(deviceId, link);
+
+    this.updateStatus(deviceId, {
+      state: 'reconnecting',
+      error: error instanceof Error ? error.message : null,
+    });
+  }
+
+  // Runs inside the transport's notification callback, so nothing it
+  // throws may escape: one bad frame or failing listener must not end
+  // the stream of readings
+  private static handleFrame(deviceId: string, value: Uint8Array) {
+    try {
+      // Every reading is calibrated here, before anything can display or
+      // alert on it
+      const reading = applyCalibration(parseFrame(value, deviceId), SensorRegistry.getByDevice(deviceId));
+
+      ReadingStore.append(reading);
+      const sensor = this.sensors.get(deviceId);
+      if (sensor) {
+        this.updateStatus(deviceId, { latest: { ...sensor.latest, [reading.parameter]: reading } });
+      }
+      this.readingListeners.forEach(listener => listener(reading));
+    } catch (error) {
+      if (error instanceof FrameError) {
+        console.warn(`Ignoring bad frame from sensor ${deviceId}:`, error.message);
+      } else {
+        console.error(`Error handling a frame from sensor ${deviceId}:`, error);
+      }
+    }
+  }
+
+  private static setStatus(status: SensorStatus) {
+    this.sensors.set(status.id, status);
+    this.emitStatus();
+  }
+
+  private static updateStatus(deviceId: string, changes: Partial<SensorStatus>) {
+    const sensor = this.sensors.get(deviceId);
+    if (sensor) this.setStatus({ ...sensor, ...changes });
+  }
+
+  private static emitStatus() {
+    const sensors = this.getSensors();
+    this.statusListeners.forEach(listener => listener(sensors));
+  }
+
+  private static async loadPaired(): Promise<PairedSensor[]> {
+    const saved = await AsyncStorage.getItem(PAIRED_SENSORS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  }
+
+  private static async savePaired(): Promise<void> {
+    const paired: PairedSensor[] = this.getSensors().map(({ id, name, pairedAt }) => ({ id, name, pairedAt }));
+    await AsyncStorage.setItem(PAIRED_SENSORS_KEY, JSON.stringify(paired));
+  }
+}
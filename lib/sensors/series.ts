@@ -0,0 +1,97 @@
+import { SensorReading } from './types';
+
+export type ChartRange = '1h' | '24h' | '7d' | '30d';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How far back each chart range looks, and how many points it is drawn
+// with. However many readings fall in the range, the chart never gets
+// more than `buckets` points, so it stays readable and fast to draw.
+export const CHART_RANGES: Record<ChartRange, { label: string; durationMs: number; buckets: number }> = {
+  '1h': { label: '1h', durationMs: HOUR_MS, buckets: 60 },
+  '24h': { label: '24h', durationMs: DAY_MS, buckets: 48 },
+  '7d': { label: '7d', durationMs: 7 * DAY_MS, buckets: 56 },
+  '30d': { label: '30d', durationMs: 30 * DAY_MS, buckets: 60 },
+};
+
+// Every reading that fell into one slice of a chart range
+export interface SeriesBucket {
+  start: Date;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export interface SeriesSummary {
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export const getRangeStart = (range: ChartRange, now: Date = new Date()): Date =>
+  new Date(now.getTime() - CHART_RANGES[range].durationMs);
+
+// Reduces readings to at most `buckets` equal slices of [start, end),
+// keeping the min, max and average of each so a short spike survives
+// downsampling. Readings can be added a batch at a time, so a long range
+// never has to be held in memory at once. Slices without readings are
+// left out rather than drawn as zero; faulty readings are ignored.
+export class SeriesBuilder {
+  private readonly startMs: number;
+  private readonly width: number;
+  private readonly slices: ({ min: number; max: number; sum: number; count: number } | undefined)[];
+
+  constructor(start: Date, end: Date, private readonly buckets: number) {
+    this.startMs = start.getTime();
+    this.width = (end.getTime() - this.startMs) / buckets;
+    this.slices = new Array(buckets);
+  }
+
+  add(readings: SensorReading[]): void {
+    readings.forEach(reading => {
+      if (reading.fault) return;
+      const index = Math.floor((new Date(reading.timestamp).getTime() - this.startMs) / this.width);
+      if (index < 0 || index >= this.buckets) return;
+
+      const slice = this.slices[index];
+      if (slice) {
+        slice.min = Math.min(slice.min, reading.value);
+        slice.max = Math.max(slice.max, reading.value);
+        slice.sum += reading.value;
+        slice.count++;
+      } else {
+        this.slices[index] = { min: reading.value, max: reading.value, sum: reading.value, count: 1 };
+      }
+    });
+  }
+
+  build(): SeriesBucket[] {
+    return this.slices.flatMap((slice, index) =>
+      slice
+        ? [{
+            start: new Date(this.startMs + index * this.width),
+            min: slice.min,
+            max: slice.max,
+            avg: slice.sum / slice.count,
+            count: slice.count,
+          }]
+        : []
+    );
+  }
+}
+
+// Min, max and average over a whole series
+export const summarize = (buckets: SeriesBucket[]): SeriesSummary | null => {
+  const count = buckets.reduce((total, bucket) => total + bucket.count, 0);
+  if (count === 0) return null;
+
+  return {
+    min: Math.min(...buckets.map(bucket => bucket.min)),
+    max: Math.max(...buckets.map(bucket => bucket.max)),
+    avg: buckets.reduce((total, bucket) => total + bucket.avg * bucket.count, 0) / count,
+    count,
+  };
+};
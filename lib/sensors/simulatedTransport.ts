@@ -0,0 +1,119 @@
+import { encodeFrame, MEASUREMENT_CHARACTERISTIC_UUID, WATER_SENSOR_SERVICE_UUID } from './frames';
+import { DiscoveredDevice, SensorParameter, SensorTransport, Unsubscribe } from './types';
+
+interface SimulatedDevice extends DiscoveredDevice {
+  // Typical value for each parameter the device measures
+  baselines: Partial<Record<SensorParameter, number>>;
+}
+
+export const SIMULATED_DEVICES: SimulatedDevice[] = [
+  { id: 'sim-well-01', name: 'AquaProbe Well', rssi: -58, baselines: { ph: 7.2, turbidity: 2.1, tds: 320, temperature: 24.5 } },
+  { id: 'sim-tank-02', name: 'AquaProbe Tank', rssi: -71, baselines: { ph: 6.9, turbidity: 0.8, temperature: 26 } },
+  { id: 'sim-pump-03', name: 'AquaProbe Handpump', rssi: -84, baselines: { ph: 7.6, tds: 540 } },
+];
+
+interface SimulatedTransportOptions {
+  // Time between measurement rounds
+  intervalMs?: number;
+  // Time it takes to connect, and between devices turning up in a scan
+  latencyMs?: number;
+}
+
+type NotificationListener = { onValue: (value: Uint8Array) => void; onError: (error: Error) => void };
+
+// Sensors that exist only in memory. Values drift slowly around each
+// device's baseline, the same way on every run, and links can be dropped
+// on demand to exercise reconnection.
+export class SimulatedTransport implements SensorTransport {
+  readonly kind = 'simulated';
+
+  private readonly intervalMs: number;
+  private readonly latencyMs: number;
+  private scanTimers: ReturnType<typeof setTimeout>[] = [];
+  private connected = new Map<string, ReturnType<typeof setInterval>>();
+  private notificationListeners = new Map<string, Set<NotificationListener>>();
+  private disconnectListeners = new Map<string, Set<(error: Error | null) => void>>();
+  private ticks = new Map<string, number>();
+
+  constructor({ intervalMs = 5000, latencyMs = 400 }: SimulatedTransportOptions = {}) {
+    this.intervalMs = intervalMs;
+    this.latencyMs = latencyMs;
+  }
+
+  async startScan(onDevice: (device: DiscoveredDevice) => void): Promise<void> {
+    this.stopScan();
+    this.scanTimers = SIMULATED_DEVICES.map(({ id, name, rssi }, index) =>
+      setTimeout(() => onDevice({ id, name, rssi }), this.latencyMs * (index + 1))
+    );
+  }
+
+  stopScan(): void {
+    this.scanTimers.forEach(clearTimeout);
+    this.scanTimers = [];
+  }
+
+  async connect(deviceId: string): Promise<void> {
+    const device = SIMULATED_DEVICES.find(candidate => candidate.id === deviceId);
+    if (!device) {
+      throw new Error(`Simulated sensor ${deviceId} does not exist`);
+    }
+    if (this.connected.has(deviceId)) return;
+
+    await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    this.connected.set(deviceId, setInterval(() => this.emitRound(device), this.intervalMs));
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    clearInterval(this.connected.get(deviceId));
+    this.connected.delete(deviceId);
+  }
+
+  subscribe(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    onValue: (value: Uint8Array) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    if (serviceUuid !== WATER_SENSOR_SERVICE_UUID || characteristicUuid !== MEASUREMENT_CHARACTERISTIC_UUID) {
+      onError(new Error(`Simulated sensors have no characteristic ${characteristicUuid}`));
+      return () => undefined;
+    }
+
+    const listener = { onValue, onError };
+    const listeners = this.notificationListeners.get(deviceId) ?? new Set();
+    listeners.add(listener);
+    this.notificationListeners.set(deviceId, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void): Unsubscribe {
+    const listeners = this.disconnectListeners.get(deviceId) ?? new Set();
+    listeners.add(listener);
+    this.disconnectListeners.set(deviceId, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  // Drop the link as if the sensor went out of range
+  simulateDisconnect(deviceId: string): void {
+    if (!this.connected.has(deviceId)) return;
+    this.disconnect(deviceId);
+    this.notificationListeners.get(deviceId)?.forEach(listener => listener.onError(new Error('Link lost')));
+    this.disconnectListeners.get(deviceId)?.forEach(listener => listener(new Error('Link lost')));
+  }
+
+  private emitRound(device: SimulatedDevice) {
+    const tick = (this.ticks.get(device.id) ?? 0) + 1;
+    this.ticks.set(device.id, tick);
+
+    const listeners = this.notificationListeners.get(device.id);
+    if (!listeners) return;
+
+    (Object.entries(device.baselines) as [SensorParameter, number][]).forEach(([parameter, baseline], index) => {
+      // A slow swing of ±5% plus a smaller fast wobble, offset per parameter
+      const drift = Math.sin(tick / 12 + index) * 0.05 + Math.sin(tick * 1.7 + index * 3) * 0.01;
+      const frame = encodeFrame(parameter, baseline * (1 + drift), tick);
+      listeners.forEach(listener => listener.onValue(frame));
+    });
+  }
+}
@@ -0,0 +1,59 @@
+// Quantities a water sensor can measure
+export type SensorParameter = 'ph' | 'turbidity' | 'tds' | 'temperature';
+
+export const SENSOR_PARAMETERS: Record<SensorParameter, { label: string; unit: string }> = {
+  ph: { label: 'pH', unit: 'pH' },
+  turbidity: { label: 'Turbidity', unit: 'NTU' },
+  tds: { label: 'TDS', unit: 'ppm' },
+  temperature: { label: 'Temperature', unit: '°C' },
+};
+
+// One measurement received from a sensor
+export interface SensorReading {
+  deviceId: string;
+  parameter: SensorParameter;
+  // Calibrated value, or the raw value if the sensor has no calibration
+  value: number;
+  // Value exactly as the sensor reported it
+  rawValue: number;
+  unit: string;
+  // When the reading arrived on this device (ISO 8601)
+  timestamp: string;
+  // Wraps at 255; a gap means frames were lost in transit
+  sequence: number;
+  // The probe reported itself out of range or faulty
+  fault: boolean;
+}
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+// A sensor seen while scanning, before it is paired
+export interface DiscoveredDevice {
+  id: string;
+  name: string | null;
+  // Signal strength in dBm, when the transport reports it
+  rssi: number | null;
+}
+
+export type Unsubscribe = () => void;
+
+// How the app talks to sensors. The Bluetooth transport is used on phones;
+// the simulated one lets the whole subsystem run without hardware.
+export interface SensorTransport {
+  readonly kind: 'ble' | 'simulated';
+  // Report sensors advertising the water sensor service until stopScan
+  startScan(onDevice: (device: DiscoveredDevice) => void): Promise<void>;
+  stopScan(): void;
+  connect(deviceId: string): Promise<void>;
+  disconnect(deviceId: string): Promise<void>;
+  // Raw bytes of every notification on a characteristic
+  subscribe(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    onValue: (value: Uint8Array) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  // Called when the link drops without disconnect() being asked for
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void): Unsubscribe;
+}
@@ -0,0 +1,110 @@
+import catalogue from '../functions/shared/catalogue.json';
+import { account, POINTS_FUNCTION_ID, UserProfile } from './appwrite';
+import { DatabaseService, isNotFoundError, toUserProfile } from './database';
+import { executeFunction } from './functions';
+import { FunctionAward, PointsService, POINT_RULES } from './points';
+
+// Source of "now". Injected wherever day boundaries matter so that
+// timezone and DST behaviour can be reproduced with a fixed time.
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+// Streak freezes a user can hold at once
+export const MAX_STREAK_FREEZES = catalogue.maxStreakFreezes;
+// Points a streak freeze costs, as recorded in the ledger
+export const STREAK_FREEZE_COST = -POINT_RULES.streak_freeze.points;
+// A streak bonus is paid every time the streak reaches a multiple of this
+export const STREAK_BONUS_INTERVAL = catalogue.streakBonusInterval;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type StreakState = Pick<UserProfile, 'streak' | 'lastActiveDate' | 'streakFreezesPurchased' | 'streakFreezesUsed'>;
+
+export interface StreakUpdate {
+  streak: number;
+  lastActiveDate: string;
+  streakFreezesUsed: number;
+  // False when the activity was not the first of a new day
+  changed: boolean;
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in the device's own timezone
+export const toLocalDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Whole calendar days from one date key to another. Keys are compared as
+// UTC midnights, so a 23 or 25 hour DST day still counts as exactly one.
+export const daysBetween = (fromKey: string, toKey: string): number => {
+  const toUtc = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(toKey) - toUtc(fromKey)) / MS_PER_DAY);
+};
+
+export const getAvailableFreezes = (state: StreakState): number =>
+  Math.max(0, state.streakFreezesPurchased - state.streakFreezesUsed);
+
+// The streak as it stands today, before any activity. A streak whose
+// missed days can no longer be covered by freezes is already broken: the
+// points function's advanceStreak restarts it with the next activity.
+export const getCurrentStreak = (state: StreakState, today: string): number => {
+  if (!state.lastActiveDate) return 0;
+  const missedDays = daysBetween(state.lastActiveDate, today) - 1;
+  return missedDays <= getAvailableFreezes(state) ? state.streak : 0;
+};
+
+export class StreakService {
+  // Count activity on a local calendar day towards the signed-in user's
+  // streak. The points function advances the streak and pays the bonus
+  // when it reaches a multiple of STREAK_BONUS_INTERVAL. Safe to call any
+  // number of times per day.
+  static async recordActivity(activeDate: string): Promise<StreakUpdate | null> {
+    try {
+      const { update } = await executeFunction<{ update: StreakUpdate }>(POINTS_FUNCTION_ID, {
+        action: 'recordActivity',
+        activeDate,
+      });
+      return update;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      console.error('Error recording streak activity:', error);
+      throw error;
+    }
+  }
+
+  // Spend points on a streak freeze. purchaseId identifies this purchase,
+  // so retrying the same purchase never charges twice.
+  static async purchaseFreeze(purchaseId: string, clock: Clock = systemClock): Promise<UserProfile | null> {
+    try {
+      const user = await account.get();
+      const profile = await DatabaseService.getUserProfile(user.$id);
+      if (!profile) return null;
+
+      if (getAvailableFreezes(profile) >= MAX_STREAK_FREEZES) {
+        throw new Error(`You can hold at most ${MAX_STREAK_FREEZES} streak freezes.`);
+      }
+      // The ledger, not the cached profile total, as for reward redemptions
+      if ((await PointsService.getBalance(user.$id)) < STREAK_FREEZE_COST) {
+        throw new Error('Not enough points for a streak freeze.');
+      }
+
+      // The function checks both again before charging
+      const { profile: updated } = await executeFunction<FunctionAward>(POINTS_FUNCTION_ID, {
+        action: 'purchaseFreeze',
+        purchaseId,
+        activeDate: toLocalDateKey(clock()),
+      });
+      return toUserProfile(updated);
+    } catch (error) {
+      console.error('Error purchasing streak freeze:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,338 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { AppwriteException, ID } from 'appwrite';
+import { AchievementService } from './achievements';
+import { VoteType, WaterReport } from './appwrite';
+import { AppNotification, NotificationCenter } from './notifications';
+import { OutbreakSurveillance } from './outbreak/surveillance';
+import { HealthSignal } from './outbreak/types';
+import { PhotoService } from './photos';
+import { PointReason, PointsService, POINT_RULES } from './points';
+import { NewWaterReport, ReportsService } from './reports';
+import { StreakService } from './streak';
+
+// Durable outbox of mutations waiting to reach the server, for every user
+// who has signed in on this device
+const OUTBOX_KEY = 'syncOutbox';
+// Failed attempts while online before a mutation is given up on
+const MAX_SYNC_ATTEMPTS = 8;
+
+// Every mutation the app can make while offline
+export type SyncMutation =
+  | {
+      type: 'uploadPhoto';
+      payload: { reportId: string; fileId: string; localUri: string };
+    }
+  | {
+      type: 'submitReport';
+      payload: { reportId: string; report: NewWaterReport; timestamp: string };
+    }
+  | {
+      type: 'voteOnReport';
+      payload: { reportId: string; voteType: VoteType };
+    }
+  | {
+      type: 'verifyArea';
+      payload: { areaId: string; reportIds: string[]; authorityKey: string };
+    }
+  | {
+      type: 'awardPoints';
+      // activeDate is the local calendar day the points were earned on,
+      // which is the day once-a-day rules count them for
+      payload: { reason: PointReason; entityId: string; activeDate: string };
+    }
+  | {
+      type: 'recordActivity';
+      payload: { activeDate: string };
+    }
+  | {
+      type: 'saveNotification';
+      payload: { notification: AppNotification };
+    }
+  | {
+      type: 'deleteNotification';
+      payload: { notificationId: string };
+    }
+  | {
+      type: 'submitHealthSignal';
+      payload: { signal: HealthSignal };
+    };
+
+// A mutation as stored in the outbox. `id` doubles as the idempotency key,
+// so replaying the same entry twice never applies it twice on the server.
+export type QueuedMutation = SyncMutation & {
+  id: string;
+  // Who made the change. It is only replayed while they are signed in, so
+  // on a shared phone nobody else is ever credited with it.
+  userId: string;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+};
+
+type OutboxListener = (pending: QueuedMutation[]) => void;
+
+// Connection problems, timeouts, rate limits and server errors are worth
+// retrying later; anything else (validation, permissions) never will succeed.
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof AppwriteException) {
+    return error.code === 0 || error.code === 408 || error.code === 429 || error.code >= 500;
+  }
+  return true;
+};
+
+export const isOnline = (state: NetInfoState): boolean =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+// IDs of reports touched by mutations that have not been synced yet
+export const getPendingReportIds = (pending: QueuedMutation[]): Set<string> => {
+  const ids = new Set<string>();
+  pending.forEach(mutation => {
+    switch (mutation.type) {
+      case 'uploadPhoto':
+      case 'submitReport':
+      case 'voteOnReport':
+        ids.add(mutation.payload.reportId);
+        break;
+      case 'verifyArea':
+        mutation.payload.reportIds.forEach(reportId => ids.add(reportId));
+        break;
+    }
+  });
+  return ids;
+};
+
+// Storage file IDs of photos that have not finished uploading
+export const getPendingPhotoIds = (pending: QueuedMutation[]): Set<string> =>
+  new Set(pending.flatMap(mutation => (mutation.type === 'uploadPhoto' ? [mutation.payload.fileId] : [])));
+
+// Reports created on this device that the server has not seen yet
+export const getPendingReports = (pending: QueuedMutation[]): WaterReport[] =>
+  pending.flatMap(mutation =>
+    mutation.type === 'submitReport'
+      ? [{
+          ...mutation.payload.report,
+          id: mutation.payload.reportId,
+          timestamp: new Date(mutation.payload.timestamp),
+          status: 'pending' as const,
+          upvotes: 0,
+          downvotes: 0,
+        }]
+      : []
+  );
+
+// Points and reports from awards that have not reached the ledger yet
+export const getPendingAwards = (pending: QueuedMutation[]): { points: number; reportsSubmitted: number } =>
+  pending.reduce(
+    (totals, mutation) =>
+      mutation.type === 'awardPoints'
+        ? {
+            points: totals.points + POINT_RULES[mutation.payload.reason].points,
+            reportsSubmitted: totals.reportsSubmitted + (mutation.payload.reason.startsWith('report_') ? 1 : 0),
+          }
+        : totals,
+    { points: 0, reportsSubmitted: 0 }
+  );
+
+export class SyncQueue {
+  private static listeners = new Set<OutboxListener>();
+  private static flushing: Promise<void> | null = null;
+  private static writes: Promise<unknown> = Promise.resolve();
+  // The signed-in user, the only one whose mutations are queued or replayed
+  private static userId: string | null = null;
+
+  // Switch the outbox to the user now signed in, or null on sign out.
+  // Mutations queued by anyone else stay on the device, held, until that
+  // person signs in here again.
+  static setUser(userId: string | null): void {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.getPending().then(pending => this.listeners.forEach(listener => listener(pending)));
+    if (userId) {
+      this.flush().catch(error => console.error('Error syncing outbox:', error));
+    }
+  }
+
+  // Every mutation on the device, whoever queued it, oldest first
+  private static async readOutbox(): Promise<QueuedMutation[]> {
+    try {
+      const saved = await AsyncStorage.getItem(OUTBOX_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Error reading sync outbox:', error);
+      return [];
+    }
+  }
+
+  // The signed-in user's mutations still waiting to be synced, oldest first
+  static async getPending(): Promise<QueuedMutation[]> {
+    const userId = this.userId;
+    if (!userId) return [];
+    return (await this.readOutbox()).filter(mutation => mutation.userId === userId);
+  }
+
+  // Read-modify-write the whole outbox. Writes are chained so an enqueue
+  // that happens while a flush is running is never overwritten.
+  private static updateOutbox(change: (outbox: QueuedMutation[]) => QueuedMutation[]): Promise<void> {
+    const write = this.writes.then(async () => {
+      const updated = change(await this.readOutbox());
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(updated));
+      const pending = updated.filter(mutation => mutation.userId === this.userId);
+      this.listeners.forEach(listener => listener(pending));
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  // Be told whenever the signed-in user's pending mutations change.
+  // Returns an unsubscribe function.
+  static subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.getPending().then(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Add a mutation by the signed-in user to the end of the outbox and try
+  // to sync straight away
+  static async enqueue(mutation: SyncMutation): Promise<QueuedMutation> {
+    if (!this.userId) {
+      throw new Error('Sign in to save changes.');
+    }
+    const queued = {
+      ...mutation,
+      id: ID.unique(),
+      userId: this.userId,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    } as QueuedMutation;
+
+    await this.updateOutbox(outbox => [...outbox, queued]);
+
+    this.flush().catch(error => console.error('Error syncing outbox:', error));
+    return queued;
+  }
+
+  // Replay the signed-in user's queued mutations in order. Stops at the first retryable failure
+  // so later mutations never overtake earlier ones; mutations the server
+  // rejects outright, or that keep failing, are dropped so they cannot
+  // block the queue forever.
+  static flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private static async drain(): Promise<void> {
+    if (!isOnline(await NetInfo.fetch())) return;
+
+    let progressed = false;
+    try {
+      for (;;) {
+        const [next] = await this.getPending();
+        if (!next) return;
+
+        if (!(await this.applyNext(next))) return;
+        progressed ||= next.type === 'awardPoints' || next.type === 'recordActivity';
+      }
+    } finally {
+      // Several synced awards can cross an achievement threshold at once
+      if (progressed) {
+        await AchievementService.checkAndUnlock().catch(error =>
+          console.error('Error checking achievements after sync:', error)
+        );
+      }
+    }
+  }
+
+  // Apply one mutation and take it off the outbox. Returns false when it
+  // should be retried later, which stops the drain.
+  private static async applyNext(next: QueuedMutation): Promise<boolean> {
+    try {
+      await this.apply(next);
+    } catch (error) {
+      // Signed out while it was being sent: the failure says nothing
+      // about the mutation, so hold it for when its user is back
+      if (next.userId !== this.userId) return false;
+
+      if (isRetryableError(error) && next.attempts + 1 < MAX_SYNC_ATTEMPTS) {
+        await this.updateOutbox(outbox => outbox.map(mutation =>
+          mutation.id === next.id
+            ? { ...mutation, attempts: mutation.attempts + 1, lastError: String(error) }
+            : mutation
+        ));
+        return false;
+      }
+      console.error(`Dropping ${next.type} mutation that could not be synced:`, error);
+    }
+
+    await this.updateOutbox(outbox => outbox.filter(mutation => mutation.id !== next.id));
+    return true;
+  }
+
+  private static async apply(mutation: QueuedMutation): Promise<void> {
+    switch (mutation.type) {
+      case 'uploadPhoto': {
+        const { localUri, fileId } = mutation.payload;
+        await PhotoService.upload(localUri, fileId);
+        break;
+      }
+      case 'submitReport': {
+        // A report already created by an earlier attempt whose response
+        // was lost is returned as it is
+        const { reportId, report, timestamp } = mutation.payload;
+        await ReportsService.createReport(report, reportId, new Date(timestamp));
+        break;
+      }
+      case 'voteOnReport': {
+        // One vote document per user and report, so a replay is a no-op.
+        // Only replayed while its user is signed in, and the function
+        // takes the voter from the session.
+        const { reportId, voteType } = mutation.payload;
+        await ReportsService.voteOnReport(reportId, voteType);
+        break;
+      }
+      case 'verifyArea': {
+        const { reportIds, authorityKey } = mutation.payload;
+        await ReportsService.verifyReports(reportIds, authorityKey, new Date(mutation.createdAt));
+        break;
+      }
+      case 'awardPoints': {
+        // Ledger entries carry their own idempotency key
+        const { reason, entityId, activeDate } = mutation.payload;
+        await PointsService.award(reason, entityId, activeDate);
+        break;
+      }
+      case 'recordActivity':
+        // Uses the day the activity happened on the device, not the day
+        // it finally synced; repeats within a day are no-ops
+        await StreakService.recordActivity(mutation.payload.activeDate);
+        break;
+      case 'saveNotification':
+        // Creates or overwrites, so replaying it is harmless
+        await NotificationCenter.upload(mutation.payload.notification);
+        break;
+      case 'deleteNotification':
+        await NotificationCenter.remove(mutation.payload.notificationId);
+        break;
+      case 'submitHealthSignal':
+        // The function keeps one signal per user and day, so a replay
+        // changes nothing
+        await OutbreakSurveillance.upload(mutation.payload.signal);
+        break;
+    }
+  }
+
+  // Sync whenever the device comes back online. Returns a stop function.
+  static start(): () => void {
+    return NetInfo.addEventListener(state => {
+      if (isOnline(state)) {
+        this.flush().catch(error => console.error('Error syncing outbox:', error));
+      }
+    });
+  }
+}
@@ -0,0 +1,237 @@
+import { AppwriteException } from 'appwrite';
+
+type Data = Record<string, unknown>;
+
+interface StoredDocument extends Data {
+  $id: string;
+  $collectionId: string;
+  $databaseId: string;
+  $createdAt: string;
+  $updatedAt: string;
+  $permissions: string[];
+}
+
+interface DocumentParams {
+  databaseId: string;
+  collectionId: string;
+  documentId: string;
+}
+
+interface ParsedQuery {
+  method: string;
+  attribute?: string;
+  values?: unknown[];
+}
+
+// Order documents by the first attribute that differs, like a compound index
+const compare = (a: StoredDocument, b: StoredDocument, orders: ParsedQuery[]): number => {
+  for (const { method, attribute } of orders) {
+    const left = a[attribute!] as string | number;
+    const right = b[attribute!] as string | number;
+    if (left === right) continue;
+    const ascending = left < right ? -1 : 1;
+    return method === 'orderAsc' ? ascending : -ascending;
+  }
+  return 0;
+};
+
+const matches = (doc: StoredDocument, { method, attribute, values = [] }: ParsedQuery): boolean => {
+  const value = doc[attribute!] as string | number;
+  const [first] = values as (string | number)[];
+  switch (method) {
+    case 'equal':
+      return values.includes(value);
+    case 'notEqual':
+      return !values.includes(value);
+    case 'greaterThan':
+      return value > first;
+    case 'greaterThanEqual':
+      return value >= first;
+    case 'lessThan':
+      return value < first;
+    case 'lessThanEqual':
+      return value <= first;
+    default:
+      throw new Error(`FakeDatabases does not support the ${method} query`);
+  }
+};
+
+// An in-memory stand-in for the Appwrite `Databases` service, for tests.
+// It keeps documents per collection and answers the calls and queries the
+// app makes, failing the way Appwrite does: 404 for a missing document,
+// 409 for a duplicate ID and 400 for a decrement below its minimum.
+// Anything it does not understand throws rather than silently passing.
+export class FakeDatabases {
+  private collections = new Map<string, Map<string, StoredDocument>>();
+  private clock = 0;
+
+  private collection(collectionId: string): Map<string, StoredDocument> {
+    let documents = this.collections.get(collectionId);
+    if (!documents) {
+      documents = new Map();
+      this.collections.set(collectionId, documents);
+    }
+    return documents;
+  }
+
+  // Increasing timestamps, so documents created in one tick still sort in
+  // the order they were written
+  private now(): string {
+    this.clock += 1;
+    return new Date(Date.UTC(2025, 0, 1) + this.clock).toISOString();
+  }
+
+  private find({ collectionId, documentId }: Omit<DocumentParams, 'databaseId'>): StoredDocument {
+    const doc = this.collection(collectionId).get(documentId);
+    if (!doc) {
+      throw new AppwriteException('Document with the requested ID could not be found.', 404, 'document_not_found');
+    }
+    return doc;
+  }
+
+  // Forget every document, between tests
+  reset(): void {
+    this.collections.clear();
+  }
+
+  // Every document in a collection, for assertions
+  all(collectionId: string): StoredDocument[] {
+    return [...this.collection(collectionId).values()].map(doc => ({ ...doc }));
+  }
+
+  // Put a document in place without going through createDocument
+  seed(collectionId: string, documentId: string, data: Data): void {
+    const timestamp = this.now();
+    this.collection(collectionId).set(documentId, {
+      ...data,
+      $id: documentId,
+      $collectionId: collectionId,
+      $databaseId: 'main',
+      $createdAt: timestamp,
+      $updatedAt: timestamp,
+      $permissions: [],
+    });
+  }
+
+  async getDocument<T>(params: DocumentParams): Promise<T> {
+    return { ...this.find(params) } as unknown as T;
+  }
+
+  async createDocument<T>({
+    databaseId,
+    collectionId,
+    documentId,
+    data,
+    permissions = [],
+  }: DocumentParams & { data: Data; permissions?: string[] }): Promise<T> {
+    const documents = this.collection(collectionId);
+    if (documents.has(documentId)) {
+      throw new AppwriteException('Document with the requested ID already exists.', 409, 'document_already_exists');
+    }
+    const timestamp = this.now();
+    const doc: StoredDocument = {
+      ...data,
+      $id: documentId,
+      $collectionId: collectionId,
+      $databaseId: databaseId,
+      $createdAt: timestamp,
+      $updatedAt: timestamp,
+      $permissions: permissions,
+    };
+    documents.set(documentId, doc);
+    return { ...doc } as unknown as T;
+  }
+
+  // All or nothing, like Appwrite's bulk create: one ID already taken
+  // fails the whole batch with a 409
+  async createDocuments<T>({
+    databaseId,
+    collectionId,
+    documents,
+  }: Omit<DocumentParams, 'documentId'> & { documents: ({ $id: string; $permissions?: string[] } & Data)[] }): Promise<{
+    total: number;
+    documents: T[];
+  }> {
+    const existing = this.collection(collectionId);
+    if (documents.some(({ $id }) => existing.has($id)) || new Set(documents.map(({ $id }) => $id)).size < documents.length) {
+      throw new AppwriteException('Document with the requested ID already exists.', 409, 'document_already_exists');
+    }
+    const created = [];
+    for (const { $id, $permissions, ...data } of documents) {
+      created.push(await this.createDocument<T>({ databaseId, collectionId, documentId: $id, data, permissions: $permissions }));
+    }
+    return { total: created.length, documents: created };
+  }
+
+  async updateDocument<T>({ data, ...params }: DocumentParams & { data: Data }): Promise<T> {
+    const doc = this.find(params);
+    Object.assign(doc, data, { $updatedAt: this.now() });
+    return { ...doc } as unknown as T;
+  }
+
+  async deleteDocument(params: DocumentParams): Promise<Record<string, never>> {
+    this.find(params);
+    this.collection(params.collectionId).delete(params.documentId);
+    return {};
+  }
+
+  async incrementDocumentAttribute<T>({
+    attribute,
+    value = 1,
+    max,
+    ...params
+  }: DocumentParams & { attribute: string; value?: number; max?: number }): Promise<T> {
+    const doc = this.find(params);
+    const next = ((doc[attribute] as number) ?? 0) + value;
+    if (max !== undefined && next > max) {
+      throw new AppwriteException(`Attribute ${attribute} would exceed ${max}.`, 400, 'attribute_limit_exceeded');
+    }
+    return this.updateDocument({ ...params, data: { [attribute]: next } });
+  }
+
+  async decrementDocumentAttribute<T>({
+    attribute,
+    value = 1,
+    min,
+    ...params
+  }: DocumentParams & { attribute: string; value?: number; min?: number }): Promise<T> {
+    const doc = this.find(params);
+    const next = ((doc[attribute] as number) ?? 0) - value;
+    if (min !== undefined && next < min) {
+      throw new AppwriteException(`Attribute ${attribute} would go below ${min}.`, 400, 'attribute_limit_exceeded');
+    }
+    return this.updateDocument({ ...params, data: { [attribute]: next } });
+  }
+
+  async listDocuments<T>({
+    collectionId,
+    queries = [],
+  }: {
+    databaseId: string;
+    collectionId: string;
+    queries?: string[];
+  }): Promise<{ total: number; documents: T[] }> {
+    const parsed: ParsedQuery[] = queries.map(query => JSON.parse(query));
+    const filters = parsed.filter(query => !/^(order|limit|offset|cursor)/.test(query.method));
+    const orders = parsed.filter(query => query.method.startsWith('order'));
+    const limit = parsed.find(query => query.method === 'limit')?.values?.[0] as number | undefined;
+    const offset = (parsed.find(query => query.method === 'offset')?.values?.[0] as number | undefined) ?? 0;
+    const cursor = parsed.find(query => query.method === 'cursorAfter')?.values?.[0];
+
+    let documents = [...this.collection(collectionId).values()]
+      .filter(doc => filters.every(filter => matches(doc, filter)))
+      .sort((a, b) => compare(a, b, orders));
+    const total = documents.length;
+
+    if (cursor !== undefined) {
+      const index = documents.findIndex(doc => doc.$id === cursor);
+      if (index < 0) {
+        throw new AppwriteException(`Document '${cursor}' for the 'cursor' value not found.`, 400, 'general_cursor_not_found');
+      }
+      documents = documents.slice(index + 1);
+    }
+    documents = documents.slice(offset, limit === undefined ? undefined : offset + limit);
+
+    return { total, documents: documents.map(doc => ({ ...doc }) as unknown as T) };
+  }
+}
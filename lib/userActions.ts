@@ -1,23 +1,27 @@
-import { DatabaseService } from './database';
-import { addRewardNotification } from '@/components/notification-system';
+import { AchievementService } from './achievements';
+import { PointReason, PointsService, POINT_RULES } from './points';
+import { Sensor, WaterReport } from './appwrite';
+import { addRewardNotification } from './notifications';
+import { NewSensor, SensorRegistry } from './sensors/registry';
+import { Clock, STREAK_BONUS_INTERVAL, StreakService, systemClock, toLocalDateKey } from './streak';
+import { SyncQueue } from './syncQueue';
 
 export class UserActions {
-  // Submit a report and update user stats
-  static async submitReport(userId: string): Promise<void> {
+  // Award points from the rule table and tell the user, unless this
+  // reason/entity pair had already been rewarded
+  private static async award(reason: PointReason, entityId: string, clock: Clock = systemClock) {
+    const result = await PointsService.award(reason, entityId, toLocalDateKey(clock()));
+    if (result.awarded) {
+      await addRewardNotification(result.points, `${POINT_RULES[reason].label}!`);
+    }
+    return result;
+  }
+
+  // Reward a submitted report and update user stats
+  static async submitReport(reportId: string, severity: WaterReport['severity']): Promise<void> {
     try {
-      // Increment report count
-      const updatedProfile = await DatabaseService.incrementReports(userId);
-      
-      if (updatedProfile) {
-        // Award points for submitting a report
-        await DatabaseService.addPoints(userId, 25);
-        
-        // Show notification
-        await addRewardNotification(25, 'submitting a water quality report!');
-        
-        // Check for achievements
-        await this.checkReportAchievements(userId, updatedProfile.reportsSubmitted);
-      }
+      await this.award(`report_${severity}`, reportId);
+      await this.checkAchievements();
     } catch (error) {
       console.error('Error submitting report:', error);
       throw error;
@@ -25,108 +29,75 @@ export class UserActions {
   }
 
   // Complete a health check and update stats
-  static async completeHealthCheck(userId: string): Promise<void> {
+  static async completeHealthCheck(assessmentId: string): Promise<void> {
     try {
-      // Award points for health check
-      await DatabaseService.addPoints(userId, 15);
-      
-      // Show notification
-      await addRewardNotification(15, 'completing a health assessment!');
+      await this.award('health_check', assessmentId);
+      await this.checkAchievements();
     } catch (error) {
       console.error('Error completing health check:', error);
       throw error;
     }
   }
 
-  // Update daily streak
-  static async updateDailyStreak(userId: string): Promise<void> {
-    try {
-      const userProfile = await DatabaseService.getUserProfile(userId);
-      if (!userProfile) return;
-
-      // Simple streak logic - in a real app, you'd check last activity date
-      const newStreak = userProfile.streak + 1;
-      await DatabaseService.updateStreak(userId, newStreak);
-
-      // Award bonus points for streaks
-      if (newStreak % 7 === 0) { // Weekly streak bonus
-        await DatabaseService.addPoints(userId, 50);
-        await addRewardNotification(50, `maintaining a ${newStreak}-day streak!`);
-      }
+  // Queue points for an action taken now. They reach the ledger when the
+  // outbox syncs, still counted for the local day they were earned on.
+  static async queueAward(reason: PointReason, entityId: string, clock: Clock = systemClock): Promise<void> {
+    await SyncQueue.enqueue({ type: 'awardPoints', payload: { reason, entityId, activeDate: toLocalDateKey(clock()) } });
+  }
 
-      // Check for streak achievements
-      await this.checkStreakAchievements(userId, newStreak);
-    } catch (error) {
-      console.error('Error updating streak:', error);
-      throw error;
+  // Count the current local day towards the daily streak. Queued, so a
+  // qualifying action taken offline still counts for the day it happened.
+  static async recordActivity(clock: Clock = systemClock): Promise<void> {
+    const activeDate = toLocalDateKey(clock());
+    const pending = await SyncQueue.getPending();
+    const alreadyQueued = pending.some(
+      mutation => mutation.type === 'recordActivity' && mutation.payload.activeDate === activeDate
+    );
+    if (!alreadyQueued) {
+      await SyncQueue.enqueue({ type: 'recordActivity', payload: { activeDate } });
     }
   }
 
-  // Check and unlock report-based achievements
-  private static async checkReportAchievements(userId: string, reportCount: number): Promise<void> {
+  // Update daily streak straight away and check streak achievements
+  static async updateDailyStreak(clock: Clock = systemClock): Promise<void> {
     try {
-      // First report achievement
-      if (reportCount === 1) {
-        const isUnlocked = await DatabaseService.isAchievementUnlocked(userId, 'first_report');
-        if (!isUnlocked) {
-          await DatabaseService.unlockAchievement(userId, 'first_report', 50);
-          await addRewardNotification(50, 'unlocking "First Reporter" achievement!');
-        }
-      }
+      const update = await StreakService.recordActivity(toLocalDateKey(clock()));
+      if (!update?.changed) return;
 
-      // Community hero achievement (10 reports)
-      if (reportCount === 10) {
-        const isUnlocked = await DatabaseService.isAchievementUnlocked(userId, 'community_hero');
-        if (!isUnlocked) {
-          await DatabaseService.unlockAchievement(userId, 'community_hero', 200);
-          await addRewardNotification(200, 'unlocking "Community Hero" achievement!');
-        }
+      if (update.streak % STREAK_BONUS_INTERVAL === 0) {
+        await addRewardNotification(POINT_RULES.streak_bonus.points, `${POINT_RULES.streak_bonus.label}!`);
       }
-    } catch (error) {
-      console.error('Error checking report achievements:', error);
-    }
-  }
 
-  // Check and unlock streak-based achievements
-  private static async checkStreakAchievements(userId: string, streak: number): Promise<void> {
-    try {
-      // Streak warrior achievement (7-day streak)
-      if (streak === 7) {
-        const isUnlocked = await DatabaseService.isAchievementUnlocked(userId, 'streak_warrior');
-        if (!isUnlocked) {
-          await DatabaseService.unlockAchievement(userId, 'streak_warrior', 150);
-          await addRewardNotification(150, 'unlocking "Streak Warrior" achievement!');
-        }
-      }
+      await this.checkAchievements();
     } catch (error) {
-      console.error('Error checking streak achievements:', error);
+      console.error('Error updating streak:', error);
+      throw error;
     }
   }
 
-  // Check level-based achievements
-  static async checkLevelAchievements(userId: string, level: number): Promise<void> {
+  // Unlock any achievements the latest action has earned. A failure here
+  // should never undo or fail the action itself.
+  static async checkAchievements(): Promise<void> {
     try {
-      // Water guardian achievement (level 10)
-      if (level === 10) {
-        const isUnlocked = await DatabaseService.isAchievementUnlocked(userId, 'water_guardian');
-        if (!isUnlocked) {
-          await DatabaseService.unlockAchievement(userId, 'water_guardian', 500);
-          await addRewardNotification(500, 'unlocking "Water Guardian" achievement!');
-        }
-      }
+      await AchievementService.checkAndUnlock();
     } catch (error) {
-      console.error('Error checking level achievements:', error);
+      console.error('Error checking achievements:', error);
     }
   }
 
-  // Simulate sensor connection (for testing)
-  static async connectSensor(userId: string): Promise<void> {
+  // Register a sensor and tell the user about the points it earned. The
+  // points function pays for each new sensor, up to a limit.
+  static async connectSensor(details: NewSensor, clock: Clock = systemClock): Promise<Sensor> {
     try {
-      await DatabaseService.addPoints(userId, 10);
-      await addRewardNotification(10, 'connecting a sensor!');
+      const { sensor, awarded, points } = await SensorRegistry.create(details, toLocalDateKey(clock()));
+      if (awarded) {
+        await addRewardNotification(points, `${POINT_RULES.sensor_connected.label}!`);
+        await this.checkAchievements();
+      }
+      return sensor;
     } catch (error) {
       console.error('Error connecting sensor:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+}
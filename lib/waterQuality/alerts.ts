@@ -0,0 +1,264 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addNotification, toNotificationUrl } from '../notifications';
+import { PushNotifications } from '../pushNotifications';
+import { SensorRegistry } from '../sensors/registry';
+import { SensorManager } from '../sensors/sensorManager';
+import { SensorReading, Unsubscribe } from '../sensors/types';
+import {
+  evaluateParameter,
+  ParameterLimits,
+  ThresholdSettings,
+  Verdict,
+  WATER_PARAMETERS,
+  WaterParameter,
+} from './thresholds';
+import { WaterQualitySnapshot } from './types';
+
+// Alert state of every sensor/parameter pair, kept across launches
+const ALERT_STATE_KEY = 'waterQualityAlerts';
+
+export interface AlertOptions {
+  // A change of verdict must hold for this many readings...
+  minReadings: number;
+  // ...spanning at least this long before anyone is told
+  minPersistenceMs: number;
+  // Alerts for the same sensor and parameter within this window are
+  // merged into one notification with a counter
+  cooldownMs: number;
+}
+
+export const DEFAULT_ALERT_OPTIONS: AlertOptions = {
+  minReadings: 3,
+  minPersistenceMs: 60 * 1000,
+  cooldownMs: 30 * 60 * 1000,
+};
+
+// How far back inside its limits a value must come before an alert clears,
+// so a reading hovering on a limit does not flip in and out of alert
+export const ALERT_HYSTERESIS: Record<WaterParameter, number> = {
+  ph: 0.1,
+  turbidity: 0.2,
+  tds: 20,
+  temperature: 0.5,
+  residualChlorine: 0.05,
+  nitrate: 2,
+  fluoride: 0.05,
+  arsenic: 0.001,
+  eColi: 0,
+};
+
+export interface AlertState {
+  // Verdict currently alerted on; `safe` while there is no alert
+  active: Verdict;
+  // A different verdict the readings are moving to, not yet confirmed
+  pending: { verdict: Verdict; since: string; count: number } | null;
+  // Newest reading seen, so the same reading is never counted twice
+  lastTimestamp: string | null;
+  // When the current alert and recovery notification groups began
+  alertGroupStartedAt: string | null;
+  recoveryGroupStartedAt: string | null;
+  // The alert group a push notification was last sent for
+  pushedGroupStartedAt: string | null;
+}
+
+export type AlertEvent =
+  // `push` is set on the first danger of an alert group; the rest only
+  // update its in-app notification
+  | { kind: 'alert'; verdict: 'warning' | 'danger'; reason: string; groupStartedAt: string; push: boolean }
+  | { kind: 'recovered'; reason: string; groupStartedAt: string };
+
+export const INITIAL_ALERT_STATE: AlertState = {
+  active: 'safe',
+  pending: null,
+  lastTimestamp: null,
+  alertGroupStartedAt: null,
+  recoveryGroupStartedAt: null,
+  pushedGroupStartedAt: null,
+};
+
+const VERDICT_SEVERITY: Record<Verdict, number> = { safe: 0, warning: 1, danger: 2 };
+
+const tighten = ({ min, max }: { min?: number; max?: number }, margin: number) => ({
+  min: min === undefined ? undefined : min + margin,
+  max: max === undefined ? undefined : max - margin,
+});
+
+// The verdict to move to: getting worse takes the plain limits, getting
+// better takes limits narrowed by the parameter's hysteresis
+const getTargetVerdict = (
+  active: Verdict,
+  parameter: WaterParameter,
+  value: number,
+  limits: ParameterLimits
+): Verdict => {
+  const plain = evaluateParameter(parameter, value, limits).verdict;
+  if (VERDICT_SEVERITY[plain] >= VERDICT_SEVERITY[active]) return plain;
+
+  const margin = ALERT_HYSTERESIS[parameter];
+  const strict = evaluateParameter(parameter, value, {
+    safe: tighten(limits.safe, margin),
+    tolerable: limits.tolerable && tighten(limits.tolerable, margin),
+  }).verdict;
+  return VERDICT_SEVERITY[strict] < VERDICT_SEVERITY[active] ? strict : active;
+};
+
+// Reuse the open notification group if it started within the cooldown
+const getGroupStart = (startedAt: string | null, timestamp: string, cooldownMs: number) =>
+  startedAt && new Date(timestamp).getTime() - new Date(startedAt).getTime() < cooldownMs ? startedAt : timestamp;
+
+// Feed one reading through the alert state machine. Returns the new state
+// and the notification to raise, if any. Only getting worse raises an
+// alert and only returning to safe raises a recovery; danger easing to
+// warning is silent.
+export const evaluateAlert = (
+  state: AlertState,
+  reading: Pick<SensorReading, 'value' | 'timestamp'> & { parameter: WaterParameter },
+  limits: ParameterLimits,
+  options: AlertOptions = DEFAULT_ALERT_OPTIONS
+): { state: AlertState; event: AlertEvent | null } => {
+  if (state.lastTimestamp && reading.timestamp <= state.lastTimestamp) {
+    return { state, event: null };
+  }
+
+  const target = getTargetVerdict(state.active, reading.parameter, reading.value, limits);
+  const next: AlertState = { ...state, lastTimestamp: reading.timestamp };
+
+  if (target === state.active) {
+    return { state: { ...next, pending: null }, event: null };
+  }
+
+  // Keep counting while the readings move the same way, even if the
+  // verdict they point at shifts (safe to warning to danger, say)
+  const worsening = VERDICT_SEVERITY[target] > VERDICT_SEVERITY[state.active];
+  const pending = state.pending &&
+    (VERDICT_SEVERITY[state.pending.verdict] > VERDICT_SEVERITY[state.active]) === worsening
+    ? { ...state.pending, verdict: target, count: state.pending.count + 1 }
+    : { verdict: target, since: reading.timestamp, count: 1 };
+
+  const persistedMs = new Date(reading.timestamp).getTime() - new Date(pending.since).getTime();
+  if (pending.count < options.minReadings || persistedMs < options.minPersistenceMs) {
+    return { state: { ...next, pending }, event: null };
+  }
+
+  const confirmed: AlertState = { ...next, active: pending.verdict, pending: null };
+  const { reason } = evaluateParameter(reading.parameter, reading.value, limits);
+
+  if (pending.verdict === 'safe') {
+    const groupStartedAt = getGroupStart(state.recoveryGroupStartedAt, reading.timestamp, options.cooldownMs);
+    return {
+      state: { ...confirmed, recoveryGroupStartedAt: groupStartedAt },
+      event: { kind: 'recovered', reason, groupStartedAt },
+    };
+  }
+  if (worsening) {
+    const groupStartedAt = getGroupStart(state.alertGroupStartedAt, reading.timestamp, options.cooldownMs);
+    const push = pending.verdict === 'danger' && state.pushedGroupStartedAt !== groupStartedAt;
+    return {
+      state: {
+        ...confirmed,
+        alertGroupStartedAt: groupStartedAt,
+        pushedGroupStartedAt: push ? groupStartedAt : state.pushedGroupStartedAt,
+      },
+      event: { kind: 'alert', verdict: pending.verdict, reason, groupStartedAt, push },
+    };
+  }
+  return { state: confirmed, event: null };
+};
+
+const getKey = (deviceId: string, parameter: WaterParameter) => `${deviceId}:${parameter}`;
+
+export class WaterQualityAlerts {
+  private static states = new Map<string, AlertState>();
+  private static loaded: Promise<void> | null = null;
+
+  // Judge a reading and notify the user if it confirms a change
+  static async observe(reading: SensorReading, sensorName: string): Promise<void> {
+    const limits = ThresholdSettings.getProfile().limits[reading.parameter];
+    if (!limits || reading.fault) return;
+
+    await this.load();
+    const key = getKey(reading.deviceId, reading.parameter);
+    const previous = this.states.get(key) ?? INITIAL_ALERT_STATE;
+    const { state, event } = evaluateAlert(previous, reading, limits);
+    this.states.set(key, state);
+
+    if (state.active !== previous.active || event) {
+      await this.save();
+    }
+    if (event) {
+      await this.notify(reading, sensorName, event);
+    }
+  }
+
+  // Judge every reading in a snapshot from a sensor not paired here
+  static async observeSnapshot(snapshot: WaterQualitySnapshot): Promise<void> {
+    for (const reading of Object.values(snapshot.readings)) {
+      if (reading) await this.observe(reading, snapshot.sensorName);
+    }
+  }
+
+  // Watch every reading from paired sensors, whichever screen is open
+  static start(): Unsubscribe {
+    return SensorManager.onReading(reading => {
+      const sensorName = SensorRegistry.getByDevice(reading.deviceId)?.name
+        ?? SensorManager.getSensors().find(sensor => sensor.id === reading.deviceId)?.name
+        ?? reading.deviceId;
+      this.observe(reading, sensorName).catch(error =>
+        console.error('Error evaluating water quality alert:', error)
+      );
+    });
+  }
+
+  private static async notify(reading: SensorReading, sensorName: string, event: AlertEvent) {
+    const { label } = WATER_PARAMETERS[reading.parameter];
+    const groupKey = `water:${getKey(reading.deviceId, reading.parameter)}:${event.kind}:${event.groupStartedAt}`;
+    // Opens the Sensors tab on the sensor that raised it
+    const link = { route: '/(tabs)/sensors', params: { deviceId: reading.deviceId } };
+
+    if (event.kind === 'recovered') {
+      await addNotification({
+        type: 'success',
+        category: 'alert',
+        title: `✅ ${label} Back to Normal`,
+        message: `${sensorName}: ${event.reason}.`,
+        groupKey,
+        link,
+      });
+    } else if (event.verdict === 'danger') {
+      const title = '⚠️ Water Quality Alert';
+      const message = `${sensorName}: ${event.reason}. Please avoid consumption.`;
+      await addNotification({ type: 'error', category: 'alert', title, message, groupKey, link });
+      // Dangerous water must reach the user even with the app in the
+      // background, but once per group: repeats within the cooldown only
+      // bump the counter on the notification already shown
+      if (event.push) {
+        await PushNotifications.present('alert', title, message, toNotificationUrl(link) ?? undefined);
+      }
+    } else {
+      await addNotification({
+        type: 'warning',
+        category: 'alert',
+        title: '⚠️ Water Quality Warning',
+        message: `${sensorName}: ${event.reason}.`,
+        groupKey,
+        link,
+      });
+    }
+  }
+
+  private static load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(ALERT_STATE_KEY)
+        .then(saved => {
+          if (saved) this.states = new Map(Object.entries(JSON.parse(saved)));
+        })
+        .catch(error => console.error('Error loading water quality alerts:', error));
+    }
+    return this.loaded;
+  }
+
+  private static async save(): Promise<void> {
+    await AsyncStorage.setItem(ALERT_STATE_KEY, JSON.stringify(Object.fromEntries(this.states)))
+      .catch(error => console.error('Error saving water quality alerts:', error));
+  }
+}
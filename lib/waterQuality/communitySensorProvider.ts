@@ -0,0 +1,87 @@
+import { Coordinates, getBounds, getDistanceMeters } from '../geo';
+import { ReadingStore } from '../sensors/readingStore';
+import { SensorRegistry } from '../sensors/registry';
+import { Unsubscribe } from '../sensors/types';
+import { getNewestTimestamp, SnapshotListener, WaterQualityProvider, WaterQualitySnapshot } from './types';
+
+interface CommunitySensorProviderOptions {
+  // Sensors further away than this are not considered nearby
+  radiusMeters?: number;
+  // Sensors that have not reported for this long are skipped
+  maxAgeMs?: number;
+  refreshMs?: number;
+}
+
+// Nearby sensors tried in order of distance until one has fresh readings
+const CANDIDATE_LIMIT = 5;
+
+// Water quality from the nearest sensor another user has shared, polled
+// from the backend. Needs the user's position.
+export class CommunitySensorProvider implements WaterQualityProvider {
+  private readonly radiusMeters: number;
+  private readonly maxAgeMs: number;
+  private readonly refreshMs: number;
+
+  constructor({
+    radiusMeters = 25000,
+    maxAgeMs = 24 * 60 * 60 * 1000,
+    refreshMs = 5 * 60 * 1000,
+  }: CommunitySensorProviderOptions = {}) {
+    this.radiusMeters = radiusMeters;
+    this.maxAgeMs = maxAgeMs;
+    this.refreshMs = refreshMs;
+  }
+
+  subscribe(origin: Coordinates | null, listener: SnapshotListener): Unsubscribe {
+    if (!origin) {
+      listener(null);
+      return () => {};
+    }
+
+    let stopped = false;
+    const refresh = () =>
+      this.findNearest(origin)
+        .then(snapshot => {
+          if (!stopped) listener(snapshot);
+        })
+        .catch(error => console.error('Error loading community sensor:', error));
+
+    refresh();
+    const interval = setInterval(refresh, this.refreshMs);
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }
+
+  private async findNearest(origin: Coordinates): Promise<WaterQualitySnapshot | null> {
+    const sensors = await SensorRegistry.listShared(getBounds(origin, this.radiusMeters));
+    const since = new Date(Date.now() - this.maxAgeMs);
+
+    const candidates = sensors
+      .flatMap(sensor => {
+        const { latitude, longitude } = sensor.installLocation ?? {};
+        if (latitude == null || longitude == null) return [];
+        return [{ sensor, distanceMeters: getDistanceMeters(origin, { latitude, longitude }) }];
+      })
+      .filter(candidate => candidate.distanceMeters <= this.radiusMeters)
+      .sort((a, b) => a.distanceMeters - b.distanceMeters)
+      .slice(0, CANDIDATE_LIMIT);
+
+    for (const { sensor, distanceMeters } of candidates) {
+      const readings = await ReadingStore.fetchLatest(sensor.$id, since);
+      const updatedAt = getNewestTimestamp(readings);
+      if (updatedAt) {
+        return {
+          source: 'community',
+          deviceId: sensor.deviceId,
+          sensorName: sensor.name,
+          distanceMeters,
+          readings,
+          updatedAt,
+        };
+      }
+    }
+    return null;
+  }
+}
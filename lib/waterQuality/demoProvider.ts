@@ -0,0 +1,71 @@
+import { Coordinates } from '../geo';
+import { Clock, systemClock } from '../streak';
+import { SENSOR_PARAMETERS, SensorParameter, Unsubscribe } from '../sensors/types';
+import { LatestReadings, SnapshotListener, WaterQualityProvider, WaterQualitySnapshot } from './types';
+
+export const DEMO_DEVICE_ID = 'demo';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Each parameter follows a slow sine wave around a safe baseline. Values
+// depend only on the time, so every phone shows the same numbers at the
+// same moment and the demo never wanders into an alarming range.
+const DEMO_WAVES: Record<SensorParameter, { baseline: number; amplitude: number; periodMs: number; phase: number }> = {
+  ph: { baseline: 7.3, amplitude: 0.2, periodMs: 6 * HOUR_MS, phase: 0 },
+  turbidity: { baseline: 1.2, amplitude: 0.6, periodMs: 24 * HOUR_MS, phase: 1 },
+  tds: { baseline: 320, amplitude: 40, periodMs: 12 * HOUR_MS, phase: 2 },
+  temperature: { baseline: 25, amplitude: 3, periodMs: 24 * HOUR_MS, phase: 3 },
+};
+
+// Demo readings as of `at`, rounded down to the update interval
+export const getDemoReadings = (at: Date, intervalMs: number): LatestReadings => {
+  const time = Math.floor(at.getTime() / intervalMs) * intervalMs;
+  const timestamp = new Date(time).toISOString();
+
+  return Object.fromEntries(
+    (Object.keys(DEMO_WAVES) as SensorParameter[]).map(parameter => {
+      const { baseline, amplitude, periodMs, phase } = DEMO_WAVES[parameter];
+      const value = Math.round((baseline + amplitude * Math.sin((2 * Math.PI * time) / periodMs + phase)) * 100) / 100;
+      return [
+        parameter,
+        {
+          deviceId: DEMO_DEVICE_ID,
+          parameter,
+          value,
+          rawValue: value,
+          unit: SENSOR_PARAMETERS[parameter].unit,
+          timestamp,
+          sequence: (time / intervalMs) % 256,
+          fault: false,
+        },
+      ];
+    })
+  );
+};
+
+// Made-up but repeatable water quality, for trying the app without a sensor
+export class DemoProvider implements WaterQualityProvider {
+  constructor(
+    private readonly intervalMs = 10000,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  subscribe(_origin: Coordinates | null, listener: SnapshotListener): Unsubscribe {
+    const emit = () => {
+      const readings = getDemoReadings(this.clock(), this.intervalMs);
+      const snapshot: WaterQualitySnapshot = {
+        source: 'demo',
+        deviceId: DEMO_DEVICE_ID,
+        sensorName: 'Demo sensor',
+        distanceMeters: null,
+        readings,
+        updatedAt: readings.ph!.timestamp,
+      };
+      listener(snapshot);
+    };
+
+    emit();
+    const interval = setInterval(emit, this.intervalMs);
+    return () => clearInterval(interval);
+  }
+}
@@ -0,0 +1,40 @@
+import { Coordinates } from '../geo';
+import { Unsubscribe } from '../sensors/types';
+import { CommunitySensorProvider } from './communitySensorProvider';
+import { DemoProvider } from './demoProvider';
+import { PairedSensorProvider } from './pairedSensorProvider';
+import { SnapshotListener, WaterQualityProvider, WaterQualitySnapshot } from './types';
+
+// The user's own sensors when they have readings, otherwise the nearest
+// community sensor
+class PreferredProvider implements WaterQualityProvider {
+  constructor(private readonly providers: WaterQualityProvider[]) {}
+
+  subscribe(origin: Coordinates | null, listener: SnapshotListener): Unsubscribe {
+    const latest: (WaterQualitySnapshot | null)[] = this.providers.map(() => null);
+    const unsubscribes = this.providers.map((provider, index) =>
+      provider.subscribe(origin, snapshot => {
+        latest[index] = snapshot;
+        listener(latest.find(candidate => candidate !== null) ?? null);
+      })
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+// EXPO_PUBLIC_WATER_QUALITY_SOURCE picks where Home gets water quality
+// from: `paired`, `community` or `demo`. Without it, paired sensors are
+// preferred over community ones. The demo is never used unless asked for,
+// so made-up numbers are never mistaken for real ones.
+export const createWaterQualityProvider = (): WaterQualityProvider => {
+  switch (process.env.EXPO_PUBLIC_WATER_QUALITY_SOURCE) {
+    case 'demo':
+      return new DemoProvider();
+    case 'paired':
+      return new PairedSensorProvider();
+    case 'community':
+      return new CommunitySensorProvider();
+    default:
+      return new PreferredProvider([new PairedSensorProvider(), new CommunitySensorProvider()]);
+  }
+};
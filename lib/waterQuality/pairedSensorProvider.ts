@@ -0,0 +1,38 @@
+import { Coordinates, getDistanceMeters } from '../geo';
+import { SensorRegistry } from '../sensors/registry';
+import { SensorManager, SensorStatus } from '../sensors/sensorManager';
+import { Unsubscribe } from '../sensors/types';
+import { getNewestTimestamp, SnapshotListener, WaterQualityProvider, WaterQualitySnapshot } from './types';
+
+const toSnapshot = (sensor: SensorStatus, origin: Coordinates | null): WaterQualitySnapshot | null => {
+  const updatedAt = getNewestTimestamp(sensor.latest);
+  if (!updatedAt) return null;
+
+  const registered = SensorRegistry.getByDevice(sensor.id);
+  const installed = registered?.installLocation;
+  return {
+    source: 'paired',
+    deviceId: sensor.id,
+    sensorName: registered?.name ?? sensor.name,
+    distanceMeters:
+      origin && installed?.latitude != null && installed.longitude != null
+        ? getDistanceMeters(origin, { latitude: installed.latitude, longitude: installed.longitude })
+        : null,
+    readings: sensor.latest,
+    updatedAt,
+  };
+};
+
+// Water quality from the sensors paired with this phone. With several, the
+// one that reported most recently is shown.
+export class PairedSensorProvider implements WaterQualityProvider {
+  subscribe(origin: Coordinates | null, listener: SnapshotListener): Unsubscribe {
+    return SensorManager.subscribe(sensors => {
+      const snapshots = sensors
+        .map(sensor => toSnapshot(sensor, origin))
+        .filter((snapshot): snapshot is WaterQualitySnapshot => snapshot !== null)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      listener(snapshots[0] ?? null);
+    });
+  }
+}
@@ -0,0 +1,237 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SENSOR_PARAMETERS, SensorParameter, Unsubscribe } from '../sensors/types';
+import { LatestReadings } from './types';
+
+// Everything water can be judged on: what sensors measure, plus results
+// that come from a lab or field test kit
+export type WaterParameter = SensorParameter | 'residualChlorine' | 'nitrate' | 'fluoride' | 'arsenic' | 'eColi';
+
+export const WATER_PARAMETERS: Record<WaterParameter, { label: string; unit: string }> = {
+  ...SENSOR_PARAMETERS,
+  residualChlorine: { label: 'Residual chlorine', unit: 'mg/L' },
+  nitrate: { label: 'Nitrate', unit: 'mg/L' },
+  fluoride: { label: 'Fluoride', unit: 'mg/L' },
+  arsenic: { label: 'Arsenic', unit: 'mg/L' },
+  eColi: { label: 'E. coli', unit: 'CFU/100 mL' },
+};
+
+export type Verdict = 'safe' | 'warning' | 'danger';
+
+export type WaterQualityStatus = Verdict | 'unknown';
+
+interface Bounds {
+  min?: number;
+  max?: number;
+}
+
+// Limits for one parameter. Values within `safe` are safe; values outside
+// it but within `tolerable` are a warning; anything else is dangerous. A
+// parameter without `tolerable` goes straight from safe to dangerous.
+export interface ParameterLimits {
+  safe: Bounds;
+  tolerable?: Bounds;
+}
+
+export type ThresholdProfileId = 'bis10500' | 'who';
+
+export interface ThresholdProfile {
+  id: ThresholdProfileId;
+  name: string;
+  description: string;
+  // Parameters the standard has no limit for (temperature, say) are not judged
+  limits: Partial<Record<WaterParameter, ParameterLimits>>;
+}
+
+export const THRESHOLD_PROFILES: Record<ThresholdProfileId, ThresholdProfile> = {
+  // IS 10500:2012. `safe` is the acceptable limit and `tolerable` the
+  // permissible limit in the absence of an alternate source: pH, turbidity
+  // and TDS from Table 1, residual chlorine, nitrate and fluoride from
+  // Table 2, arsenic from Table 3 and E. coli from Table 6. Free residual
+  // chlorine must be at least 0.2 mg/L in chlorinated water, with a
+  // permissible limit of 1 mg/L.
+  bis10500: {
+    id: 'bis10500',
+    name: 'BIS IS 10500',
+    description: 'Indian Standard for drinking water (IS 10500:2012)',
+    limits: {
+      ph: { safe: { min: 6.5, max: 8.5 } },
+      turbidity: { safe: { max: 1 }, tolerable: { max: 5 } },
+      tds: { safe: { max: 500 }, tolerable: { max: 2000 } },
+      residualChlorine: { safe: { min: 0.2, max: 1 }, tolerable: { min: 0, max: 1 } },
+      nitrate: { safe: { max: 45 } },
+      fluoride: { safe: { max: 1 }, tolerable: { max: 1.5 } },
+      arsenic: { safe: { max: 0.01 } },
+      eColi: { safe: { max: 0 } },
+    },
+  },
+  // WHO Guidelines for Drinking-water Quality, 4th edition incorporating
+  // the first addendum (2017). Chlorine, nitrate, fluoride and arsenic are
+  // the guideline values of Annex 3, Table A3.3, with the 0.2 mg/L minimum
+  // chlorine residual at the point of delivery from chapter 7; E. coli is
+  // Table 7.10. WHO sets no health-based value for pH, turbidity or TDS:
+  // pH is the 6.5-8.5 operational range, turbidity the 1 NTU needed for
+  // disinfection and the 5 NTU consumers notice, and TDS the 600 mg/L
+  // palatability level and the 1000 mg/L above which water is increasingly
+  // unpalatable (chapter 10).
+  who: {
+    id: 'who',
+    name: 'WHO Guidelines',
+    description: 'World Health Organization drinking-water guidelines',
+    limits: {
+      ph: { safe: { min: 6.5, max: 8.5 } },
+      turbidity: { safe: { max: 1 }, tolerable: { max: 5 } },
+      tds: { safe: { max: 600 }, tolerable: { max: 1000 } },
+      residualChlorine: { safe: { min: 0.2, max: 5 }, tolerable: { min: 0, max: 5 } },
+      nitrate: { safe: { max: 50 } },
+      fluoride: { safe: { max: 1.5 } },
+      arsenic: { safe: { max: 0.01 } },
+      eColi: { safe: { max: 0 } },
+    },
+  },
+};
+
+export const DEFAULT_THRESHOLD_PROFILE: ThresholdProfileId = 'bis10500';
+
+// The verdict on one measured parameter and why
+export interface ParameterVerdict {
+  parameter: WaterParameter;
+  value: number;
+  verdict: Verdict;
+  reason: string;
+}
+
+export interface WaterQualityAssessment {
+  profile: ThresholdProfile;
+  // The worst verdict of any parameter; unknown when nothing was judged
+  status: WaterQualityStatus;
+  verdicts: Partial<Record<WaterParameter, ParameterVerdict>>;
+  // Why the water is not safe, worst first. Empty when it is.
+  reasons: string[];
+}
+
+const VERDICT_SEVERITY: Record<Verdict, number> = { safe: 0, warning: 1, danger: 2 };
+
+const within = (value: number, { min = -Infinity, max = Infinity }: Bounds) => value >= min && value <= max;
+
+const formatValue = (parameter: WaterParameter, value: number) => {
+  const rounded = Number(value.toFixed(3));
+  return parameter === 'ph' ? String(rounded) : `${rounded} ${WATER_PARAMETERS[parameter].unit}`;
+};
+
+// Describe which bound a value broke, e.g. "above the 5 NTU limit"
+const describeBreach = (parameter: WaterParameter, value: number, bounds: Bounds) => {
+  const { unit } = WATER_PARAMETERS[parameter];
+  const limit = bounds.max !== undefined && value > bounds.max ? bounds.max : bounds.min;
+  const direction = bounds.max !== undefined && value > bounds.max ? 'above' : 'below';
+  return `${direction} the ${parameter === 'ph' ? limit : `${limit} ${unit}`} limit`;
+};
+
+export const evaluateParameter = (
+  parameter: WaterParameter,
+  value: number,
+  limits: ParameterLimits
+): ParameterVerdict => {
+  const { label } = WATER_PARAMETERS[parameter];
+
+  if (parameter === 'eColi') {
+    return value > limits.safe.max!
+      ? { parameter, value, verdict: 'danger', reason: `${label} detected in the water` }
+      : { parameter, value, verdict: 'safe', reason: `No ${label} detected` };
+  }
+
+  if (within(value, limits.safe)) {
+    return { parameter, value, verdict: 'safe', reason: `${label} ${formatValue(parameter, value)} is within limits` };
+  }
+  if (limits.tolerable && within(value, limits.tolerable)) {
+    return {
+      parameter,
+      value,
+      verdict: 'warning',
+      reason: `${label} ${formatValue(parameter, value)} is ${describeBreach(parameter, value, limits.safe)}`,
+    };
+  }
+  return {
+    parameter,
+    value,
+    verdict: 'danger',
+    reason: `${label} ${formatValue(parameter, value)} is ${describeBreach(parameter, value, limits.tolerable ?? limits.safe)}`,
+  };
+};
+
+// Judge a set of measurements against a standard
+export const evaluateWaterQuality = (
+  values: Partial<Record<WaterParameter, number>>,
+  profile: ThresholdProfile
+): WaterQualityAssessment => {
+  const verdicts: Partial<Record<WaterParameter, ParameterVerdict>> = {};
+  (Object.keys(values) as WaterParameter[]).forEach(parameter => {
+    const value = values[parameter];
+    const limits = profile.limits[parameter];
+    if (value === undefined || !Number.isFinite(value) || !limits) return;
+    verdicts[parameter] = evaluateParameter(parameter, value, limits);
+  });
+
+  const judged = Object.values(verdicts).sort((a, b) => VERDICT_SEVERITY[b.verdict] - VERDICT_SEVERITY[a.verdict]);
+  return {
+    profile,
+    status: judged[0]?.verdict ?? 'unknown',
+    verdicts,
+    reasons: judged.filter(verdict => verdict.verdict !== 'safe').map(verdict => verdict.reason),
+  };
+};
+
+// Judge the latest sensor readings, leaving out any the probe flagged
+export const evaluateReadings = (readings: LatestReadings, profile: ThresholdProfile): WaterQualityAssessment =>
+  evaluateWaterQuality(
+    Object.fromEntries(
+      Object.values(readings)
+        .filter(reading => reading && !reading.fault)
+        .map(reading => [reading!.parameter, reading!.value])
+    ),
+    profile
+  );
+
+// Which standard the user has chosen to judge water by
+const PROFILE_KEY = 'thresholdProfile';
+
+type ProfileListener = (profile: ThresholdProfile) => void;
+
+export class ThresholdSettings {
+  private static profileId: ThresholdProfileId = DEFAULT_THRESHOLD_PROFILE;
+  private static listeners = new Set<ProfileListener>();
+  private static loaded: Promise<void> | null = null;
+
+  static getProfile(): ThresholdProfile {
+    return THRESHOLD_PROFILES[this.profileId];
+  }
+
+  // Be told the chosen profile now and whenever it changes
+  static subscribe(listener: ProfileListener): Unsubscribe {
+    this.listeners.add(listener);
+    listener(this.getProfile());
+    this.load().then(() => {
+      if (this.listeners.has(listener)) listener(this.getProfile());
+    });
+    return () => this.listeners.delete(listener);
+  }
+
+  static async setProfile(profileId: ThresholdProfileId): Promise<void> {
+    // A saved choice still loading must not overwrite this one
+    await this.load();
+    this.profileId = profileId;
+    this.listeners.forEach(listener => listener(this.getProfile()));
+    await AsyncStorage.setItem(PROFILE_KEY, profileId)
+      .catch(error => console.error('Error saving threshold profile:', error));
+  }
+
+  private static load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(PROFILE_KEY)
+        .then(saved => {
+          if (saved && saved in THRESHOLD_PROFILES) this.profileId = saved as ThresholdProfileId;
+        })
+        .catch(error => console.error('Error loading threshold profile:', error));
+    }
+    return this.loaded;
+  }
+}
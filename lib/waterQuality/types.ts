@@ -0,0 +1,38 @@
+import { Coordinates } from '../geo';
+import { SensorParameter, SensorReading, Unsubscribe } from '../sensors/types';
+
+// Where the water quality shown to the user comes from
+export type WaterQualitySource = 'paired' | 'community' | 'demo';
+
+export type LatestReadings = Partial<Record<SensorParameter, SensorReading>>;
+
+// The water quality at one sensor, as of its newest reading
+export interface WaterQualitySnapshot {
+  source: WaterQualitySource;
+  deviceId: string;
+  sensorName: string;
+  // How far the sensor is from the user, when both positions are known
+  distanceMeters: number | null;
+  // Latest reading of each parameter the sensor reports
+  readings: LatestReadings;
+  // When the newest of those readings was taken (ISO 8601)
+  updatedAt: string;
+}
+
+export type SnapshotListener = (snapshot: WaterQualitySnapshot | null) => void;
+
+// A feed of water quality for the user's position. Screens subscribe to a
+// provider without knowing whether the numbers come from a sensor in their
+// hand, a neighbour's sensor or the demo.
+export interface WaterQualityProvider {
+  // Call the listener with each new snapshot, or null while there is
+  // nothing to show. `origin` is the user's position, if known.
+  subscribe(origin: Coordinates | null, listener: SnapshotListener): Unsubscribe;
+}
+
+// When the newest of a set of readings was taken
+export const getNewestTimestamp = (readings: LatestReadings): string | null =>
+  Object.values(readings).reduce<string | null>(
+    (newest, reading) => (reading && (!newest || reading.timestamp > newest) ? reading.timestamp : newest),
+    null
+  );
@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+
+/**
+ * A stand-in for the symptom checker's AI models, for developing and checking provider contracts offline.
+ * It answers the local provider (POST /assess), the OpenAI chat-completions API (POST /v1/chat/completions)
+ * and the Gemini API (POST /v1beta/models/<model>:generateContent) with the same canned assessment,
+ * and rejects requests that do not match the shape each provider sends.
+ *
+ * Usage: node scripts/assessment-stub-server.js [port] [--malformed]   (default port 8787)
+ * With --malformed, first answers are wrapped in prose with an out-of-range probability and no riskLevel,
+ * and only repair requests (a follow-up after the model's own answer) get the valid assessment.
+ * Then set EXPO_PUBLIC_AI_PROVIDER=local in the app, or run functions/assessment-proxy locally with
+ * AI_BASE_URL=http://<host>:8787/v1 for OpenAI or http://<host>:8787/v1beta for Gemini.
+ * The Android emulator reaches the host as 10.0.2.2.
+ */
+
+const http = require("http");
+
+const args = process.argv.slice(2);
+const port = Number(args.find((arg) => !arg.startsWith("--"))) || 8787;
+const malformed = args.includes("--malformed");
+
+const assessment = {
+  possibleConditions: [
+    {
+      name: "Stub Water-borne Infection",
+      probability: 50,
+      description: "Canned answer from the assessment stub server.",
+      severity: "medium",
+      commonDuration: "3-7 days",
+      waterSource: "Untreated drinking water",
+    },
+  ],
+  riskLevel: "medium",
+  homeRemedies: ["💧 Oral Rehydration Solution (ORS)"],
+  whenToSeekHelp: ["🚨 Signs of severe dehydration"],
+  generalAdvice: ["🚰 Only drink boiled or treated water"],
+  preventionTips: ["🔥 Boil drinking water for at least 1 minute"],
+  disclaimer: "Stub assessment for development only. Not medical advice.",
+};
+
+// What a careless model answers: chatty, out of range and incomplete
+const malformedAnswer = `Here is the assessment you asked for:\n${JSON.stringify({
+  ...assessment,
+  riskLevel: undefined,
+  possibleConditions: [{ ...assessment.possibleConditions[0], probability: 140 }],
+})}\nI hope this helps!`;
+
+const answer = (isRepair) => (malformed && !isRepair ? malformedAnswer : JSON.stringify(assessment));
+
+const isString = (value) => typeof value === "string" && value.length > 0;
+
+// Checks each provider's request body; returns a reason it is wrong, or null
+const routes = [
+  {
+    match: (url) => url === "/assess",
+    check: (body) =>
+      Array.isArray(body.symptoms) && body.questionnaire && typeof body.questionnaire === "object"
+        ? null
+        : "expected { symptoms: string[], questionnaire: {...} }",
+    // Never repaired, so sent as is
+    respond: () => (malformed ? malformedAnswer : assessment),
+  },
+  {
+    match: (url) => url === "/v1/chat/completions",
+    check: (body, headers) => {
+      if (!isString(headers.authorization)) return "missing Authorization header";
+      if (!isString(body.model)) return "missing model";
+      if (!Array.isArray(body.messages) || !body.messages.some((m) => m.role === "user" && isString(m.content))) {
+        return "expected a user message";
+      }
+      return null;
+    },
+    respond: (body) => ({
+      id: "chatcmpl-stub",
+      object: "chat.completion",
+      model: body.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: answer(body.messages.some((m) => m.role === "assistant")) },
+          finish_reason: "stop",
+        },
+      ],
+    }),
+  },
+  {
+    match: (url) => /^\/v1beta\/models\/[^/]+:generateContent$/.test(url),
+    check: (body, headers) => {
+      if (!isString(headers["x-goog-api-key"])) return "missing x-goog-api-key header";
+      const text = body.contents?.[0]?.parts?.[0]?.text;
+      return isString(text) ? null : "expected contents[0].parts[0].text";
+    },
+    respond: (body) => ({
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text: answer(body.contents.some((c) => c.role === "model")) }] },
+          finishReason: "STOP",
+        },
+      ],
+    }),
+  },
+];
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(typeof body === "string" ? body : JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const route = req.method === "POST" && routes.find((candidate) => candidate.match(req.url.split("?")[0]));
+  if (!route) {
+    send(res, 404, { error: `No stub for ${req.method} ${req.url}` });
+    return;
+  }
+
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      send(res, 400, { error: "Body is not JSON" });
+      return;
+    }
+
+    const problem = route.check(body, req.headers);
+    if (problem) {
+      console.log(`400 ${req.url}: ${problem}`);
+      send(res, 400, { error: problem });
+      return;
+    }
+    console.log(`200 ${req.url}`);
+    send(res, 200, route.respond(body));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Assessment stub server listening on http://localhost:${port}`);
+});